@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, canAccessServer } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { acknowledgeAlert, resolveAlert, alertEventInclude, toAlertEvent } from '@/lib/alerts';
+import type { ApiResponse, User, AlertEvent } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// PUT /api/alerts/[id] - Acknowledge or resolve an alert ({ action: 'acknowledge' | 'resolve' })
+export const PUT = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const alertId = parseInt(params.id);
+
+    if (isNaN(alertId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid alert ID'
+      }, { status: 400 });
+    }
+
+    const { action } = await request.json() as { action?: string };
+
+    if (action !== 'acknowledge' && action !== 'resolve') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Action must be acknowledge or resolve'
+      }, { status: 400 });
+    }
+
+    const event = await prisma.alertEvent.findUnique({
+      where: { id: alertId },
+      select: { serverId: true }
+    });
+
+    if (!event) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Alert not found'
+      }, { status: 404 });
+    }
+
+    if (!await canAccessServer(request.user.id, event.serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied to this server'
+      }, { status: 403 });
+    }
+
+    const updated = action === 'acknowledge'
+      ? await acknowledgeAlert(alertId, request.user)
+      : await resolveAlert(alertId, request.user);
+
+    if (!updated) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: action === 'acknowledge' ? 'Alert is not firing' : 'Alert is already resolved'
+      }, { status: 409 });
+    }
+
+    const alert = await prisma.alertEvent.findUniqueOrThrow({
+      where: { id: alertId },
+      include: alertEventInclude
+    });
+
+    return NextResponse.json<ApiResponse<AlertEvent>>({
+      success: true,
+      data: toAlertEvent(alert),
+      message: action === 'acknowledge' ? 'Alert acknowledged' : 'Alert resolved'
+    });
+
+  } catch (error) {
+    console.error('Update alert error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update alert'
+    }, { status: 500 });
+  }
+});
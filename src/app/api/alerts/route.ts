@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { alertEventInclude, toAlertEvent } from '@/lib/alerts';
+import type { ApiResponse, User, AlertEvent } from '@/types';
+
+// GET /api/alerts - Get alert events (status=open|resolved|all, default open)
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'open';
+    const serverId = parseInt(searchParams.get('serverId') || '');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200);
+
+    const where: any = {};
+
+    if (status === 'open') {
+      where.status = { in: ['FIRING', 'ACKNOWLEDGED'] };
+    } else if (status === 'resolved') {
+      where.status = 'RESOLVED';
+    }
+
+    if (!isNaN(serverId)) {
+      where.serverId = serverId;
+    }
+
+    // Non-admin users can only see alerts of their own servers
+    if (request.user.role !== 'ADMIN') {
+      where.server = { userId: request.user.id };
+    }
+
+    const events = await prisma.alertEvent.findMany({
+      where,
+      include: alertEventInclude,
+      orderBy: { firedAt: 'desc' },
+      take: limit
+    });
+
+    return NextResponse.json<ApiResponse<AlertEvent[]>>({
+      success: true,
+      data: events.map(toAlertEvent)
+    });
+
+  } catch (error) {
+    console.error('Get alerts error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch alerts'
+    }, { status: 500 });
+  }
+});
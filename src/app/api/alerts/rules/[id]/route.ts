@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { normalizeTags } from '@/lib/utils';
+import { validateAlertRule, toAlertRule } from '@/lib/alerts';
+import type { ApiResponse, User, AlertRule, AlertRuleData } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// PUT /api/alerts/rules/[id] - Update alert rule (Admin only)
+export const PUT = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const ruleId = parseInt(params.id);
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid rule ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json() as Partial<AlertRuleData>;
+
+    const validationError = validateAlertRule(body, true);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const existingRule = await prisma.alertRule.findUnique({
+      where: { id: ruleId }
+    });
+
+    if (!existingRule) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Alert rule not found'
+      }, { status: 404 });
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id: ruleId },
+      data: {
+        ...(body.name !== undefined && { name: body.name.trim() }),
+        ...(body.metric !== undefined && { metric: body.metric }),
+        ...(body.comparator !== undefined && { comparator: body.comparator }),
+        ...(body.threshold !== undefined && { threshold: body.threshold }),
+        ...(body.duration !== undefined && { duration: body.duration }),
+        ...(body.severity !== undefined && { severity: body.severity }),
+        ...(body.serverIds !== undefined && { serverIds: body.serverIds }),
+        ...(body.tags !== undefined && { tags: normalizeTags(body.tags) }),
+        ...(body.isActive !== undefined && { isActive: body.isActive })
+      }
+    });
+
+    return NextResponse.json<ApiResponse<AlertRule>>({
+      success: true,
+      data: toAlertRule(rule),
+      message: 'Alert rule updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update alert rule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update alert rule'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/alerts/rules/[id] - Delete alert rule and its alert history (Admin only)
+export const DELETE = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const ruleId = parseInt(params.id);
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid rule ID'
+      }, { status: 400 });
+    }
+
+    const existingRule = await prisma.alertRule.findUnique({
+      where: { id: ruleId }
+    });
+
+    if (!existingRule) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Alert rule not found'
+      }, { status: 404 });
+    }
+
+    await prisma.alertRule.delete({
+      where: { id: ruleId }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Alert rule deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete alert rule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete alert rule'
+    }, { status: 500 });
+  }
+});
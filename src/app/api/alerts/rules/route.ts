@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { normalizeTags } from '@/lib/utils';
+import { validateAlertRule, toAlertRule } from '@/lib/alerts';
+import type { ApiResponse, User, AlertRule, AlertRuleData } from '@/types';
+
+// GET /api/alerts/rules - Get alert rules (Admin only)
+export const GET = withAdminAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const rules = await prisma.alertRule.findMany({
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json<ApiResponse<AlertRule[]>>({
+      success: true,
+      data: rules.map(toAlertRule)
+    });
+
+  } catch (error) {
+    console.error('Get alert rules error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch alert rules'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/alerts/rules - Create alert rule (Admin only)
+export const POST = withAdminAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const body = await request.json() as AlertRuleData;
+
+    const validationError = validateAlertRule(body);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        name: body.name.trim(),
+        metric: body.metric,
+        comparator: body.comparator,
+        threshold: body.threshold,
+        duration: body.duration,
+        severity: body.severity,
+        serverIds: body.serverIds || [],
+        tags: normalizeTags(body.tags),
+        isActive: body.isActive
+      }
+    });
+
+    return NextResponse.json<ApiResponse<AlertRule>>({
+      success: true,
+      data: toAlertRule(rule),
+      message: 'Alert rule created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create alert rule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create alert rule'
+    }, { status: 500 });
+  }
+});
@@ -1,12 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateUser, generateToken, checkRateLimit } from '@/lib/auth';
-import type { LoginCredentials, ApiResponse, User } from '@/types';
+import {
+  authenticateUser,
+  completeTwoFactorLogin,
+  generateToken,
+  generateTwoFactorChallenge,
+  checkRateLimit,
+  IP_NOT_ALLOWED_ERROR
+} from '@/lib/auth';
+import { isIpAllowed } from '@/lib/ip-allowlist';
+import { getRequestIp } from '@/lib/ip-address';
+import type { LoginCredentials, TwoFactorLoginData, TwoFactorChallenge, ApiResponse, User } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
-    const clientIP = request.ip || request.headers.get('x-forwarded-for') || 'unknown';
+    const clientIP = getRequestIp(request);
+
+    if (!await isIpAllowed(clientIP)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: IP_NOT_ALLOWED_ERROR
+      }, { status: 403 });
+    }
     
-    // Rate limiting: 5 attempts per minute per IP
+    // Rate limiting: 5 attempts per minute per IP; requests without a known address share one bucket
     if (!checkRateLimit(`login-${clientIP}`, 5, 60000)) {
       return NextResponse.json<ApiResponse>({
         success: false,
@@ -14,25 +30,43 @@ export async function POST(request: NextRequest) {
       }, { status: 429 });
     }
 
-    const body = await request.json() as LoginCredentials;
-    const { email, password } = body;
+    const body = await request.json() as Partial<LoginCredentials & TwoFactorLoginData>;
+    const { email, password, challengeToken, code } = body;
+    const isTwoFactorStep = !!challengeToken;
 
     // Validate input
-    if (!email || !password) {
+    if (isTwoFactorStep ? !code : !email || !password) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Email and password are required'
+        error: isTwoFactorStep ? 'Verification code is required' : 'Email and password are required'
       }, { status: 400 });
     }
 
-    // Authenticate user
-    const user = await authenticateUser(email, password);
+    // Authenticate user (enforces account and IP lockout); the second step exchanges
+    // the challenge token from the first for a session token
+    const result = isTwoFactorStep
+      ? await completeTwoFactorLogin(challengeToken!, code!, clientIP)
+      : await authenticateUser(email!, password!, clientIP);
     
-    if (!user) {
-      return NextResponse.json<ApiResponse>({
+    if (!result.success) {
+      return NextResponse.json<ApiResponse<{ lockedUntil?: string }>>({
         success: false,
-        error: 'Invalid email or password'
-      }, { status: 401 });
+        error: result.error,
+        ...(result.lockedUntil && { data: { lockedUntil: result.lockedUntil } })
+      }, { status: result.lockedUntil ? 423 : 401 });
+    }
+
+    const { user } = result;
+
+    if (result.twoFactorRequired) {
+      return NextResponse.json<ApiResponse<TwoFactorChallenge>>({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateTwoFactorChallenge(user.id)
+        },
+        message: 'Verification code required'
+      });
     }
 
     // Generate token
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isIpAllowed } from '@/lib/ip-allowlist';
+import { getRequestIp } from '@/lib/ip-address';
+import { IP_NOT_ALLOWED_ERROR } from '@/lib/auth';
+import { getMetricsToken, isMetricsTokenValid, renderMetrics } from '@/lib/prometheus';
+import type { ApiResponse } from '@/types';
+
+// GET /api/metrics - Prometheus metrics (METRICS_TOKEN bearer token)
+export async function GET(request: NextRequest) {
+  try {
+    if (!getMetricsToken()) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Metrics endpoint is disabled'
+      }, { status: 404 });
+    }
+
+    if (!await isIpAllowed(getRequestIp(request))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: IP_NOT_ALLOWED_ERROR
+      }, { status: 403 });
+    }
+
+    if (!isMetricsTokenValid(request.headers.get('authorization'))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid metrics token'
+      }, { status: 401 });
+    }
+
+    return new NextResponse(await renderMetrics(), {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Metrics export error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to export metrics'
+    }, { status: 500 });
+  }
+}
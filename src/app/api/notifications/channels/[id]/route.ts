@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { encryptOptional } from '@/lib/vault';
+import {
+  validateNotificationChannel,
+  pickChannelConfig,
+  NOTIFICATION_SECRET_CONTEXT
+} from '@/lib/notification-channels';
+import { toNotificationChannel } from '@/lib/notifications';
+import type {
+  ApiResponse,
+  User,
+  NotificationChannel,
+  NotificationChannelData,
+  NotificationChannelConfig,
+  NotificationEventType
+} from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// PUT /api/notifications/channels/[id] - Update notification channel (Admin only)
+export const PUT = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const channelId = parseInt(params.id);
+
+    if (isNaN(channelId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid channel ID'
+      }, { status: 400 });
+    }
+
+    const existingChannel = await prisma.notificationChannel.findUnique({
+      where: { id: channelId }
+    });
+
+    if (!existingChannel) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Notification channel not found'
+      }, { status: 404 });
+    }
+
+    const body = await request.json() as Partial<NotificationChannelData>;
+
+    // Validate the channel as it will be after the update
+    const merged: Partial<NotificationChannelData> = {
+      name: body.name ?? existingChannel.name,
+      type: body.type ?? existingChannel.type,
+      config: body.config ?? existingChannel.config as NotificationChannelConfig,
+      secret: body.secret,
+      events: body.events ?? existingChannel.events as NotificationEventType[]
+    };
+
+    // A stored secret belongs to the old type (e.g. a Slack URL is not a LINE token)
+    const keepsSecret = !!existingChannel.secret && merged.type === existingChannel.type;
+
+    const validationError = validateNotificationChannel(merged, keepsSecret);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const secretChanged = body.secret === null || (typeof body.secret === 'string' && body.secret.length > 0);
+
+    const channel = await prisma.notificationChannel.update({
+      where: { id: channelId },
+      data: {
+        name: merged.name!.trim(),
+        type: merged.type,
+        config: pickChannelConfig(merged.type!, merged.config) as any,
+        events: merged.events,
+        ...(secretChanged && { secret: encryptOptional(body.secret, NOTIFICATION_SECRET_CONTEXT) }),
+        ...(!secretChanged && !keepsSecret && { secret: null }),
+        ...(body.isActive !== undefined && { isActive: body.isActive })
+      }
+    });
+
+    return NextResponse.json<ApiResponse<NotificationChannel>>({
+      success: true,
+      data: toNotificationChannel(channel),
+      message: 'Notification channel updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update notification channel error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update notification channel'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/notifications/channels/[id] - Delete notification channel and its delivery log (Admin only)
+export const DELETE = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const channelId = parseInt(params.id);
+
+    if (isNaN(channelId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid channel ID'
+      }, { status: 400 });
+    }
+
+    const existingChannel = await prisma.notificationChannel.findUnique({
+      where: { id: channelId }
+    });
+
+    if (!existingChannel) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Notification channel not found'
+      }, { status: 404 });
+    }
+
+    await prisma.notificationChannel.delete({
+      where: { id: channelId }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Notification channel deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete notification channel error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete notification channel'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { deliverToChannel } from '@/lib/notifications';
+import type { ApiResponse, User } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// POST /api/notifications/channels/[id]/test - Send a test notification, ignoring event filters (Admin only)
+export const POST = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const channelId = parseInt(params.id);
+
+    if (isNaN(channelId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid channel ID'
+      }, { status: 400 });
+    }
+
+    const channel = await prisma.notificationChannel.findUnique({
+      where: { id: channelId }
+    });
+
+    if (!channel) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Notification channel not found'
+      }, { status: 404 });
+    }
+
+    const result = await deliverToChannel(channel, {
+      event: 'TEST',
+      title: 'Test notification',
+      message: `Test notification for channel "${channel.name}", sent by ${request.user.email}.`,
+      severity: 'info',
+      timestamp: new Date().toISOString()
+    });
+
+    if (!result.success) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Delivery failed: ${result.error}`
+      }, { status: 502 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Test notification sent'
+    });
+
+  } catch (error) {
+    console.error('Test notification channel error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to send test notification'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { encryptOptional } from '@/lib/vault';
+import {
+  validateNotificationChannel,
+  pickChannelConfig,
+  NOTIFICATION_SECRET_CONTEXT
+} from '@/lib/notification-channels';
+import { toNotificationChannel } from '@/lib/notifications';
+import type { ApiResponse, User, NotificationChannel, NotificationChannelData } from '@/types';
+
+// GET /api/notifications/channels - Get notification channels (Admin only)
+export const GET = withAdminAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const channels = await prisma.notificationChannel.findMany({
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json<ApiResponse<NotificationChannel[]>>({
+      success: true,
+      data: channels.map(toNotificationChannel)
+    });
+
+  } catch (error) {
+    console.error('Get notification channels error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch notification channels'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/notifications/channels - Create notification channel (Admin only)
+export const POST = withAdminAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const body = await request.json() as NotificationChannelData;
+
+    const validationError = validateNotificationChannel(body);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const channel = await prisma.notificationChannel.create({
+      data: {
+        name: body.name.trim(),
+        type: body.type,
+        config: pickChannelConfig(body.type, body.config) as any,
+        secret: encryptOptional(body.secret, NOTIFICATION_SECRET_CONTEXT),
+        events: body.events,
+        isActive: body.isActive
+      }
+    });
+
+    return NextResponse.json<ApiResponse<NotificationChannel>>({
+      success: true,
+      data: toNotificationChannel(channel),
+      message: 'Notification channel created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create notification channel error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create notification channel'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { toNotificationDelivery } from '@/lib/notifications';
+import type { ApiResponse, User, NotificationDelivery } from '@/types';
+
+const MAX_LIMIT = 200;
+
+// GET /api/notifications/deliveries - Get recent notification deliveries (Admin only)
+export const GET = withAdminAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const channelId = parseInt(searchParams.get('channelId') || '');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '') || 50, MAX_LIMIT);
+
+    const deliveries = await prisma.notificationDelivery.findMany({
+      where: isNaN(channelId) ? {} : { channelId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return NextResponse.json<ApiResponse<NotificationDelivery[]>>({
+      success: true,
+      data: deliveries.map(toNotificationDelivery)
+    });
+
+  } catch (error) {
+    console.error('Get notification deliveries error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch notification deliveries'
+    }, { status: 500 });
+  }
+});
@@ -22,6 +22,7 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
         email: true,
         role: true,
         isActive: true,
+        twoFactorEnabled: true,
         createdAt: true,
         updatedAt: true
       }
@@ -136,6 +137,7 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }) => {
         email: true,
         role: true,
         isActive: true,
+        twoFactorEnabled: true,
         createdAt: true,
         updatedAt: true
       }
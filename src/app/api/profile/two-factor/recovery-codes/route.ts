@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { verifyTwoFactorCode, regenerateRecoveryCodes } from '@/lib/two-factor';
+import type { ApiResponse, User } from '@/types';
+
+// POST /api/profile/two-factor/recovery-codes - Replace recovery codes (requires a current code)
+export const POST = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { code } = await request.json() as { code?: string };
+
+    if (!code) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Verification code is required'
+      }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: request.user.id }
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      }, { status: 400 });
+    }
+
+    if (!await verifyTwoFactorCode(user, code)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid verification code'
+      }, { status: 401 });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user);
+
+    return NextResponse.json<ApiResponse<{ recoveryCodes: string[] }>>({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Recovery codes regenerated'
+    });
+
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to regenerate recovery codes'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, comparePassword } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { getSecuritySettings } from '@/lib/security-settings';
+import {
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  verifyTwoFactorCode,
+  disableTwoFactor
+} from '@/lib/two-factor';
+import type { ApiResponse, TwoFactorStatus, TwoFactorSetup, User } from '@/types';
+
+// Enrollment is open when 2FA is enabled, and always for admins who are required to use it
+async function getTwoFactorPolicy(user: User) {
+  const settings = await getSecuritySettings();
+  const required = settings.requireTwoFactorForAdmins && user.role === 'ADMIN';
+
+  return {
+    enrollmentAllowed: settings.enableTwoFactor || required,
+    required
+  };
+}
+
+// GET /api/profile/two-factor - Get two-factor status for the current user
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const [status, policy] = await Promise.all([
+      getTwoFactorStatus(request.user.id),
+      getTwoFactorPolicy(request.user)
+    ]);
+
+    return NextResponse.json<ApiResponse<TwoFactorStatus>>({
+      success: true,
+      data: { ...status, ...policy }
+    });
+
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch two-factor status'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/profile/two-factor - Start enrollment (returns secret and provisioning URI)
+export const POST = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { enrollmentAllowed } = await getTwoFactorPolicy(request.user);
+    if (!enrollmentAllowed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Two-factor authentication is not enabled on this system'
+      }, { status: 403 });
+    }
+
+    const status = await getTwoFactorStatus(request.user.id);
+    if (status.enabled) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      }, { status: 409 });
+    }
+
+    const setup = await beginTwoFactorSetup(request.user);
+
+    return NextResponse.json<ApiResponse<TwoFactorSetup>>({
+      success: true,
+      data: setup,
+      message: 'Scan the QR code and confirm with a code from your authenticator app'
+    });
+
+  } catch (error) {
+    console.error('Begin two-factor setup error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to start two-factor setup'
+    }, { status: 500 });
+  }
+});
+
+// PUT /api/profile/two-factor - Confirm enrollment with a code (returns recovery codes once)
+export const PUT = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { code } = await request.json() as { code?: string };
+
+    if (!code) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Verification code is required'
+      }, { status: 400 });
+    }
+
+    const recoveryCodes = await confirmTwoFactorSetup(request.user, code);
+    if (!recoveryCodes) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid verification code'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<{ recoveryCodes: string[] }>>({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled'
+    });
+
+  } catch (error) {
+    console.error('Confirm two-factor setup error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to enable two-factor authentication'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/profile/two-factor - Disable two-factor (requires password and a current code)
+export const DELETE = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { password, code } = await request.json() as { password?: string; code?: string };
+
+    if (!password || !code) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Password and verification code are required'
+      }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: request.user.id }
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      }, { status: 400 });
+    }
+
+    if (!await comparePassword(password, user.password)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Password is incorrect'
+      }, { status: 401 });
+    }
+
+    if (!await verifyTwoFactorCode(user, code)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid verification code'
+      }, { status: 401 });
+    }
+
+    await disableTwoFactor(user);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to disable two-factor authentication'
+    }, { status: 500 });
+  }
+});
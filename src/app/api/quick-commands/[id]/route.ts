@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/auth';
 import { prisma } from '@/lib/database';
-import type { ApiResponse, User } from '@/types';
+import type { Prisma } from '@prisma/client';
+import { normalizeParameters, validateParameterDefinitions } from '@/lib/script-parameters';
+import type { ApiResponse, User, ScriptParameter } from '@/types';
 
 export interface QuickCommand {
   id: number;
@@ -11,6 +13,7 @@ export interface QuickCommand {
   category?: string;
   color?: string;
   icon?: string;
+  parameters?: ScriptParameter[];
   sortOrder: number;
   isActive: boolean;
   userId: number;
@@ -25,6 +28,7 @@ export interface UpdateQuickCommandData {
   category?: string;
   color?: string;
   icon?: string;
+  parameters?: ScriptParameter[];
   sortOrder?: number;
   isActive?: boolean;
 }
@@ -68,6 +72,7 @@ export const GET = withAuth(async (request: NextRequest & { user: User }, { para
       category: quickCommand.category || undefined,
       color: quickCommand.color || 'gray',
       icon: quickCommand.icon || undefined,
+      parameters: normalizeParameters(quickCommand.parameters),
       sortOrder: quickCommand.sortOrder,
       isActive: quickCommand.isActive,
       userId: quickCommand.userId,
@@ -118,7 +123,7 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
     }
 
     const body = await request.json() as UpdateQuickCommandData;
-    const { name, command, description, category, color, icon, sortOrder, isActive } = body;
+    const { name, command, description, category, color, icon, parameters, sortOrder, isActive } = body;
 
     // Validate name if provided
     if (name !== undefined && !name.trim()) {
@@ -136,6 +141,18 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
       }, { status: 400 });
     }
 
+    // Placeholders are checked against the command the quick command ends up with
+    const parametersError = validateParameterDefinitions(
+      parameters ?? normalizeParameters(existingCommand.parameters),
+      command ?? existingCommand.command
+    );
+    if (parametersError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parametersError
+      }, { status: 400 });
+    }
+
     // Check for duplicate name (if changing name)
     if (name && name.trim() !== existingCommand.name) {
       const duplicateCommand = await prisma.quickCommand.findFirst({
@@ -162,6 +179,7 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
     if (category !== undefined) updateData.category = category?.trim() || null;
     if (color !== undefined) updateData.color = color;
     if (icon !== undefined) updateData.icon = icon || null;
+    if (parameters !== undefined) updateData.parameters = parameters as unknown as Prisma.InputJsonArray;
     if (sortOrder !== undefined) updateData.sortOrder = sortOrder;
     if (isActive !== undefined) updateData.isActive = isActive;
 
@@ -179,6 +197,7 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
       category: updatedCommand.category || undefined,
       color: updatedCommand.color || 'gray',
       icon: updatedCommand.icon || undefined,
+      parameters: normalizeParameters(updatedCommand.parameters),
       sortOrder: updatedCommand.sortOrder,
       isActive: updatedCommand.isActive,
       userId: updatedCommand.userId,
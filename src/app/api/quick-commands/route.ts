@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/auth';
 import { prisma } from '@/lib/database';
-import type { ApiResponse, User } from '@/types';
+import type { Prisma } from '@prisma/client';
+import { normalizeParameters, validateParameterDefinitions } from '@/lib/script-parameters';
+import type { ApiResponse, User, ScriptParameter } from '@/types';
 
 export interface QuickCommand {
   id: number;
@@ -11,6 +13,7 @@ export interface QuickCommand {
   category?: string;
   color?: string;
   icon?: string;
+  parameters?: ScriptParameter[];
   sortOrder: number;
   isActive: boolean;
   userId: number;
@@ -25,6 +28,7 @@ export interface CreateQuickCommandData {
   category?: string;
   color?: string;
   icon?: string;
+  parameters?: ScriptParameter[];
   sortOrder?: number;
 }
 
@@ -67,6 +71,7 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
       category: cmd.category || undefined,
       color: cmd.color || 'gray',
       icon: cmd.icon || undefined,
+      parameters: normalizeParameters(cmd.parameters),
       sortOrder: cmd.sortOrder,
       isActive: cmd.isActive,
       userId: cmd.userId,
@@ -93,7 +98,7 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
   try {
     const userId = request.user.id;
     const body = await request.json() as CreateQuickCommandData;
-    const { name, command, description, category, color, icon, sortOrder } = body;
+    const { name, command, description, category, color, icon, parameters, sortOrder } = body;
 
     // Validate input
     if (!name || !name.trim()) {
@@ -110,6 +115,14 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
       }, { status: 400 });
     }
 
+    const parametersError = validateParameterDefinitions(parameters, command);
+    if (parametersError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parametersError
+      }, { status: 400 });
+    }
+
     // Check for duplicate name
     const existingCommand = await prisma.quickCommand.findFirst({
       where: {
@@ -142,6 +155,7 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
         category: category?.trim() || null,
         color: color || 'gray',
         icon: icon || null,
+        parameters: (parameters || []) as unknown as Prisma.InputJsonArray,
         sortOrder: newSortOrder,
         isActive: true,
         userId
@@ -156,6 +170,7 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
       category: newQuickCommand.category || undefined,
       color: newQuickCommand.color || 'gray',
       icon: newQuickCommand.icon || undefined,
+      parameters: normalizeParameters(newQuickCommand.parameters),
       sortOrder: newQuickCommand.sortOrder,
       isActive: newQuickCommand.isActive,
       userId: newQuickCommand.userId,
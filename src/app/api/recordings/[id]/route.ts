@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import type { ApiResponse, User, TerminalRecording } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/recordings/[id] - Get a recording with its asciicast content
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const recordingId = parseInt(params.id);
+
+    if (isNaN(recordingId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid recording ID'
+      }, { status: 400 });
+    }
+
+    const recording = await prisma.terminalRecording.findUnique({
+      where: { id: recordingId },
+      include: {
+        server: {
+          select: {
+            id: true,
+            name: true,
+            host: true
+          }
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      }
+    });
+
+    if (!recording) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Recording not found'
+      }, { status: 404 });
+    }
+
+    // Admin can view any recording, others only their own sessions
+    if (request.user.role !== 'ADMIN' && recording.userId !== request.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied to this recording'
+      }, { status: 403 });
+    }
+
+    const recordingData: TerminalRecording = {
+      ...recording,
+      clientIp: recording.clientIp || undefined,
+      serverId: recording.serverId ?? undefined,
+      serverName: recording.server?.name || recording.serverName || undefined,
+      serverHost: recording.server?.host || recording.serverHost || undefined,
+      server: recording.server || undefined,
+      content: recording.content || '',
+      startedAt: recording.startedAt.toISOString(),
+      endedAt: recording.endedAt?.toISOString(),
+      duration: recording.duration ?? undefined
+    };
+
+    return NextResponse.json<ApiResponse<TerminalRecording>>({
+      success: true,
+      data: recordingData
+    });
+
+  } catch (error) {
+    console.error('Get recording error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch recording'
+    }, { status: 500 });
+  }
+});
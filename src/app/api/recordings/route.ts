@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import type { ApiResponse, User, TerminalRecording, PaginatedResponse } from '@/types';
+
+// GET /api/recordings - List terminal session recordings
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const serverId = searchParams.get('serverId');
+    const userIdFilter = searchParams.get('userId');
+    const search = searchParams.get('search') || '';
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    const isAdmin = request.user.role === 'ADMIN';
+
+    // Build where clause
+    const where: any = {};
+
+    // Non-admin users can only see their own recordings
+    if (!isAdmin) {
+      where.userId = request.user.id;
+    } else if (userIdFilter) {
+      where.userId = parseInt(userIdFilter);
+    }
+
+    if (serverId) {
+      where.serverId = parseInt(serverId);
+    }
+
+    // Full-text search across recorded input and output
+    if (search) {
+      where.content = { contains: search };
+    }
+
+    if (startDate || endDate) {
+      where.startedAt = {};
+      if (startDate) {
+        where.startedAt.gte = new Date(startDate);
+      }
+      if (endDate) {
+        where.startedAt.lte = new Date(endDate);
+      }
+    }
+
+    const total = await prisma.terminalRecording.count({ where });
+
+    const recordings = await prisma.terminalRecording.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      select: {
+        id: true,
+        sessionId: true,
+        cols: true,
+        rows: true,
+        size: true,
+        truncated: true,
+        clientIp: true,
+        startedAt: true,
+        endedAt: true,
+        duration: true,
+        userId: true,
+        serverId: true,
+        serverName: true,
+        serverHost: true,
+        server: {
+          select: {
+            id: true,
+            name: true,
+            host: true
+          }
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      }
+    });
+
+    const recordingsData: TerminalRecording[] = recordings.map(recording => ({
+      ...recording,
+      clientIp: recording.clientIp || undefined,
+      serverId: recording.serverId ?? undefined,
+      serverName: recording.server?.name || recording.serverName || undefined,
+      serverHost: recording.server?.host || recording.serverHost || undefined,
+      server: recording.server || undefined,
+      startedAt: recording.startedAt.toISOString(),
+      endedAt: recording.endedAt?.toISOString(),
+      duration: recording.duration ?? undefined
+    }));
+
+    return NextResponse.json<PaginatedResponse<TerminalRecording>>({
+      success: true,
+      data: recordingsData,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get recordings error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch recordings'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { normalizeTags } from '@/lib/utils';
+import { scriptInclude, toScript, validateScriptData, canViewScript, canEditScript } from '@/lib/scripts';
+import { normalizeParameters, validateParameterDefinitions } from '@/lib/script-parameters';
+import type { ApiResponse, User, Script, ScriptData } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/scripts/[id] - Get a saved script
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const scriptId = parseInt(params.id);
+
+    if (isNaN(scriptId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid script ID'
+      }, { status: 400 });
+    }
+
+    const script = await prisma.script.findUnique({
+      where: { id: scriptId },
+      include: scriptInclude
+    });
+
+    // Private scripts of other users are reported as missing
+    if (!script || !canViewScript(script, request.user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Script not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<Script>>({
+      success: true,
+      data: toScript(script, request.user)
+    });
+
+  } catch (error) {
+    console.error('Get script error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch script'
+    }, { status: 500 });
+  }
+});
+
+// PUT /api/scripts/[id] - Update a script; content changes create a new version
+export const PUT = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const scriptId = parseInt(params.id);
+
+    if (isNaN(scriptId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid script ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json() as Partial<ScriptData>;
+
+    const validationError = validateScriptData(body, true);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const existingScript = await prisma.script.findUnique({
+      where: { id: scriptId }
+    });
+
+    if (!existingScript || !canViewScript(existingScript, request.user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Script not found'
+      }, { status: 404 });
+    }
+
+    if (!canEditScript(existingScript, request.user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Only the owner or an admin can edit this script'
+      }, { status: 403 });
+    }
+
+    if (body.requiresApproval !== undefined && body.requiresApproval !== existingScript.requiresApproval && request.user.role !== 'ADMIN') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Only an admin can change whether a script requires approval'
+      }, { status: 403 });
+    }
+
+    if (body.baseVersion !== undefined && body.baseVersion !== existingScript.version) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Script was changed to version ${existingScript.version} since you opened it`
+      }, { status: 409 });
+    }
+
+    const name = body.name !== undefined ? body.name.trim() : existingScript.name;
+    const description = body.description !== undefined ? body.description?.trim() || null : existingScript.description;
+    const command = body.command !== undefined ? body.command.trim() : existingScript.command;
+    const parameters = body.parameters !== undefined ? body.parameters : normalizeParameters(existingScript.parameters);
+
+    const parametersError = validateParameterDefinitions(parameters, command);
+    if (parametersError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parametersError
+      }, { status: 400 });
+    }
+
+    const contentChanged = name !== existingScript.name
+      || description !== existingScript.description
+      || command !== existingScript.command
+      || JSON.stringify(parameters) !== JSON.stringify(normalizeParameters(existingScript.parameters));
+    const nextVersion = existingScript.version + 1;
+    const parametersJson = parameters as unknown as Prisma.InputJsonArray;
+
+    const script = await prisma.$transaction(async tx => {
+      if (contentChanged) {
+        await tx.scriptVersion.create({
+          data: {
+            scriptId,
+            version: nextVersion,
+            name,
+            description,
+            command,
+            parameters: parametersJson,
+            changeNote: body.changeNote?.trim() || null,
+            createdById: request.user.id
+          }
+        });
+      }
+
+      return tx.script.update({
+        where: { id: scriptId },
+        data: {
+          name,
+          description,
+          command,
+          parameters: parametersJson,
+          ...(contentChanged && { version: nextVersion }),
+          ...(body.tags !== undefined && { tags: normalizeTags(body.tags) }),
+          ...(body.isShared !== undefined && { isShared: body.isShared }),
+          ...(body.requiresApproval !== undefined && { requiresApproval: body.requiresApproval })
+        },
+        include: scriptInclude
+      });
+    });
+
+    return NextResponse.json<ApiResponse<Script>>({
+      success: true,
+      data: toScript(script, request.user),
+      message: contentChanged ? `Saved as version ${script.version}` : 'Script updated successfully'
+    });
+
+  } catch (error) {
+    // Another save created the same version number first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Script was changed by someone else, reload and try again'
+      }, { status: 409 });
+    }
+
+    console.error('Update script error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update script'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/scripts/[id] - Delete a script and its versions; logs keep their command text
+export const DELETE = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const scriptId = parseInt(params.id);
+
+    if (isNaN(scriptId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid script ID'
+      }, { status: 400 });
+    }
+
+    const existingScript = await prisma.script.findUnique({
+      where: { id: scriptId }
+    });
+
+    if (!existingScript || !canViewScript(existingScript, request.user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Script not found'
+      }, { status: 404 });
+    }
+
+    if (!canEditScript(existingScript, request.user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Only the owner or an admin can delete this script'
+      }, { status: 403 });
+    }
+
+    await prisma.script.delete({
+      where: { id: scriptId }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Script deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete script error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete script'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { scriptVersionInclude, toScriptVersion, canViewScript } from '@/lib/scripts';
+import type { ApiResponse, User, ScriptVersion } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/scripts/[id]/versions - Get the version history of a script, newest first
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const scriptId = parseInt(params.id);
+
+    if (isNaN(scriptId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid script ID'
+      }, { status: 400 });
+    }
+
+    const script = await prisma.script.findUnique({
+      where: { id: scriptId }
+    });
+
+    if (!script || !canViewScript(script, request.user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Script not found'
+      }, { status: 404 });
+    }
+
+    const versions = await prisma.scriptVersion.findMany({
+      where: { scriptId },
+      include: scriptVersionInclude,
+      orderBy: { version: 'desc' }
+    });
+
+    return NextResponse.json<ApiResponse<ScriptVersion[]>>({
+      success: true,
+      data: versions.map(toScriptVersion)
+    });
+
+  } catch (error) {
+    console.error('Get script versions error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch script versions'
+    }, { status: 500 });
+  }
+});
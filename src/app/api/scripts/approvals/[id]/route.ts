@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { decideScriptApproval, cancelScriptApproval, toScriptApprovals } from '@/lib/script-approvals';
+import type { ApiResponse, User, ScriptApproval } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// PUT /api/scripts/approvals/[id] - Approve or reject a pending request (admins only)
+export const PUT = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const approvalId = parseInt(params.id);
+
+    if (isNaN(approvalId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid approval ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json() as { approved?: boolean; comment?: string | null };
+    if (typeof body.approved !== 'boolean') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'approved must be a boolean'
+      }, { status: 400 });
+    }
+
+    const result = await decideScriptApproval(approvalId, request.user, body.approved, body.comment);
+    if ('error' in result) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    const [approval] = await toScriptApprovals([result.approval]);
+    return NextResponse.json<ApiResponse<ScriptApproval>>({
+      success: true,
+      data: approval,
+      message: body.approved ? 'Run approved' : 'Run rejected'
+    });
+
+  } catch (error) {
+    console.error('Decide script approval error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update approval request'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/scripts/approvals/[id] - Withdraw a request that has not run yet
+export const DELETE = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const approvalId = parseInt(params.id);
+
+    if (isNaN(approvalId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid approval ID'
+      }, { status: 400 });
+    }
+
+    const result = await cancelScriptApproval(approvalId, request.user);
+    if ('error' in result) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    const [approval] = await toScriptApprovals([result.approval]);
+    return NextResponse.json<ApiResponse<ScriptApproval>>({
+      success: true,
+      data: approval,
+      message: 'Request cancelled'
+    });
+
+  } catch (error) {
+    console.error('Cancel script approval error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to cancel approval request'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { approvalInclude, toScriptApprovals, visibleApprovalsWhere } from '@/lib/script-approvals';
+import type { ApiResponse, User, ScriptApproval, ScriptApprovalStatus } from '@/types';
+
+const MAX_LIMIT = 100;
+const STATUSES: ScriptApprovalStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED', 'EXECUTED'];
+
+// GET /api/scripts/approvals - Approval requests (admins see all, others their own), optionally by ?status=
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as ScriptApprovalStatus | null;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, MAX_LIMIT);
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid status'
+      }, { status: 400 });
+    }
+
+    const where: Prisma.ScriptApprovalWhereInput = visibleApprovalsWhere(request.user);
+    if (status) {
+      where.status = status;
+    }
+
+    const approvals = await prisma.scriptApproval.findMany({
+      where,
+      include: approvalInclude,
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return NextResponse.json<ApiResponse<ScriptApproval[]>>({
+      success: true,
+      data: await toScriptApprovals(approvals)
+    });
+
+  } catch (error) {
+    console.error('Get script approvals error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch approval requests'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import {
+  executionInclude,
+  scriptLogInclude,
+  toExecution,
+  toScriptLog,
+  visibleExecutionsWhere
+} from '@/lib/script-executions';
+import type { ApiResponse, User, Execution } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/scripts/executions/[id] - Get a script run with each server's log
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const executionId = parseInt(params.id);
+
+    if (isNaN(executionId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid execution ID'
+      }, { status: 400 });
+    }
+
+    const execution = await prisma.execution.findFirst({
+      where: { id: executionId, ...visibleExecutionsWhere(request.user) },
+      include: executionInclude
+    });
+
+    if (!execution) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Execution not found'
+      }, { status: 404 });
+    }
+
+    const logs = await prisma.scriptLog.findMany({
+      where: { executionId },
+      orderBy: { id: 'asc' },
+      include: scriptLogInclude
+    });
+
+    return NextResponse.json<ApiResponse<Execution>>({
+      success: true,
+      data: { ...toExecution(execution), logs: logs.map(toScriptLog) }
+    });
+
+  } catch (error) {
+    console.error('Get execution error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch execution'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { scriptLogInclude, toScriptLog } from '@/lib/script-executions';
+import type { ApiResponse, User, ScriptLog } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/scripts/logs/[id] - Get a script log with its output
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const logId = parseInt(params.id);
+
+    if (isNaN(logId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid log ID'
+      }, { status: 400 });
+    }
+
+    // Non-admin users can only see their own logs
+    const log = await prisma.scriptLog.findFirst({
+      where: {
+        id: logId,
+        ...(request.user.role !== 'ADMIN' && { userId: request.user.id })
+      },
+      include: scriptLogInclude
+    });
+
+    if (!log) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Log not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<ScriptLog>>({
+      success: true,
+      data: toScriptLog(log)
+    });
+
+  } catch (error) {
+    console.error('Get script log error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch script log'
+    }, { status: 500 });
+  }
+});
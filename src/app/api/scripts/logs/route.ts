@@ -1,7 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { withAuth } from '@/lib/auth';
 import { prisma } from '@/lib/database';
-import type { ApiResponse, User, ScriptLog, PaginatedResponse } from '@/types';
+import {
+  scriptLogInclude,
+  scriptLogListSelect,
+  executionInclude,
+  toScriptLog,
+  toExecution,
+  mergeLogEntries,
+  ENTRY_SORT_FIELDS,
+  type EntrySortField
+} from '@/lib/script-executions';
+import type { ApiResponse, User, ScriptLog, ScriptLogEntry, PaginatedResponse } from '@/types';
+
+interface LogFilters {
+  page: number;
+  limit: number;
+  isAdmin: boolean;
+  userId: number;
+  status: any;
+  serverId: string | null;
+  scheduleId: string | null;
+  search: string;
+  startDate: string | null;
+  endDate: string | null;
+  sortBy: string;
+  sortOrder: string;
+}
 
 export const GET = withAuth(async (request: NextRequest & { user: User }) => {
   try {
@@ -10,6 +36,7 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
     const limit = parseInt(searchParams.get('limit') || '20');
     const status = searchParams.get('status') as any;
     const serverId = searchParams.get('serverId');
+    const scheduleId = searchParams.get('scheduleId');
     const search = searchParams.get('search') || '';
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
@@ -35,6 +62,10 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
       where.serverId = parseInt(serverId);
     }
 
+    if (scheduleId) {
+      where.scheduleId = parseInt(scheduleId);
+    }
+
     if (search) {
       where.OR = [
         { scriptName: { contains: search } },
@@ -52,6 +83,24 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
       }
     }
 
+    // Grouped: a run from the scripts page is one entry owning its per-server logs
+    if (searchParams.get('groupExecutions') === 'true') {
+      return getGroupedLogs(where, {
+        page,
+        limit,
+        isAdmin,
+        userId,
+        status,
+        serverId,
+        scheduleId,
+        search,
+        startDate,
+        endDate,
+        sortBy,
+        sortOrder
+      });
+    }
+
     // Get total count
     const total = await prisma.scriptLog.count({ where });
 
@@ -63,51 +112,12 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
       },
       skip: (page - 1) * limit,
       take: limit,
-      include: {
-        server: {
-          select: {
-            name: true,
-            host: true
-          }
-        },
-        user: {
-          select: {
-            name: true,
-            email: true
-          }
-        }
-      }
+      include: scriptLogInclude
     });
 
-    const logsData = scriptLogs.map(log => ({
-      id: log.id,
-      scriptName: log.scriptName,
-      command: log.command,
-      status: log.status,
-      output: log.output || undefined,
-      error: log.error || undefined,
-      startTime: log.startTime.toISOString(),
-      endTime: log.endTime?.toISOString(),
-      duration: log.duration || undefined,
-      userId: log.userId,
-      serverId: log.serverId,
-      server: {
-        id: log.serverId,
-        name: log.server.name,
-        host: log.server.host,
-        port: 22,
-        username: '',
-        isActive: true,
-        status: 'DISCONNECTED' as any,
-        createdAt: '',
-        updatedAt: '',
-        userId: log.userId
-      }
-    }));
-
-    return NextResponse.json<PaginatedResponse<any>>({
+    return NextResponse.json<PaginatedResponse<ScriptLog>>({
       success: true,
-      data: logsData,
+      data: scriptLogs.map(toScriptLog),
       pagination: {
         page,
         limit,
@@ -123,4 +133,82 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
       error: 'Failed to fetch script logs'
     }, { status: 500 });
   }
-});
\ No newline at end of file
+});
+// Logs that belong to no execution merged with executions matching the same filters.
+// Neither carries output; it is loaded when a log or execution is opened.
+async function getGroupedLogs(logWhere: Prisma.ScriptLogWhereInput, filters: LogFilters) {
+  const { page, limit } = filters;
+  const sortBy: EntrySortField = (ENTRY_SORT_FIELDS as readonly string[]).includes(filters.sortBy)
+    ? filters.sortBy as EntrySortField
+    : 'startTime';
+  const sortOrder = filters.sortOrder === 'asc' ? 'asc' : 'desc';
+
+  const where: Prisma.ScriptLogWhereInput = { ...logWhere, executionId: null };
+
+  const executionWhere: Prisma.ExecutionWhereInput = {};
+  if (!filters.isAdmin) {
+    executionWhere.userId = filters.userId;
+  }
+  if (filters.status) {
+    executionWhere.status = filters.status;
+  }
+  if (filters.serverId) {
+    executionWhere.scriptLogs = { some: { serverId: parseInt(filters.serverId) } };
+  }
+  if (filters.search) {
+    executionWhere.OR = [
+      { scriptName: { contains: filters.search } },
+      { command: { contains: filters.search } }
+    ];
+  }
+  if (filters.startDate || filters.endDate) {
+    executionWhere.startTime = {
+      ...(filters.startDate && { gte: new Date(filters.startDate) }),
+      ...(filters.endDate && { lte: new Date(filters.endDate) })
+    };
+  }
+
+  // Both streams are sorted alike, so the first page * limit of each covers this page
+  const take = page * limit;
+  // Scheduled runs are never executions
+  const includeExecutions = !filters.scheduleId;
+
+  const [logTotal, executionTotal, scriptLogs, executions] = await Promise.all([
+    prisma.scriptLog.count({ where }),
+    includeExecutions ? prisma.execution.count({ where: executionWhere }) : 0,
+    prisma.scriptLog.findMany({
+      where,
+      orderBy: { [sortBy]: sortOrder },
+      take,
+      select: scriptLogListSelect
+    }),
+    includeExecutions
+      ? prisma.execution.findMany({
+          where: executionWhere,
+          orderBy: { [sortBy]: sortOrder },
+          take,
+          include: executionInclude
+        })
+      : []
+  ]);
+
+  const total = logTotal + executionTotal;
+
+  return NextResponse.json<PaginatedResponse<ScriptLogEntry>>({
+    success: true,
+    data: mergeLogEntries(
+      scriptLogs.map(toScriptLog),
+      executions.map(toExecution),
+      sortBy,
+      sortOrder,
+      (page - 1) * limit,
+      limit
+    ),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+}
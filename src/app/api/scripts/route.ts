@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { normalizeTags } from '@/lib/utils';
+import { scriptInclude, toScript, validateScriptData, visibleScriptsWhere } from '@/lib/scripts';
+import type { ApiResponse, User, Script, ScriptData } from '@/types';
+
+// GET /api/scripts - Get saved scripts visible to the user
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get('search');
+    const tag = searchParams.get('tag');
+    const scope = searchParams.get('scope'); // 'mine' | 'shared'
+
+    const filters: Prisma.ScriptWhereInput[] = [visibleScriptsWhere(request.user)];
+
+    if (scope === 'mine') {
+      filters.push({ userId: request.user.id });
+    } else if (scope === 'shared') {
+      filters.push({ isShared: true });
+    }
+
+    if (search) {
+      filters.push({
+        OR: [
+          { name: { contains: search } },
+          { description: { contains: search } },
+          { command: { contains: search } }
+        ]
+      });
+    }
+
+    const scripts = await prisma.script.findMany({
+      where: { AND: filters },
+      include: scriptInclude,
+      orderBy: { name: 'asc' }
+    });
+
+    // Tags are a JSON array, so filter after loading
+    const data = scripts
+      .map(script => toScript(script, request.user))
+      .filter(script => !tag || script.tags.includes(tag));
+
+    return NextResponse.json<ApiResponse<Script[]>>({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    console.error('Get scripts error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch scripts'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/scripts - Save a new script as version 1
+export const POST = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const body = await request.json() as ScriptData;
+
+    const validationError = validateScriptData(body);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    if (body.requiresApproval && request.user.role !== 'ADMIN') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Only an admin can mark a script as requiring approval'
+      }, { status: 403 });
+    }
+
+    const name = body.name.trim();
+    const description = body.description?.trim() || null;
+    const command = body.command.trim();
+    const parameters = (body.parameters || []) as unknown as Prisma.InputJsonArray;
+
+    const script = await prisma.script.create({
+      data: {
+        name,
+        description,
+        command,
+        parameters,
+        tags: normalizeTags(body.tags),
+        isShared: body.isShared ?? false,
+        requiresApproval: body.requiresApproval ?? false,
+        version: 1,
+        userId: request.user.id,
+        versions: {
+          create: {
+            version: 1,
+            name,
+            description,
+            command,
+            parameters,
+            changeNote: body.changeNote?.trim() || 'Created',
+            createdById: request.user.id
+          }
+        }
+      },
+      include: scriptInclude
+    });
+
+    return NextResponse.json<ApiResponse<Script>>({
+      success: true,
+      data: toScript(script, request.user),
+      message: 'Script saved successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create script error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to save script'
+    }, { status: 500 });
+  }
+});
@@ -2,18 +2,45 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, canAccessServer } from '@/lib/auth';
 import { executeCommand } from '@/lib/ssh';
 import { prisma } from '@/lib/database';
-import type { ApiResponse, User, RunScriptData } from '@/types';
+import { loadCommandValidator, getApprovalReason } from '@/lib/command-middleware';
+import { requestScriptApproval } from '@/lib/script-approvals';
+import { resolveScriptForRun } from '@/lib/scripts';
+import { DEFAULT_RUN_STRATEGY } from '@/lib/run-strategy';
+import { applyScriptParameters, validateParameterDefinitions, normalizeParameters, maskSecrets } from '@/lib/script-parameters';
+import { countScriptRun } from '@/lib/prometheus';
+import type { ApiResponse, User, RunScriptData, CommandConfirmation } from '@/types';
 
 export const POST = withAuth(async (request: NextRequest & { user: User }) => {
   try {
     const body = await request.json() as RunScriptData;
-    const { scriptName, command, serverIds } = body;
+    const { serverIds, confirmed } = body;
+    let { scriptName, command } = body;
+    let scriptVersion: { scriptId: number; scriptVersionId: number } | null = null;
+    let savedScript: { version: number; requiresApproval: boolean } | null = null;
+    let parameterDefinitions = normalizeParameters(body.parameterDefinitions);
+
+    // Saved script: run the requested (or latest) version
+    if (body.scriptId !== undefined) {
+      const resolved = await resolveScriptForRun(body.scriptId, request.user, body.scriptVersion);
+      if (typeof resolved === 'string') {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: resolved
+        }, { status: 404 });
+      }
+
+      scriptName = resolved.script.name;
+      command = resolved.version.command;
+      scriptVersion = { scriptId: resolved.script.id, scriptVersionId: resolved.version.id };
+      savedScript = { version: resolved.version.version, requiresApproval: resolved.script.requiresApproval };
+      parameterDefinitions = resolved.version.parameters;
+    }
 
     // Validate input
     if (!scriptName || !command || !serverIds || serverIds.length === 0) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Script name, command, and server IDs are required'
+        error: 'Script ID or script name and command, and server IDs are required'
       }, { status: 400 });
     }
 
@@ -24,26 +51,45 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
       }, { status: 400 });
     }
 
-    // Security check - prevent dangerous commands
-    const dangerousCommands = [
-      'rm -rf /',
-      'rm -rf *',
-      'mkfs',
-      'dd if=/dev/zero',
-      'format',
-      'fdisk',
-      'parted',
-      ':(){ :|:& };:'  // fork bomb
-    ];
-
-    const lowerCommand = command.toLowerCase();
-    if (dangerousCommands.some(dangerous => lowerCommand.includes(dangerous))) {
+    // Ad-hoc commands bring their own parameter definitions
+    const parametersError = scriptVersion ? null : validateParameterDefinitions(body.parameterDefinitions, command);
+    if (parametersError) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Command contains potentially dangerous operations'
+        error: parametersError
       }, { status: 400 });
     }
 
+    // Substitute typed parameters; secrets are masked in everything that is stored
+    const applied = applyScriptParameters(command, parameterDefinitions, body.parameters);
+    if (typeof applied === 'string') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: applied
+      }, { status: 400 });
+    }
+    const { command: runCommand, displayCommand, secrets } = applied;
+
+    // Security policy check (blocked, length, dangerous and sudo rules from the security settings)
+    const validator = await loadCommandValidator();
+    const validation = validator.validate(runCommand, request.user.id, 0);
+
+    if (!validation.allowed) {
+      validator.logCommand(displayCommand, request.user.id, 0, 'blocked', { reason: validation.warning });
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validation.warning || 'Command is not allowed by the security policy'
+      }, { status: 400 });
+    }
+
+    if (validation.requiresConfirmation && !confirmed) {
+      return NextResponse.json<ApiResponse<CommandConfirmation>>({
+        success: false,
+        error: 'Command requires confirmation',
+        data: { requiresConfirmation: true, warning: validation.warning || '' }
+      }, { status: 409 });
+    }
+
     // Check access to all servers
     const accessChecks = await Promise.all(
       serverIds.map(serverId => canAccessServer(request.user.id, serverId))
@@ -77,17 +123,44 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
       }, { status: 404 });
     }
 
+    // High-risk runs by non-admins are queued; once approved they are started from the scripts page
+    const approvalReason = getApprovalReason(request.user, savedScript, runCommand, validator);
+    if (approvalReason) {
+      const approval = await requestScriptApproval({
+        scriptId: scriptVersion?.scriptId ?? null,
+        scriptVersion: savedScript?.version ?? null,
+        scriptName,
+        command,
+        displayCommand,
+        parameterDefinitions,
+        parameters: body.parameters || {},
+        serverIds: servers.map(server => server.id),
+        strategy: DEFAULT_RUN_STRATEGY,
+        reason: approvalReason,
+        warning: validation.requiresConfirmation ? validation.warning : undefined
+      }, request.user);
+
+      return NextResponse.json<ApiResponse<{ approvalId: number; reason: string }>>({
+        success: true,
+        data: { approvalId: approval.id, reason: approvalReason },
+        message: `${approvalReason}. The run is waiting for an admin's approval.`
+      }, { status: 202 });
+    }
+
     // Create script logs for each server
     const scriptLogs = await Promise.all(
       servers.map(server => 
         prisma.scriptLog.create({
           data: {
             scriptName,
-            command,
+            command: displayCommand,
             status: 'RUNNING',
             userId: request.user.id,
             serverId: server.id,
-            startTime: new Date()
+            serverName: server.name,
+            serverHost: server.host,
+            startTime: new Date(),
+            ...scriptVersion
           }
         })
       )
@@ -97,16 +170,17 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
     const executions = servers.map(async (server, index) => {
       try {
         const startTime = Date.now();
-        const result = await executeCommand(server.id, request.user.id, command, { timeout: 300000 }); // 5 minutes timeout
+        const result = await executeCommand(server.id, request.user.id, runCommand, { timeout: 300000 }); // 5 minutes timeout
         const duration = Math.floor((Date.now() - startTime) / 1000);
 
         // Update script log
+        countScriptRun(result.code === 0 ? 'SUCCESS' : 'FAILED');
         await prisma.scriptLog.update({
           where: { id: scriptLogs[index].id },
           data: {
             status: result.code === 0 ? 'SUCCESS' : 'FAILED',
-            output: result.stdout,
-            error: result.stderr,
+            output: maskSecrets(result.stdout, secrets),
+            error: maskSecrets(result.stderr, secrets),
             endTime: new Date(),
             duration
           }
@@ -117,12 +191,13 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
           serverName: server.name,
           success: result.code === 0,
           exitCode: result.code,
-          output: result.stdout,
-          error: result.stderr,
+          output: maskSecrets(result.stdout, secrets),
+          error: maskSecrets(result.stderr, secrets),
           duration
         };
       } catch (error) {
         // Update script log with error
+        countScriptRun('FAILED');
         await prisma.scriptLog.update({
           where: { id: scriptLogs[index].id },
           data: {
@@ -164,7 +239,7 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
       data: {
         executionId: `${request.user.id}-${Date.now()}`,
         scriptName,
-        command,
+        command: displayCommand,
         totalServers: results.length,
         successCount,
         failedCount,
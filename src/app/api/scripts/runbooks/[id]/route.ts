@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import {
+  runbookInclude,
+  toRunbook,
+  validateRunbookData,
+  visibleRunbooksWhere,
+  normalizeStep,
+  checkRunbookSteps
+} from '@/lib/runbooks';
+import type { ApiResponse, User, Runbook, RunbookData } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/scripts/runbooks/[id] - Get a runbook
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const runbookId = parseInt(params.id);
+
+    if (isNaN(runbookId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid runbook ID'
+      }, { status: 400 });
+    }
+
+    const runbook = await prisma.runbook.findFirst({
+      where: { id: runbookId, ...visibleRunbooksWhere(request.user) },
+      include: runbookInclude
+    });
+
+    if (!runbook) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Runbook not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<Runbook>>({
+      success: true,
+      data: toRunbook(runbook)
+    });
+
+  } catch (error) {
+    console.error('Get runbook error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch runbook'
+    }, { status: 500 });
+  }
+});
+
+// PUT /api/scripts/runbooks/[id] - Update a runbook; runs already started keep their steps
+export const PUT = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const runbookId = parseInt(params.id);
+
+    if (isNaN(runbookId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid runbook ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json() as Partial<RunbookData>;
+
+    const validationError = validateRunbookData(body, true);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const existingRunbook = await prisma.runbook.findFirst({
+      where: { id: runbookId, ...visibleRunbooksWhere(request.user) }
+    });
+
+    if (!existingRunbook) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Runbook not found'
+      }, { status: 404 });
+    }
+
+    const updateData: Prisma.RunbookUpdateInput = {};
+    if (body.name !== undefined) updateData.name = body.name.trim();
+    if (body.description !== undefined) updateData.description = body.description?.trim() || null;
+
+    if (body.steps !== undefined) {
+      const steps = body.steps.map(normalizeStep);
+
+      const checked = await checkRunbookSteps(steps, request.user);
+      if ('error' in checked) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: checked.error
+        }, { status: checked.status });
+      }
+
+      updateData.steps = steps as unknown as Prisma.InputJsonArray;
+    }
+
+    const runbook = await prisma.runbook.update({
+      where: { id: runbookId },
+      data: updateData,
+      include: runbookInclude
+    });
+
+    return NextResponse.json<ApiResponse<Runbook>>({
+      success: true,
+      data: toRunbook(runbook),
+      message: 'Runbook updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update runbook error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update runbook'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/scripts/runbooks/[id] - Delete a runbook; its run history is kept
+export const DELETE = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const runbookId = parseInt(params.id);
+
+    if (isNaN(runbookId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid runbook ID'
+      }, { status: 400 });
+    }
+
+    const existingRunbook = await prisma.runbook.findFirst({
+      where: { id: runbookId, ...visibleRunbooksWhere(request.user) }
+    });
+
+    if (!existingRunbook) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Runbook not found'
+      }, { status: 404 });
+    }
+
+    await prisma.runbook.delete({
+      where: { id: runbookId }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Runbook deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete runbook error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete runbook'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import {
+  runbookInclude,
+  toRunbook,
+  validateRunbookData,
+  visibleRunbooksWhere,
+  normalizeStep,
+  checkRunbookSteps
+} from '@/lib/runbooks';
+import type { ApiResponse, User, Runbook, RunbookData } from '@/types';
+
+// GET /api/scripts/runbooks - Get the user's runbooks (all runbooks for admins)
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const runbooks = await prisma.runbook.findMany({
+      where: visibleRunbooksWhere(request.user),
+      include: runbookInclude,
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json<ApiResponse<Runbook[]>>({
+      success: true,
+      data: runbooks.map(toRunbook)
+    });
+
+  } catch (error) {
+    console.error('Get runbooks error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch runbooks'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/scripts/runbooks - Create a runbook
+export const POST = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const body = await request.json() as RunbookData;
+
+    const validationError = validateRunbookData(body);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const steps = body.steps.map(normalizeStep);
+
+    // Policy warnings are confirmed when the runbook runs
+    const checked = await checkRunbookSteps(steps, request.user);
+    if ('error' in checked) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: checked.error
+      }, { status: checked.status });
+    }
+
+    const runbook = await prisma.runbook.create({
+      data: {
+        name: body.name.trim(),
+        description: body.description?.trim() || null,
+        steps: steps as unknown as Prisma.InputJsonArray,
+        userId: request.user.id
+      },
+      include: runbookInclude
+    });
+
+    return NextResponse.json<ApiResponse<Runbook>>({
+      success: true,
+      data: toRunbook(runbook),
+      message: 'Runbook created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create runbook error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create runbook'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { runbookRunInclude, toRunbookRun, visibleRunbookRunsWhere } from '@/lib/runbooks';
+import type { ApiResponse, User, RunbookRun } from '@/types';
+
+const MAX_LIMIT = 100;
+
+// GET /api/scripts/runbooks/runs - Recent runbook runs, optionally of one runbook (?runbookId=)
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const runbookId = searchParams.get('runbookId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, MAX_LIMIT);
+
+    const where: Prisma.RunbookRunWhereInput = visibleRunbookRunsWhere(request.user);
+    if (runbookId) {
+      where.runbookId = parseInt(runbookId);
+    }
+
+    const runs = await prisma.runbookRun.findMany({
+      where,
+      include: runbookRunInclude,
+      orderBy: { startTime: 'desc' },
+      take: limit
+    });
+
+    return NextResponse.json<ApiResponse<RunbookRun[]>>({
+      success: true,
+      data: runs.map(toRunbookRun)
+    });
+
+  } catch (error) {
+    console.error('Get runbook runs error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch runbook runs'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { normalizeTags, normalizeServerIds } from '@/lib/utils';
+import { SECRET_MASK, SCHEDULE_SECRET_CONTEXT, loadParameterValues } from '@/lib/script-parameters';
+import {
+  scheduleInclude,
+  toScriptSchedule,
+  validateScheduleData,
+  visibleSchedulesWhere,
+  prepareSchedule,
+  computeNextRunAt
+} from '@/lib/script-schedules';
+import type { ApiResponse, User, ScriptSchedule, ScriptScheduleData, CommandConfirmation } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/scripts/schedules/[id] - Get a schedule
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const scheduleId = parseInt(params.id);
+
+    if (isNaN(scheduleId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid schedule ID'
+      }, { status: 400 });
+    }
+
+    const schedule = await prisma.scriptSchedule.findFirst({
+      where: { id: scheduleId, ...visibleSchedulesWhere(request.user) },
+      include: scheduleInclude
+    });
+
+    if (!schedule) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Schedule not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<ScriptSchedule>>({
+      success: true,
+      data: toScriptSchedule(schedule)
+    });
+
+  } catch (error) {
+    console.error('Get schedule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch schedule'
+    }, { status: 500 });
+  }
+});
+
+// PUT /api/scripts/schedules/[id] - Update a schedule, or pause/resume it with isActive
+export const PUT = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const scheduleId = parseInt(params.id);
+
+    if (isNaN(scheduleId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid schedule ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json() as Partial<ScriptScheduleData>;
+
+    const validationError = validateScheduleData(body, true);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const existingSchedule = await prisma.scriptSchedule.findFirst({
+      where: { id: scheduleId, ...visibleSchedulesWhere(request.user) }
+    });
+
+    if (!existingSchedule) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Schedule not found'
+      }, { status: 404 });
+    }
+
+    const updateData: Prisma.ScriptScheduleUncheckedUpdateInput = {};
+
+    // What runs and where changed: check it again as the schedule's owner
+    const runChanged = body.scriptId !== undefined || body.scriptVersion !== undefined
+      || body.serverIds !== undefined || body.tags !== undefined || body.parameters !== undefined;
+
+    if (runChanged) {
+      const storedParameters = loadParameterValues(existingSchedule, SCHEDULE_SECRET_CONTEXT);
+      // Masked secrets keep their stored value
+      const parameters = body.parameters !== undefined
+        ? Object.fromEntries(Object.entries(body.parameters).map(([name, value]) => (
+          [name, value === SECRET_MASK && storedParameters[name] !== undefined ? storedParameters[name] : value]
+        )))
+        : storedParameters;
+
+      const schedule = {
+        scriptId: body.scriptId ?? existingSchedule.scriptId,
+        scriptVersion: body.scriptVersion !== undefined ? body.scriptVersion : existingSchedule.scriptVersion,
+        serverIds: body.serverIds ?? normalizeServerIds(existingSchedule.serverIds),
+        tags: body.tags !== undefined ? normalizeTags(body.tags) : normalizeTags(existingSchedule.tags),
+        parameters,
+        confirmed: body.confirmed
+      };
+
+      const owner = existingSchedule.userId === request.user.id
+        ? request.user
+        : await prisma.user.findUnique({ where: { id: existingSchedule.userId }, select: { id: true, role: true } });
+
+      const prepared = await prepareSchedule(schedule, owner || request.user);
+      if ('error' in prepared) {
+        return NextResponse.json<ApiResponse<CommandConfirmation>>({
+          success: false,
+          error: prepared.error,
+          data: prepared.confirmation
+        }, { status: prepared.status });
+      }
+
+      Object.assign(updateData, {
+        scriptId: schedule.scriptId,
+        scriptVersion: schedule.scriptVersion,
+        serverIds: schedule.serverIds,
+        tags: schedule.tags,
+        parameters: prepared.parameters,
+        secretParameters: prepared.secretParameters
+      });
+    }
+
+    if (body.name !== undefined) updateData.name = body.name.trim();
+    if (body.strategy !== undefined) updateData.strategy = body.strategy as unknown as Prisma.InputJsonObject;
+
+    const cronExpression = body.cronExpression?.trim() ?? existingSchedule.cronExpression;
+    const timezone = body.timezone ?? existingSchedule.timezone;
+    const isActive = body.isActive ?? existingSchedule.isActive;
+    Object.assign(updateData, {
+      cronExpression,
+      timezone,
+      isActive,
+      nextRunAt: computeNextRunAt({ cronExpression, timezone, isActive })
+    });
+
+    const schedule = await prisma.scriptSchedule.update({
+      where: { id: scheduleId },
+      data: updateData,
+      include: scheduleInclude
+    });
+
+    return NextResponse.json<ApiResponse<ScriptSchedule>>({
+      success: true,
+      data: toScriptSchedule(schedule),
+      message: body.isActive === false ? 'Schedule paused'
+        : body.isActive === true && !existingSchedule.isActive ? 'Schedule resumed'
+        : 'Schedule updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update schedule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update schedule'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/scripts/schedules/[id] - Delete a schedule; its run logs are kept
+export const DELETE = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const scheduleId = parseInt(params.id);
+
+    if (isNaN(scheduleId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid schedule ID'
+      }, { status: 400 });
+    }
+
+    const existingSchedule = await prisma.scriptSchedule.findFirst({
+      where: { id: scheduleId, ...visibleSchedulesWhere(request.user) }
+    });
+
+    if (!existingSchedule) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Schedule not found'
+      }, { status: 404 });
+    }
+
+    await prisma.scriptSchedule.delete({
+      where: { id: scheduleId }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Schedule deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete schedule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete schedule'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { normalizeTags } from '@/lib/utils';
+import {
+  scheduleInclude,
+  toScriptSchedule,
+  validateScheduleData,
+  visibleSchedulesWhere,
+  prepareSchedule,
+  computeNextRunAt
+} from '@/lib/script-schedules';
+import type { ApiResponse, User, ScriptSchedule, ScriptScheduleData, CommandConfirmation } from '@/types';
+
+// GET /api/scripts/schedules - Get the user's schedules (all schedules for admins)
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const schedules = await prisma.scriptSchedule.findMany({
+      where: visibleSchedulesWhere(request.user),
+      include: scheduleInclude,
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json<ApiResponse<ScriptSchedule[]>>({
+      success: true,
+      data: schedules.map(toScriptSchedule)
+    });
+
+  } catch (error) {
+    console.error('Get schedules error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch schedules'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/scripts/schedules - Schedule a saved script
+export const POST = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    const body = await request.json() as ScriptScheduleData;
+
+    const validationError = validateScheduleData(body);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const schedule = {
+      scriptId: body.scriptId,
+      scriptVersion: body.scriptVersion ?? null,
+      serverIds: body.serverIds || [],
+      tags: normalizeTags(body.tags),
+      parameters: body.parameters || {},
+      confirmed: body.confirmed
+    };
+
+    const prepared = await prepareSchedule(schedule, request.user);
+    if ('error' in prepared) {
+      return NextResponse.json<ApiResponse<CommandConfirmation>>({
+        success: false,
+        error: prepared.error,
+        data: prepared.confirmation
+      }, { status: prepared.status });
+    }
+
+    const cronExpression = body.cronExpression.trim();
+    const timezone = body.timezone || 'UTC';
+    const isActive = body.isActive ?? true;
+
+    const created = await prisma.scriptSchedule.create({
+      data: {
+        name: body.name.trim(),
+        scriptId: schedule.scriptId,
+        scriptVersion: schedule.scriptVersion,
+        cronExpression,
+        timezone,
+        serverIds: schedule.serverIds,
+        tags: schedule.tags,
+        parameters: prepared.parameters,
+        secretParameters: prepared.secretParameters,
+        ...(body.strategy && { strategy: body.strategy as unknown as Prisma.InputJsonObject }),
+        isActive,
+        nextRunAt: computeNextRunAt({ cronExpression, timezone, isActive }),
+        userId: request.user.id
+      },
+      include: scheduleInclude
+    });
+
+    return NextResponse.json<ApiResponse<ScriptSchedule>>({
+      success: true,
+      data: toScriptSchedule(created),
+      message: 'Schedule created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create schedule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create schedule'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, canAccessServer } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { withSFTP, normalizeRemotePath, sftpErrorStatus } from '@/lib/sftp';
+import { openTextFile, saveTextFile, MAX_EDITABLE_FILE_SIZE } from '@/lib/file-editor';
+import { loadCommandValidator, getApprovalReason } from '@/lib/command-middleware';
+import type {
+  ApiResponse,
+  User,
+  RemoteFileContent,
+  RemoteFileInfo,
+  SaveFileData,
+  SaveFileResult,
+  FileValidationResult,
+  CommandConfirmation
+} from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/servers/[id]/files/content - Open a text file for editing (?path=)
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const serverId = parseInt(params.id);
+
+    if (isNaN(serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid server ID'
+      }, { status: 400 });
+    }
+
+    // Check access
+    if (!await canAccessServer(request.user.id, serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied to this server'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const remotePath = normalizeRemotePath(searchParams.get('path'));
+
+    if (!remotePath) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Path must be absolute'
+      }, { status: 400 });
+    }
+
+    const file = await withSFTP(serverId, request.user.id, request.user.role === 'ADMIN', sftp =>
+      openTextFile(sftp, remotePath)
+    );
+
+    if (typeof file === 'string') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: file
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<RemoteFileContent>>({
+      success: true,
+      data: file
+    });
+
+  } catch (error) {
+    console.error('Open file error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to open file'
+    }, { status: sftpErrorStatus(error) });
+  }
+});
+
+// PUT /api/servers/[id]/files/content - Save a text file with conflict check, backup and optional validation
+export const PUT = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const serverId = parseInt(params.id);
+
+    if (isNaN(serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid server ID'
+      }, { status: 400 });
+    }
+
+    // Check access
+    if (!await canAccessServer(request.user.id, serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied to this server'
+      }, { status: 403 });
+    }
+
+    const body = await request.json() as SaveFileData;
+    const remotePath = normalizeRemotePath(body.path);
+
+    if (!remotePath) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Path must be absolute'
+      }, { status: 400 });
+    }
+
+    if (typeof body.content !== 'string' || typeof body.expectedHash !== 'string') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Content and expected hash are required'
+      }, { status: 400 });
+    }
+
+    if (Buffer.byteLength(body.content, 'utf8') > MAX_EDITABLE_FILE_SIZE) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `File is larger than ${MAX_EDITABLE_FILE_SIZE / 1024 / 1024} MB`
+      }, { status: 413 });
+    }
+
+    const validateCommand = typeof body.validateCommand === 'string' ? body.validateCommand.trim() : '';
+
+    // The validation command runs on the server, so it goes through the same security policy as other commands
+    if (validateCommand) {
+      const validator = await loadCommandValidator();
+      const validation = validator.validate(validateCommand, request.user.id, serverId);
+
+      if (!validation.allowed) {
+        validator.logCommand(validateCommand, request.user.id, serverId, 'blocked', { reason: validation.warning });
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: validation.warning || 'Command is not allowed by the security policy'
+        }, { status: 400 });
+      }
+
+      // Approval runs through the script runner's queue; only admins can run such commands directly
+      const approvalReason = getApprovalReason(request.user, null, validateCommand, validator);
+      if (approvalReason) {
+        validator.logCommand(validateCommand, request.user.id, serverId, 'blocked', { reason: approvalReason });
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `${approvalReason}. Only an admin can run it as a validation command; request approval from the script runner`
+        }, { status: 403 });
+      }
+
+      if (validation.requiresConfirmation && !body.confirmed) {
+        return NextResponse.json<ApiResponse<CommandConfirmation>>({
+          success: false,
+          error: 'Command requires confirmation',
+          data: { requiresConfirmation: true, warning: validation.warning || '' }
+        }, { status: 409 });
+      }
+    }
+
+    const result = await saveTextFile(serverId, request.user.id, request.user.role === 'ADMIN', {
+      path: remotePath,
+      content: body.content,
+      lineEnding: body.lineEnding === 'crlf' ? 'crlf' : 'lf',
+      expectedHash: body.expectedHash,
+      force: body.force === true,
+      backup: body.backup !== false,
+      validateCommand
+    });
+
+    if (result.status === 'conflict') {
+      return NextResponse.json<ApiResponse<{ conflict: true; current: RemoteFileInfo }>>({
+        success: false,
+        error: 'File was modified on the server since it was opened',
+        data: { conflict: true, current: result.current }
+      }, { status: 409 });
+    }
+
+    if (result.status === 'invalid') {
+      return NextResponse.json<ApiResponse<{ validation: FileValidationResult }>>({
+        success: false,
+        error: 'Validation command failed, the file was not changed',
+        data: { validation: result.validation }
+      }, { status: 422 });
+    }
+
+    await prisma.serverLog.create({
+      data: {
+        serverId,
+        logType: 'COMMAND',
+        message: `File editor: ${request.user.email} saved ${remotePath}`,
+        data: {
+          event: 'FILE_EDIT',
+          path: remotePath,
+          size: result.file.size,
+          hash: result.file.hash,
+          forced: body.force === true,
+          ...(result.backupPath && { backupPath: result.backupPath }),
+          ...(result.validation && { validateCommand: result.validation.command }),
+          userId: request.user.id
+        }
+      }
+    });
+
+    return NextResponse.json<ApiResponse<SaveFileResult>>({
+      success: true,
+      data: {
+        file: result.file,
+        backupPath: result.backupPath,
+        validation: result.validation
+      },
+      message: 'File saved successfully'
+    });
+
+  } catch (error) {
+    console.error('Save file error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save file'
+    }, { status: sftpErrorStatus(error) });
+  }
+});
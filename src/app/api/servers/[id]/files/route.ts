@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, canAccessServer } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import {
+  withSFTP,
+  normalizeRemotePath,
+  sftpErrorStatus,
+  listDirectory,
+  createDirectory,
+  renamePath,
+  deletePath,
+  changeMode
+} from '@/lib/sftp';
+import type { ApiResponse, User, DirectoryListing, FileOperationData } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+const FILE_ACTIONS = ['mkdir', 'rename', 'delete', 'chmod'] as const;
+
+// GET /api/servers/[id]/files - List a directory over SFTP (?path=, home directory by default)
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const serverId = parseInt(params.id);
+
+    if (isNaN(serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid server ID'
+      }, { status: 400 });
+    }
+
+    // Check access
+    if (!await canAccessServer(request.user.id, serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied to this server'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const requestedPath = searchParams.get('path');
+    const remotePath = requestedPath ? normalizeRemotePath(requestedPath) : undefined;
+
+    if (remotePath === null) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Path must be absolute'
+      }, { status: 400 });
+    }
+
+    const listing = await withSFTP(serverId, request.user.id, request.user.role === 'ADMIN', sftp =>
+      listDirectory(sftp, remotePath)
+    );
+
+    return NextResponse.json<ApiResponse<DirectoryListing>>({
+      success: true,
+      data: listing
+    });
+
+  } catch (error) {
+    console.error('List files error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list directory'
+    }, { status: sftpErrorStatus(error) });
+  }
+});
+
+// POST /api/servers/[id]/files - Create folder, rename, delete or chmod over SFTP
+export const POST = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const serverId = parseInt(params.id);
+
+    if (isNaN(serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid server ID'
+      }, { status: 400 });
+    }
+
+    // Check access
+    if (!await canAccessServer(request.user.id, serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied to this server'
+      }, { status: 403 });
+    }
+
+    const body = await request.json() as FileOperationData;
+
+    if (!FILE_ACTIONS.includes(body.action)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid action'
+      }, { status: 400 });
+    }
+
+    const remotePath = normalizeRemotePath(body.path);
+    if (!remotePath) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Path must be absolute'
+      }, { status: 400 });
+    }
+
+    if (remotePath === '/' && body.action !== 'chmod') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Cannot modify the root directory'
+      }, { status: 400 });
+    }
+
+    const newPath = body.action === 'rename' ? normalizeRemotePath(body.newPath) : null;
+    if (body.action === 'rename' && (!newPath || newPath === '/')) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'New path must be absolute'
+      }, { status: 400 });
+    }
+
+    if (body.action === 'chmod' && (typeof body.mode !== 'string' || !/^[0-7]{3,4}$/.test(body.mode))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Mode must be an octal value such as 644 or 0755'
+      }, { status: 400 });
+    }
+
+    await withSFTP(serverId, request.user.id, request.user.role === 'ADMIN', async sftp => {
+      switch (body.action) {
+        case 'mkdir': return createDirectory(sftp, remotePath);
+        case 'rename': return renamePath(sftp, remotePath, newPath!);
+        case 'delete': return deletePath(sftp, remotePath);
+        case 'chmod': return changeMode(sftp, remotePath, body.mode!);
+      }
+    });
+
+    const descriptions = {
+      mkdir: `created folder ${remotePath}`,
+      rename: `renamed ${remotePath} to ${newPath}`,
+      delete: `deleted ${remotePath}`,
+      chmod: `changed mode of ${remotePath} to ${body.mode}`
+    };
+
+    await prisma.serverLog.create({
+      data: {
+        serverId,
+        logType: 'COMMAND',
+        message: `File browser: ${request.user.email} ${descriptions[body.action]}`,
+        data: {
+          event: 'FILE_OPERATION',
+          action: body.action,
+          path: remotePath,
+          ...(newPath && { newPath }),
+          ...(body.action === 'chmod' && { mode: body.mode }),
+          userId: request.user.id
+        }
+      }
+    });
+
+    return NextResponse.json<ApiResponse<{ path: string }>>({
+      success: true,
+      data: { path: newPath || remotePath },
+      message: 'File operation completed successfully'
+    });
+
+  } catch (error) {
+    console.error('File operation error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'File operation failed'
+    }, { status: sftpErrorStatus(error) });
+  }
+});
@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, withAdminAuth, canAccessServer } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import type { ApiResponse, User, HostKeyInfo } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+const hostKeySelect = {
+  id: true,
+  name: true,
+  host: true,
+  port: true,
+  hostKeyFingerprint: true,
+  hostKeyType: true,
+  hostKeyVerifiedAt: true,
+  pendingHostKeyFingerprint: true,
+  pendingHostKeyType: true
+} as const;
+
+function toHostKeyInfo(server: {
+  id: number;
+  name: string;
+  host: string;
+  port: number;
+  hostKeyFingerprint: string | null;
+  hostKeyType: string | null;
+  hostKeyVerifiedAt: Date | null;
+  pendingHostKeyFingerprint: string | null;
+  pendingHostKeyType: string | null;
+}): HostKeyInfo {
+  return {
+    serverId: server.id,
+    serverName: server.name,
+    host: server.host,
+    port: server.port,
+    fingerprint: server.hostKeyFingerprint || undefined,
+    keyType: server.hostKeyType || undefined,
+    verifiedAt: server.hostKeyVerifiedAt?.toISOString(),
+    pendingFingerprint: server.pendingHostKeyFingerprint || undefined,
+    pendingKeyType: server.pendingHostKeyType || undefined
+  };
+}
+
+// GET /api/servers/[id]/host-key - Get pinned host key
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const serverId = parseInt(params.id);
+
+    if (isNaN(serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid server ID'
+      }, { status: 400 });
+    }
+
+    if (!await canAccessServer(request.user.id, serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied to this server'
+      }, { status: 403 });
+    }
+
+    const server = await prisma.server.findUnique({
+      where: { id: serverId },
+      select: hostKeySelect
+    });
+
+    if (!server) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Server not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<HostKeyInfo>>({
+      success: true,
+      data: toHostKeyInfo(server)
+    });
+
+  } catch (error) {
+    console.error('Get host key error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch host key'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/servers/[id]/host-key - Accept the pending (changed) host key
+export const POST = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const serverId = parseInt(params.id);
+
+    if (isNaN(serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid server ID'
+      }, { status: 400 });
+    }
+
+    const server = await prisma.server.findUnique({
+      where: { id: serverId },
+      select: hostKeySelect
+    });
+
+    if (!server) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Server not found'
+      }, { status: 404 });
+    }
+
+    if (!server.pendingHostKeyFingerprint) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'No pending host key to accept'
+      }, { status: 400 });
+    }
+
+    const updatedServer = await prisma.server.update({
+      where: { id: serverId },
+      data: {
+        hostKeyFingerprint: server.pendingHostKeyFingerprint,
+        hostKeyType: server.pendingHostKeyType,
+        hostKeyVerifiedAt: new Date(),
+        pendingHostKeyFingerprint: null,
+        pendingHostKeyType: null,
+        status: 'DISCONNECTED'
+      },
+      select: hostKeySelect
+    });
+
+    await prisma.serverLog.create({
+      data: {
+        serverId,
+        logType: 'CONNECTION',
+        message: `Host key accepted by ${request.user.email}: ${server.pendingHostKeyType} ${server.pendingHostKeyFingerprint}`,
+        data: {
+          previousFingerprint: server.hostKeyFingerprint,
+          fingerprint: server.pendingHostKeyFingerprint,
+          acceptedBy: request.user.id
+        }
+      }
+    });
+
+    return NextResponse.json<ApiResponse<HostKeyInfo>>({
+      success: true,
+      data: toHostKeyInfo(updatedServer),
+      message: 'Host key accepted'
+    });
+
+  } catch (error) {
+    console.error('Accept host key error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to accept host key'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/servers/[id]/host-key - Reset pinned host key (re-pinned on next connection)
+export const DELETE = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const serverId = parseInt(params.id);
+
+    if (isNaN(serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid server ID'
+      }, { status: 400 });
+    }
+
+    const server = await prisma.server.findUnique({
+      where: { id: serverId },
+      select: hostKeySelect
+    });
+
+    if (!server) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Server not found'
+      }, { status: 404 });
+    }
+
+    const updatedServer = await prisma.server.update({
+      where: { id: serverId },
+      data: {
+        hostKeyFingerprint: null,
+        hostKeyType: null,
+        hostKeyVerifiedAt: null,
+        pendingHostKeyFingerprint: null,
+        pendingHostKeyType: null
+      },
+      select: hostKeySelect
+    });
+
+    await prisma.serverLog.create({
+      data: {
+        serverId,
+        logType: 'CONNECTION',
+        message: `Host key reset by ${request.user.email}`,
+        data: {
+          previousFingerprint: server.hostKeyFingerprint,
+          resetBy: request.user.id
+        }
+      }
+    });
+
+    return NextResponse.json<ApiResponse<HostKeyInfo>>({
+      success: true,
+      data: toHostKeyInfo(updatedServer),
+      message: 'Host key reset'
+    });
+
+  } catch (error) {
+    console.error('Reset host key error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to reset host key'
+    }, { status: 500 });
+  }
+});
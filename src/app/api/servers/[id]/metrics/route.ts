@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, canAccessServer } from '@/lib/auth';
+import { getMetricHistory, METRIC_RANGES } from '@/lib/server-metrics';
+import type { ApiResponse, User, MetricRange, ServerMetricHistory } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/servers/[id]/metrics - Get downsampled metrics history (?range=1h|24h|7d|30d)
+export const GET = withAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const serverId = parseInt(params.id);
+
+    if (isNaN(serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid server ID'
+      }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const range = (searchParams.get('range') || '24h') as MetricRange;
+
+    if (!Object.keys(METRIC_RANGES).includes(range)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Invalid range, expected one of ${Object.keys(METRIC_RANGES).join(', ')}`
+      }, { status: 400 });
+    }
+
+    // Check access
+    if (!await canAccessServer(request.user.id, serverId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied to this server'
+      }, { status: 403 });
+    }
+
+    const history = await getMetricHistory(serverId, range);
+
+    return NextResponse.json<ApiResponse<ServerMetricHistory>>({
+      success: true,
+      data: history
+    });
+
+  } catch (error) {
+    console.error('Get server metrics history error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch server metrics history'
+    }, { status: 500 });
+  }
+});
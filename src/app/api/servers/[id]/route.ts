@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, canAccessServer } from '@/lib/auth';
 import { prisma } from '@/lib/database';
 import { testSSHConnection, closeSSHConnection, updateServerSystemInfo } from '@/lib/ssh';
-import { validateIP, validatePort } from '@/lib/utils';
+import { validateCredentials, toCredentialColumns, readServerCredentials, type ServerCredentials } from '@/lib/ssh-auth';
+import { validateJumpChain } from '@/lib/ssh-jump';
+import { validateIP, validatePort, normalizeTags } from '@/lib/utils';
 import type { ApiResponse, User, Server, UpdateServerData } from '@/types';
 
 interface RouteParams {
@@ -22,7 +24,7 @@ export const GET = withAuth(async (request: NextRequest & { user: User }, { para
     }
 
     // Check access
-    if (!await canAccessServer(request.user.id, serverId) && request.user.role !== 'ADMIN') {
+    if (!await canAccessServer(request.user.id, serverId)) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Access denied to this server'
@@ -37,6 +39,7 @@ export const GET = withAuth(async (request: NextRequest & { user: User }, { para
         host: true,
         port: true,
         username: true,
+        authMethod: true,
         isActive: true,
         status: true,
         lastChecked: true,
@@ -44,11 +47,19 @@ export const GET = withAuth(async (request: NextRequest & { user: User }, { para
         createdAt: true,
         updatedAt: true,
         userId: true,
+        jumpHostId: true,
+        tags: true,
         user: {
           select: {
             name: true,
             email: true
           }
+        },
+        jumpHost: {
+          select: {
+            id: true,
+            name: true
+          }
         }
       }
     });
@@ -65,7 +76,8 @@ export const GET = withAuth(async (request: NextRequest & { user: User }, { para
       createdAt: server.createdAt.toISOString(),
       updatedAt: server.updatedAt.toISOString(),
       lastChecked: server.lastChecked?.toISOString(),
-      systemInfo: server.systemInfo as any
+      systemInfo: server.systemInfo as any,
+      tags: normalizeTags(server.tags)
     };
 
     return NextResponse.json<ApiResponse<Server>>({
@@ -95,7 +107,7 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
     }
 
     // Check access
-    if (!await canAccessServer(request.user.id, serverId) && request.user.role !== 'ADMIN') {
+    if (!await canAccessServer(request.user.id, serverId)) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Access denied to this server'
@@ -103,7 +115,7 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
     }
 
     const body = await request.json() as UpdateServerData;
-    const { name, host, port, username, password, isActive } = body;
+    const { name, host, port, username, authMethod, password, privateKey, passphrase, jumpHostId, tags, isActive } = body;
 
     // Validate input if provided
     if (host && !validateIP(host) && !host.includes('.')) {
@@ -120,6 +132,13 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
       }, { status: 400 });
     }
 
+    if (tags !== undefined && !Array.isArray(tags)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Tags must be an array of strings'
+      }, { status: 400 });
+    }
+
     // Get current server data
     const currentServer = await prisma.server.findUnique({
       where: { id: serverId }
@@ -132,15 +151,71 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
       }, { status: 404 });
     }
 
-    // Test connection if credentials changed
+    // undefined keeps the current jump host, null removes it
+    const jumpHostChanged = jumpHostId !== undefined && jumpHostId !== currentServer.jumpHostId;
+    const effectiveJumpHostId = jumpHostId !== undefined ? jumpHostId : currentServer.jumpHostId;
+    const testHost = host || currentServer.host;
+    const testPort = port || currentServer.port;
+    const endpointChanged = testHost !== currentServer.host || testPort !== currentServer.port;
+
+    // Stored credentials are only sent to the saved endpoint, reached the saved way,
+    // so they cannot be pointed at another host; a new route needs them entered again
+    const reuseStoredCredentials = !endpointChanged && !jumpHostChanged;
+    const credentialsChanged = !!(authMethod || password || privateKey || passphrase) || !reuseStoredCredentials;
+    const storedCredentials = readServerCredentials(currentServer);
+    const credentials: ServerCredentials = reuseStoredCredentials
+      ? {
+          authMethod: authMethod || storedCredentials.authMethod,
+          password: password || storedCredentials.password,
+          privateKey: privateKey || storedCredentials.privateKey,
+          passphrase: passphrase || (privateKey ? null : storedCredentials.passphrase)
+        }
+      : {
+          authMethod: authMethod || storedCredentials.authMethod,
+          password: password || null,
+          privateKey: privateKey || null,
+          passphrase: passphrase || null
+        };
+
+    if (credentialsChanged) {
+      const credentialsError = validateCredentials(credentials);
+      if (credentialsError) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: reuseStoredCredentials
+            ? credentialsError
+            : `${credentialsError}: enter the credentials again when changing the host, port or jump host`
+        }, { status: 400 });
+      }
+    }
+
+    if (jumpHostChanged && jumpHostId) {
+      if (!await canAccessServer(request.user.id, jumpHostId)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Access denied to jump host'
+        }, { status: 403 });
+      }
+
+      const jumpHostError = await validateJumpChain(jumpHostId, serverId);
+      if (jumpHostError) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: jumpHostError
+        }, { status: 400 });
+      }
+    }
+
+    // Test connection if credentials or route changed
     let systemInfo = currentServer.systemInfo;
-    if (host || port || username || password) {
-      const testHost = host || currentServer.host;
-      const testPort = port || currentServer.port;
+    let hostKeyData = {};
+    if (host || port || username || credentialsChanged || jumpHostChanged) {
       const testUsername = username || currentServer.username;
-      const testPassword = password || currentServer.password;
 
-      const connectionTest = await testSSHConnection(testHost, testPort, testUsername, testPassword);
+      // A different endpoint has a different host key, so pin it again
+      const pinnedFingerprint = endpointChanged ? null : currentServer.hostKeyFingerprint;
+
+      const connectionTest = await testSSHConnection(testHost, testPort, testUsername, credentials, pinnedFingerprint, effectiveJumpHostId);
       
       if (!connectionTest.success) {
         return NextResponse.json<ApiResponse>({
@@ -151,6 +226,16 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
 
       systemInfo = connectionTest.systemInfo as any;
 
+      if (endpointChanged && connectionTest.hostKey) {
+        hostKeyData = {
+          hostKeyFingerprint: connectionTest.hostKey.fingerprint,
+          hostKeyType: connectionTest.hostKey.keyType,
+          hostKeyVerifiedAt: new Date(),
+          pendingHostKeyFingerprint: null,
+          pendingHostKeyType: null
+        };
+      }
+
       // Close old connection if credentials changed
       await closeSSHConnection(serverId, request.user.id);
     }
@@ -163,7 +248,10 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
         ...(host && { host }),
         ...(port && { port }),
         ...(username && { username }),
-        ...(password && { password }),
+        ...(credentialsChanged && toCredentialColumns(credentials)),
+        ...(jumpHostChanged && { jumpHostId }),
+        ...(tags !== undefined && { tags: normalizeTags(tags) }),
+        ...hostKeyData,
         ...(isActive !== undefined && { isActive }),
         ...(systemInfo && { systemInfo }),
         ...(systemInfo && { lastChecked: new Date() })
@@ -174,13 +262,16 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
         host: true,
         port: true,
         username: true,
+        authMethod: true,
         isActive: true,
         status: true,
         lastChecked: true,
         systemInfo: true,
         createdAt: true,
         updatedAt: true,
-        userId: true
+        userId: true,
+        jumpHostId: true,
+        tags: true
       }
     });
 
@@ -189,7 +280,8 @@ export const PUT = withAuth(async (request: NextRequest & { user: User }, { para
       createdAt: updatedServer.createdAt.toISOString(),
       updatedAt: updatedServer.updatedAt.toISOString(),
       lastChecked: updatedServer.lastChecked?.toISOString(),
-      systemInfo: updatedServer.systemInfo as any
+      systemInfo: updatedServer.systemInfo as any,
+      tags: normalizeTags(updatedServer.tags)
     };
 
     return NextResponse.json<ApiResponse<Server>>({
@@ -220,7 +312,7 @@ export const DELETE = withAuth(async (request: NextRequest & { user: User }, { p
     }
 
     // Check access
-    if (!await canAccessServer(request.user.id, serverId) && request.user.role !== 'ADMIN') {
+    if (!await canAccessServer(request.user.id, serverId)) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Access denied to this server'
@@ -230,7 +322,8 @@ export const DELETE = withAuth(async (request: NextRequest & { user: User }, { p
     // Close SSH connection
     await closeSSHConnection(serverId, request.user.id);
 
-    // Delete server (cascading deletes will handle logs)
+    // Delete server (cascading deletes will handle metrics and server logs; script logs and
+    // recordings keep the server's name and host)
     await prisma.server.delete({
       where: { id: serverId }
     });
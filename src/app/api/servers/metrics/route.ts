@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { getLatestMetrics } from '@/lib/server-metrics';
+import type { ApiResponse, User, ServerMetricSample } from '@/types';
+
+// GET /api/servers/metrics - Get the latest metrics sample of each accessible server
+export const GET = withAuth(async (request: NextRequest & { user: User }) => {
+  try {
+    // Non-admin users can only see their own servers
+    const servers = await prisma.server.findMany({
+      where: request.user.role === 'ADMIN' ? {} : { userId: request.user.id },
+      select: { id: true }
+    });
+
+    const metrics = await getLatestMetrics(servers.map(server => server.id));
+
+    return NextResponse.json<ApiResponse<ServerMetricSample[]>>({
+      success: true,
+      data: metrics
+    });
+
+  } catch (error) {
+    console.error('Get server metrics error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch server metrics'
+    }, { status: 500 });
+  }
+});
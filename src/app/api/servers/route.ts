@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth } from '@/lib/auth';
+import { withAuth, canAccessServer } from '@/lib/auth';
 import { prisma } from '@/lib/database';
 import { testSSHConnection } from '@/lib/ssh';
-import { validateIP, validatePort } from '@/lib/utils';
+import { validateCredentials, toCredentialColumns } from '@/lib/ssh-auth';
+import { validateJumpChain } from '@/lib/ssh-jump';
+import { validateIP, validatePort, normalizeTags } from '@/lib/utils';
 import type { ApiResponse, User, Server, CreateServerData, ServerFilter, PaginatedResponse } from '@/types';
 
 // GET /api/servers - Get user's servers with filtering and pagination
@@ -56,6 +58,7 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
         host: true,
         port: true,
         username: true,
+        authMethod: true,
         isActive: true,
         status: true,
         lastChecked: true,
@@ -63,11 +66,19 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
         createdAt: true,
         updatedAt: true,
         userId: true,
+        jumpHostId: true,
+        tags: true,
         user: {
           select: {
             name: true,
             email: true
           }
+        },
+        jumpHost: {
+          select: {
+            id: true,
+            name: true
+          }
         }
       }
     });
@@ -77,7 +88,8 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
       createdAt: server.createdAt.toISOString(),
       updatedAt: server.updatedAt.toISOString(),
       lastChecked: server.lastChecked?.toISOString(),
-      systemInfo: server.systemInfo as any
+      systemInfo: server.systemInfo as any,
+      tags: normalizeTags(server.tags)
     }));
 
     return NextResponse.json<PaginatedResponse<Server>>({
@@ -104,13 +116,22 @@ export const GET = withAuth(async (request: NextRequest & { user: User }) => {
 export const POST = withAuth(async (request: NextRequest & { user: User }) => {
   try {
     const body = await request.json() as CreateServerData;
-    const { name, host, port = 22, username, password } = body;
+    const { name, host, port = 22, username, authMethod = 'PASSWORD', password, privateKey, passphrase, jumpHostId = null, tags } = body;
 
     // Validate input
-    if (!name || !host || !username || !password) {
+    if (!name || !host || !username) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Name, host, username, and password are required'
+        error: 'Name, host, and username are required'
+      }, { status: 400 });
+    }
+
+    const credentials = { authMethod, password, privateKey, passphrase };
+    const credentialsError = validateCredentials(credentials);
+    if (credentialsError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: credentialsError
       }, { status: 400 });
     }
 
@@ -128,8 +149,32 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
       }, { status: 400 });
     }
 
+    if (tags !== undefined && !Array.isArray(tags)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Tags must be an array of strings'
+      }, { status: 400 });
+    }
+
+    if (jumpHostId) {
+      if (!await canAccessServer(request.user.id, jumpHostId)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Access denied to jump host'
+        }, { status: 403 });
+      }
+
+      const jumpHostError = await validateJumpChain(jumpHostId);
+      if (jumpHostError) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: jumpHostError
+        }, { status: 400 });
+      }
+    }
+
     // Test SSH connection
-    const connectionTest = await testSSHConnection(host, port, username, password);
+    const connectionTest = await testSSHConnection(host, port, username, credentials, null, jumpHostId);
     
     if (!connectionTest.success) {
       return NextResponse.json<ApiResponse>({
@@ -145,7 +190,15 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
         host,
         port,
         username,
-        password, // In production, encrypt this
+        ...toCredentialColumns(credentials),
+        jumpHostId,
+        tags: normalizeTags(tags),
+        // Trust on first use: pin the key seen by the connection test
+        ...(connectionTest.hostKey && {
+          hostKeyFingerprint: connectionTest.hostKey.fingerprint,
+          hostKeyType: connectionTest.hostKey.keyType,
+          hostKeyVerifiedAt: new Date()
+        }),
         status: 'CONNECTED',
         systemInfo: connectionTest.systemInfo as any,
         lastChecked: new Date(),
@@ -157,13 +210,16 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
         host: true,
         port: true,
         username: true,
+        authMethod: true,
         isActive: true,
         status: true,
         lastChecked: true,
         systemInfo: true,
         createdAt: true,
         updatedAt: true,
-        userId: true
+        userId: true,
+        jumpHostId: true,
+        tags: true
       }
     });
 
@@ -172,7 +228,8 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
       createdAt: newServer.createdAt.toISOString(),
       updatedAt: newServer.updatedAt.toISOString(),
       lastChecked: newServer.lastChecked?.toISOString(),
-      systemInfo: newServer.systemInfo as any
+      systemInfo: newServer.systemInfo as any,
+      tags: normalizeTags(newServer.tags)
     };
 
     return NextResponse.json<ApiResponse<Server>>({
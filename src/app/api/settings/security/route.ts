@@ -1,74 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAdminAuth } from '@/lib/auth';
+import { isAllowlistBypassed } from '@/lib/ip-allowlist';
+import { isValidAllowlistEntry, isIpInAllowlist, getRequestIp, UNKNOWN_IP } from '@/lib/ip-address';
 import { prisma } from '@/lib/database';
-import type { ApiResponse, User, SecurityPolicy } from '@/types';
-
-interface SecuritySettings extends SecurityPolicy {
-  passwordMinLength: number;
-  passwordRequireUppercase: boolean;
-  passwordRequireNumbers: boolean;
-  passwordRequireSymbols: boolean;
-  lockoutAttempts: number;
-  lockoutDuration: number;
-  sessionTimeout: number;
-  enableTwoFactor: boolean;
-  ipWhitelist: string[];
-}
-
-// Default security settings
-const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
-  passwordMinLength: 6,
-  passwordRequireUppercase: false,
-  passwordRequireNumbers: true,
-  passwordRequireSymbols: false,
-  lockoutAttempts: 5,
-  lockoutDuration: 300,
-  sessionTimeout: 3600,
-  enableTwoFactor: false,
-  ipWhitelist: [],
-  allowDangerousCommands: true,
-  blockedCommands: [
-    'rm -rf /',
-    'rm -rf /*',
-    'rm -rf .*',
-    'mkfs',
-    'dd if=/dev/zero of=/dev/',
-    'format',
-    ':(){ :|:& };:',
-    'chmod 777 /',
-    'chown root:root /'
-  ],
-  requireSudoConfirmation: true,
-  maxCommandLength: 1000,
-  enableCommandLogging: true
-};
+import { DEFAULT_SECURITY_SETTINGS, getSecuritySettings, type SecuritySettings } from '@/lib/security-settings';
+import type { ApiResponse, User } from '@/types';
 
 // GET /api/settings/security - Get security settings
 export const GET = withAdminAuth(async (request: NextRequest & { user: User }) => {
-  try {
-    const settingsRecord = await prisma.systemSettings.findFirst({
-      where: { key: 'security' }
-    });
-
-    if (settingsRecord) {
-      return NextResponse.json<ApiResponse<SecuritySettings>>({
-        success: true,
-        data: settingsRecord.value as unknown as SecuritySettings
-      });
-    }
-
-    return NextResponse.json<ApiResponse<SecuritySettings>>({
-      success: true,
-      data: DEFAULT_SECURITY_SETTINGS
-    });
-
-  } catch (error) {
-    console.error('Get security settings error:', error);
-    return NextResponse.json<ApiResponse<SecuritySettings>>({
-      success: true,
-      data: DEFAULT_SECURITY_SETTINGS
-    });
-  }
+  return NextResponse.json<ApiResponse<SecuritySettings>>({
+    success: true,
+    data: await getSecuritySettings()
+  });
 });
 
 // PUT /api/settings/security - Update security settings
@@ -105,17 +48,47 @@ export const PUT = withAdminAuth(async (request: NextRequest & { user: User }) =
       }, { status: 400 });
     }
 
+    if (body.blockedCommands !== undefined) {
+      if (!Array.isArray(body.blockedCommands) || body.blockedCommands.some(item => typeof item !== 'string')) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Blocked commands must be a list of strings'
+        }, { status: 400 });
+      }
+      body.blockedCommands = body.blockedCommands.map(item => item.trim()).filter(Boolean);
+    }
+
+    if (body.approvalRequiredCommands !== undefined) {
+      if (!Array.isArray(body.approvalRequiredCommands) || body.approvalRequiredCommands.some(item => typeof item !== 'string')) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Commands requiring approval must be a list of strings'
+        }, { status: 400 });
+      }
+      body.approvalRequiredCommands = body.approvalRequiredCommands.map(item => item.trim()).filter(Boolean);
+    }
+
     // Validate IP whitelist format
     if (body.ipWhitelist) {
-      const ipRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)(?:\/\d{1,2})?$/;
       for (const ip of body.ipWhitelist) {
-        if (!ipRegex.test(ip) && ip !== 'localhost') {
+        if (!isValidAllowlistEntry(ip)) {
           return NextResponse.json<ApiResponse>({
             success: false,
             error: `Invalid IP address format: ${ip}`
           }, { status: 400 });
         }
       }
+
+      // Refuse a list that would lock out the admin saving it
+      const clientIP = getRequestIp(request);
+      if (!isAllowlistBypassed() && !isIpInAllowlist(clientIP, body.ipWhitelist)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: clientIP === UNKNOWN_IP
+            ? 'Your address is unknown, so an IP whitelist would lock you out. Set TRUSTED_PROXY_COUNT to the number of reverse proxies in front of the panel'
+            : `IP whitelist must include your current address (${clientIP})`
+        }, { status: 400 });
+      }
     }
 
     try {
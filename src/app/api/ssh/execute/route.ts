@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, canAccessServer } from '@/lib/auth';
 import { executeCommand } from '@/lib/ssh';
-import type { ApiResponse, User } from '@/types';
+import { loadCommandValidator, getApprovalReason } from '@/lib/command-middleware';
+import type { ApiResponse, CommandConfirmation, User } from '@/types';
 
 interface ExecuteCommandData {
   serverId: number;
   command: string;
   timeout?: number;
   cwd?: string;
+  confirmed?: boolean;
 }
 
 export const POST = withAuth(async (request: NextRequest & { user: User }) => {
   try {
     const body = await request.json() as ExecuteCommandData;
-    const { serverId, command, timeout, cwd } = body;
+    const { serverId, command, timeout, cwd, confirmed } = body;
 
     // Validate input
     if (!serverId || !command) {
@@ -31,26 +33,36 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
       }, { status: 403 });
     }
 
-    // Security check - prevent dangerous commands
-    const dangerousCommands = [
-      'rm -rf /',
-      'rm -rf *',
-      'mkfs',
-      'dd if=/dev/zero',
-      'format',
-      'fdisk',
-      'parted',
-      ':(){ :|:& };:'  // fork bomb
-    ];
+    // Security policy check (blocked, length, dangerous and sudo rules from the security settings)
+    const validator = await loadCommandValidator();
+    const validation = validator.validate(command, request.user.id, serverId);
 
-    const lowerCommand = command.toLowerCase();
-    if (dangerousCommands.some(dangerous => lowerCommand.includes(dangerous))) {
+    if (!validation.allowed) {
+      validator.logCommand(command, request.user.id, serverId, 'blocked', { reason: validation.warning });
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Command contains potentially dangerous operations'
+        error: validation.warning || 'Command is not allowed by the security policy'
       }, { status: 400 });
     }
 
+    // Approval runs through the script runner's queue; only admins can run such commands directly
+    const approvalReason = getApprovalReason(request.user, null, command, validator);
+    if (approvalReason) {
+      validator.logCommand(command, request.user.id, serverId, 'blocked', { reason: approvalReason });
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `${approvalReason}. Only an admin can run it here; request approval from the script runner`
+      }, { status: 403 });
+    }
+
+    if (validation.requiresConfirmation && !confirmed) {
+      return NextResponse.json<ApiResponse<CommandConfirmation>>({
+        success: false,
+        error: 'Command requires confirmation',
+        data: { requiresConfirmation: true, warning: validation.warning || '' }
+      }, { status: 409 });
+    }
+
     // Execute command
     const result = await executeCommand(serverId, request.user.id, command, {
       timeout,
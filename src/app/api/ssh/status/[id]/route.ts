@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, canAccessServer } from '@/lib/auth';
 import { updateServerSystemInfo } from '@/lib/ssh';
 import { prisma } from '@/lib/database';
+import { hostKeyMismatchMessage } from '@/lib/ssh-hostkey';
 import type { ApiResponse, User, SystemInfo } from '@/types';
 
 interface RouteParams {
@@ -57,10 +58,23 @@ export const GET = withAuth(async (request: NextRequest & { user: User }, { para
         name: true,
         status: true,
         lastChecked: true,
-        systemInfo: true
+        systemInfo: true,
+        pendingHostKeyFingerprint: true,
+        pendingHostKeyType: true
       }
     });
 
+    // Refuse to report a connection while a changed host key awaits review
+    if (!systemInfo && updatedServer?.pendingHostKeyFingerprint) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: hostKeyMismatchMessage(updatedServer.name, {
+          fingerprint: updatedServer.pendingHostKeyFingerprint,
+          keyType: updatedServer.pendingHostKeyType || 'unknown'
+        })
+      }, { status: 409 });
+    }
+
     return NextResponse.json<ApiResponse<{
       serverId: number;
       serverName: string;
@@ -1,31 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth } from '@/lib/auth';
+import { withAuth, canAccessServer } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { buildAuthConfig, validateCredentials, readServerCredentials, type ServerCredentials } from '@/lib/ssh-auth';
+import { createHostKeyCheck, hostKeyMismatchMessage, type PresentedHostKey } from '@/lib/ssh-hostkey';
+import { openJumpTunnel, validateJumpChain, type JumpTunnel } from '@/lib/ssh-jump';
 import { validateIP, validatePort } from '@/lib/utils';
-import type { ApiResponse, User, SystemInfo } from '@/types';
+import type { ApiResponse, User, SystemInfo, SSHAuthMethod } from '@/types';
 
 interface TestConnectionData {
   host: string;
   port?: number;
   username: string;
-  password: string;
+  authMethod?: SSHAuthMethod;
+  password?: string;
+  privateKey?: string;
+  passphrase?: string;
+  // When editing an existing server, missing credentials fall back to the stored ones
+  // if host, port and jump host are unchanged
+  serverId?: number;
+  jumpHostId?: number | null;
 }
 
 async function testSSHConnection(
   host: string,
   port: number,
   username: string,
-  password: string
-): Promise<{ success: boolean; error?: string; systemInfo?: SystemInfo }> {
+  credentials: ServerCredentials,
+  pinnedFingerprint: string | null,
+  jumpHostId: number | null
+): Promise<{ success: boolean; error?: string; systemInfo?: SystemInfo; hostKey?: PresentedHostKey }> {
+  const hostKeyCheck = createHostKeyCheck(pinnedFingerprint);
+  let tunnel: JumpTunnel | null = null;
+
   try {
     // Import node-ssh dynamically to avoid server-side issues
     const { NodeSSH } = await import('node-ssh');
     const ssh = new NodeSSH();
+
+    tunnel = await openJumpTunnel(jumpHostId, host, port);
     
     await ssh.connect({
       host,
       port,
       username,
-      password,
+      ...buildAuthConfig(credentials),
+      hostVerifier: hostKeyCheck.hostVerifier,
+      ...(tunnel && { sock: tunnel.sock }),
       readyTimeout: 10000,
       algorithms: {
         kex: ['diffie-hellman-group14-sha256', 'diffie-hellman-group14-sha1'],
@@ -54,10 +74,21 @@ async function testSSHConnection(
     };
     
     await ssh.dispose();
+    tunnel?.close();
     
-    return { success: true, systemInfo };
+    return { success: true, systemInfo, hostKey: hostKeyCheck.presented || undefined };
   } catch (error) {
+    tunnel?.close();
     console.error('SSH connection test failed:', error);
+
+    if (hostKeyCheck.mismatch) {
+      return {
+        success: false,
+        error: hostKeyMismatchMessage(host, hostKeyCheck.presented),
+        hostKey: hostKeyCheck.presented || undefined
+      };
+    }
+
     return { 
       success: false, 
       error: error instanceof Error ? error.message : 'Connection failed' 
@@ -68,13 +99,72 @@ async function testSSHConnection(
 export const POST = withAuth(async (request: NextRequest & { user: User }) => {
   try {
     const body = await request.json() as TestConnectionData;
-    const { host, port = 22, username, password } = body;
+    const { host, port = 22, username, authMethod = 'PASSWORD', password, privateKey, passphrase, serverId, jumpHostId = null } = body;
 
     // Validate input
-    if (!host || !username || !password) {
+    if (!host || !username) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Host and username are required'
+      }, { status: 400 });
+    }
+
+    const credentials: ServerCredentials = { authMethod, password, privateKey, passphrase };
+    let pinnedFingerprint: string | null = null;
+
+    if (serverId) {
+      if (!await canAccessServer(request.user.id, serverId)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Access denied to this server'
+        }, { status: 403 });
+      }
+
+      const storedServer = await prisma.server.findUnique({
+        where: { id: serverId }
+      });
+
+      if (storedServer) {
+        const sameEndpoint = storedServer.host === host && storedServer.port === port;
+
+        // Stored credentials are only sent to the saved endpoint, reached the saved way,
+        // so they cannot be pointed at another host
+        if (sameEndpoint && storedServer.jumpHostId === jumpHostId) {
+          const storedCredentials = readServerCredentials(storedServer);
+          credentials.password = password || storedCredentials.password;
+          credentials.privateKey = privateKey || storedCredentials.privateKey;
+          credentials.passphrase = passphrase || (privateKey ? null : storedCredentials.passphrase);
+        }
+
+        // Only verify against the pin when testing the same endpoint
+        if (sameEndpoint) {
+          pinnedFingerprint = storedServer.hostKeyFingerprint;
+        }
+      }
+    }
+
+    if (jumpHostId) {
+      if (!await canAccessServer(request.user.id, jumpHostId)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Access denied to jump host'
+        }, { status: 403 });
+      }
+
+      const jumpHostError = await validateJumpChain(jumpHostId, serverId);
+      if (jumpHostError) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: jumpHostError
+        }, { status: 400 });
+      }
+    }
+
+    const credentialsError = validateCredentials(credentials);
+    if (credentialsError) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Host, username, and password are required'
+        error: credentialsError
       }, { status: 400 });
     }
 
@@ -93,7 +183,7 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
     }
 
     // Test SSH connection
-    const result = await testSSHConnection(host, port, username, password);
+    const result = await testSSHConnection(host, port, username, credentials, pinnedFingerprint, jumpHostId);
 
     if (!result.success) {
       return NextResponse.json<ApiResponse>({
@@ -105,11 +195,13 @@ export const POST = withAuth(async (request: NextRequest & { user: User }) => {
     return NextResponse.json<ApiResponse<{
       connectionSuccess: boolean;
       systemInfo?: SystemInfo;
+      hostKey?: PresentedHostKey;
     }>>({
       success: true,
       data: {
         connectionSuccess: true,
-        systemInfo: result.systemInfo
+        systemInfo: result.systemInfo,
+        hostKey: result.hostKey
       },
       message: 'SSH connection test successful'
     });
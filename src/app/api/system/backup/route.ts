@@ -95,7 +95,10 @@ export const POST = withAdminAuth(async (request: NextRequest & { user: User })
           host: true,
           port: true,
           username: true,
-          // Not including password for security
+          authMethod: true,
+          jumpHostId: true,
+          tags: true,
+          // Not including password or private key for security
           isActive: true,
           status: true,
           systemInfo: true,
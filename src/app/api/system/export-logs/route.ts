@@ -93,7 +93,7 @@ export const GET = withAdminAuth(async (request: NextRequest & { user: User }) =
         output: log.output,
         error: log.error,
         serverId: log.serverId,
-        serverName: log.server?.name || 'Unknown',
+        serverName: log.server?.name || log.serverName || 'Unknown',
         userId: log.userId,
         userName: log.user?.name || 'Unknown',
         startTime: log.startTime.toISOString(),
@@ -114,7 +114,7 @@ export const GET = withAdminAuth(async (request: NextRequest & { user: User }) =
       const scriptLogsCsv = [
         'ID,Script Name,Command,Status,Server Name,User Name,Start Time,End Time,Duration',
         ...scriptLogs.map(log =>
-          `${log.id},"${log.scriptName}","${(log.command || '').replace(/"/g, '""')}","${log.status}","${log.server?.name || ''}","${log.user?.name || ''}","${log.startTime.toISOString()}","${log.endTime?.toISOString() || ''}","${log.duration || ''}"`
+          `${log.id},"${log.scriptName}","${(log.command || '').replace(/"/g, '""')}","${log.status}","${log.server?.name || log.serverName || ''}","${log.user?.name || ''}","${log.startTime.toISOString()}","${log.endTime?.toISOString() || ''}","${log.duration || ''}"`
         )
       ].join('\n');
 
@@ -226,6 +226,20 @@ export const DELETE = withAdminAuth(async (request: NextRequest & { user: User }
       }, { status: 404 });
     }
 
+    // Script runs and terminal recordings are kept for auditing, so their user cannot be deleted
+    const [scriptLogs, executions, recordings] = await Promise.all([
+      prisma.scriptLog.count({ where: { userId } }),
+      prisma.execution.count({ where: { userId } }),
+      prisma.terminalRecording.count({ where: { userId } })
+    ]);
+
+    if (scriptLogs + executions + recordings > 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'User has script run history or terminal recordings. Deactivate the account instead'
+      }, { status: 409 });
+    }
+
     // Check if user has servers - transfer or delete them
     const userServers = await prisma.server.count({
       where: { userId }
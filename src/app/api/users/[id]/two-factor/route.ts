@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { disableTwoFactor } from '@/lib/two-factor';
+import type { ApiResponse, User } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// DELETE /api/users/[id]/two-factor - Reset two-factor for a user who lost their device (Admin only)
+export const DELETE = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const userId = parseInt(params.id);
+
+    if (isNaN(userId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid user ID'
+      }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true
+      }
+    });
+
+    if (!user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 });
+    }
+
+    await disableTwoFactor(user, request.user);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Two-factor authentication reset successfully'
+    });
+
+  } catch (error) {
+    console.error('Reset two-factor error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to reset two-factor authentication'
+    }, { status: 500 });
+  }
+});
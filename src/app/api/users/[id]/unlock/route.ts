@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database';
+import { unlockAccount } from '@/lib/login-lockout';
+import type { ApiResponse, User } from '@/types';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// POST /api/users/[id]/unlock - Clear a login lockout (Admin only)
+export const POST = withAdminAuth(async (request: NextRequest & { user: User }, { params }: RouteParams) => {
+  try {
+    const userId = parseInt(params.id);
+
+    if (isNaN(userId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid user ID'
+      }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true
+      }
+    });
+
+    if (!user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 });
+    }
+
+    await unlockAccount(user, request.user);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'User unlocked successfully'
+    });
+
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to unlock user'
+    }, { status: 500 });
+  }
+});
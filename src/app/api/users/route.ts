@@ -65,14 +65,20 @@ export const GET = withAdminAuth(async (request: NextRequest & { user: User }) =
         role: true,
         isActive: true,
         createdAt: true,
-        updatedAt: true
+        updatedAt: true,
+        twoFactorEnabled: true,
+        failedLoginAttempts: true,
+        lockedUntil: true
       }
     });
 
+    const now = new Date();
     const usersData: User[] = users.map(user => ({
       ...user,
       createdAt: user.createdAt.toISOString(),
-      updatedAt: user.updatedAt.toISOString()
+      updatedAt: user.updatedAt.toISOString(),
+      // Expired lockouts are reported as unlocked
+      lockedUntil: user.lockedUntil && user.lockedUntil > now ? user.lockedUntil.toISOString() : undefined
     }));
 
     return NextResponse.json<PaginatedResponse<User>>({
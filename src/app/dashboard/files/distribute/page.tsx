@@ -0,0 +1,518 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  ArrowLeft,
+  Share2,
+  Upload,
+  Server as ServerIcon,
+  Play,
+  Square,
+  RotateCcw,
+  CheckCircle,
+  XCircle,
+  Loader2,
+  Clock,
+  ShieldCheck
+} from 'lucide-react';
+import { io, Socket } from 'socket.io-client';
+import Swal from 'sweetalert2';
+import Layout from '@/components/Layout';
+import { formatBytes } from '@/lib/utils';
+import { getWebSocketUrl, createTransferId, stageFile } from '@/lib/file-transfer-client';
+import type {
+  Server,
+  ApiResponse,
+  StagedFile,
+  DistributionSource,
+  DistributionProgress,
+  FileDistributionRequest,
+  FileTransferProgress
+} from '@/types';
+
+interface DistributionRow {
+  id: number;
+  name: string;
+  progress?: DistributionProgress;
+}
+
+interface DistributionSummary {
+  fileName: string;
+  size: number;
+  checksum: string;
+  successCount?: number;
+  failedCount?: number;
+}
+
+export default function DistributeFilePage() {
+  const [servers, setServers] = useState<Server[]>([]);
+  const [selectedServers, setSelectedServers] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [sourceType, setSourceType] = useState<DistributionSource['type']>('local');
+  const [localFile, setLocalFile] = useState<File | null>(null);
+  const [staged, setStaged] = useState<StagedFile | null>(null);
+  const [staging, setStaging] = useState<{ transferred: number; total: number } | null>(null);
+  const [sourceServerId, setSourceServerId] = useState<number | null>(null);
+  const [sourcePath, setSourcePath] = useState('');
+
+  const [targetPath, setTargetPath] = useState('');
+  const [owner, setOwner] = useState('');
+  const [group, setGroup] = useState('');
+  const [mode, setMode] = useState('');
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [rows, setRows] = useState<DistributionRow[]>([]);
+  const [summary, setSummary] = useState<DistributionSummary | null>(null);
+
+  const socketRef = useRef<Socket | null>(null);
+  const distributionIdRef = useRef<string | null>(null);
+  const stageTransferIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    fetchServers();
+    initializeSocket();
+
+    return () => {
+      socketRef.current?.disconnect();
+      socketRef.current = null;
+    };
+  }, []);
+
+  const fetchServers = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (!token) return;
+
+      const response = await fetch('/api/servers?status=CONNECTED&limit=100', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<Server[]> = await response.json();
+      if (data.success) {
+        setServers(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch servers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const initializeSocket = () => {
+    const token = localStorage.getItem('auth_token');
+    if (!token) return;
+
+    const socket = io(getWebSocketUrl(), {
+      auth: { token },
+      transports: ['websocket', 'polling'],
+      reconnectionAttempts: 5,
+      reconnectionDelay: 1000,
+      timeout: 20000,
+    });
+    socketRef.current = socket;
+
+    const isCurrent = (data: { distributionId?: string }) => data.distributionId === distributionIdRef.current;
+
+    // Staging upload progress
+    socket.on('file:transfer:progress', (data: FileTransferProgress) => {
+      if (data.transferId === stageTransferIdRef.current) {
+        setStaging(prev => prev && { ...prev, transferred: data.transferred });
+      }
+    });
+
+    socket.on('distribute:started', (data: DistributionSummary & {
+      distributionId: string;
+      servers: { id: number; name: string }[];
+    }) => {
+      if (!isCurrent(data)) return;
+      setRows(data.servers.map(server => ({ id: server.id, name: server.name })));
+      setSummary({ fileName: data.fileName, size: data.size, checksum: data.checksum });
+    });
+
+    socket.on('distribute:progress', (data: DistributionProgress) => {
+      if (!isCurrent(data)) return;
+      setRows(prev => prev.map(row => row.id === data.serverId ? { ...row, progress: data } : row));
+    });
+
+    socket.on('distribute:completed', (data: { distributionId: string; successCount: number; failedCount: number }) => {
+      if (!isCurrent(data)) return;
+      setIsRunning(false);
+      setSummary(prev => prev && { ...prev, successCount: data.successCount, failedCount: data.failedCount });
+    });
+
+    socket.on('distribute:cancelled', (data: { distributionId: string }) => {
+      if (!isCurrent(data)) return;
+      setIsRunning(false);
+    });
+
+    socket.on('distribute:error', (data: { distributionId?: string; error: string }) => {
+      if (data.distributionId && !isCurrent(data)) return;
+      setIsRunning(false);
+      // The staged copy may have expired; upload again on the next run
+      setStaged(null);
+      Swal.fire({ title: 'กระจายไฟล์ไม่สำเร็จ', text: data.error, icon: 'error' });
+    });
+  };
+
+  const handleServerToggle = (serverId: number) => {
+    setSelectedServers(prev =>
+      prev.includes(serverId) ? prev.filter(id => id !== serverId) : [...prev, serverId]
+    );
+  };
+
+  const handleSelectAll = () => {
+    setSelectedServers(selectedServers.length === servers.length ? [] : servers.map(server => server.id));
+  };
+
+  const handleFileChange = (file: File | null) => {
+    setLocalFile(file);
+    setStaged(null);
+  };
+
+  // Upload the local file to the WebSocket server once; later runs reuse it
+  const ensureStaged = async (): Promise<StagedFile | null> => {
+    if (staged) return staged;
+    if (!localFile) return null;
+
+    const transferId = createTransferId();
+    stageTransferIdRef.current = transferId;
+    setStaging({ transferred: 0, total: localFile.size });
+
+    const result = await stageFile(localFile, transferId, socketRef.current?.id);
+    setStaging(null);
+
+    if (!result.success || !result.data) {
+      await Swal.fire({ title: 'อัปโหลดไม่สำเร็จ', text: result.error, icon: 'error' });
+      return null;
+    }
+
+    setStaged(result.data);
+    return result.data;
+  };
+
+  const startDistribution = async (serverIds: number[]) => {
+    if (!socketRef.current?.connected) {
+      await Swal.fire({ title: 'ยังไม่ได้เชื่อมต่อ', text: 'ไม่สามารถเชื่อมต่อ WebSocket ได้', icon: 'error' });
+      return;
+    }
+
+    let source: DistributionSource;
+    if (sourceType === 'local') {
+      const file = await ensureStaged();
+      if (!file) return;
+      source = { type: 'local', stageId: file.stageId };
+    } else {
+      if (!sourceServerId || !sourcePath.trim()) return;
+      source = { type: 'remote', serverId: sourceServerId, path: sourcePath.trim() };
+    }
+
+    const distributionId = `dist-${Date.now()}`;
+    distributionIdRef.current = distributionId;
+    setIsRunning(true);
+    setRows(servers.filter(server => serverIds.includes(server.id)).map(server => ({ id: server.id, name: server.name })));
+    setSummary(null);
+
+    const request: FileDistributionRequest = {
+      distributionId,
+      source,
+      targetPath: targetPath.trim(),
+      serverIds,
+      ...(owner.trim() && { owner: owner.trim() }),
+      ...(group.trim() && { group: group.trim() }),
+      ...(mode.trim() && { mode: mode.trim() })
+    };
+    socketRef.current.emit('file:distribute', request);
+  };
+
+  const cancelDistribution = () => {
+    if (distributionIdRef.current) {
+      socketRef.current?.emit('distribute:cancel', { distributionId: distributionIdRef.current });
+    }
+  };
+
+  const failedServerIds = rows.filter(row => row.progress?.status === 'failed').map(row => row.id);
+  const hasSource = sourceType === 'local' ? !!localFile : !!sourceServerId && sourcePath.trim().startsWith('/');
+  const canStart = hasSource && targetPath.trim().startsWith('/') && selectedServers.length > 0 && !isRunning && !staging;
+
+  const renderStatus = (progress?: DistributionProgress) => {
+    switch (progress?.status) {
+      case 'success': return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'failed': return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'verifying': return <ShieldCheck className="h-4 w-4 text-blue-500 animate-pulse" />;
+      case 'running': return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
+      default: return <Clock className="h-4 w-4 text-gray-400" />;
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <a
+            href="/dashboard/files"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            กลับไปหน้าจัดการไฟล์
+          </a>
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <Share2 className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">กระจายไฟล์</h1>
+              <p className="text-sm text-gray-500">อัปโหลดไฟล์เดียวไปยังหลายเซิร์ฟเวอร์ พร้อมตรวจสอบ checksum</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Source */}
+            <div className="bg-white shadow-soft rounded-lg p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-medium text-gray-900">ไฟล์ต้นทาง</h2>
+                <div className="inline-flex rounded-md border border-gray-200 p-0.5 text-sm">
+                  <button
+                    onClick={() => setSourceType('local')}
+                    disabled={isRunning}
+                    className={`px-3 py-1 rounded ${sourceType === 'local' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'}`}
+                  >
+                    จากเครื่องนี้
+                  </button>
+                  <button
+                    onClick={() => setSourceType('remote')}
+                    disabled={isRunning}
+                    className={`px-3 py-1 rounded ${sourceType === 'remote' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'}`}
+                  >
+                    จากเซิร์ฟเวอร์
+                  </button>
+                </div>
+              </div>
+
+              {sourceType === 'local' ? (
+                <div>
+                  <label className="flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400">
+                    <Upload className="h-5 w-5 text-gray-400 mr-2" />
+                    <span className="text-sm text-gray-600">
+                      {localFile ? `${localFile.name} (${formatBytes(localFile.size)})` : 'เลือกไฟล์'}
+                    </span>
+                    <input
+                      type="file"
+                      className="hidden"
+                      disabled={isRunning}
+                      onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                    />
+                  </label>
+                  {staging && (
+                    <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all"
+                        style={{ width: `${staging.total ? Math.round(staging.transferred / staging.total * 100) : 0}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <select
+                    value={sourceServerId || ''}
+                    onChange={(e) => setSourceServerId(parseInt(e.target.value) || null)}
+                    disabled={isRunning}
+                    className="form-input"
+                  >
+                    <option value="" disabled>เลือกเซิร์ฟเวอร์</option>
+                    {servers.map(server => (
+                      <option key={server.id} value={server.id}>{server.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={sourcePath}
+                    onChange={(e) => setSourcePath(e.target.value)}
+                    disabled={isRunning}
+                    className="form-input font-mono text-sm sm:col-span-2"
+                    placeholder="/path/to/file"
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Target */}
+            <div className="bg-white shadow-soft rounded-lg p-6 space-y-4">
+              <h2 className="text-lg font-medium text-gray-900">ปลายทาง</h2>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">พาธปลายทาง</label>
+                <input
+                  type="text"
+                  value={targetPath}
+                  onChange={(e) => setTargetPath(e.target.value)}
+                  disabled={isRunning}
+                  className="form-input font-mono text-sm"
+                  placeholder="/etc/app/config.yml หรือ /opt/app/ (ใช้ชื่อไฟล์เดิม)"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">เจ้าของ</label>
+                  <input
+                    type="text"
+                    value={owner}
+                    onChange={(e) => setOwner(e.target.value)}
+                    disabled={isRunning}
+                    className="form-input font-mono text-sm"
+                    placeholder="root"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">กลุ่ม</label>
+                  <input
+                    type="text"
+                    value={group}
+                    onChange={(e) => setGroup(e.target.value)}
+                    disabled={isRunning}
+                    className="form-input font-mono text-sm"
+                    placeholder="www-data"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">สิทธิ์ (octal)</label>
+                  <input
+                    type="text"
+                    value={mode}
+                    onChange={(e) => setMode(e.target.value)}
+                    disabled={isRunning}
+                    className="form-input font-mono text-sm"
+                    placeholder="644"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                {isRunning ? (
+                  <button onClick={cancelDistribution} className="btn-secondary">
+                    <Square className="h-4 w-4 mr-2" />
+                    หยุด
+                  </button>
+                ) : (
+                  <button onClick={() => startDistribution(selectedServers)} disabled={!canStart} className="btn-primary">
+                    {staging ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                    กระจายไปยัง {selectedServers.length} เซิร์ฟเวอร์
+                  </button>
+                )}
+                {!isRunning && failedServerIds.length > 0 && (
+                  <button onClick={() => startDistribution(failedServerIds)} className="btn-secondary">
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    ลองใหม่เฉพาะที่ล้มเหลว ({failedServerIds.length})
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Results */}
+            {rows.length > 0 && (
+              <div className="bg-white shadow-soft rounded-lg overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900">ผลการกระจายไฟล์</h2>
+                  {summary && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {summary.fileName} · {formatBytes(summary.size)} · SHA-256 <span className="font-mono">{summary.checksum}</span>
+                      {summary.successCount !== undefined && ` · สำเร็จ ${summary.successCount} ล้มเหลว ${summary.failedCount}`}
+                    </p>
+                  )}
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {rows.map(row => {
+                    const progress = row.progress;
+                    const percent = progress?.total ? Math.round((progress.transferred || 0) / progress.total * 100) : 0;
+
+                    return (
+                      <div key={row.id} className="px-6 py-3 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="inline-flex items-center font-medium text-gray-900">
+                            <span className="mr-2">{renderStatus(progress)}</span>
+                            {row.name}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {progress?.status === 'verifying' && 'กำลังตรวจสอบ checksum'}
+                            {progress?.status === 'running' && `${formatBytes(progress.transferred || 0)} / ${formatBytes(progress.total || 0)}`}
+                            {progress?.status === 'success' && <span className="font-mono">{progress.path}</span>}
+                            {!progress && 'รอ'}
+                          </span>
+                        </div>
+                        {(progress?.status === 'running' || progress?.status === 'verifying') && (
+                          <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                          </div>
+                        )}
+                        {progress?.status === 'failed' && (
+                          <p className="mt-1 text-xs text-red-600">{progress.error}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Server Selection */}
+          <div className="lg:col-span-1">
+            <div className="bg-white shadow-soft rounded-lg p-6 sticky top-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium text-gray-900">เซิร์ฟเวอร์ปลายทาง</h2>
+                <button
+                  onClick={handleSelectAll}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                  disabled={isRunning}
+                >
+                  {selectedServers.length === servers.length && servers.length > 0 ? 'ไม่เลือกทั้งหมด' : 'เลือกทั้งหมด'}
+                </button>
+              </div>
+
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {loading ? (
+                  <div className="text-center py-4">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto text-gray-400" />
+                  </div>
+                ) : servers.length === 0 ? (
+                  <div className="text-center py-4 text-gray-500">ไม่พบเซิร์ฟเวอร์ที่เชื่อมต่ออยู่</div>
+                ) : (
+                  servers.map(server => (
+                    <label
+                      key={server.id}
+                      className={`flex items-center p-3 rounded-lg border-2 cursor-pointer transition-all duration-150 ${
+                        selectedServers.includes(server.id)
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      } ${isRunning ? 'opacity-60 cursor-not-allowed' : ''}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedServers.includes(server.id)}
+                        onChange={() => handleServerToggle(server.id)}
+                        disabled={isRunning}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <div className="ml-3 flex-1 min-w-0">
+                        <div className="font-medium text-gray-900 truncate flex items-center">
+                          <ServerIcon className="h-4 w-4 text-gray-400 mr-1.5 flex-shrink-0" />
+                          {server.name}
+                        </div>
+                        <div className="text-sm text-gray-500 truncate">{server.host}</div>
+                      </div>
+                    </label>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
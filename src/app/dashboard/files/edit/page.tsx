@@ -0,0 +1,351 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { ArrowLeft, FileCode, Save, RefreshCw, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import Swal from 'sweetalert2';
+import Layout from '@/components/Layout';
+import CodeEditor from '@/components/CodeEditor';
+import { detectLanguage } from '@/lib/syntax-highlight';
+import { formatBytes } from '@/lib/utils';
+import type {
+  ApiResponse,
+  Server,
+  RemoteFileContent,
+  RemoteFileInfo,
+  SaveFileData,
+  SaveFileResult,
+  FileValidationResult,
+  CommandConfirmation
+} from '@/types';
+
+// Suggested validation command by path; {file} is the new content in a temporary file,
+// commands without it check the installed configuration after the file is written
+const VALIDATION_PRESETS: { pattern: RegExp; command: string }[] = [
+  { pattern: /^\/etc\/nginx\//, command: 'nginx -t' },
+  { pattern: /^\/etc\/(apache2|httpd)\//, command: 'apachectl configtest' },
+  { pattern: /^\/etc\/ssh\/sshd_config$/, command: 'sshd -t -f {file}' },
+  { pattern: /^\/etc\/sudoers/, command: 'visudo -c -f {file}' },
+  { pattern: /\.php$/, command: 'php -l {file}' },
+  { pattern: /\.(sh|bash)$/, command: 'bash -n {file}' },
+  { pattern: /\.py$/, command: 'python3 -c "import ast, sys; ast.parse(open(sys.argv[1]).read())" {file}' },
+  { pattern: /\.json$/, command: 'python3 -m json.tool {file} > /dev/null' }
+];
+
+const suggestValidation = (path: string) =>
+  VALIDATION_PRESETS.find(preset => preset.pattern.test(path))?.command || '';
+
+type SaveOptions = Pick<SaveFileData, 'force' | 'confirmed'>;
+
+export default function FileEditorPage() {
+  const searchParams = useSearchParams();
+  const serverId = parseInt(searchParams?.get('server') || '') || null;
+  const filePath = searchParams?.get('path') || '';
+
+  const [server, setServer] = useState<Server | null>(null);
+  const [file, setFile] = useState<RemoteFileContent | null>(null);
+  const [content, setContent] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [validateCommand, setValidateCommand] = useState(() => suggestValidation(filePath));
+  const [runValidation, setRunValidation] = useState(() => !!suggestValidation(filePath));
+  const [backup, setBackup] = useState(true);
+  const [lastSave, setLastSave] = useState<SaveFileResult | null>(null);
+  const [validationFailure, setValidationFailure] = useState<FileValidationResult | null>(null);
+
+  const dirty = !!file && content !== file.content;
+  const directory = filePath.substring(0, filePath.lastIndexOf('/')) || '/';
+
+  const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+  });
+
+  useEffect(() => {
+    if (!serverId || !filePath) {
+      setLoading(false);
+      return;
+    }
+
+    fetchServer();
+    loadFile();
+  }, [serverId, filePath]);
+
+  // Warn before leaving with unsaved changes
+  useEffect(() => {
+    if (!dirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [dirty]);
+
+  const fetchServer = async () => {
+    try {
+      const response = await fetch(`/api/servers/${serverId}`, { headers: authHeaders() });
+      const data: ApiResponse<Server> = await response.json();
+      if (data.success && data.data) {
+        setServer(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch server:', error);
+    }
+  };
+
+  const loadFile = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/servers/${serverId}/files/content?path=${encodeURIComponent(filePath)}`,
+        { headers: authHeaders() }
+      );
+      const data: ApiResponse<RemoteFileContent> = await response.json();
+
+      if (data.success && data.data) {
+        setFile(data.data);
+        setContent(data.data.content);
+        setError(null);
+        setValidationFailure(null);
+      } else {
+        setError(data.error || 'ไม่สามารถเปิดไฟล์ได้');
+      }
+    } catch (error) {
+      console.error('Failed to open file:', error);
+      setError('ไม่สามารถเปิดไฟล์ได้');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reloadFile = async () => {
+    if (dirty) {
+      const result = await Swal.fire({
+        title: 'โหลดไฟล์ใหม่?',
+        text: 'การแก้ไขที่ยังไม่ได้บันทึกจะหายไป',
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'โหลดใหม่',
+        cancelButtonText: 'ยกเลิก'
+      });
+      if (!result.isConfirmed) return;
+    }
+    await loadFile();
+  };
+
+  const saveFile = useCallback(async (options: SaveOptions = {}) => {
+    if (!file || saving) return;
+
+    setSaving(true);
+    setValidationFailure(null);
+    try {
+      const body: SaveFileData = {
+        path: file.path,
+        content,
+        lineEnding: file.lineEnding,
+        expectedHash: file.hash,
+        backup,
+        ...(runValidation && validateCommand.trim() && { validateCommand: validateCommand.trim() }),
+        ...options
+      };
+
+      const response = await fetch(`/api/servers/${serverId}/files/content`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(body)
+      });
+      const data: ApiResponse<SaveFileResult
+        | { conflict: true; current: RemoteFileInfo }
+        | { validation: FileValidationResult }
+        | CommandConfirmation> = await response.json();
+
+      if (data.success && data.data && 'file' in data.data) {
+        setFile({ ...file, ...data.data.file, content });
+        setLastSave(data.data);
+        return;
+      }
+
+      if (data.data && 'conflict' in data.data) {
+        const result = await Swal.fire({
+          title: 'ไฟล์ถูกแก้ไขบนเซิร์ฟเวอร์',
+          text: `ไฟล์ถูกเปลี่ยนแปลงเมื่อ ${new Date(data.data.current.modified).toLocaleString('th-TH')} หลังจากที่เปิดไว้`,
+          icon: 'warning',
+          showCancelButton: true,
+          showDenyButton: true,
+          confirmButtonColor: '#dc2626',
+          confirmButtonText: 'เขียนทับ',
+          denyButtonText: 'โหลดไฟล์ล่าสุด',
+          cancelButtonText: 'ยกเลิก'
+        });
+        if (result.isConfirmed) {
+          setSaving(false);
+          await saveFile({ ...options, force: true });
+        } else if (result.isDenied) {
+          await loadFile();
+        }
+        return;
+      }
+
+      if (data.data && 'requiresConfirmation' in data.data) {
+        const result = await Swal.fire({
+          title: 'ยืนยันคำสั่งตรวจสอบ',
+          text: data.data.warning,
+          icon: 'warning',
+          showCancelButton: true,
+          confirmButtonText: 'รันและบันทึก',
+          cancelButtonText: 'ยกเลิก'
+        });
+        if (result.isConfirmed) {
+          setSaving(false);
+          await saveFile({ ...options, confirmed: true });
+        }
+        return;
+      }
+
+      if (data.data && 'validation' in data.data) {
+        setValidationFailure(data.data.validation);
+        return;
+      }
+
+      await Swal.fire({ title: 'บันทึกไม่สำเร็จ', text: data.error, icon: 'error' });
+    } catch (error) {
+      console.error('Failed to save file:', error);
+      await Swal.fire({ title: 'บันทึกไม่สำเร็จ', text: 'ไม่สามารถเชื่อมต่อเซิร์ฟเวอร์ได้', icon: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  }, [file, content, saving, backup, runValidation, validateCommand, serverId]);
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <a
+            href={`/dashboard/files?server=${serverId}&path=${encodeURIComponent(directory)}`}
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            กลับไปหน้าจัดการไฟล์
+          </a>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3 min-w-0">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <FileCode className="h-6 w-6 text-blue-600" />
+              </div>
+              <div className="min-w-0">
+                <h1 className="text-xl font-bold text-gray-900 font-mono truncate">
+                  {filePath}
+                  {dirty && <span className="ml-2 text-orange-500" title="ยังไม่ได้บันทึก">●</span>}
+                </h1>
+                <p className="text-sm text-gray-500">
+                  {server ? `${server.name} (${server.host})` : 'กำลังโหลด...'}
+                  {file && ` · ${formatBytes(file.size)} · ${detectLanguage(filePath)} · ${file.lineEnding.toUpperCase()} · แก้ไขล่าสุด ${new Date(file.modified).toLocaleString('th-TH')}`}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2 flex-shrink-0">
+              <button onClick={reloadFile} disabled={loading || saving} className="btn-secondary">
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                โหลดใหม่
+              </button>
+              <button onClick={() => saveFile()} disabled={!file || saving} className="btn-primary">
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                บันทึก
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="bg-white shadow-soft rounded-lg text-center py-12">
+            <XCircle className="mx-auto h-12 w-12 text-red-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">{error}</h3>
+          </div>
+        ) : !serverId || !filePath ? (
+          <div className="bg-white shadow-soft rounded-lg text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">ไม่ได้ระบุเซิร์ฟเวอร์หรือไฟล์</h3>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Save options */}
+            <div className="bg-white shadow-soft rounded-lg px-4 py-3 flex flex-wrap items-center gap-4 text-sm">
+              <label className="inline-flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={runValidation}
+                  onChange={(e) => setRunValidation(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span className="text-gray-700">ตรวจสอบก่อนบันทึก</span>
+              </label>
+              <input
+                type="text"
+                value={validateCommand}
+                onChange={(e) => setValidateCommand(e.target.value)}
+                disabled={!runValidation}
+                className="form-input font-mono text-sm flex-1 min-w-[16rem] disabled:opacity-50"
+                placeholder="เช่น nginx -t หรือ php -l {file}"
+                title="{file} จะถูกแทนด้วยไฟล์ชั่วคราวที่มีเนื้อหาใหม่ ถ้าไม่มี {file} คำสั่งจะรันหลังเขียนไฟล์และคืนค่าเดิมหากไม่ผ่าน"
+              />
+              <label className="inline-flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={backup}
+                  onChange={(e) => setBackup(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span className="text-gray-700">สำรองไฟล์เดิม</span>
+              </label>
+            </div>
+
+            {validationFailure && (
+              <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 text-sm">
+                <p className="flex items-center font-medium text-red-800">
+                  <XCircle className="h-4 w-4 mr-2" />
+                  ตรวจสอบไม่ผ่าน (exit {validationFailure.exitCode}) ไฟล์บนเซิร์ฟเวอร์ไม่ถูกเปลี่ยนแปลง
+                </p>
+                <p className="mt-1 font-mono text-xs text-red-700">$ {validationFailure.command}</p>
+                {validationFailure.output && (
+                  <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap font-mono text-xs text-red-700">{validationFailure.output}</pre>
+                )}
+              </div>
+            )}
+
+            {lastSave && !dirty && !validationFailure && (
+              <div className="bg-green-50 border border-green-200 rounded-lg px-4 py-3 text-sm text-green-800">
+                <p className="flex items-center font-medium">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  บันทึกแล้ว
+                  {lastSave.validation && ` · ผ่านการตรวจสอบด้วย ${lastSave.validation.command}`}
+                </p>
+                {lastSave.backupPath && (
+                  <p className="mt-1 text-xs">สำรองไฟล์เดิมไว้ที่ <span className="font-mono">{lastSave.backupPath}</span></p>
+                )}
+              </div>
+            )}
+
+            {loading && !file ? (
+              <div className="bg-white shadow-soft rounded-lg text-center py-12">
+                <Loader2 className="mx-auto h-8 w-8 text-gray-400 animate-spin" />
+              </div>
+            ) : (
+              <CodeEditor
+                value={content}
+                onChange={setContent}
+                language={detectLanguage(filePath)}
+                onSave={() => saveFile()}
+                className="rounded-lg shadow-soft h-[calc(100vh-22rem)] min-h-[24rem]"
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
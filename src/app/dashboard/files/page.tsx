@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { FolderOpen, Server, Share2 } from 'lucide-react';
+import Layout from '@/components/Layout';
+import FileBrowser from '@/components/FileBrowser';
+import type { Server as ServerType, ApiResponse } from '@/types';
+
+export default function FilesPage() {
+  const [servers, setServers] = useState<ServerType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const serverId = parseInt(searchParams?.get('server') || '') || null;
+  const initialPath = searchParams?.get('path') || undefined;
+
+  useEffect(() => {
+    fetchServers();
+  }, []);
+
+  const fetchServers = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (!token) return;
+
+      const response = await fetch('/api/servers?limit=100', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<ServerType[]> = await response.json();
+      if (data.success) {
+        setServers(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch servers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectServer = (id: number) => {
+    router.push(`/dashboard/files?server=${id}`);
+  };
+
+  // Keep the current directory in the URL so it can be bookmarked or reloaded
+  const handlePathChange = (path: string) => {
+    if (serverId) {
+      window.history.replaceState(null, '', `/dashboard/files?server=${serverId}&path=${encodeURIComponent(path)}`);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <FolderOpen className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">จัดการไฟล์</h1>
+              <p className="text-sm text-gray-500">เรียกดูและจัดการไฟล์บนเซิร์ฟเวอร์ผ่าน SFTP</p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <a href="/dashboard/files/distribute" className="btn-secondary">
+              <Share2 className="h-4 w-4 mr-2" />
+              กระจายไฟล์
+            </a>
+            <Server className="h-5 w-5 text-gray-400" />
+            <select
+              value={serverId || ''}
+              onChange={(e) => selectServer(parseInt(e.target.value))}
+              className="form-input"
+              disabled={loading}
+            >
+              <option value="" disabled>เลือกเซิร์ฟเวอร์</option>
+              {servers.map(server => (
+                <option key={server.id} value={server.id}>{server.name} ({server.host})</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {serverId ? (
+          <FileBrowser
+            key={serverId}
+            serverId={serverId}
+            initialPath={initialPath}
+            onPathChange={handlePathChange}
+          />
+        ) : (
+          <div className="bg-white shadow-soft rounded-lg text-center py-12">
+            <FolderOpen className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">เลือกเซิร์ฟเวอร์เพื่อเรียกดูไฟล์</h3>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
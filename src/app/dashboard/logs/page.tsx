@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Fragment } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { 
   Search, 
   Filter, 
@@ -12,24 +13,33 @@ import {
   Clock, 
   Loader,
   Calendar,
+  ChevronDown,
+  ChevronRight,
   Server as ServerIcon
 } from 'lucide-react';
 import Layout from '@/components/Layout';
 import { formatRelativeTime, formatDuration, getScriptStatusColor, getScriptStatusText } from '@/lib/utils';
-import type { ScriptLog, Server, ApiResponse, PaginatedResponse } from '@/types';
+import type { ScriptLog, ScriptLogEntry, Execution, Server, ApiResponse, PaginatedResponse } from '@/types';
 
 export default function LogsPage() {
-  const [logs, setLogs] = useState<ScriptLog[]>([]);
+  const searchParams = useSearchParams();
+  const [entries, setEntries] = useState<ScriptLogEntry[]>([]);
   const [servers, setServers] = useState<Server[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedLog, setSelectedLog] = useState<ScriptLog | null>(null);
   const [showModal, setShowModal] = useState(false);
+  // One run across several servers is one row, expanded to its per-server logs
+  const [groupRuns, setGroupRuns] = useState(true);
+  // Expanded runs with their loaded logs; null while loading
+  const [expandedRuns, setExpandedRuns] = useState<Record<number, Execution | null>>({});
   
   // Filters
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState('');
   const [serverFilter, setServerFilter] = useState('');
+  // Runs of one schedule, from the schedules page (?scheduleId=)
+  const [scheduleFilter, setScheduleFilter] = useState(searchParams?.get('scheduleId') || '');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [sortBy, setSortBy] = useState('startTime');
@@ -44,7 +54,7 @@ export default function LogsPage() {
   useEffect(() => {
     fetchServers();
     fetchLogs();
-  }, [currentPage, search, statusFilter, serverFilter, startDate, endDate, sortBy, sortOrder]);
+  }, [currentPage, search, statusFilter, serverFilter, scheduleFilter, startDate, endDate, sortBy, sortOrder, groupRuns]);
 
   const fetchServers = async () => {
     try {
@@ -80,10 +90,12 @@ export default function LogsPage() {
       if (search) params.append('search', search);
       if (statusFilter) params.append('status', statusFilter);
       if (serverFilter) params.append('serverId', serverFilter);
+      if (scheduleFilter) params.append('scheduleId', scheduleFilter);
       if (startDate) params.append('startDate', startDate);
       if (endDate) params.append('endDate', endDate);
       params.append('sortBy', sortBy);
       params.append('sortOrder', sortOrder);
+      if (groupRuns) params.append('groupExecutions', 'true');
 
       const response = await fetch(`/api/scripts/logs?${params}`, {
         headers: {
@@ -92,9 +104,12 @@ export default function LogsPage() {
       });
 
       if (response.ok) {
-        const data: PaginatedResponse<ScriptLog> = await response.json();
+        const data: PaginatedResponse<ScriptLogEntry | ScriptLog> = await response.json();
         if (data.success) {
-          setLogs(data.data || []);
+          setEntries(groupRuns
+            ? (data.data || []) as ScriptLogEntry[]
+            : ((data.data || []) as ScriptLog[]).map(log => ({ type: 'log' as const, log })));
+          setExpandedRuns({});
           setTotalPages(data.pagination.totalPages);
           setTotalLogs(data.pagination.total);
         }
@@ -116,6 +131,7 @@ export default function LogsPage() {
     setSearch('');
     setStatusFilter('');
     setServerFilter('');
+    setScheduleFilter('');
     setStartDate('');
     setEndDate('');
     setCurrentPage(1);
@@ -129,6 +145,7 @@ export default function LogsPage() {
       if (search) params.append('search', search);
       if (statusFilter) params.append('status', statusFilter);
       if (serverFilter) params.append('serverId', serverFilter);
+      if (scheduleFilter) params.append('scheduleId', scheduleFilter);
       if (startDate) params.append('startDate', startDate);
       if (endDate) params.append('endDate', endDate);
       params.append('limit', '1000'); // Export more records
@@ -168,7 +185,7 @@ export default function LogsPage() {
     const rows = logs.map(log => [
       log.scriptName,
       log.command,
-      log.server?.name || 'Unknown',
+      log.serverName || 'Unknown',
       log.status,
       log.startTime,
       log.endTime || '',
@@ -211,9 +228,246 @@ export default function LogsPage() {
     }
   };
 
-  const viewLogDetails = (log: ScriptLog) => {
+  const viewLogDetails = async (log: ScriptLog) => {
     setSelectedLog(log);
     setShowModal(true);
+
+    // Grouped lists leave output out; load it when the log is opened
+    if (log.output !== undefined || log.error !== undefined) return;
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/scripts/logs/${log.id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<ScriptLog> = await response.json();
+      if (data.success && data.data) {
+        const detail = data.data;
+        setSelectedLog(prev => prev?.id === detail.id ? detail : prev);
+      }
+    } catch (error) {
+      console.error('Failed to fetch log:', error);
+    }
+  };
+
+  const toggleRun = async (execution: Execution) => {
+    if (execution.id in expandedRuns) {
+      setExpandedRuns(prev => {
+        const next = { ...prev };
+        delete next[execution.id];
+        return next;
+      });
+      return;
+    }
+
+    setExpandedRuns(prev => ({ ...prev, [execution.id]: null }));
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/scripts/executions/${execution.id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<Execution> = await response.json();
+      if (data.success && data.data) {
+        const detail = data.data;
+        // Keep it collapsed if it was closed while loading
+        setExpandedRuns(prev => execution.id in prev ? { ...prev, [execution.id]: detail } : prev);
+      }
+    } catch (error) {
+      console.error('Failed to fetch execution:', error);
+    }
+  };
+
+  const firstLog = entries
+    .find((entry): entry is Extract<ScriptLogEntry, { type: 'log' }> => entry.type === 'log')?.log;
+
+  const renderLogRow = (log: ScriptLog, nested = false) => (
+    <tr key={log.id} className={`table-row ${nested ? 'bg-gray-50' : ''}`}>
+      <td className="table-cell">
+        <div className={nested ? 'pl-6' : ''}>
+          <div className="font-medium text-gray-900">
+            {log.scriptName}
+            {log.scriptId && log.scriptVersion && (
+              <a
+                href={`/dashboard/scripts/library/${log.scriptId}?version=${log.scriptVersion}`}
+                className="ml-2 text-xs font-normal text-blue-600 hover:underline"
+              >
+                v{log.scriptVersion}
+              </a>
+            )}
+            {log.scheduleId && (
+              <span
+                className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-purple-100 text-purple-700 rounded"
+                title={log.scheduleName ? `Schedule: ${log.scheduleName}` : 'Scheduled run'}
+              >
+                Scheduled
+              </span>
+            )}
+            {log.runbookRunId && (
+              <a
+                href={`/dashboard/scripts/runbooks/runs/${log.runbookRunId}`}
+                className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-indigo-100 text-indigo-700 rounded hover:underline"
+                title={`Runbook run #${log.runbookRunId}, step ${(log.runbookStep ?? 0) + 1}`}
+              >
+                Runbook
+              </a>
+            )}
+            {log.approvalId && (
+              <a
+                href="/dashboard/scripts/approvals"
+                className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-green-100 text-green-700 rounded hover:underline"
+                title={`Approval request #${log.approvalId}`}
+              >
+                Approved{log.approvedBy && ` by ${log.approvedBy.name}`}
+              </a>
+            )}
+          </div>
+          <div className="text-sm text-gray-500 truncate max-w-xs">
+            {log.command}
+          </div>
+        </div>
+      </td>
+      <td className="table-cell">
+        <div className="flex items-center">
+          <ServerIcon className="h-4 w-4 text-gray-400 mr-2" />
+          <span>{log.serverName || 'Unknown'}</span>
+        </div>
+      </td>
+      <td className="table-cell">
+        <div className="flex items-center">
+          {getStatusIcon(log.status)}
+          <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getScriptStatusColor(log.status)}`}>
+            {getScriptStatusText(log.status)}
+          </span>
+        </div>
+      </td>
+      <td className="table-cell">
+        <div>
+          <div className="text-sm text-gray-900">
+            {formatRelativeTime(log.startTime)}
+          </div>
+          <div className="text-xs text-gray-500">
+            {new Date(log.startTime).toLocaleString()}
+          </div>
+        </div>
+      </td>
+      <td className="table-cell">
+        {log.duration ? formatDuration(log.duration * 1000) : '-'}
+      </td>
+      <td className="table-cell">
+        <button
+          onClick={() => viewLogDetails(log)}
+          className="text-blue-600 hover:text-blue-800 transition-colors duration-150"
+        >
+          <Eye className="h-4 w-4" />
+        </button>
+      </td>
+    </tr>
+  );
+
+  const renderExecutionRows = (execution: Execution) => {
+    const detail = expandedRuns[execution.id];
+    const expanded = execution.id in expandedRuns;
+
+    return (
+      <Fragment key={`execution-${execution.id}`}>
+        <tr className="table-row cursor-pointer" onClick={() => toggleRun(execution)}>
+          <td className="table-cell">
+            <div className="flex items-start">
+              {expanded
+                ? <ChevronDown className="h-4 w-4 text-gray-400 mr-2 mt-1 flex-shrink-0" />
+                : <ChevronRight className="h-4 w-4 text-gray-400 mr-2 mt-1 flex-shrink-0" />}
+              <div>
+                <div className="font-medium text-gray-900">
+                  {execution.scriptName}
+                  {execution.scriptId && execution.scriptVersion && (
+                    <a
+                      href={`/dashboard/scripts/library/${execution.scriptId}?version=${execution.scriptVersion}`}
+                      onClick={(e) => e.stopPropagation()}
+                      className="ml-2 text-xs font-normal text-blue-600 hover:underline"
+                    >
+                      v{execution.scriptVersion}
+                    </a>
+                  )}
+                  {execution.approvalId && (
+                    <a
+                      href="/dashboard/scripts/approvals"
+                      onClick={(e) => e.stopPropagation()}
+                      className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-green-100 text-green-700 rounded hover:underline"
+                      title={`Approval request #${execution.approvalId}`}
+                    >
+                      Approved
+                    </a>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500 truncate max-w-xs">
+                  {execution.command}
+                </div>
+                {execution.user && (
+                  <div className="text-xs text-gray-400">Run by {execution.user.name}</div>
+                )}
+              </div>
+            </div>
+          </td>
+          <td className="table-cell">
+            <div className="flex items-center">
+              <ServerIcon className="h-4 w-4 text-gray-400 mr-2" />
+              <span>{execution.serverCount} servers</span>
+            </div>
+            <div className="text-xs text-gray-500">
+              {execution.successCount} succeeded, {execution.failedCount} failed
+              {execution.skippedCount > 0 && `, ${execution.skippedCount} skipped`}
+              {' · '}{execution.strategy.mode}
+            </div>
+          </td>
+          <td className="table-cell">
+            <div className="flex items-center">
+              {getStatusIcon(execution.status)}
+              <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getScriptStatusColor(execution.status)}`}>
+                {getScriptStatusText(execution.status)}
+              </span>
+            </div>
+            {execution.stoppedReason && (
+              <div className="text-xs text-gray-500 mt-1 max-w-xs truncate" title={execution.stoppedReason}>
+                {execution.stoppedReason}
+              </div>
+            )}
+          </td>
+          <td className="table-cell">
+            <div>
+              <div className="text-sm text-gray-900">
+                {formatRelativeTime(execution.startTime)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {new Date(execution.startTime).toLocaleString()}
+              </div>
+            </div>
+          </td>
+          <td className="table-cell">
+            {execution.duration ? formatDuration(execution.duration * 1000) : '-'}
+          </td>
+          <td className="table-cell">
+            <span className="text-sm text-blue-600">
+              {expanded ? 'Hide servers' : 'Show servers'}
+            </span>
+          </td>
+        </tr>
+        {expanded && (detail
+          ? detail.logs?.map(log => renderLogRow(log, true))
+          : (
+            <tr className="bg-gray-50">
+              <td colSpan={6} className="table-cell text-center text-sm text-gray-500">
+                <Loader className="h-4 w-4 animate-spin inline mr-2" />
+                Loading servers...
+              </td>
+            </tr>
+          ))}
+      </Fragment>
+    );
   };
 
   return (
@@ -344,6 +598,18 @@ export default function LogsPage() {
                   <option value="asc">Oldest First</option>
                 </select>
               </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={groupRuns}
+                  onChange={(e) => {
+                    setGroupRuns(e.target.checked);
+                    setCurrentPage(1);
+                  }}
+                  className="mr-2"
+                />
+                Group runs across servers
+              </label>
             </div>
             <button
               onClick={clearFilters}
@@ -356,7 +622,15 @@ export default function LogsPage() {
 
         {/* Results Summary */}
         <div className="mb-4 text-sm text-gray-600">
-          Showing {logs.length} of {totalLogs} script executions
+          Showing {entries.length} of {totalLogs} {groupRuns ? 'script runs' : 'script executions'}
+          {scheduleFilter && (
+            <span className="ml-2">
+              from schedule {firstLog?.scheduleName ? `"${firstLog.scheduleName}"` : `#${scheduleFilter}`}
+              <button onClick={() => setScheduleFilter('')} className="ml-2 text-blue-600 hover:text-blue-800">
+                Show all
+              </button>
+            </span>
+          )}
         </div>
 
         {/* Logs Table */}
@@ -366,7 +640,7 @@ export default function LogsPage() {
               <Loader className="h-8 w-8 animate-spin mx-auto text-gray-400 mb-4" />
               <p className="text-gray-500">Loading logs...</p>
             </div>
-          ) : logs.length === 0 ? (
+          ) : entries.length === 0 ? (
             <div className="p-8 text-center">
               <div className="mx-auto h-24 w-24 text-gray-400 mb-4">
                 <svg fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -390,53 +664,9 @@ export default function LogsPage() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {logs.map((log) => (
-                    <tr key={log.id} className="table-row">
-                      <td className="table-cell">
-                        <div>
-                          <div className="font-medium text-gray-900">{log.scriptName}</div>
-                          <div className="text-sm text-gray-500 truncate max-w-xs">
-                            {log.command}
-                          </div>
-                        </div>
-                      </td>
-                      <td className="table-cell">
-                        <div className="flex items-center">
-                          <ServerIcon className="h-4 w-4 text-gray-400 mr-2" />
-                          <span>{log.server?.name || 'Unknown'}</span>
-                        </div>
-                      </td>
-                      <td className="table-cell">
-                        <div className="flex items-center">
-                          {getStatusIcon(log.status)}
-                          <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getScriptStatusColor(log.status)}`}>
-                            {getScriptStatusText(log.status)}
-                          </span>
-                        </div>
-                      </td>
-                      <td className="table-cell">
-                        <div>
-                          <div className="text-sm text-gray-900">
-                            {formatRelativeTime(log.startTime)}
-                          </div>
-                          <div className="text-xs text-gray-500">
-                            {new Date(log.startTime).toLocaleString()}
-                          </div>
-                        </div>
-                      </td>
-                      <td className="table-cell">
-                        {log.duration ? formatDuration(log.duration * 1000) : '-'}
-                      </td>
-                      <td className="table-cell">
-                        <button
-                          onClick={() => viewLogDetails(log)}
-                          className="text-blue-600 hover:text-blue-800 transition-colors duration-150"
-                        >
-                          <Eye className="h-4 w-4" />
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
+                  {entries.map((entry) => entry.type === 'log'
+                    ? renderLogRow(entry.log)
+                    : renderExecutionRows(entry.execution))}
                 </tbody>
               </table>
             </div>
@@ -488,11 +718,21 @@ export default function LogsPage() {
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="text-sm font-medium text-gray-500">Script Name</label>
-                      <p className="mt-1 text-sm text-gray-900">{selectedLog.scriptName}</p>
+                      <p className="mt-1 text-sm text-gray-900">
+                        {selectedLog.scriptName}
+                        {selectedLog.scriptId && selectedLog.scriptVersion && (
+                          <a
+                            href={`/dashboard/scripts/library/${selectedLog.scriptId}?version=${selectedLog.scriptVersion}`}
+                            className="ml-2 text-blue-600 hover:underline"
+                          >
+                            Version {selectedLog.scriptVersion}
+                          </a>
+                        )}
+                      </p>
                     </div>
                     <div>
                       <label className="text-sm font-medium text-gray-500">Server</label>
-                      <p className="mt-1 text-sm text-gray-900">{selectedLog.server?.name}</p>
+                      <p className="mt-1 text-sm text-gray-900">{selectedLog.serverName}</p>
                     </div>
                     <div>
                       <label className="text-sm font-medium text-gray-500">Status</label>
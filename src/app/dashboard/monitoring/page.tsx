@@ -8,36 +8,23 @@ import {
   MemoryStick, 
   HardDrive, 
   Wifi, 
-  Clock,
   TrendingUp,
   TrendingDown,
   RefreshCw,
   AlertTriangle,
   CheckCircle,
-  XCircle
+  XCircle,
+  Bell
 } from 'lucide-react';
 import Layout from '@/components/Layout';
+import { SEVERITY_LABELS, SEVERITY_COLORS } from '@/components/AlertRulesPanel';
 import { formatBytes, formatUptime, formatRelativeTime } from '@/lib/utils';
-import type { Server as ServerType, SystemInfo, ApiResponse } from '@/types';
+import type { Server as ServerType, SystemInfo, ServerMetricSample, AlertEvent, ApiResponse } from '@/types';
 
 interface ServerMonitorData extends ServerType {
   systemInfo?: SystemInfo;
-  metrics?: {
-    cpuUsage: number;
-    memoryUsage: number;
-    diskUsage: number;
-    networkIn: number;
-    networkOut: number;
-  };
-  alerts?: Alert[];
-}
-
-interface Alert {
-  id: string;
-  type: 'warning' | 'error' | 'info';
-  message: string;
-  timestamp: string;
-  resolved: boolean;
+  metrics?: ServerMetricSample;
+  alerts?: AlertEvent[];
 }
 
 interface MetricCardProps {
@@ -45,12 +32,13 @@ interface MetricCardProps {
   value: string | number;
   unit?: string;
   percentage?: number;
+  detail?: string;
   trend?: 'up' | 'down' | 'stable';
   status?: 'good' | 'warning' | 'critical';
   icon: React.ComponentType<{ className?: string }>;
 }
 
-function MetricCard({ title, value, unit, percentage, trend, status, icon: Icon }: MetricCardProps) {
+function MetricCard({ title, value, unit, percentage, detail, trend, status, icon: Icon }: MetricCardProps) {
   const getStatusColor = () => {
     switch (status) {
       case 'good': return 'text-green-600 bg-green-100';
@@ -84,6 +72,7 @@ function MetricCard({ title, value, unit, percentage, trend, status, icon: Icon
               {unit && <span className="text-sm text-gray-500 ml-1">{unit}</span>}
               {getTrendIcon()}
             </div>
+            {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
           </div>
         </div>
       </div>
@@ -110,6 +99,65 @@ function MetricCard({ title, value, unit, percentage, trend, status, icon: Icon
   );
 }
 
+interface AlertListProps {
+  alerts: AlertEvent[];
+  onAction?: (alert: AlertEvent, action: 'acknowledge' | 'resolve') => void;
+}
+
+function AlertList({ alerts, onAction }: AlertListProps) {
+  return (
+    <div className="space-y-2">
+      {alerts.map((alert) => (
+        <div
+          key={alert.id}
+          className={`p-3 rounded-md border-l-4 ${
+            alert.status === 'RESOLVED' ? 'bg-gray-50 border-gray-300 text-gray-700' :
+            alert.severity === 'CRITICAL' ? 'bg-red-50 border-red-400 text-red-700' :
+            alert.severity === 'WARNING' ? 'bg-yellow-50 border-yellow-400 text-yellow-700' :
+            'bg-blue-50 border-blue-400 text-blue-700'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 min-w-0">
+              <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_COLORS[alert.severity]}`}>
+                {SEVERITY_LABELS[alert.severity]}
+              </span>
+              <p className="text-sm font-medium truncate">{alert.message}</p>
+            </div>
+            <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+              <span className="text-xs text-gray-500">
+                {formatRelativeTime(alert.firedAt)}
+              </span>
+              {onAction && alert.status === 'FIRING' && (
+                <button
+                  onClick={() => onAction(alert, 'acknowledge')}
+                  className="px-2 py-1 text-xs font-medium rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                >
+                  รับทราบ
+                </button>
+              )}
+              {onAction && alert.status !== 'RESOLVED' && (
+                <button
+                  onClick={() => onAction(alert, 'resolve')}
+                  className="px-2 py-1 text-xs font-medium rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                >
+                  ปิดการแจ้งเตือน
+                </button>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {alert.status === 'ACKNOWLEDGED' && `รับทราบโดย ${alert.acknowledgedBy || '-'}`}
+            {alert.status === 'RESOLVED' && alert.resolvedAt && (
+              `แก้ไขแล้ว ${formatRelativeTime(alert.resolvedAt)}${alert.resolvedBy ? ` โดย ${alert.resolvedBy}` : ' (กลับสู่ภาวะปกติ)'}`
+            )}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 interface ServerMonitorCardProps {
   server: ServerMonitorData;
   onRefresh: (serverId: number) => void;
@@ -118,6 +166,7 @@ interface ServerMonitorCardProps {
 
 function ServerMonitorCard({ server, onRefresh, refreshing }: ServerMonitorCardProps) {
   const systemInfo = server.systemInfo;
+  const metrics = server.metrics;
 
   const getStatusIcon = () => {
     switch (server.status) {
@@ -132,16 +181,8 @@ function ServerMonitorCard({ server, onRefresh, refreshing }: ServerMonitorCardP
     }
   };
 
-  // แก้ไขการคำนวณ Memory Usage ให้ถูกต้อง
-  const memoryUsage = systemInfo && systemInfo.totalMemory > 0 ? 
-    ((systemInfo.totalMemory - systemInfo.freeMemory) / systemInfo.totalMemory) * 100 : 0;
-
-  const primaryDisk = systemInfo?.diskUsage?.[0];
-  const diskUsage = primaryDisk ? 
-    parseFloat(primaryDisk.usePercent.replace('%', '')) : 0;
-
-  const cpuLoad = systemInfo?.loadAverage?.[0] || 0;
-  const cpuUsage = Math.min((cpuLoad / (systemInfo?.cpuCount || 1)) * 100, 100);
+  // The first sample after a (re)connect has no previous counters to compute a rate from
+  const formatRate = (rate: number | null) => rate === null ? '-' : `${formatBytes(Math.round(rate))}/s`;
 
   return (
     <div className="bg-white rounded-lg shadow-soft overflow-hidden">
@@ -153,7 +194,11 @@ function ServerMonitorCard({ server, onRefresh, refreshing }: ServerMonitorCardP
               <Server className="h-6 w-6 text-blue-600" />
             </div>
             <div>
-              <h3 className="text-lg font-medium text-gray-900">{server.name}</h3>
+              <h3 className="text-lg font-medium text-gray-900">
+                <a href={`/dashboard/servers/${server.id}`} className="hover:text-blue-600 transition-colors duration-150">
+                  {server.name}
+                </a>
+              </h3>
               <p className="text-sm text-gray-500">{server.host}:{server.port}</p>
             </div>
           </div>
@@ -183,48 +228,47 @@ function ServerMonitorCard({ server, onRefresh, refreshing }: ServerMonitorCardP
       </div>
 
       {/* Metrics */}
-      {server.status === 'CONNECTED' && systemInfo && (
+      {server.status === 'CONNECTED' && metrics && (
         <div className="p-6">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
             {/* CPU Usage */}
             <MetricCard
               title="CPU"
-              value={cpuUsage.toFixed(1)}
+              value={metrics.cpuUsage.toFixed(1)}
               unit="%"
-              percentage={cpuUsage}
-              status={cpuUsage > 90 ? 'critical' : cpuUsage > 75 ? 'warning' : 'good'}
+              percentage={metrics.cpuUsage}
+              status={metrics.cpuUsage > 90 ? 'critical' : metrics.cpuUsage > 75 ? 'warning' : 'good'}
               icon={Cpu}
-              trend={cpuUsage > 80 ? 'up' : 'stable'}
+              trend={metrics.cpuUsage > 80 ? 'up' : 'stable'}
             />
 
-            {/* Memory Usage - แก้ไขการแสดงผล */}
+            {/* Memory Usage */}
             <MetricCard
               title="หน่วยความจำ"
-              value={formatBytes(systemInfo.totalMemory - systemInfo.freeMemory)}
-              percentage={memoryUsage}
-              status={memoryUsage > 90 ? 'critical' : memoryUsage > 75 ? 'warning' : 'good'}
+              value={formatBytes(metrics.memoryUsed)}
+              percentage={metrics.memoryUsage}
+              status={metrics.memoryUsage > 90 ? 'critical' : metrics.memoryUsage > 75 ? 'warning' : 'good'}
               icon={MemoryStick}
-              trend={memoryUsage > 80 ? 'up' : 'stable'}
+              trend={metrics.memoryUsage > 80 ? 'up' : 'stable'}
             />
 
-            {/* Disk Usage */}
-            {primaryDisk && (
-              <MetricCard
-                title="พื้นที่เก็บข้อมูล"
-                value={primaryDisk.used}
-                percentage={diskUsage}
-                status={diskUsage > 90 ? 'critical' : diskUsage > 75 ? 'warning' : 'good'}
-                icon={HardDrive}
-                trend={diskUsage > 80 ? 'up' : 'stable'}
-              />
-            )}
+            {/* Disk Usage (root filesystem) */}
+            <MetricCard
+              title="พื้นที่เก็บข้อมูล"
+              value={formatBytes(metrics.diskUsed)}
+              percentage={metrics.diskUsage}
+              status={metrics.diskUsage > 90 ? 'critical' : metrics.diskUsage > 75 ? 'warning' : 'good'}
+              icon={HardDrive}
+              trend={metrics.diskUsage > 80 ? 'up' : 'stable'}
+            />
 
-            {/* Uptime */}
+            {/* Network */}
             <MetricCard
-              title="เวลาทำงาน"
-              value={formatUptime(systemInfo.uptime)}
+              title="เครือข่าย"
+              value={formatRate(metrics.networkInRate)}
+              detail={`รับข้อมูล · ส่ง ${formatRate(metrics.networkOutRate)}`}
               status="good"
-              icon={Clock}
+              icon={Wifi}
               trend="stable"
             />
           </div>
@@ -235,60 +279,52 @@ function ServerMonitorCard({ server, onRefresh, refreshing }: ServerMonitorCardP
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
               <div>
                 <span className="text-gray-500">ระบบปฏิบัติการ:</span>
-                <div className="font-medium">{systemInfo.os} {systemInfo.arch}</div>
+                <div className="font-medium">{systemInfo ? `${systemInfo.os} ${systemInfo.arch}` : 'ไม่มีข้อมูล'}</div>
               </div>
               <div>
                 <span className="text-gray-500">จำนวน CPU:</span>
-                <div className="font-medium">{systemInfo.cpuCount} cores</div>
+                <div className="font-medium">{metrics.cpuCores} cores</div>
               </div>
               <div>
                 <span className="text-gray-500">Load Average:</span>
                 <div className="font-medium">
-                  {systemInfo.loadAverage.map(load => load.toFixed(2)).join(', ')}
+                  {metrics.loadAverage.map(load => load.toFixed(2)).join(', ')}
                 </div>
               </div>
               <div>
                 <span className="text-gray-500">หน่วยความจำรวม:</span>
-                <div className="font-medium">{formatBytes(systemInfo.totalMemory)}</div>
+                <div className="font-medium">{formatBytes(metrics.memoryTotal)}</div>
               </div>
               <div>
-                <span className="text-gray-500">หน่วยความจำว่าง:</span>
-                <div className="font-medium">{formatBytes(systemInfo.freeMemory)}</div>
+                <span className="text-gray-500">พื้นที่เก็บข้อมูลรวม:</span>
+                <div className="font-medium">{formatBytes(metrics.diskTotal)}</div>
               </div>
               <div>
-                <span className="text-gray-500">ตรวจสอบล่าสุด:</span>
-                <div className="font-medium">
-                  {server.lastChecked ? formatRelativeTime(server.lastChecked) : 'ไม่มีข้อมูล'}
-                </div>
+                <span className="text-gray-500">เวลาทำงาน:</span>
+                <div className="font-medium">{formatUptime(metrics.uptime)}</div>
+              </div>
+              <div>
+                <span className="text-gray-500">เก็บข้อมูลล่าสุด:</span>
+                <div className="font-medium">{formatRelativeTime(metrics.timestamp)}</div>
               </div>
             </div>
           </div>
+        </div>
+      )}
 
-          {/* Alerts */}
-          {server.alerts && server.alerts.length > 0 && (
-            <div className="mt-6">
-              <h4 className="text-sm font-medium text-gray-900 mb-3">การแจ้งเตือน</h4>
-              <div className="space-y-2">
-                {server.alerts.slice(0, 3).map((alert) => (
-                  <div
-                    key={alert.id}
-                    className={`p-3 rounded-md border-l-4 ${
-                      alert.type === 'error' ? 'bg-red-50 border-red-400 text-red-700' :
-                      alert.type === 'warning' ? 'bg-yellow-50 border-yellow-400 text-yellow-700' :
-                      'bg-blue-50 border-blue-400 text-blue-700'
-                    }`}
-                  >
-                    <div className="flex items-center justify-between">
-                      <p className="text-sm font-medium">{alert.message}</p>
-                      <span className="text-xs text-gray-500">
-                        {formatRelativeTime(alert.timestamp)}
-                      </span>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
+      {/* Open alerts */}
+      {server.alerts && server.alerts.length > 0 && (
+        <div className="px-6 pb-6">
+          <h4 className="text-sm font-medium text-gray-900 mb-3">การแจ้งเตือน</h4>
+          <AlertList alerts={server.alerts.slice(0, 3)} />
+        </div>
+      )}
+
+      {/* Connected but not sampled yet */}
+      {server.status === 'CONNECTED' && !metrics && (
+        <div className="p-6 text-center text-sm text-gray-500">
+          <Activity className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p>กำลังรอข้อมูลจากตัวเก็บสถิติ</p>
         </div>
       )}
 
@@ -328,6 +364,9 @@ export default function MonitoringPage() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState<number[]>([]);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [openAlerts, setOpenAlerts] = useState<AlertEvent[]>([]);
+  const [resolvedAlerts, setResolvedAlerts] = useState<AlertEvent[]>([]);
+  const [alertView, setAlertView] = useState<'open' | 'resolved'>('open');
 
   useEffect(() => {
     fetchServers();
@@ -348,28 +387,35 @@ export default function MonitoringPage() {
       const token = localStorage.getItem('auth_token');
       if (!token) return;
 
-      const response = await fetch('/api/servers', {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
+      const headers = { 'Authorization': `Bearer ${token}` };
+      const [serversResponse, metricsResponse, openAlertsResponse, resolvedAlertsResponse] = await Promise.all([
+        fetch('/api/servers', { headers }),
+        fetch('/api/servers/metrics', { headers }),
+        fetch('/api/alerts?status=open', { headers }),
+        fetch('/api/alerts?status=resolved&limit=20', { headers })
+      ]);
+
+      const openAlertsData: ApiResponse<AlertEvent[]> | null =
+        openAlertsResponse.ok ? await openAlertsResponse.json() : null;
+      const resolvedAlertsData: ApiResponse<AlertEvent[]> | null =
+        resolvedAlertsResponse.ok ? await resolvedAlertsResponse.json() : null;
+      const firing = openAlertsData?.data || [];
+      setOpenAlerts(firing);
+      setResolvedAlerts(resolvedAlertsData?.data || []);
+
+      if (serversResponse.ok) {
+        const data: ApiResponse<ServerMonitorData[]> = await serversResponse.json();
+        const metricsData: ApiResponse<ServerMetricSample[]> | null =
+          metricsResponse.ok ? await metricsResponse.json() : null;
 
-      if (response.ok) {
-        const data: ApiResponse<ServerMonitorData[]> = await response.json();
         if (data.success) {
-          // Generate mock alerts for demo
-          const serversWithAlerts = data.data!.map(server => ({
+          // Attach the latest sample from the metrics collector to each server
+          const latestMetrics = new Map((metricsData?.data || []).map(metric => [metric.serverId, metric]));
+          setServers(data.data!.map(server => ({
             ...server,
-            alerts: server.status === 'CONNECTED' && Math.random() > 0.7 ? [{
-              id: `alert-${server.id}`,
-              type: (Math.random() > 0.5 ? 'warning' : 'error') as 'warning' | 'error',
-              message: Math.random() > 0.5 ? 
-                'การใช้งาน CPU สูงกว่าปกติ' : 
-                'พื้นที่เก็บข้อมูลเหลือน้อย',
-              timestamp: new Date().toISOString(),
-              resolved: false
-            }] : []
-          }));
-          
-          setServers(serversWithAlerts);
+            metrics: latestMetrics.get(server.id),
+            alerts: firing.filter(alert => alert.serverId === server.id)
+          })));
         }
       }
     } catch (error) {
@@ -379,6 +425,26 @@ export default function MonitoringPage() {
     }
   };
 
+  const handleAlertAction = async (alert: AlertEvent, action: 'acknowledge' | 'resolve') => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/alerts/${alert.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ action })
+      });
+
+      if (response.ok) {
+        await fetchServers();
+      }
+    } catch (error) {
+      console.error('Failed to update alert:', error);
+    }
+  };
+
   const handleRefreshServer = async (serverId: number) => {
     setRefreshing(prev => [...prev, serverId]);
     
@@ -399,17 +465,17 @@ export default function MonitoringPage() {
     }
   };
 
-  // Calculate summary stats - แก้ไขการคำนวณ Average CPU
+  // Calculate summary stats from the latest samples of connected servers
   const connectedServers = servers.filter(s => s.status === 'CONNECTED').length;
   const totalServers = servers.length;
-  const connectedServersWithSystemInfo = servers.filter(s => s.status === 'CONNECTED' && s.systemInfo?.loadAverage);
-  
-  const avgCpuUsage = connectedServersWithSystemInfo.length > 0 ?
-    connectedServersWithSystemInfo.reduce((acc, s) => {
-      const cpuLoad = s.systemInfo!.loadAverage[0];
-      const cpuCount = s.systemInfo!.cpuCount || 1;
-      return acc + Math.min((cpuLoad / cpuCount) * 100, 100);
-    }, 0) / connectedServersWithSystemInfo.length : 0;
+  const sampledMetrics = servers
+    .filter(s => s.status === 'CONNECTED' && s.metrics)
+    .map(s => s.metrics!);
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((acc, value) => acc + value, 0) / values.length : 0;
+  const avgCpuUsage = average(sampledMetrics.map(m => m.cpuUsage));
+  const avgMemoryUsage = average(sampledMetrics.map(m => m.memoryUsage));
 
   if (loading) {
     return (
@@ -464,7 +530,7 @@ export default function MonitoringPage() {
         </div>
 
         {/* Summary Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow-soft p-6">
             <div className="flex items-center">
               <div className="p-3 rounded-lg bg-blue-100">
@@ -493,6 +559,20 @@ export default function MonitoringPage() {
             </div>
           </div>
 
+          <div className="bg-white rounded-lg shadow-soft p-6">
+            <div className="flex items-center">
+              <div className="p-3 rounded-lg bg-purple-100">
+                <MemoryStick className="h-6 w-6 text-purple-600" />
+              </div>
+              <div className="ml-4">
+                <h3 className="text-sm font-medium text-gray-900">หน่วยความจำเฉลี่ย</h3>
+                <p className="text-2xl font-bold text-gray-900">
+                  {avgMemoryUsage.toFixed(1)}%
+                </p>
+              </div>
+            </div>
+          </div>
+
           <div className="bg-white rounded-lg shadow-soft p-6">
             <div className="flex items-center">
               <div className="p-3 rounded-lg bg-yellow-100">
@@ -501,13 +581,47 @@ export default function MonitoringPage() {
               <div className="ml-4">
                 <h3 className="text-sm font-medium text-gray-900">การแจ้งเตือน</h3>
                 <p className="text-2xl font-bold text-gray-900">
-                  {servers.reduce((acc, s) => acc + (s.alerts?.length || 0), 0)}
+                  {openAlerts.length}
                 </p>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Alerts */}
+        <div className="bg-white rounded-lg shadow-soft p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <Bell className="h-5 w-5 text-gray-600 mr-2" />
+              <h2 className="text-lg font-medium text-gray-900">การแจ้งเตือน</h2>
+            </div>
+            <div className="flex space-x-2">
+              {(['open', 'resolved'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setAlertView(view)}
+                  className={`px-3 py-1 text-sm font-medium rounded-md ${
+                    alertView === view ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+                  }`}
+                >
+                  {view === 'open' ? `กำลังแจ้งเตือน (${openAlerts.length})` : 'แก้ไขแล้ว'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {(alertView === 'open' ? openAlerts : resolvedAlerts).length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {alertView === 'open' ? 'ไม่มีการแจ้งเตือนในขณะนี้' : 'ยังไม่มีประวัติการแจ้งเตือน'}
+            </p>
+          ) : (
+            <AlertList
+              alerts={alertView === 'open' ? openAlerts : resolvedAlerts}
+              onAction={handleAlertAction}
+            />
+          )}
+        </div>
+
         {/* Servers List */}
         <div className="space-y-6">
           {servers.length === 0 ? (
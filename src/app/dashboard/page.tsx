@@ -126,9 +126,9 @@ function RecentActivity({ logs, loading }: RecentActivityProps) {
                               <span className="font-medium text-gray-900">
                                 {log.scriptName}
                               </span>
-                              {log.server && (
+                              {log.serverName && (
                                 <span className="text-gray-500 ml-2">
-                                  บน {log.server.name}
+                                  บน {log.serverName}
                                 </span>
                               )}
                             </div>
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Download, PlayCircle } from 'lucide-react';
+import Layout from '@/components/Layout';
+import RecordingPlayer from '@/components/RecordingPlayer';
+import { parseAsciicast } from '@/lib/asciicast';
+import { formatDate, formatDuration } from '@/lib/utils';
+import type { TerminalRecording, ApiResponse } from '@/types';
+
+interface RecordingPageProps {
+  params: { id: string };
+}
+
+export default function RecordingPage({ params }: RecordingPageProps) {
+  const recordingId = parseInt(params.id);
+  const [recording, setRecording] = useState<TerminalRecording | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRecording();
+  }, [recordingId]);
+
+  const fetchRecording = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (!token) return;
+
+      const response = await fetch(`/api/recordings/${recordingId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<TerminalRecording> = await response.json();
+      if (data.success && data.data) {
+        setRecording(data.data);
+      } else {
+        setError(data.error || 'ไม่พบบันทึกเซสชัน');
+      }
+    } catch (error) {
+      console.error('Failed to fetch recording:', error);
+      setError('ไม่สามารถโหลดบันทึกเซสชันได้');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cast = useMemo(() => {
+    if (!recording?.content) return null;
+    try {
+      return parseAsciicast(recording.content);
+    } catch (error) {
+      console.error('Failed to parse recording:', error);
+      return null;
+    }
+  }, [recording]);
+
+  const downloadCast = () => {
+    if (!recording?.content) return;
+
+    const blob = new Blob([recording.content], { type: 'application/x-asciicast' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${recording.sessionId}.cast`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <a
+            href="/dashboard/recordings"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            กลับไปหน้าบันทึกเซสชัน
+          </a>
+
+          {recording && (
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <PlayCircle className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">
+                    {recording.user?.email} @ {recording.serverName}
+                  </h1>
+                  <p className="text-sm text-gray-500">
+                    {formatDate(recording.startedAt)}
+                    {recording.duration ? ` · ${formatDuration(recording.duration)}` : ' · กำลังบันทึก'}
+                    {recording.clientIp && ` · ${recording.clientIp}`}
+                  </p>
+                </div>
+              </div>
+
+              <button
+                onClick={downloadCast}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                ดาวน์โหลด .cast
+              </button>
+            </div>
+          )}
+        </div>
+
+        {recording?.truncated && (
+          <div className="rounded-md bg-yellow-50 border border-yellow-200 p-4 mb-6 text-sm text-yellow-800">
+            บันทึกนี้ถึงขนาดสูงสุดแล้ว เหตุการณ์หลังจากนั้นไม่ได้ถูกบันทึก
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-white shadow-soft rounded-lg p-6 animate-pulse">
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        ) : error || !recording ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">{error || 'ไม่พบบันทึกเซสชัน'}</h3>
+          </div>
+        ) : !cast ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">ไม่สามารถอ่านบันทึกเซสชันได้</h3>
+          </div>
+        ) : (
+          <RecordingPlayer cast={cast} />
+        )}
+      </div>
+    </Layout>
+  );
+}
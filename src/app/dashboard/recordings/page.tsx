@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Search, RefreshCw, PlayCircle, Loader, Server as ServerIcon, Circle } from 'lucide-react';
+import Layout from '@/components/Layout';
+import { formatRelativeTime, formatDuration, formatBytes } from '@/lib/utils';
+import type { TerminalRecording, Server, ApiResponse, PaginatedResponse } from '@/types';
+
+export default function RecordingsPage() {
+  const [recordings, setRecordings] = useState<TerminalRecording[]>([]);
+  const [servers, setServers] = useState<Server[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Filters
+  const [search, setSearch] = useState('');
+  const [serverFilter, setServerFilter] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // Pagination
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalRecordings, setTotalRecordings] = useState(0);
+  const limit = 20;
+
+  useEffect(() => {
+    fetchServers();
+  }, []);
+
+  useEffect(() => {
+    fetchRecordings();
+  }, [currentPage, search, serverFilter, startDate, endDate]);
+
+  const fetchServers = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/servers?limit=100', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (response.ok) {
+        const data: ApiResponse<Server[]> = await response.json();
+        if (data.success) {
+          setServers(data.data || []);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch servers:', error);
+    }
+  };
+
+  const fetchRecordings = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const params = new URLSearchParams();
+
+      params.append('page', currentPage.toString());
+      params.append('limit', limit.toString());
+      if (search) params.append('search', search);
+      if (serverFilter) params.append('serverId', serverFilter);
+      if (startDate) params.append('startDate', startDate);
+      if (endDate) params.append('endDate', endDate);
+
+      const response = await fetch(`/api/recordings?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (response.ok) {
+        const data: PaginatedResponse<TerminalRecording> = await response.json();
+        if (data.success) {
+          setRecordings(data.data || []);
+          setTotalPages(data.pagination.totalPages);
+          setTotalRecordings(data.pagination.total);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch recordings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshRecordings = async () => {
+    setRefreshing(true);
+    await fetchRecordings();
+    setRefreshing(false);
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">บันทึกเซสชันเทอร์มินัล</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                เล่นย้อนหลังและค้นหาการใช้งานเทอร์มินัลสำหรับการตรวจสอบ
+              </p>
+            </div>
+            <button
+              onClick={refreshRecordings}
+              disabled={refreshing}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+              รีเฟรช
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white shadow-soft rounded-lg p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">ค้นหา</label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="คำสั่งหรือข้อความในเซสชัน..."
+                  value={search}
+                  onChange={(e) => { setSearch(e.target.value); setCurrentPage(1); }}
+                  className="pl-10 form-input"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">เซิร์ฟเวอร์</label>
+              <select
+                value={serverFilter}
+                onChange={(e) => { setServerFilter(e.target.value); setCurrentPage(1); }}
+                className="form-input"
+              >
+                <option value="">ทั้งหมด</option>
+                {servers.map((server) => (
+                  <option key={server.id} value={server.id.toString()}>
+                    {server.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ตั้งแต่วันที่</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => { setStartDate(e.target.value); setCurrentPage(1); }}
+                className="form-input"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ถึงวันที่</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => { setEndDate(e.target.value); setCurrentPage(1); }}
+                className="form-input"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Results Summary */}
+        <div className="mb-4 text-sm text-gray-600">
+          แสดง {recordings.length} จาก {totalRecordings} เซสชัน
+        </div>
+
+        {/* Recordings Table */}
+        <div className="bg-white shadow-soft rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="p-8 text-center">
+              <Loader className="h-8 w-8 animate-spin mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-500">กำลังโหลด...</p>
+            </div>
+          ) : recordings.length === 0 ? (
+            <div className="p-8 text-center">
+              <PlayCircle className="mx-auto h-16 w-16 text-gray-400 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">ไม่พบบันทึกเซสชัน</h3>
+              <p className="text-gray-500">เซสชันเทอร์มินัลจะถูกบันทึกโดยอัตโนมัติเมื่อมีการเชื่อมต่อ</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="table-header">เซิร์ฟเวอร์</th>
+                    <th className="table-header">ผู้ใช้</th>
+                    <th className="table-header">เริ่มเมื่อ</th>
+                    <th className="table-header">ระยะเวลา</th>
+                    <th className="table-header">ขนาด</th>
+                    <th className="table-header">เล่น</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {recordings.map((recording) => (
+                    <tr key={recording.id} className="table-row">
+                      <td className="table-cell">
+                        <div className="flex items-center">
+                          <ServerIcon className="h-4 w-4 text-gray-400 mr-2" />
+                          <div>
+                            <div className="font-medium text-gray-900">{recording.serverName || 'Unknown'}</div>
+                            <div className="text-xs text-gray-500">{recording.serverHost}</div>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="table-cell">
+                        <div className="text-sm text-gray-900">{recording.user?.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {recording.user?.email}{recording.clientIp && ` · ${recording.clientIp}`}
+                        </div>
+                      </td>
+                      <td className="table-cell">
+                        <div className="text-sm text-gray-900">
+                          {formatRelativeTime(recording.startedAt)}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(recording.startedAt).toLocaleString()}
+                        </div>
+                      </td>
+                      <td className="table-cell">
+                        {recording.endedAt ? (
+                          recording.duration ? formatDuration(recording.duration) : '-'
+                        ) : (
+                          <span className="inline-flex items-center text-xs font-medium text-red-600">
+                            <Circle className="h-2 w-2 mr-1 fill-current" />
+                            กำลังบันทึก
+                          </span>
+                        )}
+                      </td>
+                      <td className="table-cell">
+                        {formatBytes(recording.size)}
+                        {recording.truncated && (
+                          <span className="ml-1 text-xs text-yellow-700">(ถูกตัด)</span>
+                        )}
+                      </td>
+                      <td className="table-cell">
+                        <a
+                          href={`/dashboard/recordings/${recording.id}`}
+                          className="text-blue-600 hover:text-blue-800 transition-colors duration-150"
+                        >
+                          <PlayCircle className="h-5 w-5" />
+                        </a>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="mt-6 flex items-center justify-between">
+            <div className="text-sm text-gray-700">
+              หน้า {currentPage} จาก {totalPages}
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                disabled={currentPage <= 1}
+                className="px-3 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+              >
+                ก่อนหน้า
+              </button>
+              <button
+                onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+                disabled={currentPage >= totalPages}
+                className="px-3 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+              >
+                ถัดไป
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,300 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ArrowLeft, ShieldCheck, Check, X, Play, Loader2, AlertTriangle } from 'lucide-react';
+import Swal from 'sweetalert2';
+import Layout from '@/components/Layout';
+import { formatDate, formatRelativeTime } from '@/lib/utils';
+import type { ApiResponse, ScriptApproval, ScriptApprovalStatus, User } from '@/types';
+
+const STATUS_STYLES: Record<ScriptApprovalStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  APPROVED: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
+  EXECUTED: { label: 'Run', className: 'bg-blue-100 text-blue-800' }
+};
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+});
+
+const describeStrategy = (approval: ScriptApproval) => {
+  switch (approval.strategy.mode) {
+    case 'parallel':
+      return `parallel, up to ${approval.strategy.concurrency} at a time`;
+    case 'rolling':
+      return `rolling batches of ${approval.strategy.batchSize}${approval.strategy.batchUnit === 'percent' ? '%' : ' server(s)'}`;
+    default:
+      return 'one server at a time';
+  }
+};
+
+export default function ScriptApprovalsPage() {
+  const [approvals, setApprovals] = useState<ScriptApproval[]>([]);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const isAdmin = currentUser?.role === 'ADMIN';
+
+  useEffect(() => {
+    const userInfo = localStorage.getItem('user_info');
+    if (userInfo) {
+      try {
+        setCurrentUser(JSON.parse(userInfo));
+      } catch (error) {
+        console.error('Error parsing user info:', error);
+      }
+    }
+
+    fetchApprovals();
+  }, []);
+
+  const fetchApprovals = async () => {
+    try {
+      const response = await fetch('/api/scripts/approvals?limit=100', { headers: authHeaders() });
+      const data: ApiResponse<ScriptApproval[]> = await response.json();
+      if (data.success && data.data) {
+        setApprovals(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch approvals:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const decide = async (approval: ScriptApproval, approved: boolean) => {
+    const comment = comments[approval.id]?.trim() || '';
+    if (!approved && !comment) {
+      Swal.fire({ title: 'Comment required', text: 'Say why the run is rejected', icon: 'warning' });
+      return;
+    }
+
+    setBusyId(approval.id);
+    try {
+      const response = await fetch(`/api/scripts/approvals/${approval.id}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ approved, comment })
+      });
+      const data: ApiResponse<ScriptApproval> = await response.json();
+      if (!data.success) {
+        Swal.fire({ title: 'Update failed', text: data.error, icon: 'error' });
+      }
+      fetchApprovals();
+    } catch (error) {
+      console.error('Failed to decide approval:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const cancel = async (approval: ScriptApproval) => {
+    const result = await Swal.fire({
+      title: 'Withdraw request?',
+      text: `The run of "${approval.scriptName}" will not start.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#ef4444',
+      confirmButtonText: 'Withdraw'
+    });
+    if (!result.isConfirmed) return;
+
+    setBusyId(approval.id);
+    try {
+      const response = await fetch(`/api/scripts/approvals/${approval.id}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      });
+      const data: ApiResponse = await response.json();
+      if (!data.success) {
+        Swal.fire({ title: 'Withdraw failed', text: data.error, icon: 'error' });
+      }
+      fetchApprovals();
+    } catch (error) {
+      console.error('Failed to cancel approval:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const pending = approvals.filter(approval => approval.status === 'PENDING');
+  const decided = approvals.filter(approval => approval.status !== 'PENDING');
+
+  const renderApproval = (approval: ScriptApproval) => {
+    const isRequester = approval.requestedBy.id === currentUser?.id;
+    const isExpired = approval.status === 'APPROVED'
+      && (!approval.expiresAt || new Date(approval.expiresAt) <= new Date());
+    const parameters = Object.entries(approval.parameters);
+
+    return (
+      <div key={approval.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="font-medium text-gray-900">
+              {approval.scriptName}
+              {approval.scriptVersion !== null && <span className="ml-2 text-sm text-gray-500">v{approval.scriptVersion}</span>}
+              <span className="ml-2 text-sm text-gray-400">#{approval.id}</span>
+            </div>
+            <div className="text-sm text-gray-500">
+              Requested by {approval.requestedBy.name} · {formatRelativeTime(approval.createdAt)}
+            </div>
+          </div>
+          <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[approval.status].className}`}>
+            {STATUS_STYLES[approval.status].label}
+          </span>
+        </div>
+
+        <div className="text-sm text-yellow-700 flex items-center">
+          <ShieldCheck className="h-4 w-4 mr-1 flex-shrink-0" />
+          {approval.reason}
+        </div>
+        {approval.warning && (
+          <div className="text-sm text-red-700 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-1 flex-shrink-0" />
+            {approval.warning}
+          </div>
+        )}
+
+        <pre className="bg-gray-900 text-gray-100 text-sm rounded p-3 whitespace-pre-wrap max-h-48 overflow-auto">
+          {approval.displayCommand}
+        </pre>
+
+        <div className="text-sm text-gray-600 space-y-1">
+          <div>
+            <span className="font-medium">Servers:</span> {approval.servers.map(server => server.name).join(', ')}
+            <span className="text-gray-400"> · {describeStrategy(approval)}</span>
+          </div>
+          {parameters.length > 0 && (
+            <div>
+              <span className="font-medium">Parameters:</span>{' '}
+              {parameters.map(([name, value]) => `${name}=${String(value)}`).join(', ')}
+            </div>
+          )}
+        </div>
+
+        {approval.decidedBy && (
+          <div className="text-sm text-gray-600 bg-gray-50 rounded px-3 py-2">
+            {approval.status === 'REJECTED' ? 'Rejected' : 'Approved'} by {approval.decidedBy.name}
+            {approval.decidedAt && ` · ${formatRelativeTime(approval.decidedAt)}`}
+            {approval.comment && <p className="mt-1 text-gray-800">&ldquo;{approval.comment}&rdquo;</p>}
+            {approval.executedAt && <p className="mt-1 text-gray-500">Started {formatRelativeTime(approval.executedAt)}</p>}
+            {approval.status === 'APPROVED' && (
+              <p className="mt-1 text-gray-500">
+                {isExpired ? 'Approval expired, request it again' : `Must be run by ${formatDate(approval.expiresAt!)}`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {approval.status === 'PENDING' && isAdmin && (
+          <div className="space-y-2">
+            <textarea
+              value={comments[approval.id] || ''}
+              onChange={(e) => setComments(prev => ({ ...prev, [approval.id]: e.target.value }))}
+              className="form-input text-sm"
+              rows={2}
+              placeholder="Comment (required to reject)"
+            />
+            <div className="flex space-x-2">
+              <button
+                onClick={() => decide(approval, true)}
+                disabled={busyId === approval.id}
+                className="bg-green-600 hover:bg-green-700 text-white text-sm font-medium py-1.5 px-3 rounded-md flex items-center disabled:opacity-50"
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </button>
+              <button
+                onClick={() => decide(approval, false)}
+                disabled={busyId === approval.id}
+                className="bg-red-600 hover:bg-red-700 text-white text-sm font-medium py-1.5 px-3 rounded-md flex items-center disabled:opacity-50"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </button>
+            </div>
+          </div>
+        )}
+
+        {(approval.status === 'PENDING' || approval.status === 'APPROVED') && (isRequester || isAdmin) && (
+          <div className="flex space-x-2">
+            {approval.status === 'APPROVED' && isRequester && !isExpired && (
+              <a
+                href={`/dashboard/scripts?approval=${approval.id}`}
+                className="btn-primary text-sm py-1.5 px-3 flex items-center"
+              >
+                <Play className="h-4 w-4 mr-1" />
+                Run Now
+              </a>
+            )}
+            <button
+              onClick={() => cancel(approval)}
+              disabled={busyId === approval.id}
+              className="text-sm text-gray-600 hover:text-gray-900 py-1.5 px-3 rounded-md border border-gray-300 disabled:opacity-50"
+            >
+              Withdraw
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <a
+            href="/dashboard/scripts"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Script Runner
+          </a>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <ShieldCheck className="h-6 w-6 mr-2 text-blue-600" />
+            Approvals
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {isAdmin
+              ? 'High-risk script runs by other users wait here until you approve or reject them.'
+              : 'Your high-risk script runs wait here for an admin. Approved runs are started once, by you.'}
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-400">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="bg-white shadow-soft rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Pending ({pending.length})</h2>
+              {pending.length === 0 ? (
+                <p className="text-sm text-gray-500">No requests are waiting for approval</p>
+              ) : (
+                <div className="space-y-4">{pending.map(renderApproval)}</div>
+              )}
+            </div>
+
+            <div className="bg-white shadow-soft rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">History</h2>
+              {decided.length === 0 ? (
+                <p className="text-sm text-gray-500">No decided requests yet</p>
+              ) : (
+                <div className="space-y-4">{decided.map(renderApproval)}</div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,508 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, BookOpen, Save, Trash2, Play, History, RotateCcw, Loader2, Users, Lock, ShieldCheck } from 'lucide-react';
+import Swal from 'sweetalert2';
+import Layout from '@/components/Layout';
+import CodeEditor from '@/components/CodeEditor';
+import ScriptDiff from '@/components/ScriptDiff';
+import ScriptParameterEditor from '@/components/ScriptParameterEditor';
+import { formatDate, normalizeTags } from '@/lib/utils';
+import type { ApiResponse, Script, ScriptVersion, ScriptData, ScriptParameter, User } from '@/types';
+
+interface ScriptPageProps {
+  params: { id: string };
+}
+
+interface ScriptForm {
+  name: string;
+  description: string;
+  command: string;
+  parameters: ScriptParameter[];
+  tags: string;
+  isShared: boolean;
+  requiresApproval: boolean;
+  changeNote: string;
+}
+
+const EMPTY_FORM: ScriptForm = {
+  name: '',
+  description: '',
+  command: '',
+  parameters: [],
+  tags: '',
+  isShared: false,
+  requiresApproval: false,
+  changeNote: ''
+};
+
+const toForm = (script: Script): ScriptForm => ({
+  name: script.name,
+  description: script.description || '',
+  command: script.command,
+  parameters: script.parameters,
+  tags: script.tags.join(', '),
+  isShared: script.isShared,
+  requiresApproval: script.requiresApproval,
+  changeNote: ''
+});
+
+export default function ScriptPage({ params }: ScriptPageProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const isNew = params.id === 'new';
+  const scriptId = parseInt(params.id);
+
+  const [script, setScript] = useState<Script | null>(null);
+  const [versions, setVersions] = useState<ScriptVersion[]>([]);
+  const [form, setForm] = useState<ScriptForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(!isNew);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(
+    parseInt(searchParams?.get('version') || '') || null
+  );
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const canEdit = isNew || !!script?.canEdit;
+
+  const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+  });
+
+  useEffect(() => {
+    const userInfo = localStorage.getItem('user_info');
+    if (userInfo) {
+      try {
+        setIsAdmin((JSON.parse(userInfo) as User).role === 'ADMIN');
+      } catch (error) {
+        console.error('Error parsing user info:', error);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isNew) {
+      loadScript();
+    }
+  }, [params.id]);
+
+  const loadScript = async () => {
+    try {
+      const [scriptResponse, versionsResponse] = await Promise.all([
+        fetch(`/api/scripts/${scriptId}`, { headers: authHeaders() }),
+        fetch(`/api/scripts/${scriptId}/versions`, { headers: authHeaders() })
+      ]);
+      const scriptData: ApiResponse<Script> = await scriptResponse.json();
+      const versionsData: ApiResponse<ScriptVersion[]> = await versionsResponse.json();
+
+      if (scriptData.success && scriptData.data) {
+        setScript(scriptData.data);
+        setForm(toForm(scriptData.data));
+        setVersions(versionsData.data || []);
+        setError(null);
+      } else {
+        setError(scriptData.error || 'Script not found');
+      }
+    } catch (error) {
+      console.error('Failed to load script:', error);
+      setError('Failed to load script');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveScript = async () => {
+    if (!form.name.trim() || !form.command.trim()) {
+      Swal.fire({ title: 'Missing fields', text: 'Name and command are required', icon: 'warning' });
+      return;
+    }
+
+    const body: ScriptData = {
+      name: form.name,
+      description: form.description,
+      command: form.command,
+      parameters: form.parameters,
+      tags: normalizeTags(form.tags.split(',')),
+      isShared: form.isShared,
+      requiresApproval: form.requiresApproval,
+      changeNote: form.changeNote,
+      baseVersion: script?.version
+    };
+
+    setSaving(true);
+    try {
+      const response = await fetch(isNew ? '/api/scripts' : `/api/scripts/${scriptId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(body)
+      });
+      const data: ApiResponse<Script> = await response.json();
+
+      if (response.status === 409) {
+        const result = await Swal.fire({
+          title: 'Script was changed',
+          text: `${data.error}. Reload to see the latest version? Your edits will be lost.`,
+          icon: 'warning',
+          showCancelButton: true,
+          confirmButtonText: 'Reload',
+          cancelButtonText: 'Keep editing'
+        });
+        if (result.isConfirmed) {
+          await loadScript();
+        }
+        return;
+      }
+
+      if (!data.success || !data.data) {
+        Swal.fire({ title: 'Save failed', text: data.error || 'Failed to save script', icon: 'error' });
+        return;
+      }
+
+      if (isNew) {
+        router.push(`/dashboard/scripts/library/${data.data.id}`);
+        return;
+      }
+
+      await loadScript();
+      setSelectedVersion(null);
+      Swal.fire({ title: 'Saved', text: data.message, icon: 'success', timer: 1500, showConfirmButton: false });
+    } catch (error) {
+      console.error('Failed to save script:', error);
+      Swal.fire({ title: 'Save failed', text: 'Failed to save script', icon: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteScript = async () => {
+    const result = await Swal.fire({
+      title: 'Delete script?',
+      text: `"${script?.name}" and its version history will be deleted. Past run logs are kept.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#ef4444',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: 'Delete',
+      cancelButtonText: 'Cancel'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/scripts/${scriptId}`, { method: 'DELETE', headers: authHeaders() });
+      const data: ApiResponse = await response.json();
+      if (data.success) {
+        router.push('/dashboard/scripts/library');
+      } else {
+        Swal.fire({ title: 'Delete failed', text: data.error, icon: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to delete script:', error);
+    }
+  };
+
+  // Load an old version into the editor; saving it creates a new version
+  const restoreVersion = (version: ScriptVersion) => {
+    setForm(prev => ({
+      ...prev,
+      name: version.name,
+      description: version.description || '',
+      command: version.command,
+      parameters: version.parameters,
+      changeNote: `Restored version ${version.version}`
+    }));
+    setSelectedVersion(null);
+  };
+
+  const shownVersion = versions.find(v => v.version === selectedVersion) || null;
+  // Compare against the chosen version, or the one before it
+  const baseVersion = shownVersion
+    ? versions.find(v => v.version === (compareVersion ?? shownVersion.version - 1)) || null
+    : null;
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center py-24 text-gray-400">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading...
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <a
+            href="/dashboard/scripts/library"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Script Library
+          </a>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+                <BookOpen className="h-6 w-6 mr-2 text-blue-600" />
+                {isNew ? 'New Script' : script?.name || 'Script'}
+              </h1>
+              {script && (
+                <p className="mt-1 text-sm text-gray-500 flex items-center">
+                  {script.isShared ? <Users className="h-4 w-4 mr-1 text-green-500" /> : <Lock className="h-4 w-4 mr-1" />}
+                  {script.isShared ? 'Shared' : 'Private'} · v{script.version} · owned by {script.owner?.name}
+                  {!script.canEdit && ' · read only'}
+                  {script.requiresApproval && (
+                    <span className="inline-flex items-center ml-2 text-yellow-700">
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Needs approval
+                    </span>
+                  )}
+                </p>
+              )}
+            </div>
+
+            {script && (
+              <div className="flex space-x-2">
+                <a href={`/dashboard/scripts?script=${script.id}`} className="btn-secondary flex items-center">
+                  <Play className="h-4 w-4 mr-2" />
+                  Run
+                </a>
+                {script.canEdit && (
+                  <button
+                    onClick={deleteScript}
+                    className="bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-md transition-colors duration-200 flex items-center"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4">{error}</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Editor */}
+            <div className="lg:col-span-2 bg-white shadow-soft rounded-lg p-6 space-y-4">
+              <div>
+                <label className="form-label">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="form-input"
+                  placeholder="e.g., Deploy Application"
+                  disabled={!canEdit}
+                />
+              </div>
+
+              <div>
+                <label className="form-label">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="form-input h-20"
+                  placeholder="What the script does and when to use it"
+                  disabled={!canEdit}
+                />
+              </div>
+
+              <div>
+                <label className="form-label">Command</label>
+                <CodeEditor
+                  value={form.command}
+                  onChange={(command) => setForm({ ...form, command })}
+                  language="shell"
+                  onSave={canEdit ? saveScript : undefined}
+                  readOnly={!canEdit}
+                  className="h-72"
+                />
+              </div>
+
+              <div>
+                <label className="form-label">Parameters</label>
+                <ScriptParameterEditor
+                  parameters={form.parameters}
+                  onChange={(parameters) => setForm({ ...form, parameters })}
+                  disabled={!canEdit}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="form-label">Tags</label>
+                  <input
+                    type="text"
+                    value={form.tags}
+                    onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                    className="form-input"
+                    placeholder="deploy, nginx"
+                    disabled={!canEdit}
+                  />
+                </div>
+                <div className="flex items-end">
+                  <label className="inline-flex items-center text-sm text-gray-700 pb-2">
+                    <input
+                      type="checkbox"
+                      checked={form.isShared}
+                      onChange={(e) => setForm({ ...form, isShared: e.target.checked })}
+                      className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600"
+                      disabled={!canEdit}
+                    />
+                    Share with all users
+                  </label>
+                  <label
+                    className="inline-flex items-center text-sm text-gray-700 pb-2 ml-6"
+                    title={isAdmin ? undefined : 'Only an admin can change this'}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.requiresApproval}
+                      onChange={(e) => setForm({ ...form, requiresApproval: e.target.checked })}
+                      className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600"
+                      disabled={!canEdit || !isAdmin}
+                    />
+                    Runs need admin approval
+                  </label>
+                </div>
+              </div>
+
+              {canEdit && (
+                <div className="flex items-end gap-3 pt-4 border-t border-gray-200">
+                  <div className="flex-1">
+                    <label className="form-label">Change note</label>
+                    <input
+                      type="text"
+                      value={form.changeNote}
+                      onChange={(e) => setForm({ ...form, changeNote: e.target.value })}
+                      className="form-input"
+                      placeholder={isNew ? 'Created' : 'What changed in this version'}
+                    />
+                  </div>
+                  <button
+                    onClick={saveScript}
+                    disabled={saving}
+                    className="btn-primary disabled:opacity-50 flex items-center"
+                  >
+                    {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Version history */}
+            {!isNew && (
+              <div className="bg-white shadow-soft rounded-lg p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                  <History className="h-5 w-5 mr-2 text-blue-600" />
+                  Version History
+                </h2>
+                <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+                  {versions.map(version => (
+                    <li key={version.id}>
+                      <button
+                        onClick={() => {
+                          setSelectedVersion(selectedVersion === version.version ? null : version.version);
+                          setCompareVersion(null);
+                        }}
+                        className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                          selectedVersion === version.version
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-gray-900">v{version.version}</span>
+                          <span className="text-xs text-gray-500">{formatDate(version.createdAt)}</span>
+                        </div>
+                        <div className="text-xs text-gray-500">{version.createdBy.name} ({version.createdBy.email})</div>
+                        {version.changeNote && (
+                          <div className="text-sm text-gray-700 mt-1">{version.changeNote}</div>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Selected version */}
+            {shownVersion && (
+              <div className="lg:col-span-3 bg-white shadow-soft rounded-lg p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-medium text-gray-900">
+                    Version {shownVersion.version}: {shownVersion.name}
+                  </h2>
+                  <div className="flex items-center space-x-2">
+                    <a
+                      href={`/dashboard/scripts?script=${shownVersion.scriptId}&version=${shownVersion.version}`}
+                      className="btn-secondary flex items-center"
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      Run this version
+                    </a>
+                    {canEdit && shownVersion.version !== script?.version && (
+                      <button onClick={() => restoreVersion(shownVersion)} className="btn-secondary flex items-center">
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <span>Compare with</span>
+                  <select
+                    value={baseVersion?.version ?? ''}
+                    onChange={(e) => setCompareVersion(e.target.value ? parseInt(e.target.value) : -1)}
+                    className="form-input w-40 py-1 text-sm"
+                  >
+                    <option value="">Nothing</option>
+                    {versions
+                      .filter(v => v.version !== shownVersion.version)
+                      .map(v => (
+                        <option key={v.id} value={v.version}>v{v.version}</option>
+                      ))}
+                  </select>
+                </div>
+
+                {baseVersion ? (
+                  <>
+                    {baseVersion.name !== shownVersion.name && (
+                      <p className="text-sm text-gray-600">
+                        Renamed from <strong>{baseVersion.name}</strong> to <strong>{shownVersion.name}</strong>
+                      </p>
+                    )}
+                    {(baseVersion.description || '') !== (shownVersion.description || '') && (
+                      <p className="text-sm text-gray-600">Description changed</p>
+                    )}
+                    {JSON.stringify(baseVersion.parameters) !== JSON.stringify(shownVersion.parameters) && (
+                      <p className="text-sm text-gray-600">Parameters changed</p>
+                    )}
+                    <ScriptDiff oldText={baseVersion.command} newText={shownVersion.command} />
+                  </>
+                ) : (
+                  <pre className="bg-gray-900 text-gray-100 p-4 rounded-lg text-xs overflow-auto max-h-96">
+                    {shownVersion.command}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
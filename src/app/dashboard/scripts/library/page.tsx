@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ArrowLeft, BookOpen, Plus, Search, Play, Users, Lock, Tag, Loader2, ShieldCheck } from 'lucide-react';
+import Layout from '@/components/Layout';
+import { formatRelativeTime } from '@/lib/utils';
+import type { ApiResponse, Script } from '@/types';
+
+type Scope = '' | 'mine' | 'shared';
+
+export default function ScriptLibraryPage() {
+  const [scripts, setScripts] = useState<Script[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [scope, setScope] = useState<Scope>('');
+  const [tagFilter, setTagFilter] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(fetchScripts, 300);
+    return () => clearTimeout(timer);
+  }, [search, scope]);
+
+  const fetchScripts = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (!token) return;
+
+      const params = new URLSearchParams();
+      if (search) params.set('search', search);
+      if (scope) params.set('scope', scope);
+
+      const response = await fetch(`/api/scripts?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<Script[]> = await response.json();
+      if (data.success && data.data) {
+        setScripts(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch scripts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const allTags = Array.from(new Set(scripts.flatMap(script => script.tags))).sort();
+  const filteredScripts = tagFilter ? scripts.filter(script => script.tags.includes(tagFilter)) : scripts;
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <a
+            href="/dashboard/scripts"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Script Runner
+          </a>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+                <BookOpen className="h-6 w-6 mr-2 text-blue-600" />
+                Script Library
+              </h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Saved scripts with version history. Shared scripts are visible to every user.
+              </p>
+            </div>
+            <a href="/dashboard/scripts/library/new" className="btn-primary flex items-center">
+              <Plus className="h-4 w-4 mr-2" />
+              New Script
+            </a>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white shadow-soft rounded-lg p-4 mb-6 space-y-3">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="form-input pl-10"
+                placeholder="Search name, description or command..."
+              />
+            </div>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as Scope)}
+              className="form-input sm:w-48"
+            >
+              <option value="">All visible scripts</option>
+              <option value="mine">My scripts</option>
+              <option value="shared">Shared scripts</option>
+            </select>
+          </div>
+
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Tag className="h-4 w-4 text-gray-400" />
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setTagFilter(tagFilter === tag ? '' : tag)}
+                  className={`px-2.5 py-0.5 rounded-full text-xs transition-colors ${
+                    tagFilter === tag ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Scripts */}
+        <div className="bg-white shadow-soft rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="flex items-center justify-center py-12 text-gray-400">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading...
+            </div>
+          ) : filteredScripts.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No saved scripts found
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="table-header">Script</th>
+                  <th className="table-header">Tags</th>
+                  <th className="table-header">Owner</th>
+                  <th className="table-header">Version</th>
+                  <th className="table-header">Updated</th>
+                  <th className="table-header">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredScripts.map(script => (
+                  <tr key={script.id} className="table-row">
+                    <td className="table-cell">
+                      <a href={`/dashboard/scripts/library/${script.id}`} className="font-medium text-gray-900 hover:text-blue-600 flex items-center">
+                        {script.isShared ? (
+                          <Users className="h-4 w-4 mr-2 text-green-500" aria-label="Shared" />
+                        ) : (
+                          <Lock className="h-4 w-4 mr-2 text-gray-400" aria-label="Private" />
+                        )}
+                        {script.name}
+                        {script.requiresApproval && (
+                          <ShieldCheck className="h-4 w-4 ml-2 text-yellow-600" aria-label="Needs approval" />
+                        )}
+                      </a>
+                      {script.description && (
+                        <div className="text-sm text-gray-500 truncate max-w-md">{script.description}</div>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      <div className="flex flex-wrap gap-1">
+                        {script.tags.map(tag => (
+                          <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">{tag}</span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="table-cell text-sm text-gray-500">{script.owner?.name || '-'}</td>
+                    <td className="table-cell text-sm text-gray-500">v{script.version}</td>
+                    <td className="table-cell text-sm text-gray-500">{formatRelativeTime(script.updatedAt)}</td>
+                    <td className="table-cell">
+                      <a
+                        href={`/dashboard/scripts?script=${script.id}`}
+                        className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        <Play className="h-4 w-4 mr-1" />
+                        Run
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
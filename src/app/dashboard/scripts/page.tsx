@@ -20,25 +20,56 @@ import {
   Save,
   X,
   Zap,
-  Settings
+  Settings,
+  Layers,
+  BookOpen,
+  CalendarClock,
+  ListChecks,
+  ShieldCheck
 } from 'lucide-react';
+import { useSearchParams } from 'next/navigation';
 import { io, Socket } from 'socket.io-client';
 import Swal from 'sweetalert2';
 import Layout from '@/components/Layout';
 import MiniTerminal, { MiniTerminalRef } from '@/components/MiniTerminal';
+import ScriptParameterForm from '@/components/ScriptParameterForm';
+import ScriptParameterEditor from '@/components/ScriptParameterEditor';
 import { formatDuration } from '@/lib/utils';
-import type { Server, ApiResponse, QuickCommand, CreateQuickCommandData, UpdateQuickCommandData } from '@/types';
+import { getWebSocketUrl } from '@/lib/file-transfer-client';
+import { applyScriptParameters } from '@/lib/script-parameters';
+import type {
+  Server,
+  ApiResponse,
+  QuickCommand,
+  CreateQuickCommandData,
+  UpdateQuickCommandData,
+  RunStrategy,
+  Script,
+  ScriptVersion,
+  ScriptParameter,
+  ScriptParameterValues
+} from '@/types';
 
 interface ServerTerminal {
   serverId: number;
   serverName: string;
-  status: 'pending' | 'connecting' | 'running' | 'success' | 'failed';
+  status: 'pending' | 'connecting' | 'running' | 'success' | 'failed' | 'skipped';
   exitCode?: number;
   startTime?: Date;
   endTime?: Date;
   isMinimized: boolean;
 }
 
+// Saved script version loaded into the form
+interface LoadedScript {
+  id: number;
+  name: string;
+  command: string;
+  parameters: ScriptParameter[];
+  version: number;
+  canEdit: boolean;
+}
+
 // Color options for quick commands
 const COLOR_OPTIONS = [
   { name: 'gray', bg: 'bg-gray-100', hover: 'hover:bg-gray-200', text: 'text-gray-700', border: 'border-gray-300' },
@@ -62,29 +93,6 @@ const DEFAULT_QUICK_COMMANDS = [
   { name: 'Check Uptime', cmd: 'uptime', color: 'gray' },
 ];
 
-// Helper function to get WebSocket URL
-function getWebSocketUrl(): string {
-  const wsUrl = process.env.NEXT_PUBLIC_WS_URL;
-  
-  if (wsUrl) {
-    return wsUrl;
-  }
-  
-  if (typeof window !== 'undefined') {
-    const protocol = window.location.protocol;
-    const hostname = window.location.hostname;
-    const wsPort = process.env.WS_PORT || '3005';
-    
-    if (hostname === 'localhost' || hostname === '127.0.0.1') {
-      return `${protocol}//${hostname}:${wsPort}`;
-    }
-    
-    return `${protocol}//ws-${hostname}`;
-  }
-  
-  return 'http://localhost:3005';
-}
-
 // Get color classes for a quick command
 function getColorClasses(colorName: string) {
   const color = COLOR_OPTIONS.find(c => c.name === colorName) || COLOR_OPTIONS[0];
@@ -92,11 +100,23 @@ function getColorClasses(colorName: string) {
 }
 
 export default function ScriptsPage() {
+  const searchParams = useSearchParams();
   const [servers, setServers] = useState<Server[]>([]);
   const [selectedServers, setSelectedServers] = useState<number[]>([]);
   const [scriptName, setScriptName] = useState('');
   const [command, setCommand] = useState('');
+  const [parameterDefs, setParameterDefs] = useState<ScriptParameter[]>([]);
+  const [parameterValues, setParameterValues] = useState<ScriptParameterValues>({});
   const [isRunning, setIsRunning] = useState(false);
+  const [savedScripts, setSavedScripts] = useState<Script[]>([]);
+  const [loadedScript, setLoadedScript] = useState<LoadedScript | null>(null);
+  const [strategy, setStrategy] = useState<RunStrategy>({
+    mode: 'sequential',
+    concurrency: 5,
+    batchSize: 25,
+    batchUnit: 'percent',
+    pauseSeconds: 30
+  });
   const [currentExecutionId, setCurrentExecutionId] = useState<string | null>(null);
   const [socket, setSocket] = useState<Socket | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -114,7 +134,8 @@ export default function ScriptsPage() {
     command: '',
     description: '',
     category: '',
-    color: 'gray'
+    color: 'gray',
+    parameters: []
   });
   const [savingQuickCommand, setSavingQuickCommand] = useState(false);
   
@@ -125,10 +146,13 @@ export default function ScriptsPage() {
   
   // Refs for MiniTerminal components
   const terminalRefsMap = useRef<Map<number, MiniTerminalRef>>(new Map());
+  // Approved request from the approvals page link (?approval=), started once connected
+  const startedApprovalRef = useRef<number | null>(null);
 
   useEffect(() => {
     fetchServers();
     fetchQuickCommands();
+    fetchSavedScripts();
     initializeSocket();
     return () => {
       if (socket) {
@@ -229,7 +253,8 @@ export default function ScriptsPage() {
           command: '',
           description: '',
           category: '',
-          color: 'gray'
+          color: 'gray',
+          parameters: []
         });
         fetchQuickCommands();
       } else {
@@ -309,7 +334,8 @@ export default function ScriptsPage() {
       command: quickCommand.command,
       description: quickCommand.description || '',
       category: quickCommand.category || '',
-      color: quickCommand.color || 'gray'
+      color: quickCommand.color || 'gray',
+      parameters: quickCommand.parameters || []
     });
     setShowQuickCommandModal(true);
   };
@@ -321,16 +347,155 @@ export default function ScriptsPage() {
       command: '',
       description: '',
       category: '',
-      color: 'gray'
+      color: 'gray',
+      parameters: []
     });
     setShowQuickCommandModal(true);
   };
 
-  const applyQuickCommand = (name: string, cmd: string) => {
+  const applyQuickCommand = (name: string, cmd: string, parameters: ScriptParameter[] = []) => {
     setScriptName(name);
     setCommand(cmd);
+    setParameterDefs(parameters);
+    setParameterValues({});
+    setLoadedScript(null);
+  };
+
+  const fetchSavedScripts = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/scripts', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<Script[]> = await response.json();
+      if (data.success && data.data) {
+        setSavedScripts(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch saved scripts:', error);
+    }
+  };
+
+  // Open a saved script from the library link (?script=&version=)
+  useEffect(() => {
+    const scriptId = parseInt(searchParams?.get('script') || '');
+    if (scriptId) {
+      loadSavedScript(scriptId, parseInt(searchParams?.get('version') || '') || undefined);
+    }
+  }, [searchParams]);
+
+  // Start an approved request from the approvals page link (?approval=)
+  useEffect(() => {
+    const approvalId = parseInt(searchParams?.get('approval') || '');
+    if (!approvalId || !socket || startedApprovalRef.current === approvalId) return;
+
+    startedApprovalRef.current = approvalId;
+    setIsRunning(true);
+    setTerminals(new Map());
+    terminalRefsMap.current.clear();
+    socket.emit('script:run', { approvalId });
+  }, [searchParams, socket]);
+
+  const loadSavedScript = async (scriptId: number, version?: number) => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const headers = { 'Authorization': `Bearer ${token}` };
+
+      const scriptResponse = await fetch(`/api/scripts/${scriptId}`, { headers });
+      const scriptData: ApiResponse<Script> = await scriptResponse.json();
+      if (!scriptData.success || !scriptData.data) {
+        Swal.fire({ title: 'Script Not Found', text: scriptData.error, icon: 'error' });
+        return;
+      }
+
+      const script = scriptData.data;
+      let content = { name: script.name, command: script.command, parameters: script.parameters, version: script.version };
+
+      if (version && version !== script.version) {
+        const versionsResponse = await fetch(`/api/scripts/${scriptId}/versions`, { headers });
+        const versionsData: ApiResponse<ScriptVersion[]> = await versionsResponse.json();
+        const match = versionsData.data?.find(v => v.version === version);
+        if (match) {
+          content = { name: match.name, command: match.command, parameters: match.parameters, version: match.version };
+        }
+      }
+
+      setScriptName(content.name);
+      setCommand(content.command);
+      setParameterDefs(content.parameters);
+      setParameterValues({});
+      setLoadedScript({ id: script.id, ...content, canEdit: !!script.canEdit });
+    } catch (error) {
+      console.error('Failed to load saved script:', error);
+    }
   };
 
+  // Save the form to the library: a new version of the loaded script, or a new script
+  const saveToLibrary = async () => {
+    if (!scriptName.trim() || !command.trim()) {
+      Swal.fire({ title: 'Missing Fields', text: 'Script name and command are required', icon: 'warning' });
+      return;
+    }
+
+    const updating = !!loadedScript?.canEdit;
+    const { value: changeNote, isConfirmed } = await Swal.fire({
+      title: updating ? `Save new version of "${loadedScript!.name}"` : 'Save to Library',
+      input: 'text',
+      inputLabel: updating ? 'Change note' : 'Description',
+      inputPlaceholder: updating ? 'What changed in this version' : 'What the script does',
+      showCancelButton: true,
+      confirmButtonText: 'Save'
+    });
+    if (!isConfirmed) return;
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const latestVersion = savedScripts.find(s => s.id === loadedScript?.id)?.version ?? loadedScript?.version;
+      const response = await fetch(updating ? `/api/scripts/${loadedScript!.id}` : '/api/scripts', {
+        method: updating ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(updating
+          ? { name: scriptName, command, parameters: parameterDefs, changeNote, baseVersion: latestVersion }
+          : { name: scriptName, command, parameters: parameterDefs, description: changeNote })
+      });
+
+      const data: ApiResponse<Script> = await response.json();
+      if (!data.success || !data.data) {
+        Swal.fire({ title: 'Save Failed', text: data.error || 'Failed to save script', icon: 'error' });
+        return;
+      }
+
+      setLoadedScript({
+        id: data.data.id,
+        name: data.data.name,
+        command: data.data.command,
+        parameters: data.data.parameters,
+        version: data.data.version,
+        canEdit: !!data.data.canEdit
+      });
+      setScriptName(data.data.name);
+      setCommand(data.data.command);
+      setParameterDefs(data.data.parameters);
+      fetchSavedScripts();
+
+      Swal.fire({ title: 'Saved', text: `${data.data.name} v${data.data.version}`, icon: 'success', timer: 1500, showConfirmButton: false });
+    } catch (error) {
+      console.error('Failed to save script:', error);
+    }
+  };
+
+  // The form still matches the loaded script, so it runs by scriptId and the logs link to that version
+  const runsSavedScript = !!loadedScript
+    && scriptName.trim() === loadedScript.name
+    && command.trim() === loadedScript.command.trim()
+    && JSON.stringify(parameterDefs) === JSON.stringify(loadedScript.parameters);
+
   // Write to specific terminal
   const writeToTerminal = useCallback((serverId: number, data: string, type: 'stdout' | 'stderr' = 'stdout') => {
     const terminalRef = terminalRefsMap.current.get(serverId);
@@ -381,6 +546,7 @@ export default function ScriptsPage() {
       executionId: string; 
       serverCount: number;
       servers: { id: number; name: string }[];
+      strategy?: RunStrategy;
     }) => {
       setCurrentExecutionId(data.executionId);
       setShowTerminals(true);
@@ -390,20 +556,31 @@ export default function ScriptsPage() {
         newTerminals.set(server.id, {
           serverId: server.id,
           serverName: server.name,
-          status: 'connecting',
-          isMinimized: false,
-          startTime: new Date()
+          status: 'pending',
+          isMinimized: false
         });
       });
       setTerminals(newTerminals);
 
       setTimeout(() => {
         data.servers.forEach(server => {
-          writeLineToTerminal(server.id, `Connecting to ${server.name}...`, 'yellow');
+          writeLineToTerminal(server.id, `Waiting to run on ${server.name}...`, 'yellow');
         });
       }, 100);
     });
 
+    // Handle rolling batch start
+    newSocket.on('script:batch', (data: {
+      executionId: string;
+      batch: number;
+      totalBatches: number;
+      serverIds: number[];
+    }) => {
+      data.serverIds.forEach(serverId => {
+        writeLineToTerminal(serverId, `Batch ${data.batch}/${data.totalBatches} starting`, 'cyan');
+      });
+    });
+
     // Handle streaming output
     newSocket.on('script:stream', (data: {
       executionId: string;
@@ -416,7 +593,7 @@ export default function ScriptsPage() {
       setTerminals(prev => {
         const newMap = new Map(prev);
         const terminal = newMap.get(data.serverId);
-        if (terminal && terminal.status !== 'success' && terminal.status !== 'failed') {
+        if (terminal && terminal.status !== 'success' && terminal.status !== 'failed' && terminal.status !== 'skipped') {
           newMap.set(data.serverId, {
             ...terminal,
             status: 'running'
@@ -433,25 +610,32 @@ export default function ScriptsPage() {
       executionId: string;
       serverId: number;
       serverName: string;
-      status: 'running' | 'success' | 'failed';
+      status: 'running' | 'success' | 'failed' | 'skipped';
       exitCode?: number;
       error?: string;
       isComplete?: boolean;
     }) => {
+      const isStarting = data.status === 'running' && !data.isComplete;
+
       setTerminals(prev => {
         const newMap = new Map(prev);
         const terminal = newMap.get(data.serverId);
         if (terminal) {
           newMap.set(data.serverId, {
             ...terminal,
-            status: data.status,
+            status: isStarting ? 'connecting' : data.status,
             exitCode: data.exitCode,
-            endTime: data.isComplete ? new Date() : terminal.endTime
+            startTime: isStarting ? new Date() : terminal.startTime,
+            endTime: data.isComplete && data.status !== 'skipped' ? new Date() : terminal.endTime
           });
         }
         return newMap;
       });
 
+      if (isStarting) {
+        writeLineToTerminal(data.serverId, `Connecting to ${data.serverName}...`, 'yellow');
+      }
+
       if (data.isComplete) {
         if (data.status === 'success') {
           writeLineToTerminal(data.serverId, '', undefined);
@@ -462,6 +646,8 @@ export default function ScriptsPage() {
             writeLineToTerminal(data.serverId, `Error: ${data.error}`, 'red');
           }
           writeLineToTerminal(data.serverId, `✗ Command failed (exit code: ${data.exitCode})`, 'red');
+        } else if (data.status === 'skipped') {
+          writeLineToTerminal(data.serverId, `[Skipped] ${data.error || ''}`, 'yellow');
         }
       }
     });
@@ -472,6 +658,8 @@ export default function ScriptsPage() {
       totalServers: number;
       successCount: number;
       failedCount: number;
+      skippedCount?: number;
+      stoppedReason?: string | null;
     }) => {
       setIsRunning(false);
       setCurrentExecutionId(null);
@@ -490,7 +678,13 @@ export default function ScriptsPage() {
                 <div class="text-3xl font-bold text-red-600">${data.failedCount}</div>
                 <div class="text-sm text-gray-500">Failed</div>
               </div>
+              ${data.skippedCount ? `
+              <div class="text-center">
+                <div class="text-3xl font-bold text-gray-500">${data.skippedCount}</div>
+                <div class="text-sm text-gray-500">Skipped</div>
+              </div>` : ''}
             </div>
+            ${data.stoppedReason ? `<p class="text-sm text-yellow-700 mt-4">${data.stoppedReason}</p>` : ''}
           </div>
         `,
         icon: data.failedCount === 0 ? 'success' : 'warning',
@@ -510,6 +704,91 @@ export default function ScriptsPage() {
       });
     });
 
+    // Handle security policy confirmation (dangerous or sudo commands)
+    newSocket.on('script:confirm', async (data: {
+      executionId: string;
+      scriptId?: number;
+      scriptVersion?: number;
+      scriptName: string;
+      command: string;
+      displayCommand?: string;
+      parameterDefinitions?: ScriptParameter[];
+      parameters?: ScriptParameterValues;
+      serverIds: number[];
+      strategy?: RunStrategy;
+      warning?: string;
+    }) => {
+      const details = document.createElement('div');
+      details.className = 'text-left';
+      const warning = document.createElement('p');
+      warning.className = 'mb-2';
+      warning.textContent = data.warning || 'This command requires confirmation by the security policy.';
+      const code = document.createElement('pre');
+      code.className = 'bg-gray-100 p-3 rounded text-sm whitespace-pre-wrap max-h-32 overflow-auto';
+      code.textContent = data.displayCommand || data.command;
+      details.append(warning, code);
+
+      const result = await Swal.fire({
+        title: 'Confirmation Required',
+        html: details,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonColor: '#ef4444',
+        cancelButtonColor: '#6b7280',
+        confirmButtonText: 'Run Anyway',
+        cancelButtonText: 'Cancel'
+      });
+
+      if (result.isConfirmed) {
+        newSocket.emit('script:run', {
+          executionId: data.executionId,
+          scriptId: data.scriptId,
+          scriptVersion: data.scriptVersion,
+          scriptName: data.scriptName,
+          command: data.command,
+          parameterDefinitions: data.parameterDefinitions,
+          parameters: data.parameters,
+          serverIds: data.serverIds,
+          strategy: data.strategy,
+          confirmed: true
+        });
+      } else {
+        setIsRunning(false);
+      }
+    });
+
+    // High-risk run queued until an admin approves it
+    newSocket.on('script:approval-required', async (data: {
+      executionId: string;
+      approvalId: number;
+      scriptName: string;
+      reason: string;
+    }) => {
+      setIsRunning(false);
+
+      const details = document.createElement('div');
+      details.className = 'text-left';
+      const reason = document.createElement('p');
+      reason.className = 'mb-2';
+      reason.textContent = `${data.reason}.`;
+      const note = document.createElement('p');
+      note.className = 'text-sm text-gray-600';
+      note.textContent = `"${data.scriptName}" was sent to the admins as request #${data.approvalId}. Once it is approved, start it from the Approvals page.`;
+      details.append(reason, note);
+
+      const result = await Swal.fire({
+        title: 'Waiting for Approval',
+        html: details,
+        icon: 'info',
+        showCancelButton: true,
+        confirmButtonText: 'View Approvals',
+        cancelButtonText: 'Close'
+      });
+      if (result.isConfirmed) {
+        window.location.href = '/dashboard/scripts/approvals';
+      }
+    });
+
     // Handle script cancelled
     newSocket.on('script:cancelled', (data: { executionId: string }) => {
       setIsRunning(false);
@@ -595,40 +874,69 @@ export default function ScriptsPage() {
       return false;
     }
 
-    const dangerousCommands = [
-      'rm -rf /',
-      'rm -rf *',
-      'mkfs',
-      'dd if=/dev/zero',
-      'format',
-      'fdisk',
-      'parted',
-      ':(){ :|:& };:'
-    ];
-
-    const lowerCommand = command.toLowerCase();
-    if (dangerousCommands.some(dangerous => lowerCommand.includes(dangerous))) {
-      Swal.fire({
-        title: 'Dangerous Command Detected',
-        text: 'This command contains potentially dangerous operations and cannot be executed.',
-        icon: 'error'
-      });
-      return false;
+    // Blocked and dangerous commands are checked by the server against the security policy
+    return true;
+  };
+
+  // Only send the options that apply to the selected mode
+  const buildStrategy = (): RunStrategy => {
+    const failureOptions = {
+      stopOnFailure: strategy.stopOnFailure || undefined,
+      maxFailurePercent: strategy.maxFailurePercent
+    };
+
+    switch (strategy.mode) {
+      case 'parallel':
+        return { mode: 'parallel', concurrency: strategy.concurrency, ...failureOptions };
+      case 'rolling':
+        return {
+          mode: 'rolling',
+          batchSize: strategy.batchSize,
+          batchUnit: strategy.batchUnit,
+          pauseSeconds: strategy.pauseSeconds,
+          ...failureOptions
+        };
+      default:
+        return { mode: 'sequential', ...failureOptions };
     }
+  };
 
-    return true;
+  const describeStrategy = () => {
+    switch (strategy.mode) {
+      case 'parallel':
+        return `parallel, up to ${strategy.concurrency} at a time`;
+      case 'rolling':
+        return `rolling batches of ${strategy.batchSize}${strategy.batchUnit === 'percent' ? '%' : ' server(s)'}, ${strategy.pauseSeconds || 0}s pause`;
+      default:
+        return 'one server at a time';
+    }
+  };
+
+  const updateStrategyNumber = (field: 'concurrency' | 'batchSize' | 'pauseSeconds' | 'maxFailurePercent', value: string) => {
+    setStrategy(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
   };
 
   const runScript = async () => {
     if (!validateScript() || !socket) return;
 
+    // Same substitution the server does, to check values and show the command with secrets masked
+    const applied = applyScriptParameters(command.trim(), parameterDefs, parameterValues);
+    if (typeof applied === 'string') {
+      Swal.fire({ title: 'Invalid Parameters', text: applied, icon: 'warning' });
+      return;
+    }
+
+    const preview = document.createElement('code');
+    preview.textContent = applied.displayCommand;
+
     const result = await Swal.fire({
       title: 'Confirm Script Execution',
       html: `
         <div class="text-left">
           <p class="mb-2">Execute "<strong>${scriptName}</strong>" on <strong>${selectedServers.length}</strong> server(s)?</p>
+          <p class="text-sm text-gray-600">Strategy: ${describeStrategy()}</p>
           <div class="bg-gray-100 p-3 rounded mt-3 max-h-32 overflow-auto">
-            <code class="text-sm whitespace-pre-wrap">${command}</code>
+            <code class="text-sm whitespace-pre-wrap">${preview.innerHTML}</code>
           </div>
           <p class="text-sm text-gray-500 mt-3">
             <strong>Note:</strong> Terminal windows will open for each server with real-time output.
@@ -649,9 +957,12 @@ export default function ScriptsPage() {
       terminalRefsMap.current.clear();
 
       socket.emit('script:run', {
-        scriptName: scriptName.trim(),
-        command: command.trim(),
-        serverIds: selectedServers
+        ...(runsSavedScript
+          ? { scriptId: loadedScript!.id, scriptVersion: loadedScript!.version }
+          : { scriptName: scriptName.trim(), command: command.trim(), parameterDefinitions: parameterDefs }),
+        parameters: parameterValues,
+        serverIds: selectedServers,
+        strategy: buildStrategy()
       });
     }
   };
@@ -724,6 +1035,8 @@ export default function ScriptsPage() {
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'failed':
         return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'skipped':
+        return <Clock className="h-4 w-4 text-gray-500" />;
       default:
         return <Clock className="h-4 w-4 text-gray-400" />;
     }
@@ -741,6 +1054,8 @@ export default function ScriptsPage() {
         return 'border-green-600';
       case 'failed':
         return 'border-red-600';
+      case 'skipped':
+        return 'border-gray-500';
       default:
         return 'border-gray-600';
     }
@@ -757,7 +1072,7 @@ export default function ScriptsPage() {
 
   // Calculate summary
   const terminalArray = Array.from(terminals.values());
-  const completedCount = terminalArray.filter(t => t.status === 'success' || t.status === 'failed').length;
+  const completedCount = terminalArray.filter(t => t.status === 'success' || t.status === 'failed' || t.status === 'skipped').length;
   const successCount = terminalArray.filter(t => t.status === 'success').length;
   const failedCount = terminalArray.filter(t => t.status === 'failed').length;
   const runningCount = terminalArray.filter(t => t.status === 'running' || t.status === 'connecting').length;
@@ -781,11 +1096,31 @@ export default function ScriptsPage() {
     <Layout>
       <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8">
         {/* Header */}
-        <div className="mb-6">
-          <h1 className="text-2xl font-bold text-gray-900">Script Runner</h1>
-          <p className="mt-1 text-sm text-gray-500">
-            Execute scripts on multiple servers with <span className="text-blue-600 font-medium">real-time terminal output</span>
-          </p>
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Script Runner</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Execute scripts on multiple servers with <span className="text-blue-600 font-medium">real-time terminal output</span>
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <a href="/dashboard/scripts/approvals" className="btn-secondary flex items-center">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Approvals
+            </a>
+            <a href="/dashboard/scripts/runbooks" className="btn-secondary flex items-center">
+              <ListChecks className="h-4 w-4 mr-2" />
+              Runbooks
+            </a>
+            <a href="/dashboard/scripts/schedules" className="btn-secondary flex items-center">
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Schedules
+            </a>
+            <a href="/dashboard/scripts/library" className="btn-secondary flex items-center">
+              <BookOpen className="h-4 w-4 mr-2" />
+              Script Library
+            </a>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -798,6 +1133,39 @@ export default function ScriptsPage() {
               </h2>
               
               <div className="space-y-4">
+                {/* Saved Script */}
+                <div>
+                  <label className="form-label">Saved Script</label>
+                  <select
+                    value={loadedScript?.id ?? ''}
+                    onChange={(e) => {
+                      if (e.target.value) {
+                        loadSavedScript(parseInt(e.target.value));
+                      } else {
+                        setLoadedScript(null);
+                        setParameterDefs([]);
+                        setParameterValues({});
+                      }
+                    }}
+                    className="form-input"
+                    disabled={isRunning}
+                  >
+                    <option value="">Ad-hoc command</option>
+                    {savedScripts.map(script => (
+                      <option key={script.id} value={script.id}>
+                        {script.name} (v{script.version}){!script.canEdit && script.owner ? ` - ${script.owner.name}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {loadedScript && (
+                    <p className={`mt-1 text-xs ${runsSavedScript ? 'text-gray-500' : 'text-yellow-600'}`}>
+                      {runsSavedScript
+                        ? `Runs version ${loadedScript.version} of the saved script`
+                        : 'Modified - runs as an ad-hoc command until saved as a new version'}
+                    </p>
+                  )}
+                </div>
+
                 {/* Script Name */}
                 <div>
                   <label className="form-label">Script Name</label>
@@ -827,6 +1195,19 @@ systemctl restart nginx"
                   />
                 </div>
 
+                {/* Parameters */}
+                {parameterDefs.length > 0 && (
+                  <div>
+                    <label className="form-label">Parameters</label>
+                    <ScriptParameterForm
+                      parameters={parameterDefs}
+                      values={parameterValues}
+                      onChange={setParameterValues}
+                      disabled={isRunning}
+                    />
+                  </div>
+                )}
+
                 {/* Quick Commands Section */}
                 <div>
                   <div className="flex items-center justify-between mb-2">
@@ -862,7 +1243,7 @@ systemctl restart nginx"
                         return (
                           <button
                             key={quick.id}
-                            onClick={() => applyQuickCommand(quick.name, quick.command)}
+                            onClick={() => applyQuickCommand(quick.name, quick.command, quick.parameters)}
                             disabled={isRunning}
                             className={`px-3 py-1.5 text-xs ${colorClasses.bg} ${colorClasses.hover} ${colorClasses.text} rounded-full transition-all disabled:opacity-50 hover:shadow-md active:scale-95`}
                             title={`คลิกเพื่อใช้: ${quick.command}`}
@@ -875,6 +1256,110 @@ systemctl restart nginx"
                   </div>
                 </div>
 
+                {/* Run Strategy */}
+                <div>
+                  <label className="form-label text-gray-500 flex items-center">
+                    <Layers className="h-4 w-4 mr-1 text-blue-500" />
+                    Run Strategy
+                  </label>
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Mode</label>
+                      <select
+                        value={strategy.mode}
+                        onChange={(e) => setStrategy(prev => ({ ...prev, mode: e.target.value as RunStrategy['mode'] }))}
+                        className="form-input text-sm"
+                        disabled={isRunning}
+                      >
+                        <option value="sequential">Sequential</option>
+                        <option value="parallel">Parallel</option>
+                        <option value="rolling">Rolling</option>
+                      </select>
+                    </div>
+
+                    {strategy.mode === 'parallel' && (
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Max concurrent servers</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={50}
+                          value={strategy.concurrency ?? ''}
+                          onChange={(e) => updateStrategyNumber('concurrency', e.target.value)}
+                          className="form-input text-sm"
+                          disabled={isRunning}
+                        />
+                      </div>
+                    )}
+
+                    {strategy.mode === 'rolling' && (
+                      <>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Batch size</label>
+                          <div className="flex">
+                            <input
+                              type="number"
+                              min={1}
+                              value={strategy.batchSize ?? ''}
+                              onChange={(e) => updateStrategyNumber('batchSize', e.target.value)}
+                              className="form-input text-sm rounded-r-none"
+                              disabled={isRunning}
+                            />
+                            <select
+                              value={strategy.batchUnit}
+                              onChange={(e) => setStrategy(prev => ({ ...prev, batchUnit: e.target.value as RunStrategy['batchUnit'] }))}
+                              className="form-input text-sm w-24 rounded-l-none border-l-0"
+                              disabled={isRunning}
+                            >
+                              <option value="percent">%</option>
+                              <option value="servers">servers</option>
+                            </select>
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Pause between batches (s)</label>
+                          <input
+                            type="number"
+                            min={0}
+                            max={3600}
+                            value={strategy.pauseSeconds ?? ''}
+                            onChange={(e) => updateStrategyNumber('pauseSeconds', e.target.value)}
+                            className="form-input text-sm"
+                            disabled={isRunning}
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Stop when failures exceed (%)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={strategy.maxFailurePercent ?? ''}
+                        onChange={(e) => updateStrategyNumber('maxFailurePercent', e.target.value)}
+                        className="form-input text-sm"
+                        placeholder="No limit"
+                        disabled={isRunning}
+                      />
+                    </div>
+                  </div>
+                  <label className="mt-2 inline-flex items-center text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={!!strategy.stopOnFailure}
+                      onChange={(e) => setStrategy(prev => ({ ...prev, stopOnFailure: e.target.checked }))}
+                      className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600"
+                      disabled={isRunning}
+                    />
+                    Stop on first failure
+                  </label>
+                  <p className="mt-1 text-xs text-gray-400">
+                    Servers already running finish; remaining servers are skipped when a threshold is reached.
+                  </p>
+                </div>
+
                 {/* Action Buttons */}
                 <div className="flex items-center justify-between pt-4 border-t border-gray-200">
                   <div className="flex space-x-3">
@@ -896,6 +1381,17 @@ systemctl restart nginx"
                         Cancel Execution
                       </button>
                     )}
+                    {!isRunning && (
+                      <button
+                        onClick={saveToLibrary}
+                        disabled={runsSavedScript}
+                        className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                        title="Save this command to the script library"
+                      >
+                        <Save className="h-4 w-4 mr-2" />
+                        {loadedScript?.canEdit ? 'Save as New Version' : 'Save to Library'}
+                      </button>
+                    )}
                   </div>
 
                   <div className="text-sm text-gray-500">
@@ -1128,6 +1624,7 @@ systemctl restart nginx"
                       {terminal.status === 'pending' && 'Pending...'}
                       {terminal.status === 'success' && '✓ Completed successfully'}
                       {terminal.status === 'failed' && `✗ Failed (exit: ${terminal.exitCode})`}
+                      {terminal.status === 'skipped' && 'Skipped'}
                     </div>
                   )}
                 </div>
@@ -1203,7 +1700,7 @@ systemctl restart nginx"
                           <div className="flex items-center space-x-2">
                             <button
                               onClick={() => {
-                                applyQuickCommand(cmd.name, cmd.command);
+                                applyQuickCommand(cmd.name, cmd.command, cmd.parameters);
                                 setShowQuickCommandsManager(false);
                               }}
                               className="p-2 text-green-600 hover:bg-green-100 rounded-lg transition-colors"
@@ -1309,6 +1806,17 @@ systemctl restart nginx"
                     />
                   </div>
 
+                  {/* Parameters */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      พารามิเตอร์ (ไม่บังคับ)
+                    </label>
+                    <ScriptParameterEditor
+                      parameters={quickCommandForm.parameters || []}
+                      onChange={(parameters) => setQuickCommandForm(prev => ({ ...prev, parameters }))}
+                    />
+                  </div>
+
                   {/* Color */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
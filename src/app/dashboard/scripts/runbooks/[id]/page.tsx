@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, ListChecks, Save, Trash2, Loader2 } from 'lucide-react';
+import Swal from 'sweetalert2';
+import Layout from '@/components/Layout';
+import RunbookStepEditor from '@/components/RunbookStepEditor';
+import { formatRelativeTime, getScriptStatusColor, getScriptStatusText } from '@/lib/utils';
+import type { ApiResponse, Runbook, RunbookData, RunbookRun, RunbookStep, Server } from '@/types';
+
+interface RunbookPageProps {
+  params: { id: string };
+}
+
+interface RunbookForm {
+  name: string;
+  description: string;
+  steps: RunbookStep[];
+}
+
+const EMPTY_FORM: RunbookForm = {
+  name: '',
+  description: '',
+  steps: []
+};
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+});
+
+export default function RunbookPage({ params }: RunbookPageProps) {
+  const router = useRouter();
+  const isNew = params.id === 'new';
+  const runbookId = parseInt(params.id);
+
+  const [runbook, setRunbook] = useState<Runbook | null>(null);
+  const [runs, setRuns] = useState<RunbookRun[]>([]);
+  const [servers, setServers] = useState<Server[]>([]);
+  const [form, setForm] = useState<RunbookForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(!isNew);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchServers();
+    if (!isNew) {
+      loadRunbook();
+    }
+  }, [params.id]);
+
+  const fetchServers = async () => {
+    try {
+      const response = await fetch('/api/servers?limit=100', { headers: authHeaders() });
+      const data: ApiResponse<Server[]> = await response.json();
+      if (data.success && data.data) {
+        setServers(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch servers:', error);
+    }
+  };
+
+  const loadRunbook = async () => {
+    try {
+      const [runbookResponse, runsResponse] = await Promise.all([
+        fetch(`/api/scripts/runbooks/${runbookId}`, { headers: authHeaders() }),
+        fetch(`/api/scripts/runbooks/runs?runbookId=${runbookId}&limit=10`, { headers: authHeaders() })
+      ]);
+      const runbookData: ApiResponse<Runbook> = await runbookResponse.json();
+      const runsData: ApiResponse<RunbookRun[]> = await runsResponse.json();
+
+      if (runbookData.success && runbookData.data) {
+        setRunbook(runbookData.data);
+        setForm({
+          name: runbookData.data.name,
+          description: runbookData.data.description || '',
+          steps: runbookData.data.steps
+        });
+        setRuns(runsData.data || []);
+        setError(null);
+      } else {
+        setError(runbookData.error || 'Runbook not found');
+      }
+    } catch (error) {
+      console.error('Failed to load runbook:', error);
+      setError('Failed to load runbook');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveRunbook = async () => {
+    if (!form.name.trim() || form.steps.length === 0) {
+      Swal.fire({ title: 'Missing fields', text: 'A name and at least one step are required', icon: 'warning' });
+      return;
+    }
+
+    const body: RunbookData = {
+      name: form.name,
+      description: form.description,
+      steps: form.steps
+    };
+
+    setSaving(true);
+    try {
+      const response = await fetch(isNew ? '/api/scripts/runbooks' : `/api/scripts/runbooks/${runbookId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(body)
+      });
+      const data: ApiResponse<Runbook> = await response.json();
+
+      if (!data.success || !data.data) {
+        Swal.fire({ title: 'Save failed', text: data.error || 'Failed to save runbook', icon: 'error' });
+        return;
+      }
+
+      if (isNew) {
+        router.push(`/dashboard/scripts/runbooks/${data.data.id}`);
+        return;
+      }
+
+      setRunbook(data.data);
+      Swal.fire({ title: 'Saved', text: data.message, icon: 'success', timer: 1500, showConfirmButton: false });
+    } catch (error) {
+      console.error('Failed to save runbook:', error);
+      Swal.fire({ title: 'Save failed', text: 'Failed to save runbook', icon: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRunbook = async () => {
+    const result = await Swal.fire({
+      title: 'Delete runbook?',
+      text: `"${runbook?.name}" will be deleted. Past runs and their logs are kept.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#ef4444',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: 'Delete',
+      cancelButtonText: 'Cancel'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/scripts/runbooks/${runbookId}`, { method: 'DELETE', headers: authHeaders() });
+      const data: ApiResponse = await response.json();
+      if (data.success) {
+        router.push('/dashboard/scripts/runbooks');
+      } else {
+        Swal.fire({ title: 'Delete failed', text: data.error, icon: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to delete runbook:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center py-24 text-gray-400">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading...
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <a
+            href="/dashboard/scripts/runbooks"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Runbooks
+          </a>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+                <ListChecks className="h-6 w-6 mr-2 text-blue-600" />
+                {isNew ? 'New Runbook' : runbook?.name || 'Runbook'}
+              </h1>
+              {runbook && (
+                <p className="mt-1 text-sm text-gray-500">
+                  {runbook.steps.length} steps · owned by {runbook.owner?.name} · updated {formatRelativeTime(runbook.updatedAt)}
+                </p>
+              )}
+            </div>
+
+            <div className="flex space-x-2">
+              {runbook && (
+                <button
+                  onClick={deleteRunbook}
+                  className="bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-md transition-colors duration-200 flex items-center"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </button>
+              )}
+              {!error && (
+                <button
+                  onClick={saveRunbook}
+                  disabled={saving}
+                  className="btn-primary flex items-center disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  {isNew ? 'Create Runbook' : 'Save'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="bg-white shadow-soft rounded-lg p-12 text-center text-gray-500">{error}</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white shadow-soft rounded-lg p-6 space-y-4">
+                <div>
+                  <label className="form-label">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="form-input"
+                    placeholder="e.g., Rolling deploy"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Description</label>
+                  <textarea
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className="form-input"
+                    rows={2}
+                    placeholder="What this runbook does (optional)"
+                  />
+                </div>
+              </div>
+
+              <div className="bg-white shadow-soft rounded-lg p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Steps</h2>
+                <RunbookStepEditor
+                  steps={form.steps}
+                  servers={servers}
+                  onChange={(steps) => setForm({ ...form, steps })}
+                />
+              </div>
+            </div>
+
+            {/* Recent runs */}
+            <div className="bg-white shadow-soft rounded-lg p-6 h-fit">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Runs</h2>
+              {runs.length === 0 ? (
+                <p className="text-sm text-gray-500">{isNew ? 'Save the runbook to run it.' : 'No runs yet'}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {runs.map(run => (
+                    <li key={run.id}>
+                      <a
+                        href={`/dashboard/scripts/runbooks/runs/${run.id}`}
+                        className="flex items-center justify-between p-2 rounded hover:bg-gray-50"
+                      >
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">#{run.id}</div>
+                          <div className="text-xs text-gray-500">
+                            {formatRelativeTime(run.startTime)}{run.user && ` · ${run.user.name}`}
+                          </div>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${getScriptStatusColor(run.status)}`}>
+                          {getScriptStatusText(run.status)}
+                        </span>
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
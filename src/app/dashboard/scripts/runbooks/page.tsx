@@ -0,0 +1,318 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, ListChecks, Plus, Play, Edit2, Trash2, ShieldCheck, Loader2 } from 'lucide-react';
+import { io, Socket } from 'socket.io-client';
+import Swal from 'sweetalert2';
+import Layout from '@/components/Layout';
+import { formatRelativeTime, getScriptStatusColor, getScriptStatusText } from '@/lib/utils';
+import { getWebSocketUrl } from '@/lib/file-transfer-client';
+import type { ApiResponse, Runbook, RunbookRun } from '@/types';
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+});
+
+export default function RunbooksPage() {
+  const [runbooks, setRunbooks] = useState<Runbook[]>([]);
+  const [runs, setRuns] = useState<RunbookRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [startingId, setStartingId] = useState<number | null>(null);
+
+  const socketRef = useRef<Socket | null>(null);
+
+  useEffect(() => {
+    fetchRunbooks();
+    fetchRuns();
+    initializeSocket();
+
+    return () => {
+      socketRef.current?.disconnect();
+      socketRef.current = null;
+    };
+  }, []);
+
+  const fetchRunbooks = async () => {
+    try {
+      const response = await fetch('/api/scripts/runbooks', { headers: authHeaders() });
+      const data: ApiResponse<Runbook[]> = await response.json();
+      if (data.success && data.data) {
+        setRunbooks(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch runbooks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRuns = async () => {
+    try {
+      const response = await fetch('/api/scripts/runbooks/runs?limit=20', { headers: authHeaders() });
+      const data: ApiResponse<RunbookRun[]> = await response.json();
+      if (data.success && data.data) {
+        setRuns(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch runbook runs:', error);
+    }
+  };
+
+  const initializeSocket = () => {
+    const token = localStorage.getItem('auth_token');
+    if (!token) return;
+
+    const socket = io(getWebSocketUrl(), {
+      auth: { token },
+      transports: ['websocket', 'polling'],
+      reconnectionAttempts: 5,
+      reconnectionDelay: 1000,
+      timeout: 20000,
+    });
+    socketRef.current = socket;
+
+    socket.on('runbook:started', (data: { runId: number }) => {
+      window.location.href = `/dashboard/scripts/runbooks/runs/${data.runId}`;
+    });
+
+    // Steps the security policy wants confirmed; re-emit with confirmed: true
+    socket.on('runbook:confirm', async (data: { runbookId: number; warnings: string[] }) => {
+      const result = await Swal.fire({
+        title: 'Confirmation Required',
+        html: `<div class="text-left text-sm">${data.warnings.map(warning => `<p class="mb-1">${escapeHtml(warning)}</p>`).join('')}</div>`,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonColor: '#ef4444',
+        confirmButtonText: 'Run Anyway'
+      });
+      if (result.isConfirmed) {
+        socket.emit('runbook:run', { runbookId: data.runbookId, confirmed: true });
+      } else {
+        setStartingId(null);
+      }
+    });
+
+    socket.on('runbook:error', (data: { error: string }) => {
+      setStartingId(null);
+      Swal.fire({ title: 'Runbook failed to start', text: data.error, icon: 'error' });
+    });
+  };
+
+  const runRunbook = async (runbook: Runbook) => {
+    if (!socketRef.current?.connected) {
+      Swal.fire({ title: 'Not connected', text: 'The WebSocket server is not connected', icon: 'error' });
+      return;
+    }
+
+    const result = await Swal.fire({
+      title: `Run "${runbook.name}"?`,
+      text: `${runbook.steps.length} step${runbook.steps.length === 1 ? '' : 's'} will run in order.`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Run'
+    });
+    if (!result.isConfirmed) return;
+
+    setStartingId(runbook.id);
+    socketRef.current.emit('runbook:run', { runbookId: runbook.id });
+  };
+
+  const deleteRunbook = async (runbook: Runbook) => {
+    const result = await Swal.fire({
+      title: 'Delete runbook?',
+      text: `"${runbook.name}" will be deleted. Past runs and their logs are kept.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#ef4444',
+      confirmButtonText: 'Delete'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/scripts/runbooks/${runbook.id}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      });
+
+      const data: ApiResponse = await response.json();
+      if (!data.success) {
+        Swal.fire({ title: 'Delete failed', text: data.error, icon: 'error' });
+        return;
+      }
+      fetchRunbooks();
+    } catch (error) {
+      console.error('Failed to delete runbook:', error);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <a
+            href="/dashboard/scripts"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Script Runner
+          </a>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+                <ListChecks className="h-6 w-6 mr-2 text-blue-600" />
+                Runbooks
+              </h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Ordered steps, each on its own servers, with retries, failure rules and approval gates.
+              </p>
+            </div>
+            <a href="/dashboard/scripts/runbooks/new" className="btn-primary flex items-center">
+              <Plus className="h-4 w-4 mr-2" />
+              New Runbook
+            </a>
+          </div>
+        </div>
+
+        {/* Runbooks */}
+        <div className="bg-white shadow-soft rounded-lg overflow-hidden mb-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12 text-gray-400">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading...
+            </div>
+          ) : runbooks.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No runbooks yet
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="table-header">Runbook</th>
+                  <th className="table-header">Steps</th>
+                  <th className="table-header">Last Run</th>
+                  <th className="table-header">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {runbooks.map(runbook => (
+                  <tr key={runbook.id} className="table-row">
+                    <td className="table-cell">
+                      <a href={`/dashboard/scripts/runbooks/${runbook.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                        {runbook.name}
+                      </a>
+                      <div className="text-sm text-gray-500 max-w-md truncate">
+                        {runbook.description}
+                        {runbook.owner && <span className="text-gray-400">{runbook.description ? ' · ' : ''}{runbook.owner.name}</span>}
+                      </div>
+                    </td>
+                    <td className="table-cell text-sm text-gray-500">
+                      <div className="max-w-sm truncate" title={runbook.steps.map(step => step.name).join(' → ')}>
+                        {runbook.steps.map(step => step.name).join(' → ')}
+                      </div>
+                      {runbook.steps.some(step => step.requiresApproval) && (
+                        <div className="text-xs text-yellow-600 flex items-center mt-1">
+                          <ShieldCheck className="h-3 w-3 mr-1" />
+                          {runbook.steps.filter(step => step.requiresApproval).length} approval gate(s)
+                        </div>
+                      )}
+                    </td>
+                    <td className="table-cell text-sm">
+                      {runbook.lastRun ? (
+                        <a href={`/dashboard/scripts/runbooks/runs/${runbook.lastRun.id}`} className="hover:underline">
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${getScriptStatusColor(runbook.lastRun.status)}`}>
+                            {getScriptStatusText(runbook.lastRun.status)}
+                          </span>
+                          <div className="text-xs text-gray-500 mt-1">{formatRelativeTime(runbook.lastRun.startTime)}</div>
+                        </a>
+                      ) : (
+                        <span className="text-gray-500">Never</span>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => runRunbook(runbook)}
+                          disabled={startingId !== null}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded disabled:opacity-50"
+                          title="Run"
+                        >
+                          {startingId === runbook.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                        </button>
+                        <a
+                          href={`/dashboard/scripts/runbooks/${runbook.id}`}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded"
+                          title="Edit"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </a>
+                        <button
+                          onClick={() => deleteRunbook(runbook)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Recent runs */}
+        <div className="bg-white shadow-soft rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Recent Runs</h2>
+          </div>
+          {runs.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No runs yet</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="table-header">Run</th>
+                  <th className="table-header">Status</th>
+                  <th className="table-header">Progress</th>
+                  <th className="table-header">Started</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {runs.map(run => (
+                  <tr key={run.id} className="table-row">
+                    <td className="table-cell">
+                      <a href={`/dashboard/scripts/runbooks/runs/${run.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                        {run.runbookName} #{run.id}
+                      </a>
+                      {run.user && <div className="text-xs text-gray-500">{run.user.name}</div>}
+                    </td>
+                    <td className="table-cell text-sm">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${getScriptStatusColor(run.status)}`}>
+                        {getScriptStatusText(run.status)}
+                      </span>
+                      {run.error && (
+                        <div className="text-xs text-red-600 max-w-xs truncate mt-1" title={run.error}>{run.error}</div>
+                      )}
+                    </td>
+                    <td className="table-cell text-sm text-gray-500">
+                      {run.stepResults.filter(result => result.status === 'success').length} of {run.steps.length} steps succeeded
+                    </td>
+                    <td className="table-cell text-sm text-gray-500">{formatRelativeTime(run.startTime)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
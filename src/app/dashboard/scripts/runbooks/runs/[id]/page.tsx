@@ -0,0 +1,356 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  ArrowLeft,
+  ListChecks,
+  Square,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Loader2,
+  ShieldCheck,
+  SkipForward,
+  ChevronDown,
+  ChevronRight,
+  RotateCcw
+} from 'lucide-react';
+import { io, Socket } from 'socket.io-client';
+import Swal from 'sweetalert2';
+import Layout from '@/components/Layout';
+import { formatDate, getScriptStatusColor, getScriptStatusText } from '@/lib/utils';
+import { getWebSocketUrl } from '@/lib/file-transfer-client';
+import type { RunbookRun, RunbookOutput, RunbookStepStatus, RunbookServerResult } from '@/types';
+
+interface RunbookRunPageProps {
+  params: { id: string };
+}
+
+const STEP_STATUS: Record<RunbookStepStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'text-gray-600 bg-gray-100' },
+  waiting_approval: { label: 'Waiting for approval', className: 'text-yellow-700 bg-yellow-100' },
+  running: { label: 'Running', className: 'text-blue-600 bg-blue-100' },
+  success: { label: 'Succeeded', className: 'text-green-600 bg-green-100' },
+  failed: { label: 'Failed', className: 'text-red-600 bg-red-100' },
+  skipped: { label: 'Skipped', className: 'text-gray-500 bg-gray-100' },
+  cancelled: { label: 'Cancelled', className: 'text-gray-600 bg-gray-100' }
+};
+
+// Terminal colour and cursor sequences, which a <pre> cannot show
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+const outputKey = (step: number, serverId: number) => `${step}:${serverId}`;
+
+function ServerStatusIcon({ status }: { status: RunbookServerResult['status'] }) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />;
+    case 'success':
+      return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-600" />;
+    case 'skipped':
+      return <SkipForward className="h-4 w-4 text-gray-400" />;
+    default:
+      return <Clock className="h-4 w-4 text-gray-400" />;
+  }
+}
+
+export default function RunbookRunPage({ params }: RunbookRunPageProps) {
+  const runId = parseInt(params.id);
+
+  const [run, setRun] = useState<RunbookRun | null>(null);
+  const [output, setOutput] = useState<Record<string, string>>({});
+  // Servers whose output is open; running servers are open unless closed
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const socketRef = useRef<Socket | null>(null);
+
+  useEffect(() => {
+    initializeSocket();
+
+    return () => {
+      socketRef.current?.disconnect();
+      socketRef.current = null;
+    };
+  }, [params.id]);
+
+  const initializeSocket = () => {
+    const token = localStorage.getItem('auth_token');
+    if (!token) return;
+
+    const socket = io(getWebSocketUrl(), {
+      auth: { token },
+      transports: ['websocket', 'polling'],
+      reconnectionAttempts: 5,
+      reconnectionDelay: 1000,
+      timeout: 20000,
+    });
+    socketRef.current = socket;
+
+    // Also after a reconnect, which replays the output so far
+    socket.on('connect', () => {
+      socket.emit('runbook:watch', { runId });
+    });
+
+    socket.on('runbook:update', (data: RunbookRun) => {
+      if (data.id !== runId) return;
+      setRun(data);
+      setError(null);
+    });
+
+    socket.on('runbook:output', (data: { runId: number; output: RunbookOutput[] }) => {
+      if (data.runId !== runId) return;
+
+      const replaced: Record<string, string> = {};
+      for (const entry of data.output) {
+        const key = outputKey(entry.step, entry.serverId);
+        replaced[key] = (replaced[key] || '') + entry.data;
+      }
+      setOutput(prev => ({ ...prev, ...replaced }));
+    });
+
+    socket.on('runbook:stream', (data: RunbookOutput) => {
+      if (data.runId !== runId) return;
+
+      const key = outputKey(data.step, data.serverId);
+      setOutput(prev => ({ ...prev, [key]: (prev[key] || '') + data.data }));
+    });
+
+    socket.on('runbook:error', (data: { runId?: number; error: string }) => {
+      if (data.runId !== runId) return;
+
+      if (data.error === 'Run not found') {
+        setError(data.error);
+      } else {
+        Swal.fire({ title: 'Runbook', text: data.error, icon: 'error' });
+      }
+    });
+
+    socket.on('connect_error', (connectError) => {
+      setError(`Failed to connect: ${connectError.message}`);
+    });
+  };
+
+  const decide = async (step: number, approved: boolean) => {
+    if (!approved) {
+      const result = await Swal.fire({
+        title: 'Reject this step?',
+        text: 'The runbook stops here and the remaining steps are cancelled.',
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonColor: '#ef4444',
+        confirmButtonText: 'Reject'
+      });
+      if (!result.isConfirmed) return;
+    }
+
+    socketRef.current?.emit('runbook:approval', { runId, step, approved, comment });
+    setComment('');
+  };
+
+  const cancelRun = async () => {
+    const result = await Swal.fire({
+      title: 'Cancel run?',
+      text: 'Servers already running finish; nothing else starts.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#ef4444',
+      confirmButtonText: 'Cancel Run',
+      cancelButtonText: 'Keep Running'
+    });
+    if (result.isConfirmed) {
+      socketRef.current?.emit('runbook:cancel', { runId });
+    }
+  };
+
+  const isActive = run?.status === 'RUNNING' || run?.status === 'WAITING_APPROVAL';
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <a
+            href="/dashboard/scripts/runbooks"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Runbooks
+          </a>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+                <ListChecks className="h-6 w-6 mr-2 text-blue-600" />
+                {run ? `${run.runbookName} #${run.id}` : `Run #${params.id}`}
+                {run && (
+                  <span className={`ml-3 px-2 py-0.5 rounded-full text-sm font-normal ${getScriptStatusColor(run.status)}`}>
+                    {getScriptStatusText(run.status)}
+                  </span>
+                )}
+              </h1>
+              {run && (
+                <p className="mt-1 text-sm text-gray-500">
+                  Started {formatDate(run.startTime)}{run.user && ` by ${run.user.name}`}
+                  {run.endTime && ` · finished ${formatDate(run.endTime)}`}
+                  {run.runbookId && (
+                    <>
+                      {' · '}
+                      <a href={`/dashboard/scripts/runbooks/${run.runbookId}`} className="text-blue-600 hover:underline">
+                        Edit runbook
+                      </a>
+                    </>
+                  )}
+                </p>
+              )}
+            </div>
+
+            {isActive && (
+              <button
+                onClick={cancelRun}
+                className="bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-md transition-colors duration-200 flex items-center"
+              >
+                <Square className="h-4 w-4 mr-2" />
+                Cancel Run
+              </button>
+            )}
+          </div>
+
+          {run?.error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 text-sm text-red-700">{run.error}</div>
+          )}
+        </div>
+
+        {error ? (
+          <div className="bg-white shadow-soft rounded-lg p-12 text-center text-gray-500">{error}</div>
+        ) : !run ? (
+          <div className="flex items-center justify-center py-24 text-gray-400">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading...
+          </div>
+        ) : (
+          <ol className="space-y-4">
+            {run.steps.map((step, index) => {
+              const result = run.stepResults[index] || { status: 'pending', servers: [] };
+              const status = STEP_STATUS[result.status];
+
+              return (
+                <li
+                  key={index}
+                  className={`bg-white shadow-soft rounded-lg p-5 border-l-4 ${
+                    result.status === 'running' ? 'border-blue-500'
+                      : result.status === 'waiting_approval' ? 'border-yellow-500'
+                      : result.status === 'success' ? 'border-green-500'
+                      : result.status === 'failed' ? 'border-red-500'
+                      : 'border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h2 className="font-medium text-gray-900">
+                        {index + 1}. {step.name}
+                      </h2>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {step.strategy?.mode === 'parallel' ? 'In parallel' : 'One server at a time'}
+                        {' · '}timeout {step.timeoutSeconds}s
+                        {step.retries > 0 && ` · ${step.retries} retr${step.retries === 1 ? 'y' : 'ies'}`}
+                        {' · '}{step.onFailure === 'abort' ? 'aborts on failure' : 'continues on failure'}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+
+                  <pre className="mt-3 bg-gray-50 text-gray-800 p-2 rounded text-xs overflow-auto max-h-24">{step.command}</pre>
+
+                  {result.approvedBy && (
+                    <p className="mt-2 text-xs text-gray-600 flex items-center">
+                      <ShieldCheck className="h-3 w-3 mr-1 text-yellow-600" />
+                      {result.status === 'cancelled' ? 'Rejected' : 'Approved'} by {result.approvedBy.name}
+                      {result.approvedAt && ` ${formatDate(result.approvedAt)}`}
+                      {result.approvalComment && `: "${result.approvalComment}"`}
+                    </p>
+                  )}
+
+                  {result.status === 'waiting_approval' && (
+                    <div className="mt-3 p-3 rounded-lg bg-yellow-50 space-y-2">
+                      <p className="text-sm text-yellow-800 flex items-center">
+                        <ShieldCheck className="h-4 w-4 mr-2" />
+                        This step waits for approval before it starts.
+                      </p>
+                      <input
+                        type="text"
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        className="form-input text-sm"
+                        placeholder="Comment (optional)"
+                      />
+                      <div className="flex space-x-2">
+                        <button onClick={() => decide(index, true)} className="btn-primary text-sm">
+                          Approve
+                        </button>
+                        <button onClick={() => decide(index, false)} className="btn-outline text-sm">
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {result.error && result.status !== 'cancelled' && (
+                    <p className="mt-2 text-sm text-red-600">{result.error}</p>
+                  )}
+
+                  {result.servers.length > 0 && (
+                    <ul className="mt-3 divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                      {result.servers.map(server => {
+                        const key = outputKey(index, server.serverId);
+                        const isOpen = expanded[key] ?? server.status === 'running';
+                        const text = (output[key] || '').replace(ANSI_PATTERN, '');
+
+                        return (
+                          <li key={server.serverId}>
+                            <button
+                              onClick={() => setExpanded(prev => ({ ...prev, [key]: !isOpen }))}
+                              className="w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50"
+                            >
+                              <span className="flex items-center">
+                                {isOpen ? <ChevronDown className="h-4 w-4 mr-1 text-gray-400" /> : <ChevronRight className="h-4 w-4 mr-1 text-gray-400" />}
+                                <ServerStatusIcon status={server.status} />
+                                <span className="ml-2 text-gray-900">{server.serverName}</span>
+                              </span>
+                              <span className="flex items-center text-xs text-gray-500 space-x-3">
+                                {server.attempts > 1 && (
+                                  <span className="flex items-center" title="Attempts">
+                                    <RotateCcw className="h-3 w-3 mr-1" />
+                                    {server.attempts} of {step.retries + 1}
+                                  </span>
+                                )}
+                                {server.exitCode !== undefined && <span>exit {server.exitCode}</span>}
+                                {server.error && server.status !== 'success' && (
+                                  <span className="text-red-600 max-w-xs truncate" title={server.error}>{server.error}</span>
+                                )}
+                              </span>
+                            </button>
+                            {isOpen && (
+                              <pre className="bg-gray-900 text-gray-100 px-3 py-2 text-xs overflow-auto max-h-64 whitespace-pre-wrap">
+                                {text || (server.status === 'pending' ? 'Waiting to start...' : 'No output')}
+                              </pre>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </Layout>
+  );
+}
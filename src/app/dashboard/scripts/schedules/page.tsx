@@ -0,0 +1,710 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  ArrowLeft,
+  CalendarClock,
+  Plus,
+  Edit2,
+  Trash2,
+  Pause,
+  Play,
+  FileText,
+  Loader2,
+  AlertTriangle,
+  X
+} from 'lucide-react';
+import Swal from 'sweetalert2';
+import Layout from '@/components/Layout';
+import ScriptParameterForm from '@/components/ScriptParameterForm';
+import { getNextRuns } from '@/lib/cron';
+import { formatRelativeTime, getScriptStatusColor, getScriptStatusText, normalizeTags } from '@/lib/utils';
+import type {
+  ApiResponse,
+  Script,
+  ScriptVersion,
+  ScriptSchedule,
+  ScriptScheduleData,
+  ScriptParameterValues,
+  RunStrategy,
+  Server,
+  CommandConfirmation
+} from '@/types';
+
+interface ScheduleForm {
+  name: string;
+  scriptId: number | '';
+  // '' runs the latest version
+  scriptVersion: number | '';
+  cronExpression: string;
+  timezone: string;
+  serverIds: number[];
+  tags: string;
+  parameters: ScriptParameterValues;
+  strategy: RunStrategy;
+}
+
+const CRON_PRESETS = [
+  { label: 'Every 15 minutes', expression: '*/15 * * * *' },
+  { label: 'Hourly', expression: '0 * * * *' },
+  { label: 'Daily at 02:00', expression: '0 2 * * *' },
+  { label: 'Weekdays at 09:00', expression: '0 9 * * 1-5' },
+  { label: 'Sundays at 03:00', expression: '0 3 * * 0' },
+  { label: 'Monthly on the 1st', expression: '0 0 1 * *' }
+];
+
+const PREVIEW_RUNS = 5;
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const TIME_ZONES = (() => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+})();
+
+const emptyForm = (): ScheduleForm => ({
+  name: '',
+  scriptId: '',
+  scriptVersion: '',
+  cronExpression: '0 2 * * *',
+  timezone: browserTimeZone(),
+  serverIds: [],
+  tags: '',
+  parameters: {},
+  strategy: { mode: 'sequential' }
+});
+
+const toForm = (schedule: ScriptSchedule): ScheduleForm => ({
+  name: schedule.name,
+  scriptId: schedule.scriptId,
+  scriptVersion: schedule.scriptVersion ?? '',
+  cronExpression: schedule.cronExpression,
+  timezone: schedule.timezone,
+  serverIds: schedule.serverIds,
+  tags: schedule.tags.join(', '),
+  parameters: schedule.parameters,
+  strategy: schedule.strategy
+});
+
+// A run time in the schedule's zone, e.g. "Mon 19 Oct 2026, 02:00"
+const formatInZone = (date: Date | string, timeZone: string) => new Date(date).toLocaleString('en-GB', {
+  timeZone,
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+});
+
+export default function ScriptSchedulesPage() {
+  const [schedules, setSchedules] = useState<ScriptSchedule[]>([]);
+  const [scripts, setScripts] = useState<Script[]>([]);
+  const [servers, setServers] = useState<Server[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<ScriptSchedule | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(emptyForm);
+  const [versions, setVersions] = useState<ScriptVersion[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSchedules();
+    fetchScripts();
+    fetchServers();
+  }, []);
+
+  // Versions of the chosen script, for pinning and its parameter definitions
+  useEffect(() => {
+    if (!form.scriptId) {
+      setVersions([]);
+      return;
+    }
+
+    fetch(`/api/scripts/${form.scriptId}/versions`, { headers: authHeaders() })
+      .then(response => response.json())
+      .then((data: ApiResponse<ScriptVersion[]>) => setVersions(data.success && data.data ? data.data : []))
+      .catch(error => console.error('Failed to fetch script versions:', error));
+  }, [form.scriptId]);
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/scripts/schedules', { headers: authHeaders() });
+      const data: ApiResponse<ScriptSchedule[]> = await response.json();
+      if (data.success && data.data) {
+        setSchedules(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchScripts = async () => {
+    try {
+      const response = await fetch('/api/scripts', { headers: authHeaders() });
+      const data: ApiResponse<Script[]> = await response.json();
+      if (data.success && data.data) {
+        setScripts(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch scripts:', error);
+    }
+  };
+
+  const fetchServers = async () => {
+    try {
+      const response = await fetch('/api/servers?limit=100', { headers: authHeaders() });
+      const data: ApiResponse<Server[]> = await response.json();
+      if (data.success && data.data) {
+        setServers(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch servers:', error);
+    }
+  };
+
+  const preview = useMemo(() => {
+    try {
+      return { runs: getNextRuns(form.cronExpression, form.timezone, PREVIEW_RUNS), error: null };
+    } catch (error) {
+      return { runs: [], error: error instanceof Error ? error.message : 'Invalid cron expression' };
+    }
+  }, [form.cronExpression, form.timezone]);
+
+  const runVersion = form.scriptVersion
+    ? versions.find(v => v.version === form.scriptVersion)
+    : versions[0];
+  const parameterDefs = runVersion?.parameters || [];
+  const allTags = Array.from(new Set(servers.flatMap(server => server.tags || []))).sort();
+
+  const openAddModal = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setShowModal(true);
+  };
+
+  const openEditModal = (schedule: ScriptSchedule) => {
+    setEditing(schedule);
+    setForm(toForm(schedule));
+    setShowModal(true);
+  };
+
+  const toggleServer = (serverId: number) => {
+    setForm(prev => ({
+      ...prev,
+      serverIds: prev.serverIds.includes(serverId)
+        ? prev.serverIds.filter(id => id !== serverId)
+        : [...prev.serverIds, serverId]
+    }));
+  };
+
+  const saveSchedule = async (confirmed: boolean = false) => {
+    if (!form.name.trim() || !form.scriptId) {
+      Swal.fire({ title: 'Missing fields', text: 'Name and script are required', icon: 'warning' });
+      return;
+    }
+
+    const body: ScriptScheduleData = {
+      name: form.name,
+      scriptId: form.scriptId,
+      scriptVersion: form.scriptVersion || null,
+      cronExpression: form.cronExpression,
+      timezone: form.timezone,
+      serverIds: form.serverIds,
+      tags: normalizeTags(form.tags.split(',')),
+      // Only values of the version that runs
+      parameters: Object.fromEntries(parameterDefs
+        .filter(parameter => form.parameters[parameter.name] !== undefined)
+        .map(parameter => [parameter.name, form.parameters[parameter.name]])),
+      strategy: form.strategy,
+      confirmed
+    };
+
+    setSaving(true);
+    try {
+      const response = await fetch(editing ? `/api/scripts/schedules/${editing.id}` : '/api/scripts/schedules', {
+        method: editing ? 'PUT' : 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(body)
+      });
+
+      const data: ApiResponse<ScriptSchedule | CommandConfirmation> = await response.json();
+
+      if (response.status === 409 && data.data && 'requiresConfirmation' in data.data) {
+        const result = await Swal.fire({
+          title: 'Confirmation Required',
+          text: `${data.data.warning || 'This command requires confirmation by the security policy.'} Scheduled runs will not ask again.`,
+          icon: 'warning',
+          showCancelButton: true,
+          confirmButtonColor: '#ef4444',
+          confirmButtonText: 'Schedule Anyway'
+        });
+        if (result.isConfirmed) {
+          await saveSchedule(true);
+        }
+        return;
+      }
+
+      if (!data.success) {
+        Swal.fire({ title: 'Save failed', text: data.error || 'Failed to save schedule', icon: 'error' });
+        return;
+      }
+
+      setShowModal(false);
+      fetchSchedules();
+      Swal.fire({ title: 'Saved', text: data.message, icon: 'success', timer: 1500, showConfirmButton: false });
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (schedule: ScriptSchedule) => {
+    try {
+      const response = await fetch(`/api/scripts/schedules/${schedule.id}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ isActive: !schedule.isActive })
+      });
+
+      const data: ApiResponse<ScriptSchedule> = await response.json();
+      if (!data.success) {
+        Swal.fire({ title: 'Update failed', text: data.error, icon: 'error' });
+        return;
+      }
+      fetchSchedules();
+    } catch (error) {
+      console.error('Failed to update schedule:', error);
+    }
+  };
+
+  const deleteSchedule = async (schedule: ScriptSchedule) => {
+    const result = await Swal.fire({
+      title: 'Delete schedule?',
+      text: `"${schedule.name}" will stop running. Logs of past runs are kept.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#ef4444',
+      confirmButtonText: 'Delete'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/scripts/schedules/${schedule.id}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      });
+
+      const data: ApiResponse = await response.json();
+      if (!data.success) {
+        Swal.fire({ title: 'Delete failed', text: data.error, icon: 'error' });
+        return;
+      }
+      fetchSchedules();
+    } catch (error) {
+      console.error('Failed to delete schedule:', error);
+    }
+  };
+
+  const describeTargets = (schedule: ScriptSchedule) => [
+    ...schedule.serverIds.map(id => servers.find(server => server.id === id)?.name || `#${id}`),
+    ...schedule.tags.map(tag => `tag:${tag}`)
+  ].join(', ');
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <a
+            href="/dashboard/scripts"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Script Runner
+          </a>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+                <CalendarClock className="h-6 w-6 mr-2 text-blue-600" />
+                Scheduled Runs
+              </h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Run saved scripts on a cron schedule. A run that is still going when the next one is due skips that run.
+              </p>
+            </div>
+            <button onClick={openAddModal} className="btn-primary flex items-center">
+              <Plus className="h-4 w-4 mr-2" />
+              New Schedule
+            </button>
+          </div>
+        </div>
+
+        {/* Schedules */}
+        <div className="bg-white shadow-soft rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="flex items-center justify-center py-12 text-gray-400">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading...
+            </div>
+          ) : schedules.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No schedules yet
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="table-header">Schedule</th>
+                  <th className="table-header">When</th>
+                  <th className="table-header">Targets</th>
+                  <th className="table-header">Next Run</th>
+                  <th className="table-header">Last Run</th>
+                  <th className="table-header">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {schedules.map(schedule => (
+                  <tr key={schedule.id} className={`table-row ${schedule.isActive ? '' : 'opacity-60'}`}>
+                    <td className="table-cell">
+                      <div className="font-medium text-gray-900">{schedule.name}</div>
+                      <div className="text-sm text-gray-500">
+                        <a href={`/dashboard/scripts/library/${schedule.scriptId}`} className="hover:text-blue-600">
+                          {schedule.scriptName}
+                        </a>
+                        {' '}({schedule.scriptVersion ? `v${schedule.scriptVersion}` : 'latest'})
+                        {schedule.owner && <span className="text-gray-400"> · {schedule.owner.name}</span>}
+                      </div>
+                    </td>
+                    <td className="table-cell text-sm">
+                      <code className="text-gray-900">{schedule.cronExpression}</code>
+                      <div className="text-xs text-gray-500">{schedule.timezone}</div>
+                    </td>
+                    <td className="table-cell text-sm text-gray-500 max-w-xs truncate" title={describeTargets(schedule)}>
+                      {describeTargets(schedule)}
+                    </td>
+                    <td className="table-cell text-sm">
+                      {!schedule.isActive ? (
+                        <span className="text-gray-500">Paused</span>
+                      ) : schedule.nextRunAt ? (
+                        <>
+                          <div className="text-gray-900">{formatInZone(schedule.nextRunAt, schedule.timezone)}</div>
+                          <div className="text-xs text-gray-500">{formatRelativeTime(schedule.nextRunAt)}</div>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">-</span>
+                      )}
+                    </td>
+                    <td className="table-cell text-sm">
+                      {schedule.lastRunAt ? (
+                        <>
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${getScriptStatusColor(schedule.lastRunStatus || '')}`}>
+                            {getScriptStatusText(schedule.lastRunStatus || '')}
+                          </span>
+                          <div className="text-xs text-gray-500 mt-1">{formatRelativeTime(schedule.lastRunAt)}</div>
+                          {schedule.lastError && (
+                            <div className="text-xs text-red-600 max-w-xs truncate" title={schedule.lastError}>
+                              {schedule.lastError}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-gray-500">Never</span>
+                      )}
+                      {schedule.lastSkippedAt && (
+                        <div
+                          className="text-xs text-yellow-600 flex items-center mt-1"
+                          title="A run was due while the previous one was still in progress"
+                        >
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Skipped {formatRelativeTime(schedule.lastSkippedAt)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => toggleActive(schedule)}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded"
+                          title={schedule.isActive ? 'Pause' : 'Resume'}
+                        >
+                          {schedule.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        </button>
+                        <button
+                          onClick={() => openEditModal(schedule)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded"
+                          title="Edit"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <a
+                          href={`/dashboard/logs?scheduleId=${schedule.id}`}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded"
+                          title="Run logs"
+                        >
+                          <FileText className="h-4 w-4" />
+                        </a>
+                        <button
+                          onClick={() => deleteSchedule(schedule)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Add/Edit Modal */}
+        {showModal && (
+          <div className="modal-overlay" onClick={() => setShowModal(false)}>
+            <div className="modal-container max-w-3xl flex flex-col" onClick={e => e.stopPropagation()}>
+              <div className="modal-header">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editing ? `Edit "${editing.name}"` : 'New Schedule'}
+                </h3>
+                <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+
+              <div className="modal-body space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="form-label">Name</label>
+                    <input
+                      type="text"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      className="form-input"
+                      placeholder="e.g., Nightly cleanup"
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="col-span-2">
+                      <label className="form-label">Script</label>
+                      <select
+                        value={form.scriptId}
+                        onChange={(e) => setForm({
+                          ...form,
+                          scriptId: e.target.value ? parseInt(e.target.value) : '',
+                          scriptVersion: '',
+                          parameters: {}
+                        })}
+                        className="form-input"
+                      >
+                        <option value="">Select a script...</option>
+                        {scripts.map(script => (
+                          <option key={script.id} value={script.id}>{script.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="form-label">Version</label>
+                      <select
+                        value={form.scriptVersion}
+                        onChange={(e) => setForm({ ...form, scriptVersion: e.target.value ? parseInt(e.target.value) : '' })}
+                        className="form-input"
+                        disabled={!form.scriptId}
+                      >
+                        <option value="">Latest</option>
+                        {versions.map(version => (
+                          <option key={version.id} value={version.version}>v{version.version}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                </div>
+
+                {runVersion && (
+                  <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-xs overflow-auto max-h-32">
+                    {runVersion.command}
+                  </pre>
+                )}
+
+                {parameterDefs.length > 0 && (
+                  <div>
+                    <label className="form-label">Parameters</label>
+                    <ScriptParameterForm
+                      parameters={parameterDefs}
+                      values={form.parameters}
+                      onChange={(parameters) => setForm({ ...form, parameters })}
+                    />
+                  </div>
+                )}
+
+                {/* When */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="form-label">Cron expression</label>
+                    <input
+                      type="text"
+                      value={form.cronExpression}
+                      onChange={(e) => setForm({ ...form, cronExpression: e.target.value })}
+                      className="form-input font-mono"
+                      placeholder="minute hour day month weekday"
+                    />
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {CRON_PRESETS.map(preset => (
+                        <button
+                          key={preset.expression}
+                          type="button"
+                          onClick={() => setForm({ ...form, cronExpression: preset.expression })}
+                          className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        >
+                          {preset.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="form-label">Time zone</label>
+                    <select
+                      value={form.timezone}
+                      onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                      className="form-input"
+                    >
+                      {TIME_ZONES.map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                  {preview.error ? (
+                    <p className="text-red-600">{preview.error}</p>
+                  ) : preview.runs.length === 0 ? (
+                    <p className="text-red-600">This expression never matches a date</p>
+                  ) : (
+                    <>
+                      <p className="font-medium text-gray-700 mb-1">Next runs ({form.timezone})</p>
+                      <ul className="space-y-0.5 text-gray-600">
+                        {preview.runs.map(run => (
+                          <li key={run.getTime()}>
+                            {formatInZone(run, form.timezone)}
+                            {form.timezone !== browserTimeZone() && (
+                              <span className="text-gray-400"> · {formatInZone(run, browserTimeZone())} your time</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+
+                {/* Where */}
+                <div>
+                  <label className="form-label">Servers</label>
+                  <div className="border border-gray-200 rounded-lg max-h-40 overflow-y-auto divide-y divide-gray-100">
+                    {servers.map(server => (
+                      <label key={server.id} className="flex items-center px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={form.serverIds.includes(server.id)}
+                          onChange={() => toggleServer(server.id)}
+                          className="mr-2"
+                        />
+                        {server.name}
+                        <span className="ml-2 text-xs text-gray-400">{server.host}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="form-label">Server tags</label>
+                  <input
+                    type="text"
+                    value={form.tags}
+                    onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                    className="form-input"
+                    placeholder={allTags.length > 0 ? `e.g., ${allTags.slice(0, 3).join(', ')}` : 'web, production'}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Active servers with any of these tags are added at each run.
+                  </p>
+                </div>
+
+                {/* How */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="form-label">Run strategy</label>
+                    <select
+                      value={form.strategy.mode}
+                      onChange={(e) => {
+                        const mode = e.target.value as RunStrategy['mode'];
+                        setForm({
+                          ...form,
+                          strategy: mode === 'parallel' ? { mode, concurrency: 5 }
+                            : mode === 'rolling' ? { mode, batchSize: 25, batchUnit: 'percent', pauseSeconds: 30 }
+                            : { mode }
+                        });
+                      }}
+                      className="form-input"
+                    >
+                      <option value="sequential">Sequential</option>
+                      <option value="parallel">Parallel</option>
+                      <option value="rolling">Rolling batches</option>
+                    </select>
+                  </div>
+                  {form.strategy.mode === 'parallel' && (
+                    <div>
+                      <label className="form-label">Servers at once</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={form.strategy.concurrency ?? ''}
+                        onChange={(e) => setForm({ ...form, strategy: { ...form.strategy, concurrency: Number(e.target.value) || undefined } })}
+                        className="form-input"
+                      />
+                    </div>
+                  )}
+                  {form.strategy.mode === 'rolling' && (
+                    <div>
+                      <label className="form-label">Batch size (% of servers)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={form.strategy.batchSize ?? ''}
+                        onChange={(e) => setForm({ ...form, strategy: { ...form.strategy, batchSize: Number(e.target.value) || undefined } })}
+                        className="form-input"
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="modal-footer">
+                <button onClick={() => setShowModal(false)} className="btn-outline">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => saveSchedule()}
+                  disabled={saving || !!preview.error}
+                  className="btn-primary flex items-center disabled:opacity-50"
+                >
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editing ? 'Save Changes' : 'Create Schedule'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
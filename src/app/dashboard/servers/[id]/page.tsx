@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Server, Terminal, KeyRound, Lock, FolderOpen } from 'lucide-react';
+import Layout from '@/components/Layout';
+import HostKeyPanel from '@/components/HostKeyPanel';
+import MetricHistoryPanel from '@/components/MetricHistoryPanel';
+import { formatRelativeTime, formatUptime, getServerStatusColor, getServerStatusText } from '@/lib/utils';
+import type { Server as ServerType, User, ApiResponse } from '@/types';
+
+interface ServerDetailPageProps {
+  params: { id: string };
+}
+
+export default function ServerDetailPage({ params }: ServerDetailPageProps) {
+  const serverId = parseInt(params.id);
+  const [server, setServer] = useState<ServerType | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const userInfo = localStorage.getItem('user_info');
+    if (userInfo) {
+      try {
+        setCurrentUser(JSON.parse(userInfo));
+      } catch (error) {
+        console.error('Error parsing user info:', error);
+      }
+    }
+
+    fetchServer();
+  }, [serverId]);
+
+  const fetchServer = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (!token) return;
+
+      const response = await fetch(`/api/servers/${serverId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<ServerType> = await response.json();
+      if (data.success && data.data) {
+        setServer(data.data);
+      } else {
+        setError(data.error || 'ไม่พบเซิร์ฟเวอร์');
+      }
+    } catch (error) {
+      console.error('Failed to fetch server:', error);
+      setError('ไม่สามารถโหลดข้อมูลเซิร์ฟเวอร์ได้');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <a
+            href="/dashboard/servers"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            กลับไปหน้าเซิร์ฟเวอร์
+          </a>
+
+          {server && (
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <Server className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">{server.name}</h1>
+                  <p className="text-sm text-gray-500">{server.username}@{server.host}:{server.port}</p>
+                </div>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getServerStatusColor(server.status)}`}>
+                  {getServerStatusText(server.status)}
+                </span>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <a
+                  href={`/dashboard/files?server=${server.id}`}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  ไฟล์
+                </a>
+                <button
+                  onClick={() => window.open(`/dashboard/terminal?server=${server.id}`, '_blank')}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+                >
+                  <Terminal className="h-4 w-4 mr-2" />
+                  Terminal
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="bg-white shadow-soft rounded-lg p-6 animate-pulse">
+            <div className="h-6 bg-gray-200 rounded mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+          </div>
+        ) : error || !server ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">{error || 'ไม่พบเซิร์ฟเวอร์'}</h3>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Connection Details */}
+              <div className="bg-white shadow-soft rounded-lg overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-medium text-gray-900">ข้อมูลการเชื่อมต่อ</h3>
+                </div>
+                <div className="px-6 py-4">
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+                    <div>
+                      <dt className="text-gray-500">ผู้ใช้:</dt>
+                      <dd className="text-gray-900 font-medium">{server.username}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">การยืนยันตัวตน:</dt>
+                      <dd className="text-gray-900 font-medium inline-flex items-center">
+                        {server.authMethod === 'PRIVATE_KEY' ? (
+                          <><KeyRound className="h-4 w-4 mr-1" />Private Key</>
+                        ) : (
+                          <><Lock className="h-4 w-4 mr-1" />รหัสผ่าน</>
+                        )}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Jump Host:</dt>
+                      <dd className="text-gray-900">
+                        {server.jumpHost ? (
+                          <a href={`/dashboard/servers/${server.jumpHost.id}`} className="text-blue-600 hover:text-blue-700">
+                            {server.jumpHost.name}
+                          </a>
+                        ) : 'เชื่อมต่อโดยตรง'}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">ตรวจสอบล่าสุด:</dt>
+                      <dd className="text-gray-900">
+                        {server.lastChecked ? formatRelativeTime(server.lastChecked) : 'ยังไม่ได้ตรวจสอบ'}
+                      </dd>
+                    </div>
+                    {server.systemInfo && (
+                      <>
+                        <div>
+                          <dt className="text-gray-500">ระบบปฏิบัติการ:</dt>
+                          <dd className="text-gray-900">{server.systemInfo.os} {server.systemInfo.arch}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-500">Uptime:</dt>
+                          <dd className="text-gray-900">{formatUptime(server.systemInfo.uptime)}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-500">CPU:</dt>
+                          <dd className="text-gray-900">{server.systemInfo.cpuCount} cores</dd>
+                        </div>
+                      </>
+                    )}
+                  </dl>
+                </div>
+              </div>
+
+              {/* Host Key */}
+              <HostKeyPanel serverId={server.id} isAdmin={currentUser?.role === 'ADMIN'} />
+            </div>
+
+            {/* Metrics History */}
+            <MetricHistoryPanel serverId={server.id} />
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -25,6 +25,9 @@ import {
   ExternalLink
 } from 'lucide-react';
 import Layout from '@/components/Layout';
+import TwoFactorPanel from '@/components/TwoFactorPanel';
+import AlertRulesPanel from '@/components/AlertRulesPanel';
+import NotificationChannelsPanel from '@/components/NotificationChannelsPanel';
 import Swal from 'sweetalert2';
 import type { User as UserType, ApiResponse } from '@/types';
 
@@ -51,7 +54,14 @@ interface SecuritySettings {
   lockoutDuration: number;
   sessionTimeout: number;
   enableTwoFactor: boolean;
+  requireTwoFactorForAdmins: boolean;
   ipWhitelist: string[];
+  allowDangerousCommands: boolean;
+  blockedCommands: string[];
+  approvalRequiredCommands: string[];
+  requireSudoConfirmation: boolean;
+  maxCommandLength: number;
+  enableCommandLogging: boolean;
 }
 
 interface ProfileFormData {
@@ -628,7 +638,14 @@ function SecuritySettingsPanel() {
     lockoutDuration: 300,
     sessionTimeout: 3600,
     enableTwoFactor: false,
-    ipWhitelist: []
+    requireTwoFactorForAdmins: false,
+    ipWhitelist: [],
+    allowDangerousCommands: true,
+    blockedCommands: [],
+    approvalRequiredCommands: [],
+    requireSudoConfirmation: true,
+    maxCommandLength: 1000,
+    enableCommandLogging: true
   });
   const [newIp, setNewIp] = useState('');
   const [loading, setLoading] = useState(false);
@@ -668,12 +685,13 @@ function SecuritySettingsPanel() {
 
   const addIpToWhitelist = () => {
     if (newIp && !settings.ipWhitelist.includes(newIp)) {
-      // Basic IP validation
+      // Basic IP validation (IPv4 or IPv6, optionally CIDR); the server checks the exact format
       const ipRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)(?:\/\d{1,2})?$/;
-      if (!ipRegex.test(newIp) && newIp !== 'localhost') {
+      const ipv6Regex = /^[0-9a-fA-F:]*:[0-9a-fA-F:.]*(?:\/\d{1,3})?$/;
+      if (!ipRegex.test(newIp) && !ipv6Regex.test(newIp) && newIp !== 'localhost') {
         Swal.fire({
           title: 'รูปแบบไม่ถูกต้อง',
-          text: 'กรุณากรอก IP Address ที่ถูกต้อง (เช่น 192.168.1.0/24)',
+          text: 'กรุณากรอก IP Address ที่ถูกต้อง (เช่น 192.168.1.0/24 หรือ 2001:db8::/32)',
           icon: 'warning'
         });
         return;
@@ -706,7 +724,11 @@ function SecuritySettingsPanel() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`
         },
-        body: JSON.stringify(settings)
+        body: JSON.stringify({
+          ...settings,
+          blockedCommands: settings.blockedCommands.map(item => item.trim()).filter(Boolean),
+          approvalRequiredCommands: settings.approvalRequiredCommands.map(item => item.trim()).filter(Boolean)
+        })
       });
 
       const data: ApiResponse = await response.json();
@@ -844,11 +866,111 @@ function SecuritySettingsPanel() {
           </div>
         </div>
 
+        {/* Command Policy */}
+        <div className="border-t pt-6">
+          <h4 className="text-md font-medium text-gray-900 mb-4">นโยบายการรันคำสั่ง</h4>
+          <p className="text-sm text-gray-500 mb-4">
+            ใช้กับการรันคำสั่งและสคริปต์ทุกช่องทาง คำสั่งที่ต้องยืนยันจะแสดงคำเตือนให้ผู้ใช้ยืนยันก่อนรัน
+          </p>
+
+          <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+            <strong>เทอร์มินัลแบบโต้ตอบตรวจได้ไม่ครบทุกกรณี:</strong> ระบบตรวจเฉพาะบรรทัดที่ได้จากตัวอักษรที่ผู้ใช้พิมพ์
+            คำสั่งที่เรียกจากประวัติ (ลูกศรขึ้น, Ctrl+R), เติมด้วย Tab, แก้ไขกลางบรรทัด, alias หรือสคริปต์ที่รันจากในเชลล์จะไม่ถูกตรวจ
+            หากต้องการบังคับใช้จริง ให้จำกัดสิทธิ์บนเซิร์ฟเวอร์ (เช่น sudoers) หรือไม่ให้ผู้ใช้เข้าถึงเทอร์มินัล
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+            <div>
+              <label className="form-label">ความยาวคำสั่งสูงสุด (ตัวอักษร)</label>
+              <input
+                type="number"
+                name="maxCommandLength"
+                value={settings.maxCommandLength}
+                onChange={handleInputChange}
+                className="form-input"
+                min="100"
+                max="5000"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3 mb-4">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="allowDangerousCommands"
+                checked={settings.allowDangerousCommands}
+                onChange={handleInputChange}
+                className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+              />
+              <span className="ml-2 text-sm text-gray-700">
+                อนุญาตคำสั่งอันตราย (เช่น rm -rf, reboot) หลังผู้ใช้ยืนยัน
+              </span>
+            </label>
+
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="requireSudoConfirmation"
+                checked={settings.requireSudoConfirmation}
+                onChange={handleInputChange}
+                className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+              />
+              <span className="ml-2 text-sm text-gray-700">ต้องยืนยันก่อนรันคำสั่ง sudo</span>
+            </label>
+
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="enableCommandLogging"
+                checked={settings.enableCommandLogging}
+                onChange={handleInputChange}
+                className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+              />
+              <span className="ml-2 text-sm text-gray-700">บันทึกคำสั่งที่ถูกบล็อก</span>
+            </label>
+          </div>
+
+          <div>
+            <label className="form-label">คำสั่งที่ถูกบล็อก (บรรทัดละหนึ่งรายการ)</label>
+            <textarea
+              value={settings.blockedCommands.join('\n')}
+              onChange={(e) => setSettings(prev => ({
+                ...prev,
+                blockedCommands: e.target.value.split('\n')
+              }))}
+              rows={6}
+              className="form-input font-mono text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">คำสั่งที่มีข้อความเหล่านี้อยู่จะถูกปฏิเสธเสมอ</p>
+          </div>
+
+          <div>
+            <label className="form-label">คำสั่งที่ต้องได้รับการอนุมัติ (บรรทัดละหนึ่งรายการ)</label>
+            <textarea
+              value={settings.approvalRequiredCommands.join('\n')}
+              onChange={(e) => setSettings(prev => ({
+                ...prev,
+                approvalRequiredCommands: e.target.value.split('\n')
+              }))}
+              rows={4}
+              className="form-input font-mono text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              สคริปต์ที่ผู้ใช้ที่ไม่ใช่ผู้ดูแลระบบรันและมีข้อความเหล่านี้อยู่ จะต้องรอผู้ดูแลระบบอนุมัติก่อนเริ่มทำงาน
+            </p>
+          </div>
+        </div>
+
         {/* IP Whitelist */}
         <div className="border-t pt-6">
           <h4 className="text-md font-medium text-gray-900 mb-4">รายการ IP ที่อนุญาต</h4>
           <p className="text-sm text-gray-500 mb-4">
-            หากกำหนดรายการ IP ที่อนุญาต จะมีเฉพาะ IP เหล่านี้เท่านั้นที่สามารถเข้าถึงระบบได้
+            หากกำหนดรายการ IP ที่อนุญาต จะมีเฉพาะ IP เหล่านี้เท่านั้นที่สามารถเข้าถึงระบบได้ (รวมถึงเทอร์มินัล)
+            รองรับ IP เดี่ยวและช่วง CIDR ทั้ง IPv4 และ IPv6
+          </p>
+          <p className="text-xs text-gray-500 mb-4">
+            หากถูกล็อกออกจากระบบ ให้ตั้งค่า <code>IP_ALLOWLIST_BYPASS=true</code> แล้วรีสตาร์ทเซิร์ฟเวอร์เพื่อปิดการตรวจสอบชั่วคราว
           </p>
           
           <div className="mb-4">
@@ -897,7 +1019,7 @@ function SecuritySettingsPanel() {
         </div>
 
         {/* Two-Factor Authentication */}
-        <div className="border-t pt-6">
+        <div className="border-t pt-6 space-y-3">
           <label className="flex items-center">
             <input
               type="checkbox"
@@ -908,7 +1030,19 @@ function SecuritySettingsPanel() {
             />
             <span className="ml-2 text-sm text-gray-700">
               เปิดใช้งานการยืนยันตัวตนสองขั้นตอน (2FA)
-              <span className="text-yellow-600 ml-2">(ยังไม่รองรับในเวอร์ชันนี้)</span>
+              <span className="text-gray-500 ml-2">(ผู้ใช้ตั้งค่าได้จากหน้าโปรไฟล์)</span>
+            </span>
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              name="requireTwoFactorForAdmins"
+              checked={settings.requireTwoFactorForAdmins}
+              onChange={handleInputChange}
+              className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+            />
+            <span className="ml-2 text-sm text-gray-700">
+              บังคับให้ผู้ดูแลระบบ (ADMIN) ใช้ 2FA ก่อนเปิดเทอร์มินัล
             </span>
           </label>
         </div>
@@ -1241,6 +1375,7 @@ export default function SettingsPage() {
     { id: 'profile', name: 'โปรไฟล์', icon: User },
     { id: 'system', name: 'ระบบ', icon: Settings, adminOnly: true },
     { id: 'security', name: 'ความปลอดภัย', icon: Shield, adminOnly: true },
+    { id: 'alerts', name: 'การแจ้งเตือน', icon: Bell, adminOnly: true },
     { id: 'info', name: 'ข้อมูลระบบ', icon: Database, adminOnly: true }
   ].filter(tab => !tab.adminOnly || currentUser?.role === 'ADMIN');
 
@@ -1282,9 +1417,20 @@ export default function SettingsPage() {
 
         {/* Tab Content */}
         <div>
-          {activeTab === 'profile' && <ProfileSettings />}
+          {activeTab === 'profile' && (
+            <div className="space-y-6">
+              <ProfileSettings />
+              <TwoFactorPanel />
+            </div>
+          )}
           {activeTab === 'system' && currentUser?.role === 'ADMIN' && <SystemSettingsPanel />}
           {activeTab === 'security' && currentUser?.role === 'ADMIN' && <SecuritySettingsPanel />}
+          {activeTab === 'alerts' && currentUser?.role === 'ADMIN' && (
+            <div className="space-y-6">
+              <AlertRulesPanel />
+              <NotificationChannelsPanel />
+            </div>
+          )}
           {activeTab === 'info' && currentUser?.role === 'ADMIN' && <SystemInfoPanel />}
         </div>
       </div>
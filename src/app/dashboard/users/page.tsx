@@ -15,7 +15,11 @@ import {
   MoreHorizontal,
   Eye,
   EyeOff,
-  X
+  X,
+  Lock,
+  Unlock,
+  ShieldCheck,
+  ShieldOff
 } from 'lucide-react';
 import Layout from '@/components/Layout';
 import { formatRelativeTime, validateEmail } from '@/lib/utils';
@@ -332,10 +336,12 @@ interface UserCardProps {
   user: UserType;
   onEdit: (user: UserType) => void;
   onDelete: (userId: number) => void;
+  onUnlock: (user: UserType) => void;
+  onResetTwoFactor: (user: UserType) => void;
   currentUserId: number;
 }
 
-function UserCard({ user, onEdit, onDelete, currentUserId }: UserCardProps) {
+function UserCard({ user, onEdit, onDelete, onUnlock, onResetTwoFactor, currentUserId }: UserCardProps) {
   const isCurrentUser = user.id === currentUserId;
 
   return (
@@ -368,6 +374,21 @@ function UserCard({ user, onEdit, onDelete, currentUserId }: UserCardProps) {
               }`}>
                 {user.isActive ? 'ใช้งานได้' : 'ปิดใช้งาน'}
               </span>
+              {user.lockedUntil && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800"
+                  title={`ล็อกถึง ${new Date(user.lockedUntil).toLocaleString()}`}
+                >
+                  <Lock className="h-3 w-3 mr-1" />
+                  ถูกล็อก
+                </span>
+              )}
+              {user.twoFactorEnabled && (
+                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
+                  <ShieldCheck className="h-3 w-3 mr-1" />
+                  2FA
+                </span>
+              )}
             </div>
             <p className="text-sm text-gray-500 flex items-center mt-1">
               <Mail className="h-4 w-4 mr-1" />
@@ -382,6 +403,26 @@ function UserCard({ user, onEdit, onDelete, currentUserId }: UserCardProps) {
 
         {/* Actions */}
         <div className="flex items-center space-x-2">
+          {user.lockedUntil && (
+            <button
+              onClick={() => onUnlock(user)}
+              className="inline-flex items-center px-3 py-2 border border-yellow-300 text-sm leading-4 font-medium rounded-md text-yellow-800 bg-yellow-50 hover:bg-yellow-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500 transition-colors duration-150"
+            >
+              <Unlock className="h-4 w-4 mr-1" />
+              ปลดล็อก
+            </button>
+          )}
+
+          {user.twoFactorEnabled && !isCurrentUser && (
+            <button
+              onClick={() => onResetTwoFactor(user)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-150"
+            >
+              <ShieldOff className="h-4 w-4 mr-1" />
+              รีเซ็ต 2FA
+            </button>
+          )}
+
           <button
             onClick={() => onEdit(user)}
             className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-150"
@@ -542,6 +583,102 @@ export default function UsersPage() {
     }
   };
 
+  const handleUnlockUser = async (user: UserType) => {
+    const result = await Swal.fire({
+      title: 'ปลดล็อกบัญชี?',
+      text: `ปลดล็อก ${user.email} ก่อนหมดเวลาล็อก`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonColor: '#3b82f6',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: 'ปลดล็อก',
+      cancelButtonText: 'ยกเลิก'
+    });
+
+    if (!result.isConfirmed) return;
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/users/${user.id}/unlock`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+
+      const data: ApiResponse = await response.json();
+
+      if (data.success) {
+        await Swal.fire({
+          title: 'ปลดล็อกสำเร็จ!',
+          text: 'ผู้ใช้งานสามารถเข้าสู่ระบบได้แล้ว',
+          icon: 'success',
+          timer: 1500,
+          showConfirmButton: false
+        });
+        fetchUsers();
+      } else {
+        await Swal.fire({
+          title: 'เกิดข้อผิดพลาด',
+          text: data.error || 'ไม่สามารถปลดล็อกผู้ใช้งานได้',
+          icon: 'error'
+        });
+      }
+    } catch (error) {
+      await Swal.fire({
+        title: 'เกิดข้อผิดพลาด',
+        text: 'ไม่สามารถปลดล็อกผู้ใช้งานได้',
+        icon: 'error'
+      });
+    }
+  };
+
+  const handleResetTwoFactor = async (user: UserType) => {
+    const result = await Swal.fire({
+      title: 'รีเซ็ตการยืนยันตัวตนสองขั้นตอน?',
+      text: `${user.email} จะเข้าสู่ระบบได้ด้วยรหัสผ่านเพียงอย่างเดียวจนกว่าจะตั้งค่าใหม่`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#ef4444',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: 'รีเซ็ต',
+      cancelButtonText: 'ยกเลิก'
+    });
+
+    if (!result.isConfirmed) return;
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/users/${user.id}/two-factor`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+
+      const data: ApiResponse = await response.json();
+
+      if (data.success) {
+        await Swal.fire({
+          title: 'รีเซ็ตสำเร็จ!',
+          text: 'ปิดการยืนยันตัวตนสองขั้นตอนของผู้ใช้งานแล้ว',
+          icon: 'success',
+          timer: 1500,
+          showConfirmButton: false
+        });
+        fetchUsers();
+      } else {
+        await Swal.fire({
+          title: 'เกิดข้อผิดพลาด',
+          text: data.error || 'ไม่สามารถรีเซ็ตการยืนยันตัวตนสองขั้นตอนได้',
+          icon: 'error'
+        });
+      }
+    } catch (error) {
+      await Swal.fire({
+        title: 'เกิดข้อผิดพลาด',
+        text: 'ไม่สามารถรีเซ็ตการยืนยันตัวตนสองขั้นตอนได้',
+        icon: 'error'
+      });
+    }
+  };
+
   const handleModalClose = () => {
     setShowModal(false);
     setEditingUser(null);
@@ -656,6 +793,8 @@ export default function UsersPage() {
                 user={user}
                 onEdit={handleEditUser}
                 onDelete={handleDeleteUser}
+                onUnlock={handleUnlockUser}
+                onResetTwoFactor={handleResetTwoFactor}
                 currentUserId={currentUser?.id || 0}
               />
             ))
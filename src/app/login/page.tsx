@@ -3,9 +3,9 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { Eye, EyeOff, Server, Lock, Mail, LogIn } from 'lucide-react';
+import { Eye, EyeOff, Server, Lock, Mail, LogIn, ShieldCheck, ArrowLeft } from 'lucide-react';
 import Swal from 'sweetalert2';
-import type { LoginCredentials, ApiResponse, User } from '@/types';
+import type { LoginCredentials, TwoFactorLoginData, TwoFactorChallenge, ApiResponse, User } from '@/types';
 
 export default function LoginPage() {
   const [formData, setFormData] = useState<LoginCredentials>({
@@ -16,6 +16,9 @@ export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Partial<LoginCredentials>>({});
   const [registrationEnabled, setRegistrationEnabled] = useState(false);
+  // Set after the password step when the account uses two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   
   const router = useRouter();
 
@@ -81,11 +84,7 @@ export default function LoginPage() {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) return;
-
+  const submitLogin = async (body: LoginCredentials | TwoFactorLoginData) => {
     setIsLoading(true);
 
     try {
@@ -94,12 +93,15 @@ export default function LoginPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(body),
       });
 
-      const data: ApiResponse<{ user: User; token: string }> = await response.json();
+      const data: ApiResponse<{ user: User; token: string } | TwoFactorChallenge> = await response.json();
 
-      if (data.success && data.data) {
+      if (data.success && data.data && 'twoFactorRequired' in data.data) {
+        setChallengeToken(data.data.challengeToken);
+        setTwoFactorCode('');
+      } else if (data.success && data.data && 'token' in data.data) {
         // Store token
         localStorage.setItem('auth_token', data.data.token);
         
@@ -117,6 +119,30 @@ export default function LoginPage() {
 
         // Redirect to dashboard
         router.push('/dashboard');
+      } else if (response.status === 423) {
+        const lockedUntil = (data.data as { lockedUntil?: string } | undefined)?.lockedUntil;
+        await Swal.fire({
+          title: 'ถูกล็อกชั่วคราว',
+          text: lockedUntil
+            ? `เข้าสู่ระบบผิดพลาดหลายครั้งเกินไป กรุณาลองใหม่หลังเวลา ${new Date(lockedUntil).toLocaleTimeString()}`
+            : 'เข้าสู่ระบบผิดพลาดหลายครั้งเกินไป กรุณาลองใหม่ภายหลัง',
+          icon: 'warning',
+          confirmButtonText: 'ตกลง'
+        });
+      } else if ('challengeToken' in body) {
+        setTwoFactorCode('');
+        // An expired challenge means starting over from the password step
+        if (data.error?.includes('expired')) {
+          setChallengeToken(null);
+        }
+        await Swal.fire({
+          title: 'ยืนยันตัวตนล้มเหลว',
+          text: data.error?.includes('expired')
+            ? 'หมดเวลายืนยันตัวตน กรุณาเข้าสู่ระบบใหม่อีกครั้ง'
+            : 'รหัสยืนยันไม่ถูกต้อง',
+          icon: 'error',
+          confirmButtonText: 'ตกลง'
+        });
       } else {
         await Swal.fire({
           title: 'เข้าสู่ระบบล้มเหลว',
@@ -138,6 +164,27 @@ export default function LoginPage() {
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!validateForm()) return;
+
+    await submitLogin(formData);
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!challengeToken || !twoFactorCode.trim()) return;
+
+    await submitLogin({ challengeToken, code: twoFactorCode.trim() });
+  };
+
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setTwoFactorCode('');
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -166,88 +213,152 @@ export default function LoginPage() {
 
         {/* Login Form */}
         <div className="bg-white shadow-xl rounded-lg p-8">
-          <form className="space-y-6" onSubmit={handleSubmit}>
-            {/* Email Field */}
-            <div>
-              <label htmlFor="email" className="form-label">
-                <Mail className="w-4 h-4 inline mr-2" />
-                อีเมล
-              </label>
-              <input
-                id="email"
-                name="email"
-                type="email"
-                autoComplete="email"
-                required
-                className={`form-input ${errors.email ? 'border-red-500 focus:ring-red-500 focus:border-red-500' : ''}`}
-                placeholder="กรอกอีเมลของคุณ"
-                value={formData.email}
-                onChange={handleInputChange}
-                disabled={isLoading}
-              />
-              {errors.email && (
-                <p className="form-error">{errors.email}</p>
-              )}
-            </div>
+          {challengeToken ? (
+            <form className="space-y-6" onSubmit={handleTwoFactorSubmit}>
+              <div className="text-center">
+                <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-blue-100 mb-3">
+                  <ShieldCheck className="h-6 w-6 text-blue-600" />
+                </div>
+                <h3 className="text-lg font-medium text-gray-900">ยืนยันตัวตนสองขั้นตอน</h3>
+                <p className="mt-1 text-sm text-gray-600">
+                  กรอกรหัส 6 หลักจากแอป Authenticator หรือรหัสกู้คืน
+                </p>
+              </div>
 
-            {/* Password Field */}
-            <div>
-              <label htmlFor="password" className="form-label">
-                <Lock className="w-4 h-4 inline mr-2" />
-                รหัสผ่าน
-              </label>
-              <div className="relative">
+              <div>
+                <label htmlFor="twoFactorCode" className="form-label">
+                  รหัสยืนยัน
+                </label>
                 <input
-                  id="password"
-                  name="password"
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete="current-password"
+                  id="twoFactorCode"
+                  name="twoFactorCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
                   required
-                  className={`form-input pr-10 ${errors.password ? 'border-red-500 focus:ring-red-500 focus:border-red-500' : ''}`}
-                  placeholder="กรอกรหัสผ่านของคุณ"
-                  value={formData.password}
-                  onChange={handleInputChange}
+                  className="form-input text-center tracking-widest font-mono"
+                  placeholder="000000"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
                   disabled={isLoading}
                 />
+              </div>
+
+              <div>
                 <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                  onClick={() => setShowPassword(!showPassword)}
-                  disabled={isLoading}
+                  type="submit"
+                  disabled={isLoading || !twoFactorCode.trim()}
+                  className="w-full btn-primary flex items-center justify-center"
                 >
-                  {showPassword ? (
-                    <EyeOff className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                  {isLoading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                      กำลังตรวจสอบ...
+                    </>
                   ) : (
-                    <Eye className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                    <>
+                      <ShieldCheck className="w-5 h-5 mr-2" />
+                      ยืนยัน
+                    </>
                   )}
                 </button>
               </div>
-              {errors.password && (
-                <p className="form-error">{errors.password}</p>
-              )}
-            </div>
 
-            {/* Submit Button */}
-            <div>
               <button
-                type="submit"
+                type="button"
+                onClick={cancelTwoFactor}
                 disabled={isLoading}
-                className="w-full btn-primary flex items-center justify-center"
+                className="w-full inline-flex items-center justify-center text-sm text-gray-500 hover:text-gray-700"
               >
-                {isLoading ? (
-                  <>
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                    กำลังเข้าสู่ระบบ...
-                  </>
-                ) : (
-                  <>
-                    <LogIn className="w-5 h-5 mr-2" />
-                    เข้าสู่ระบบ
-                  </>
-                )}
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                กลับไปหน้าเข้าสู่ระบบ
               </button>
-            </div>
-          </form>
+            </form>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {/* Email Field */}
+              <div>
+                <label htmlFor="email" className="form-label">
+                  <Mail className="w-4 h-4 inline mr-2" />
+                  อีเมล
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  className={`form-input ${errors.email ? 'border-red-500 focus:ring-red-500 focus:border-red-500' : ''}`}
+                  placeholder="กรอกอีเมลของคุณ"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  disabled={isLoading}
+                />
+                {errors.email && (
+                  <p className="form-error">{errors.email}</p>
+                )}
+              </div>
+
+              {/* Password Field */}
+              <div>
+                <label htmlFor="password" className="form-label">
+                  <Lock className="w-4 h-4 inline mr-2" />
+                  รหัสผ่าน
+                </label>
+                <div className="relative">
+                  <input
+                    id="password"
+                    name="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="current-password"
+                    required
+                    className={`form-input pr-10 ${errors.password ? 'border-red-500 focus:ring-red-500 focus:border-red-500' : ''}`}
+                    placeholder="กรอกรหัสผ่านของคุณ"
+                    value={formData.password}
+                    onChange={handleInputChange}
+                    disabled={isLoading}
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    onClick={() => setShowPassword(!showPassword)}
+                    disabled={isLoading}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                    ) : (
+                      <Eye className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                    )}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="form-error">{errors.password}</p>
+                )}
+              </div>
+
+              {/* Submit Button */}
+              <div>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full btn-primary flex items-center justify-center"
+                >
+                  {isLoading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                      กำลังเข้าสู่ระบบ...
+                    </>
+                  ) : (
+                    <>
+                      <LogIn className="w-5 h-5 mr-2" />
+                      เข้าสู่ระบบ
+                    </>
+                  )}
+                </button>
+              </div>
+            </form>
+          )}
 
           {/* Register Link - Only show if registration is enabled */}
           {registrationEnabled && (
@@ -0,0 +1,435 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Bell, Plus, Edit, Trash2, X } from 'lucide-react';
+import Swal from 'sweetalert2';
+import { normalizeTags } from '@/lib/utils';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  AlertRule,
+  AlertRuleData,
+  AlertMetric,
+  AlertComparator,
+  AlertSeverity,
+  Server
+} from '@/types';
+
+export const METRIC_LABELS: Record<AlertMetric, string> = {
+  CPU_USAGE: 'การใช้งาน CPU (%)',
+  MEMORY_USAGE: 'การใช้หน่วยความจำ (%)',
+  DISK_USAGE: 'การใช้พื้นที่เก็บข้อมูล (%)',
+  LOAD_AVERAGE: 'Load Average (1 นาที)',
+  NETWORK_IN: 'เครือข่ายขาเข้า (bytes/s)',
+  NETWORK_OUT: 'เครือข่ายขาออก (bytes/s)',
+  SERVER_OFFLINE: 'เซิร์ฟเวอร์ออฟไลน์'
+};
+
+const COMPARATOR_LABELS: Record<AlertComparator, string> = {
+  GT: '>',
+  GTE: '≥',
+  LT: '<',
+  LTE: '≤'
+};
+
+export const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  INFO: 'ข้อมูล',
+  WARNING: 'คำเตือน',
+  CRITICAL: 'วิกฤต'
+};
+
+export const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  INFO: 'bg-blue-100 text-blue-800',
+  WARNING: 'bg-yellow-100 text-yellow-800',
+  CRITICAL: 'bg-red-100 text-red-800'
+};
+
+interface RuleForm {
+  name: string;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  duration: number;
+  severity: AlertSeverity;
+  serverIds: number[];
+  // Comma-separated in the form, sent as an array
+  tags: string;
+  isActive: boolean;
+}
+
+const emptyForm: RuleForm = {
+  name: '',
+  metric: 'CPU_USAGE',
+  comparator: 'GT',
+  threshold: 90,
+  duration: 300,
+  severity: 'WARNING',
+  serverIds: [],
+  tags: '',
+  isActive: true
+};
+
+export default function AlertRulesPanel() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [servers, setServers] = useState<Server[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+    fetchServers();
+  }, []);
+
+  const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+  });
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/alerts/rules', { headers: authHeaders() });
+      const data: ApiResponse<AlertRule[]> = await response.json();
+      if (data.success && data.data) {
+        setRules(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch alert rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchServers = async () => {
+    try {
+      const response = await fetch('/api/servers?limit=100', { headers: authHeaders() });
+      const data: PaginatedResponse<Server> = await response.json();
+      if (data.success && data.data) {
+        setServers(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch servers:', error);
+    }
+  };
+
+  const startEdit = (rule?: AlertRule) => {
+    setEditingId(rule ? rule.id : 'new');
+    setForm(rule ? {
+      name: rule.name,
+      metric: rule.metric,
+      comparator: rule.comparator,
+      threshold: rule.threshold,
+      duration: rule.duration,
+      severity: rule.severity,
+      serverIds: rule.serverIds,
+      tags: rule.tags.join(', '),
+      isActive: rule.isActive
+    } : emptyForm);
+  };
+
+  const toggleServer = (serverId: number) => {
+    setForm(prev => ({
+      ...prev,
+      serverIds: prev.serverIds.includes(serverId)
+        ? prev.serverIds.filter(id => id !== serverId)
+        : [...prev.serverIds, serverId]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const payload: AlertRuleData = {
+      ...form,
+      // Offline rules fire when the server is down (value 1)
+      ...(form.metric === 'SERVER_OFFLINE' && { comparator: 'GTE', threshold: 1 }),
+      tags: normalizeTags(form.tags.split(','))
+    };
+
+    try {
+      const response = await fetch(
+        editingId === 'new' ? '/api/alerts/rules' : `/api/alerts/rules/${editingId}`,
+        {
+          method: editingId === 'new' ? 'POST' : 'PUT',
+          headers: authHeaders(),
+          body: JSON.stringify(payload)
+        }
+      );
+      const data: ApiResponse<AlertRule> = await response.json();
+
+      if (data.success) {
+        setEditingId(null);
+        await fetchRules();
+      } else {
+        await Swal.fire({
+          title: 'เกิดข้อผิดพลาด',
+          text: data.error || 'ไม่สามารถบันทึกกฎการแจ้งเตือนได้',
+          icon: 'error'
+        });
+      }
+    } catch (error) {
+      await Swal.fire({
+        title: 'เกิดข้อผิดพลาด',
+        text: 'ไม่สามารถบันทึกกฎการแจ้งเตือนได้',
+        icon: 'error'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    const result = await Swal.fire({
+      title: 'ลบกฎการแจ้งเตือน?',
+      text: `กฎ "${rule.name}" และประวัติการแจ้งเตือนของกฎนี้จะถูกลบ`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#dc2626',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: 'ลบ',
+      cancelButtonText: 'ยกเลิก'
+    });
+
+    if (!result.isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/alerts/rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      });
+      const data: ApiResponse = await response.json();
+      if (data.success) {
+        await fetchRules();
+      } else {
+        await Swal.fire({ title: 'เกิดข้อผิดพลาด', text: data.error, icon: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to delete alert rule:', error);
+    }
+  };
+
+  const describeScope = (rule: AlertRule) => {
+    if (rule.serverIds.length === 0 && rule.tags.length === 0) return 'ทุกเซิร์ฟเวอร์';
+
+    const names = rule.serverIds.map(id => servers.find(server => server.id === id)?.name || `#${id}`);
+    return [...names, ...rule.tags.map(tag => `แท็ก ${tag}`)].join(', ');
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white shadow-soft rounded-lg p-6 animate-pulse">
+        <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+        <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow-soft rounded-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <Bell className="h-6 w-6 text-blue-600 mr-3" />
+          <h3 className="text-lg font-medium text-gray-900">กฎการแจ้งเตือน</h3>
+        </div>
+        {editingId === null && (
+          <button onClick={() => startEdit()} className="btn-primary">
+            <Plus className="h-4 w-4 mr-2" />
+            เพิ่มกฎ
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-900">
+              {editingId === 'new' ? 'เพิ่มกฎการแจ้งเตือน' : 'แก้ไขกฎการแจ้งเตือน'}
+            </h4>
+            <button type="button" onClick={() => setEditingId(null)} className="p-1 hover:bg-gray-100 rounded-md">
+              <X className="h-4 w-4 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">ชื่อกฎ</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                className="form-input"
+                placeholder="เช่น CPU สูง"
+                required
+              />
+            </div>
+            <div>
+              <label className="form-label">ค่าที่ตรวจสอบ</label>
+              <select
+                value={form.metric}
+                onChange={(e) => setForm(prev => ({ ...prev, metric: e.target.value as AlertMetric }))}
+                className="form-input"
+              >
+                {(Object.keys(METRIC_LABELS) as AlertMetric[]).map(metric => (
+                  <option key={metric} value={metric}>{METRIC_LABELS[metric]}</option>
+                ))}
+              </select>
+            </div>
+            {form.metric !== 'SERVER_OFFLINE' && (
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="form-label">เงื่อนไข</label>
+                  <select
+                    value={form.comparator}
+                    onChange={(e) => setForm(prev => ({ ...prev, comparator: e.target.value as AlertComparator }))}
+                    className="form-input"
+                  >
+                    {(Object.keys(COMPARATOR_LABELS) as AlertComparator[]).map(comparator => (
+                      <option key={comparator} value={comparator}>{COMPARATOR_LABELS[comparator]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <label className="form-label">ค่าเกณฑ์</label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={form.threshold}
+                    onChange={(e) => setForm(prev => ({ ...prev, threshold: parseFloat(e.target.value) || 0 }))}
+                    className="form-input"
+                    required
+                  />
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="form-label">ระยะเวลาต่อเนื่อง (วินาที)</label>
+              <input
+                type="number"
+                min="0"
+                value={form.duration}
+                onChange={(e) => setForm(prev => ({ ...prev, duration: parseInt(e.target.value) || 0 }))}
+                className="form-input"
+              />
+              <p className="mt-1 text-xs text-gray-500">0 = แจ้งเตือนทันทีที่ตรวจพบ</p>
+            </div>
+            <div>
+              <label className="form-label">ระดับความรุนแรง</label>
+              <select
+                value={form.severity}
+                onChange={(e) => setForm(prev => ({ ...prev, severity: e.target.value as AlertSeverity }))}
+                className="form-input"
+              >
+                {(Object.keys(SEVERITY_LABELS) as AlertSeverity[]).map(severity => (
+                  <option key={severity} value={severity}>{SEVERITY_LABELS[severity]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">แท็กเซิร์ฟเวอร์</label>
+              <input
+                type="text"
+                value={form.tags}
+                onChange={(e) => setForm(prev => ({ ...prev, tags: e.target.value }))}
+                className="form-input"
+                placeholder="เช่น production, web"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="form-label">เซิร์ฟเวอร์</label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 max-h-40 overflow-y-auto border border-gray-200 rounded-md p-3">
+              {servers.map(server => (
+                <label key={server.id} className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.serverIds.includes(server.id)}
+                    onChange={() => toggleServer(server.id)}
+                    className="rounded border-gray-300 text-blue-600 mr-2"
+                  />
+                  {server.name}
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              ใช้กับเซิร์ฟเวอร์ที่เลือกและเซิร์ฟเวอร์ที่มีแท็กตรงกัน หากไม่เลือกทั้งสองอย่างจะใช้กับทุกเซิร์ฟเวอร์
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm(prev => ({ ...prev, isActive: e.target.checked }))}
+                className="rounded border-gray-300 text-blue-600 mr-2"
+              />
+              เปิดใช้งาน
+            </label>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                ยกเลิก
+              </button>
+              <button type="submit" disabled={isSaving} className="btn-primary">
+                {isSaving ? 'กำลังบันทึก...' : 'บันทึก'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500">ยังไม่มีกฎการแจ้งเตือน</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">ชื่อกฎ</th>
+                <th className="py-2 pr-4 font-medium">เงื่อนไข</th>
+                <th className="py-2 pr-4 font-medium">ขอบเขต</th>
+                <th className="py-2 pr-4 font-medium">ระดับ</th>
+                <th className="py-2 pr-4 font-medium">สถานะ</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rules.map(rule => (
+                <tr key={rule.id}>
+                  <td className="py-2 pr-4 font-medium text-gray-900">{rule.name}</td>
+                  <td className="py-2 pr-4 text-gray-700">
+                    {rule.metric === 'SERVER_OFFLINE'
+                      ? METRIC_LABELS.SERVER_OFFLINE
+                      : `${METRIC_LABELS[rule.metric]} ${COMPARATOR_LABELS[rule.comparator]} ${rule.threshold}`}
+                    {rule.duration > 0 && <span className="text-gray-500"> นาน {rule.duration} วินาที</span>}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">{describeScope(rule)}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_COLORS[rule.severity]}`}>
+                      {SEVERITY_LABELS[rule.severity]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">{rule.isActive ? 'เปิดใช้งาน' : 'ปิดใช้งาน'}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button onClick={() => startEdit(rule)} className="p-1 text-gray-400 hover:text-blue-600">
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => deleteRule(rule)} className="p-1 text-gray-400 hover:text-red-600 ml-2">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import { tokenize, type Language, type TokenType } from '@/lib/syntax-highlight';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  language: Language;
+  onSave?: () => void;
+  readOnly?: boolean;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  comment: 'text-gray-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-orange-300',
+  keyword: 'text-pink-400',
+  variable: 'text-sky-300',
+  key: 'text-blue-300',
+  tag: 'text-red-300',
+  attribute: 'text-yellow-200',
+  section: 'text-purple-300'
+};
+
+// Shared by the textarea and the highlight layer so the text lines up
+const TEXT_STYLE = 'font-mono text-sm leading-6 whitespace-pre p-3';
+
+// Indent with tabs if the file does, otherwise with its smallest space indent
+function detectIndent(value: string): string {
+  if (/^\t/m.test(value)) return '\t';
+
+  const widths = (value.match(/^ +(?=\S)/gm) || []).map(spaces => spaces.length);
+  const width = widths.length > 0 ? Math.min(...widths) : 2;
+  return ' '.repeat(width >= 2 && width <= 8 ? width : 2);
+}
+
+/**
+ * Plain textarea with a syntax-highlighted layer behind it
+ */
+export default function CodeEditor({ value, onChange, language, onSave, readOnly, className = '' }: CodeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const tokens = useMemo(() => tokenize(value, language), [value, language]);
+  const indent = useMemo(() => detectIndent(value), [value]);
+  const lineCount = useMemo(() => value.split('\n').length, [value]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = textarea.scrollTop;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      onSave?.();
+      return;
+    }
+
+    if (e.key === 'Tab' && !readOnly) {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+
+      onChange(value.substring(0, selectionStart) + indent + value.substring(selectionEnd));
+      requestAnimationFrame(() => {
+        textarea.selectionStart = textarea.selectionEnd = selectionStart + indent.length;
+      });
+    }
+  };
+
+  return (
+    <div className={`flex overflow-hidden bg-[#0d1117] ${className}`}>
+      {/* Line numbers */}
+      <div
+        ref={gutterRef}
+        className={`${TEXT_STYLE} overflow-hidden select-none text-right text-gray-600 border-r border-gray-800 flex-shrink-0`}
+        aria-hidden="true"
+      >
+        {Array.from({ length: lineCount }, (_, i) => (
+          <div key={i}>{i + 1}</div>
+        ))}
+      </div>
+
+      <div className="relative flex-1 min-w-0">
+        <pre
+          ref={highlightRef}
+          className={`${TEXT_STYLE} absolute inset-0 m-0 overflow-hidden text-gray-200 pointer-events-none`}
+          aria-hidden="true"
+        >
+          {tokens.map((token, i) => token.type
+            ? <span key={i} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+            : token.text
+          )}
+          {/* Keeps a trailing newline visible */}
+          {'\n'}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          onKeyDown={handleKeyDown}
+          readOnly={readOnly}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          autoCorrect="off"
+          wrap="off"
+          className={`${TEXT_STYLE} absolute inset-0 w-full h-full resize-none overflow-auto bg-transparent text-transparent caret-white outline-none selection:bg-blue-500/40`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,537 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  Folder,
+  File,
+  Link2,
+  ArrowUp,
+  RefreshCw,
+  FolderPlus,
+  Edit,
+  Trash2,
+  Lock,
+  Eye,
+  EyeOff,
+  ChevronUp,
+  ChevronDown,
+  Home,
+  Upload,
+  Download,
+  FileCode
+} from 'lucide-react';
+import { io, Socket } from 'socket.io-client';
+import Swal from 'sweetalert2';
+import FileTransferList, { useFileTransfers } from './FileTransferList';
+import { formatBytes } from '@/lib/utils';
+import { getWebSocketUrl, createTransferId, uploadFile, getDownloadUrl } from '@/lib/file-transfer-client';
+import type { ApiResponse, DirectoryListing, FileInfo, FileOperationData } from '@/types';
+
+type SortKey = 'name' | 'size' | 'modified' | 'permissions' | 'owner';
+
+interface FileBrowserProps {
+  serverId: number;
+  initialPath?: string;
+  // Called with the directory shown, e.g. to keep it in the URL
+  onPathChange?: (path: string) => void;
+}
+
+const joinPath = (directory: string, name: string) => directory === '/' ? `/${name}` : `${directory}/${name}`;
+
+const parentPath = (directory: string) => directory.substring(0, directory.lastIndexOf('/')) || '/';
+
+export default function FileBrowser({ serverId, initialPath, onPathChange }: FileBrowserProps) {
+  const [listing, setListing] = useState<DirectoryListing | null>(null);
+  const [pathInput, setPathInput] = useState(initialPath || '');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showHidden, setShowHidden] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [sortAsc, setSortAsc] = useState(true);
+  const [dragging, setDragging] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const socketRef = useRef<Socket | null>(null);
+  const { transfers, addTransfer, updateTransfer, removeTransfer, bindSocket } = useFileTransfers();
+
+  useEffect(() => {
+    loadDirectory(initialPath);
+  }, [serverId]);
+
+  // Socket.IO connection for transfer progress
+  useEffect(() => {
+    const token = localStorage.getItem('auth_token');
+    if (!token) return;
+
+    const socket = io(getWebSocketUrl(), {
+      auth: { token },
+      transports: ['websocket', 'polling'],
+      reconnectionAttempts: 5,
+      reconnectionDelay: 1000,
+      timeout: 20000,
+    });
+    bindSocket(socket);
+    socketRef.current = socket;
+
+    return () => {
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, [bindSocket]);
+
+  const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+  });
+
+  const loadDirectory = async (directory?: string) => {
+    setLoading(true);
+    try {
+      const query = directory ? `?path=${encodeURIComponent(directory)}` : '';
+      const response = await fetch(`/api/servers/${serverId}/files${query}`, { headers: authHeaders() });
+      const data: ApiResponse<DirectoryListing> = await response.json();
+
+      if (data.success && data.data) {
+        setListing(data.data);
+        setPathInput(data.data.path);
+        setError(null);
+        onPathChange?.(data.data.path);
+      } else {
+        setError(data.error || 'ไม่สามารถเปิดโฟลเดอร์ได้');
+      }
+    } catch (error) {
+      console.error('Failed to list directory:', error);
+      setError('ไม่สามารถเปิดโฟลเดอร์ได้');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runOperation = async (operation: FileOperationData) => {
+    try {
+      const response = await fetch(`/api/servers/${serverId}/files`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(operation)
+      });
+      const data: ApiResponse = await response.json();
+
+      if (!data.success) {
+        await Swal.fire({ title: 'เกิดข้อผิดพลาด', text: data.error, icon: 'error' });
+      }
+    } catch (error) {
+      console.error('File operation failed:', error);
+    } finally {
+      await loadDirectory(listing?.path);
+    }
+  };
+
+  const createFolder = async () => {
+    if (!listing) return;
+
+    const { value: name } = await Swal.fire({
+      title: 'สร้างโฟลเดอร์ใหม่',
+      input: 'text',
+      inputLabel: `ใน ${listing.path}`,
+      showCancelButton: true,
+      confirmButtonText: 'สร้าง',
+      cancelButtonText: 'ยกเลิก',
+      inputValidator: (value) => !value || value.includes('/') ? 'กรุณากรอกชื่อโฟลเดอร์ (ห้ามมี /)' : null
+    });
+
+    if (name) {
+      await runOperation({ action: 'mkdir', path: joinPath(listing.path, name) });
+    }
+  };
+
+  const renameFile = async (file: FileInfo) => {
+    const { value: name } = await Swal.fire({
+      title: 'เปลี่ยนชื่อ',
+      input: 'text',
+      inputValue: file.name,
+      showCancelButton: true,
+      confirmButtonText: 'บันทึก',
+      cancelButtonText: 'ยกเลิก',
+      inputValidator: (value) => !value || value.includes('/') ? 'กรุณากรอกชื่อ (ห้ามมี /)' : null
+    });
+
+    if (name && name !== file.name) {
+      await runOperation({ action: 'rename', path: file.path, newPath: joinPath(parentPath(file.path), name) });
+    }
+  };
+
+  const changePermissions = async (file: FileInfo) => {
+    const { value: mode } = await Swal.fire({
+      title: 'เปลี่ยนสิทธิ์การเข้าถึง',
+      input: 'text',
+      inputLabel: `${file.name} (ปัจจุบัน ${file.permissions})`,
+      inputValue: file.mode,
+      showCancelButton: true,
+      confirmButtonText: 'บันทึก',
+      cancelButtonText: 'ยกเลิก',
+      inputValidator: (value) => /^[0-7]{3,4}$/.test(value) ? null : 'กรุณากรอกเลขฐานแปด เช่น 644 หรือ 0755'
+    });
+
+    if (mode && mode !== file.mode) {
+      await runOperation({ action: 'chmod', path: file.path, mode });
+    }
+  };
+
+  const deleteFile = async (file: FileInfo) => {
+    const result = await Swal.fire({
+      title: file.isDirectory && !file.isSymlink ? 'ลบโฟลเดอร์?' : 'ลบไฟล์?',
+      text: file.isDirectory && !file.isSymlink
+        ? `โฟลเดอร์ "${file.name}" และทุกไฟล์ภายในจะถูกลบถาวร`
+        : `"${file.name}" จะถูกลบถาวร`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#dc2626',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: 'ลบ',
+      cancelButtonText: 'ยกเลิก'
+    });
+
+    if (result.isConfirmed) {
+      await runOperation({ action: 'delete', path: file.path });
+    }
+  };
+
+  const uploadFiles = async (selected: File[]) => {
+    if (!listing || selected.length === 0) return;
+    const directory = listing.path;
+
+    for (const file of selected) {
+      const exists = listing.files.some(existing => existing.name === file.name);
+      if (exists) {
+        const result = await Swal.fire({
+          title: 'มีไฟล์นี้อยู่แล้ว',
+          text: `ต้องการเขียนทับ "${file.name}" หรือไม่?`,
+          icon: 'warning',
+          showCancelButton: true,
+          confirmButtonText: 'เขียนทับ',
+          cancelButtonText: 'ข้าม'
+        });
+        if (!result.isConfirmed) continue;
+      }
+
+      const transferId = createTransferId();
+      addTransfer({
+        transferId,
+        direction: 'upload',
+        name: file.name,
+        path: joinPath(directory, file.name),
+        transferred: 0,
+        total: file.size,
+        status: 'running'
+      });
+
+      const result = await uploadFile({
+        serverId,
+        file,
+        directory,
+        overwrite: exists,
+        transferId,
+        socketId: socketRef.current?.id
+      });
+
+      updateTransfer(transferId, result.success
+        ? { status: 'completed', transferred: result.data?.size ?? file.size }
+        : { status: 'failed', error: result.error || 'อัปโหลดไม่สำเร็จ' });
+    }
+
+    await loadDirectory(directory);
+  };
+
+  const downloadFile = async (file: FileInfo) => {
+    const transferId = createTransferId();
+    const socketId = socketRef.current?.connected ? socketRef.current.id : undefined;
+
+    const url = await getDownloadUrl(serverId, file.path, transferId, socketId);
+    if (!url) {
+      await Swal.fire({ title: 'เกิดข้อผิดพลาด', text: 'ไม่สามารถสร้างลิงก์ดาวน์โหลดได้', icon: 'error' });
+      return;
+    }
+
+    // Progress is only reported while the socket is connected
+    if (socketId) {
+      addTransfer({
+        transferId,
+        direction: 'download',
+        name: file.name,
+        path: file.path,
+        transferred: 0,
+        total: file.size,
+        status: 'running'
+      });
+    }
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!listing || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const editorUrl = (file: FileInfo) =>
+    `/dashboard/files/edit?server=${serverId}&path=${encodeURIComponent(file.path)}`;
+
+  const toggleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(true);
+    }
+  };
+
+  // Folders first, then by the selected column
+  const files = (listing?.files || [])
+    .filter(file => showHidden || !file.name.startsWith('.'))
+    .sort((a, b) => {
+      if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
+
+      let result: number;
+      switch (sortKey) {
+        case 'size': result = a.size - b.size; break;
+        case 'modified': result = a.modified.localeCompare(b.modified); break;
+        case 'permissions': result = a.permissions.localeCompare(b.permissions); break;
+        case 'owner': result = a.owner.localeCompare(b.owner); break;
+        default: result = a.name.localeCompare(b.name);
+      }
+      return sortAsc ? result : -result;
+    });
+
+  const breadcrumbs = (listing?.path || '/').split('/').filter(Boolean);
+
+  const SortHeader = ({ column, label, className = '' }: { column: SortKey; label: string; className?: string }) => (
+    <th className={`py-2 pr-4 font-medium ${className}`}>
+      <button onClick={() => toggleSort(column)} className="inline-flex items-center hover:text-gray-900">
+        {label}
+        {sortKey === column && (sortAsc ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div
+      className={`bg-white shadow-soft rounded-lg overflow-hidden relative ${dragging ? 'ring-2 ring-blue-500' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {dragging && listing && (
+        <div className="absolute inset-0 z-10 bg-blue-50/80 flex items-center justify-center pointer-events-none">
+          <div className="text-center text-blue-700">
+            <Upload className="mx-auto h-10 w-10" />
+            <p className="mt-2 text-sm font-medium">วางไฟล์เพื่ออัปโหลดไปที่ {listing.path}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Toolbar */}
+      <div className="px-4 py-3 border-b border-gray-200 space-y-3">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => loadDirectory()}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
+            title="โฮมไดเรกทอรี"
+          >
+            <Home className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => listing && loadDirectory(parentPath(listing.path))}
+            disabled={!listing || listing.path === '/'}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-40"
+            title="ขึ้นหนึ่งระดับ"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </button>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              loadDirectory(pathInput.trim() || undefined);
+            }}
+            className="flex-1"
+          >
+            <input
+              type="text"
+              value={pathInput}
+              onChange={(e) => setPathInput(e.target.value)}
+              className="form-input font-mono text-sm"
+              placeholder="/path/to/directory"
+            />
+          </form>
+          <button
+            onClick={() => setShowHidden(!showHidden)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
+            title={showHidden ? 'ซ่อนไฟล์ที่ซ่อนอยู่' : 'แสดงไฟล์ที่ซ่อนอยู่'}
+          >
+            {showHidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => loadDirectory(listing?.path)}
+            disabled={loading}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-50"
+            title="รีเฟรช"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={createFolder} disabled={!listing} className="btn-secondary">
+            <FolderPlus className="h-4 w-4 mr-2" />
+            โฟลเดอร์ใหม่
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={!listing} className="btn-primary">
+            <Upload className="h-4 w-4 mr-2" />
+            อัปโหลด
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              uploadFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="flex items-center flex-wrap text-sm text-gray-600 font-mono">
+          <button onClick={() => loadDirectory('/')} className="hover:text-blue-600">/</button>
+          {breadcrumbs.map((segment, index) => (
+            <span key={index} className="inline-flex items-center">
+              <button
+                onClick={() => loadDirectory('/' + breadcrumbs.slice(0, index + 1).join('/'))}
+                className="hover:text-blue-600"
+              >
+                {segment}
+              </button>
+              {index < breadcrumbs.length - 1 && <span className="mx-1 text-gray-400">/</span>}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {transfers.length > 0 && (
+        <div className="px-4 py-3 border-b border-gray-200">
+          <FileTransferList transfers={transfers} onDismiss={removeTransfer} />
+        </div>
+      )}
+
+      {error && (
+        <div className="px-4 py-3 bg-red-50 border-b border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      {/* Listing */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <SortHeader column="name" label="ชื่อ" className="pl-4" />
+              <SortHeader column="size" label="ขนาด" />
+              <SortHeader column="modified" label="แก้ไขล่าสุด" />
+              <SortHeader column="permissions" label="สิทธิ์" />
+              <SortHeader column="owner" label="เจ้าของ" />
+              <th className="py-2 pr-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {files.map(file => (
+              <tr key={file.path} className="hover:bg-gray-50">
+                <td className="py-2 pl-4 pr-4">
+                  {file.isDirectory ? (
+                    <button
+                      onClick={() => loadDirectory(file.path)}
+                      className="inline-flex items-center text-gray-900 hover:text-blue-600"
+                    >
+                      <Folder className="h-4 w-4 text-yellow-500 mr-2 flex-shrink-0" />
+                      {file.name}
+                      {file.isSymlink && <Link2 className="h-3 w-3 text-gray-400 ml-1" />}
+                    </button>
+                  ) : file.isFile ? (
+                    <a
+                      href={editorUrl(file)}
+                      className="inline-flex items-center text-gray-900 hover:text-blue-600"
+                      title="เปิดในตัวแก้ไข"
+                    >
+                      <File className="h-4 w-4 text-gray-400 mr-2 flex-shrink-0" />
+                      {file.name}
+                      {file.isSymlink && <Link2 className="h-3 w-3 text-gray-400 ml-1" />}
+                    </a>
+                  ) : (
+                    <span className="inline-flex items-center text-gray-900">
+                      <File className="h-4 w-4 text-gray-400 mr-2 flex-shrink-0" />
+                      {file.name}
+                      {file.isSymlink && <Link2 className="h-3 w-3 text-gray-400 ml-1" />}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                  {file.isDirectory ? '-' : formatBytes(file.size)}
+                </td>
+                <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                  {new Date(file.modified).toLocaleString('th-TH')}
+                </td>
+                <td className="py-2 pr-4 text-gray-600 font-mono whitespace-nowrap">{file.permissions}</td>
+                <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">{file.owner}:{file.group}</td>
+                <td className="py-2 pr-4 text-right whitespace-nowrap">
+                  {file.isFile && (
+                    <a href={editorUrl(file)} className="inline-block p-1 text-gray-400 hover:text-blue-600 mr-1" title="แก้ไขไฟล์">
+                      <FileCode className="h-4 w-4" />
+                    </a>
+                  )}
+                  {file.isFile && (
+                    <button onClick={() => downloadFile(file)} className="p-1 text-gray-400 hover:text-green-600 mr-1" title="ดาวน์โหลด">
+                      <Download className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button onClick={() => renameFile(file)} className="p-1 text-gray-400 hover:text-blue-600" title="เปลี่ยนชื่อ">
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => changePermissions(file)} className="p-1 text-gray-400 hover:text-yellow-600 ml-1" title="เปลี่ยนสิทธิ์">
+                    <Lock className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => deleteFile(file)} className="p-1 text-gray-400 hover:text-red-600 ml-1" title="ลบ">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {!loading && listing && files.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-500 text-center">โฟลเดอร์นี้ว่างเปล่า ลากไฟล์มาวางเพื่ออัปโหลด</p>
+        )}
+      </div>
+
+      {listing && (
+        <div className="px-4 py-2 border-t border-gray-200 text-xs text-gray-500">
+          {listing.files.length} รายการ · {formatBytes(listing.totalSize)}
+          {!showHidden && listing.hiddenFiles > 0 && ` · ซ่อนอยู่ ${listing.hiddenFiles} รายการ`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { Upload, Download, CheckCircle, XCircle, X } from 'lucide-react';
+import type { Socket } from 'socket.io-client';
+import { formatBytes } from '@/lib/utils';
+import type { FileTransferProgress } from '@/types';
+
+export interface FileTransfer extends FileTransferProgress {
+  name: string;
+  status: 'running' | 'completed' | 'failed';
+  error?: string;
+}
+
+/**
+ * Transfer list state, updated from file:transfer:* events of the sockets passed to bindSocket
+ */
+export function useFileTransfers() {
+  const [transfers, setTransfers] = useState<FileTransfer[]>([]);
+
+  const updateTransfer = useCallback((transferId: string, changes: Partial<FileTransfer>) => {
+    setTransfers(prev => prev.map(transfer =>
+      transfer.transferId === transferId ? { ...transfer, ...changes } : transfer
+    ));
+  }, []);
+
+  const addTransfer = useCallback((transfer: FileTransfer) => {
+    setTransfers(prev => [...prev, transfer]);
+  }, []);
+
+  const removeTransfer = useCallback((transferId: string) => {
+    setTransfers(prev => prev.filter(transfer => transfer.transferId !== transferId));
+  }, []);
+
+  const bindSocket = useCallback((socket: Socket) => {
+    socket.on('file:transfer:progress', (data: FileTransferProgress) => {
+      updateTransfer(data.transferId, {
+        transferred: data.transferred,
+        ...(data.total !== null && { total: data.total })
+      });
+    });
+
+    socket.on('file:transfer:complete', (data: { transferId: string; path: string; transferred: number }) => {
+      updateTransfer(data.transferId, { status: 'completed', path: data.path, transferred: data.transferred });
+    });
+
+    socket.on('file:transfer:error', (data: { transferId: string; error: string }) => {
+      updateTransfer(data.transferId, { status: 'failed', error: data.error });
+    });
+  }, [updateTransfer]);
+
+  return { transfers, addTransfer, updateTransfer, removeTransfer, bindSocket };
+}
+
+interface FileTransferListProps {
+  transfers: FileTransfer[];
+  onDismiss: (transferId: string) => void;
+  className?: string;
+}
+
+export default function FileTransferList({ transfers, onDismiss, className = '' }: FileTransferListProps) {
+  if (transfers.length === 0) return null;
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 shadow-soft divide-y divide-gray-100 text-sm ${className}`}>
+      {transfers.map(transfer => {
+        const percent = transfer.total
+          ? Math.min(100, Math.round(transfer.transferred / transfer.total * 100))
+          : null;
+
+        return (
+          <div key={transfer.transferId} className="px-3 py-2">
+            <div className="flex items-center justify-between">
+              <span className="inline-flex items-center min-w-0 text-gray-900">
+                {transfer.direction === 'upload'
+                  ? <Upload className="h-4 w-4 text-blue-500 mr-2 flex-shrink-0" />
+                  : <Download className="h-4 w-4 text-blue-500 mr-2 flex-shrink-0" />}
+                <span className="truncate" title={transfer.path}>{transfer.name}</span>
+              </span>
+              <span className="inline-flex items-center ml-3 text-xs text-gray-500 whitespace-nowrap">
+                {transfer.status === 'completed' && <CheckCircle className="h-4 w-4 text-green-500" />}
+                {transfer.status === 'failed' && <XCircle className="h-4 w-4 text-red-500" />}
+                {transfer.status === 'running' && (
+                  <>
+                    {formatBytes(transfer.transferred)}
+                    {transfer.total !== null && ` / ${formatBytes(transfer.total)}`}
+                  </>
+                )}
+                {transfer.status !== 'running' && (
+                  <button onClick={() => onDismiss(transfer.transferId)} className="ml-2 text-gray-400 hover:text-gray-600" title="ปิด">
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </span>
+            </div>
+            {transfer.status === 'running' && (
+              <div className="mt-1.5 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full bg-blue-500 transition-all ${percent === null ? 'w-1/3 animate-pulse' : ''}`}
+                  style={percent !== null ? { width: `${percent}%` } : undefined}
+                />
+              </div>
+            )}
+            {transfer.status === 'failed' && transfer.error && (
+              <p className="mt-1 text-xs text-red-600">{transfer.error}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
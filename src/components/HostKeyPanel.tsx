@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldAlert, ShieldQuestion, RotateCcw, Check } from 'lucide-react';
+import Swal from 'sweetalert2';
+import { formatDate } from '@/lib/utils';
+import type { ApiResponse, HostKeyInfo } from '@/types';
+
+interface HostKeyPanelProps {
+  serverId: number;
+  isAdmin: boolean;
+}
+
+export default function HostKeyPanel({ serverId, isAdmin }: HostKeyPanelProps) {
+  const [hostKey, setHostKey] = useState<HostKeyInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchHostKey();
+  }, [serverId]);
+
+  const fetchHostKey = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/servers/${serverId}/host-key`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<HostKeyInfo> = await response.json();
+      if (data.success && data.data) {
+        setHostKey(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch host key:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateHostKey = async (method: 'POST' | 'DELETE') => {
+    const isAccept = method === 'POST';
+
+    const result = await Swal.fire({
+      title: isAccept ? 'ยอมรับ Host Key ใหม่?' : 'รีเซ็ต Host Key?',
+      html: isAccept
+        ? `กรุณาตรวจสอบ fingerprint กับผู้ดูแลเซิร์ฟเวอร์ก่อนยอมรับ<br/><code class="text-xs">${hostKey?.pendingFingerprint}</code>`
+        : 'Host key ที่พบในการเชื่อมต่อครั้งถัดไปจะถูกบันทึกเป็นค่าที่เชื่อถือโดยอัตโนมัติ',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: isAccept ? '#3b82f6' : '#dc2626',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: isAccept ? 'ยอมรับ' : 'รีเซ็ต',
+      cancelButtonText: 'ยกเลิก'
+    });
+
+    if (!result.isConfirmed) return;
+
+    setIsSaving(true);
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/servers/${serverId}/host-key`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<HostKeyInfo> = await response.json();
+
+      if (data.success && data.data) {
+        setHostKey(data.data);
+        await Swal.fire({
+          title: 'สำเร็จ',
+          text: isAccept ? 'ยอมรับ Host Key เรียบร้อยแล้ว' : 'รีเซ็ต Host Key เรียบร้อยแล้ว',
+          icon: 'success',
+          timer: 1500,
+          showConfirmButton: false
+        });
+      } else {
+        throw new Error(data.error || 'ไม่สามารถอัปเดต Host Key ได้');
+      }
+    } catch (error) {
+      Swal.fire({
+        title: 'เกิดข้อผิดพลาด',
+        text: error instanceof Error ? error.message : 'ไม่สามารถอัปเดต Host Key ได้',
+        icon: 'error'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white shadow-soft rounded-lg p-6 animate-pulse">
+        <div className="h-5 bg-gray-200 rounded w-1/3 mb-4"></div>
+        <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  if (!hostKey) return null;
+
+  const getStatusIcon = () => {
+    if (hostKey.pendingFingerprint) {
+      return <ShieldAlert className="h-6 w-6 text-red-600" />;
+    }
+    if (hostKey.fingerprint) {
+      return <ShieldCheck className="h-6 w-6 text-green-600" />;
+    }
+    return <ShieldQuestion className="h-6 w-6 text-gray-500" />;
+  };
+
+  return (
+    <div className="bg-white shadow-soft rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          {getStatusIcon()}
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">SSH Host Key</h3>
+            <p className="text-sm text-gray-500">{hostKey.host}:{hostKey.port}</p>
+          </div>
+        </div>
+
+        {isAdmin && hostKey.fingerprint && (
+          <button
+            onClick={() => updateHostKey('DELETE')}
+            disabled={isSaving}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 transition-colors duration-150"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            รีเซ็ต
+          </button>
+        )}
+      </div>
+
+      <div className="px-6 py-4 space-y-4">
+        {hostKey.pendingFingerprint && (
+          <div className="rounded-md bg-red-50 border border-red-200 p-4">
+            <h4 className="text-sm font-medium text-red-800">
+              Host key ของเซิร์ฟเวอร์เปลี่ยนไป - การเชื่อมต่อถูกบล็อก
+            </h4>
+            <p className="mt-1 text-sm text-red-700">
+              อาจเกิดจากการติดตั้งระบบใหม่ หรือการโจมตีแบบ man-in-the-middle
+            </p>
+            <dl className="mt-3 text-sm">
+              <dt className="text-red-700">Key ที่พบ ({hostKey.pendingKeyType}):</dt>
+              <dd className="font-mono text-xs text-red-900 break-all">{hostKey.pendingFingerprint}</dd>
+            </dl>
+            {isAdmin && (
+              <button
+                onClick={() => updateHostKey('POST')}
+                disabled={isSaving}
+                className="mt-3 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 transition-colors duration-150"
+              >
+                <Check className="h-4 w-4 mr-1" />
+                ยอมรับ Key ใหม่
+              </button>
+            )}
+          </div>
+        )}
+
+        {hostKey.fingerprint ? (
+          <dl className="grid grid-cols-1 gap-y-2 text-sm">
+            <div>
+              <dt className="text-gray-500">Fingerprint ที่เชื่อถือ ({hostKey.keyType}):</dt>
+              <dd className="font-mono text-xs text-gray-900 break-all">{hostKey.fingerprint}</dd>
+            </div>
+            {hostKey.verifiedAt && (
+              <div>
+                <dt className="text-gray-500">บันทึกเมื่อ:</dt>
+                <dd className="text-gray-900">{formatDate(hostKey.verifiedAt)}</dd>
+              </div>
+            )}
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500">
+            ยังไม่มี Host Key ที่บันทึกไว้ - จะบันทึกอัตโนมัติเมื่อเชื่อมต่อครั้งถัดไป
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
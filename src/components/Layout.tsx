@@ -14,7 +14,9 @@ import {
   Home,
   Plus,
   Play,
-  Activity
+  Activity,
+  PlayCircle,
+  FolderOpen
 } from 'lucide-react';
 import Swal from 'sweetalert2';
 import type { User } from '@/types';
@@ -34,8 +36,10 @@ const navigation: NavItem[] = [
   { name: 'แดชบอร์ด', href: '/dashboard', icon: Home },
   { name: 'เซิร์ฟเวอร์', href: '/dashboard/servers', icon: Server },
   { name: 'เทอร์มินัล', href: '/dashboard/terminal', icon: Terminal },
+  { name: 'จัดการไฟล์', href: '/dashboard/files', icon: FolderOpen },
   { name: 'รัน Scripts', href: '/dashboard/scripts', icon: Play },
   { name: 'บันทึกการทำงาน', href: '/dashboard/logs', icon: FileText },
+  { name: 'บันทึกเซสชัน', href: '/dashboard/recordings', icon: PlayCircle },
   { name: 'ข้อมูลระบบ', href: '/dashboard/monitoring', icon: Activity },
   { name: 'ผู้ใช้งาน', href: '/dashboard/users', icon: Users, adminOnly: true },
   { name: 'การตั้งค่า', href: '/dashboard/settings', icon: Settings },
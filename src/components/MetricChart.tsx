@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+
+export interface ChartSeries {
+  name: string;
+  // Tailwind stroke/fill color class pair, e.g. 'text-blue-600'
+  color: string;
+  values: (number | null)[];
+}
+
+interface MetricChartProps {
+  title: string;
+  subtitle?: string;
+  timestamps: string[];
+  series: ChartSeries[];
+  // Fixed upper bound (e.g. 100 for percentages); scales to the data otherwise
+  maxValue?: number;
+  // Samples further apart than this are drawn as a gap
+  gapSeconds: number;
+  formatValue: (value: number) => string;
+  formatTime: (timestamp: string) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 48 };
+const GRID_LINES = 4;
+
+export default function MetricChart({
+  title,
+  subtitle,
+  timestamps,
+  series,
+  maxValue,
+  gapSeconds,
+  formatValue,
+  formatTime
+}: MetricChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const times = timestamps.map(timestamp => new Date(timestamp).getTime());
+  const start = times[0] ?? 0;
+  const span = Math.max((times[times.length - 1] ?? 0) - start, 1);
+
+  const dataMax = Math.max(0, ...series.flatMap(s => s.values.filter((v): v is number => v !== null)));
+  const yMax = maxValue ?? (dataMax > 0 ? dataMax * 1.1 : 1);
+
+  const x = (index: number) => PADDING.left + (times.length > 1 ? (times[index] - start) / span * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - Math.min(value / yMax, 1) * plotHeight;
+
+  // Break the line where a value is missing or samples are too far apart
+  const buildPath = (values: (number | null)[]) => {
+    let path = '';
+    let drawing = false;
+
+    values.forEach((value, index) => {
+      if (value === null) {
+        drawing = false;
+        return;
+      }
+      const gap = index > 0 && times[index] - times[index - 1] > gapSeconds * 1000;
+      path += `${drawing && !gap ? 'L' : 'M'}${x(index).toFixed(1)},${y(value).toFixed(1)} `;
+      drawing = true;
+    });
+
+    return path.trim();
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (times.length === 0) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pointerX = (e.clientX - rect.left) / rect.width * WIDTH;
+    const time = start + (pointerX - PADDING.left) / plotWidth * span;
+
+    let closest = 0;
+    times.forEach((t, index) => {
+      if (Math.abs(t - time) < Math.abs(times[closest] - time)) closest = index;
+    });
+    setHoverIndex(closest);
+  };
+
+  const xLabels = times.length > 1 ? [0, Math.floor((times.length - 1) / 2), times.length - 1] : [0];
+
+  return (
+    <div className="bg-white shadow-soft rounded-lg p-4">
+      <div className="flex items-start justify-between mb-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">{title}</h4>
+          {subtitle && <p className="text-xs text-gray-500">{subtitle}</p>}
+        </div>
+        <div className="flex flex-wrap justify-end gap-x-3 text-xs">
+          {series.map(s => (
+            <span key={s.name} className={`inline-flex items-center ${s.color}`}>
+              <span className="inline-block w-3 h-0.5 bg-current mr-1"></span>
+              <span className="text-gray-600">
+                {s.name}
+                {hoverIndex !== null && s.values[hoverIndex] !== null && `: ${formatValue(s.values[hoverIndex]!)}`}
+              </span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {timestamps.length === 0 ? (
+        <div className="flex items-center justify-center text-sm text-gray-500" style={{ height: HEIGHT }}>
+          ไม่มีข้อมูลในช่วงเวลานี้
+        </div>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+            const value = yMax / GRID_LINES * i;
+            return (
+              <g key={i}>
+                <line
+                  x1={PADDING.left}
+                  x2={WIDTH - PADDING.right}
+                  y1={y(value)}
+                  y2={y(value)}
+                  className="stroke-gray-100"
+                />
+                <text x={PADDING.left - 6} y={y(value) + 3} textAnchor="end" className="fill-gray-400 text-[10px]">
+                  {formatValue(value)}
+                </text>
+              </g>
+            );
+          })}
+
+          {xLabels.map((index, i) => (
+            <text
+              key={index}
+              x={x(index)}
+              y={HEIGHT - 6}
+              textAnchor={i === 0 ? 'start' : i === xLabels.length - 1 ? 'end' : 'middle'}
+              className="fill-gray-400 text-[10px]"
+            >
+              {formatTime(timestamps[index])}
+            </text>
+          ))}
+
+          {series.map(s => (
+            <path
+              key={s.name}
+              d={buildPath(s.values)}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={1.5}
+              strokeLinejoin="round"
+              className={s.color}
+            />
+          ))}
+
+          {hoverIndex !== null && (
+            <g>
+              <line
+                x1={x(hoverIndex)}
+                x2={x(hoverIndex)}
+                y1={PADDING.top}
+                y2={PADDING.top + plotHeight}
+                className="stroke-gray-300"
+                strokeDasharray="3 3"
+              />
+              <text x={x(hoverIndex)} y={PADDING.top + 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+                {formatTime(timestamps[hoverIndex])}
+              </text>
+            </g>
+          )}
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BarChart3, RefreshCw } from 'lucide-react';
+import MetricChart from '@/components/MetricChart';
+import { formatBytes } from '@/lib/utils';
+import type { ApiResponse, MetricRange, ServerMetricHistory } from '@/types';
+
+const RANGE_LABELS: Record<MetricRange, string> = {
+  '1h': '1 ชั่วโมง',
+  '24h': '24 ชั่วโมง',
+  '7d': '7 วัน',
+  '30d': '30 วัน'
+};
+
+interface MetricHistoryPanelProps {
+  serverId: number;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(0)}%`;
+
+// Days until the disk is full at the rate it grew over the range, or null if it is not growing
+function estimateDaysUntilFull(history: ServerMetricHistory): number | null {
+  const points = history.points;
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const elapsedDays = (new Date(last.timestamp).getTime() - new Date(first.timestamp).getTime()) / 86400000;
+  if (elapsedDays <= 0) return null;
+
+  const growthPerDay = (last.diskUsage - first.diskUsage) / elapsedDays;
+  if (growthPerDay <= 0) return null;
+  return (100 - last.diskUsage) / growthPerDay;
+}
+
+export default function MetricHistoryPanel({ serverId }: MetricHistoryPanelProps) {
+  const [range, setRange] = useState<MetricRange>('24h');
+  const [history, setHistory] = useState<ServerMetricHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [serverId, range]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (!token) return;
+
+      const response = await fetch(`/api/servers/${serverId}/metrics?range=${range}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data: ApiResponse<ServerMetricHistory> = await response.json();
+      if (data.success && data.data) {
+        setHistory(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch metrics history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return range === '1h' || range === '24h'
+      ? date.toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString('th-TH', { day: 'numeric', month: 'short' });
+  };
+
+  const points = history?.points || [];
+  const timestamps = points.map(point => point.timestamp);
+  // Allow one missing bucket before breaking the line
+  const gapSeconds = (history?.bucketSeconds || 60) * 2.5;
+
+  const latest = points[points.length - 1];
+  const daysUntilFull = history ? estimateDaysUntilFull(history) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <BarChart3 className="h-5 w-5 text-blue-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">ประวัติการใช้ทรัพยากร</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="inline-flex rounded-md shadow-sm">
+            {(Object.keys(RANGE_LABELS) as MetricRange[]).map((value, index, all) => (
+              <button
+                key={value}
+                onClick={() => setRange(value)}
+                className={`px-3 py-1.5 text-sm font-medium border border-gray-300 ${
+                  index === 0 ? 'rounded-l-md' : '-ml-px'
+                } ${index === all.length - 1 ? 'rounded-r-md' : ''} ${
+                  range === value ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {RANGE_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={fetchHistory}
+            disabled={loading}
+            className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="รีเฟรช"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {loading && !history ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {[0, 1, 2, 3].map(i => (
+            <div key={i} className="bg-white shadow-soft rounded-lg p-4 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/3 mb-4"></div>
+              <div className="h-40 bg-gray-100 rounded"></div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <MetricChart
+            title="CPU"
+            timestamps={timestamps}
+            series={[
+              { name: 'เฉลี่ย', color: 'text-blue-600', values: points.map(point => point.cpuUsage) },
+              { name: 'สูงสุด', color: 'text-blue-300', values: points.map(point => point.cpuMax) }
+            ]}
+            maxValue={100}
+            gapSeconds={gapSeconds}
+            formatValue={formatPercent}
+            formatTime={formatTime}
+          />
+          <MetricChart
+            title="หน่วยความจำ"
+            timestamps={timestamps}
+            series={[
+              { name: 'ใช้งาน', color: 'text-green-600', values: points.map(point => point.memoryUsage) }
+            ]}
+            maxValue={100}
+            gapSeconds={gapSeconds}
+            formatValue={formatPercent}
+            formatTime={formatTime}
+          />
+          <MetricChart
+            title="พื้นที่เก็บข้อมูล (/)"
+            subtitle={latest
+              ? `ใช้ไป ${formatBytes(latest.diskUsed)}${daysUntilFull !== null
+                ? ` · จะเต็มในประมาณ ${daysUntilFull < 1 ? 'ไม่ถึง 1' : Math.round(daysUntilFull)} วันตามอัตราปัจจุบัน`
+                : ''}`
+              : undefined}
+            timestamps={timestamps}
+            series={[
+              { name: 'ใช้งาน', color: 'text-purple-600', values: points.map(point => point.diskUsage) }
+            ]}
+            maxValue={100}
+            gapSeconds={gapSeconds}
+            formatValue={formatPercent}
+            formatTime={formatTime}
+          />
+          <MetricChart
+            title="Load Average (1 นาที)"
+            timestamps={timestamps}
+            series={[
+              { name: 'Load', color: 'text-orange-500', values: points.map(point => point.load1) }
+            ]}
+            gapSeconds={gapSeconds}
+            formatValue={value => value.toFixed(2)}
+            formatTime={formatTime}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,572 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Send, Plus, Edit, Trash2, X, CheckCircle, XCircle } from 'lucide-react';
+import Swal from 'sweetalert2';
+import type {
+  ApiResponse,
+  NotificationChannel,
+  NotificationChannelData,
+  NotificationChannelType,
+  NotificationEventType,
+  NotificationDelivery
+} from '@/types';
+
+const TYPE_LABELS: Record<NotificationChannelType, string> = {
+  WEBHOOK: 'Webhook',
+  EMAIL: 'อีเมล (SMTP)',
+  SLACK: 'Slack',
+  LINE: 'LINE Notify'
+};
+
+const EVENT_LABELS: Record<NotificationEventType, string> = {
+  SERVER_ERROR: 'เซิร์ฟเวอร์เชื่อมต่อไม่ได้',
+  SERVER_RECOVERED: 'เซิร์ฟเวอร์กลับมาใช้งานได้',
+  SCRIPT_COMPLETED: 'สคริปต์ทำงานสำเร็จ',
+  SCRIPT_FAILED: 'สคริปต์ล้มเหลว',
+  ALERT_FIRED: 'เกิดการแจ้งเตือน',
+  ALERT_RESOLVED: 'การแจ้งเตือนถูกปิด',
+  APPROVAL_REQUESTED: 'มีคำขออนุมัติรันสคริปต์'
+};
+
+// Label of the secret field per channel type
+const SECRET_LABELS: Record<NotificationChannelType, string> = {
+  WEBHOOK: 'Secret สำหรับลงลายมือชื่อ (HMAC-SHA256)',
+  EMAIL: 'รหัสผ่าน SMTP',
+  SLACK: 'Webhook URL',
+  LINE: 'Access Token'
+};
+
+interface ChannelForm {
+  name: string;
+  type: NotificationChannelType;
+  url: string;
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  from: string;
+  // Comma-separated in the form, sent as an array
+  to: string;
+  secret: string;
+  clearSecret: boolean;
+  events: NotificationEventType[];
+  isActive: boolean;
+}
+
+const emptyForm: ChannelForm = {
+  name: '',
+  type: 'WEBHOOK',
+  url: '',
+  host: '',
+  port: 587,
+  secure: false,
+  username: '',
+  from: '',
+  to: '',
+  secret: '',
+  clearSecret: false,
+  events: ['SERVER_ERROR', 'SCRIPT_FAILED', 'ALERT_FIRED'],
+  isActive: true
+};
+
+export default function NotificationChannelsPanel() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [editingHasSecret, setEditingHasSecret] = useState(false);
+  const [form, setForm] = useState<ChannelForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchChannels();
+    fetchDeliveries();
+  }, []);
+
+  const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+  });
+
+  const fetchChannels = async () => {
+    try {
+      const response = await fetch('/api/notifications/channels', { headers: authHeaders() });
+      const data: ApiResponse<NotificationChannel[]> = await response.json();
+      if (data.success && data.data) {
+        setChannels(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch notification channels:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async () => {
+    try {
+      const response = await fetch('/api/notifications/deliveries?limit=20', { headers: authHeaders() });
+      const data: ApiResponse<NotificationDelivery[]> = await response.json();
+      if (data.success && data.data) {
+        setDeliveries(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch notification deliveries:', error);
+    }
+  };
+
+  const startEdit = (channel?: NotificationChannel) => {
+    setEditingId(channel ? channel.id : 'new');
+    setEditingHasSecret(!!channel?.hasSecret);
+    setForm(channel ? {
+      name: channel.name,
+      type: channel.type,
+      url: channel.config.url || '',
+      host: channel.config.host || '',
+      port: channel.config.port || 587,
+      secure: !!channel.config.secure,
+      username: channel.config.username || '',
+      from: channel.config.from || '',
+      to: (channel.config.to || []).join(', '),
+      secret: '',
+      clearSecret: false,
+      events: channel.events,
+      isActive: channel.isActive
+    } : emptyForm);
+  };
+
+  const toggleEvent = (event: NotificationEventType) => {
+    setForm(prev => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter(e => e !== event)
+        : [...prev.events, event]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const payload: NotificationChannelData = {
+      name: form.name,
+      type: form.type,
+      config: {
+        url: form.url || undefined,
+        host: form.host,
+        port: form.port,
+        secure: form.secure,
+        username: form.username,
+        from: form.from,
+        to: form.to.split(',').map(address => address.trim()).filter(Boolean)
+      },
+      // Empty keeps the stored secret
+      secret: form.clearSecret ? null : form.secret,
+      events: form.events,
+      isActive: form.isActive
+    };
+
+    try {
+      const response = await fetch(
+        editingId === 'new' ? '/api/notifications/channels' : `/api/notifications/channels/${editingId}`,
+        {
+          method: editingId === 'new' ? 'POST' : 'PUT',
+          headers: authHeaders(),
+          body: JSON.stringify(payload)
+        }
+      );
+      const data: ApiResponse<NotificationChannel> = await response.json();
+
+      if (data.success) {
+        setEditingId(null);
+        await fetchChannels();
+      } else {
+        await Swal.fire({
+          title: 'เกิดข้อผิดพลาด',
+          text: data.error || 'ไม่สามารถบันทึกช่องทางการแจ้งเตือนได้',
+          icon: 'error'
+        });
+      }
+    } catch (error) {
+      await Swal.fire({
+        title: 'เกิดข้อผิดพลาด',
+        text: 'ไม่สามารถบันทึกช่องทางการแจ้งเตือนได้',
+        icon: 'error'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const testChannel = async (channel: NotificationChannel) => {
+    setTestingId(channel.id);
+    try {
+      const response = await fetch(`/api/notifications/channels/${channel.id}/test`, {
+        method: 'POST',
+        headers: authHeaders()
+      });
+      const data: ApiResponse = await response.json();
+
+      await Swal.fire({
+        title: data.success ? 'ส่งข้อความทดสอบแล้ว' : 'ส่งข้อความทดสอบไม่สำเร็จ',
+        text: data.success ? `ส่งไปยังช่องทาง "${channel.name}" เรียบร้อย` : data.error,
+        icon: data.success ? 'success' : 'error'
+      });
+    } catch (error) {
+      console.error('Failed to test notification channel:', error);
+    } finally {
+      setTestingId(null);
+      fetchDeliveries();
+    }
+  };
+
+  const deleteChannel = async (channel: NotificationChannel) => {
+    const result = await Swal.fire({
+      title: 'ลบช่องทางการแจ้งเตือน?',
+      text: `ช่องทาง "${channel.name}" และประวัติการส่งของช่องทางนี้จะถูกลบ`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#dc2626',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: 'ลบ',
+      cancelButtonText: 'ยกเลิก'
+    });
+
+    if (!result.isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/notifications/channels/${channel.id}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      });
+      const data: ApiResponse = await response.json();
+      if (data.success) {
+        await fetchChannels();
+        await fetchDeliveries();
+      } else {
+        await Swal.fire({ title: 'เกิดข้อผิดพลาด', text: data.error, icon: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to delete notification channel:', error);
+    }
+  };
+
+  const describeTarget = (channel: NotificationChannel) => {
+    switch (channel.type) {
+      case 'WEBHOOK': return channel.config.url;
+      case 'EMAIL': return (channel.config.to || []).join(', ');
+      case 'LINE': return channel.config.url || 'LINE Notify';
+      case 'SLACK': return channel.hasSecret ? 'Slack webhook' : '-';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white shadow-soft rounded-lg p-6 animate-pulse">
+        <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+        <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow-soft rounded-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <Send className="h-6 w-6 text-blue-600 mr-3" />
+          <h3 className="text-lg font-medium text-gray-900">ช่องทางการแจ้งเตือน</h3>
+        </div>
+        {editingId === null && (
+          <button onClick={() => startEdit()} className="btn-primary">
+            <Plus className="h-4 w-4 mr-2" />
+            เพิ่มช่องทาง
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-900">
+              {editingId === 'new' ? 'เพิ่มช่องทางการแจ้งเตือน' : 'แก้ไขช่องทางการแจ้งเตือน'}
+            </h4>
+            <button type="button" onClick={() => setEditingId(null)} className="p-1 hover:bg-gray-100 rounded-md">
+              <X className="h-4 w-4 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">ชื่อช่องทาง</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                className="form-input"
+                placeholder="เช่น ทีม Ops"
+                required
+              />
+            </div>
+            <div>
+              <label className="form-label">ประเภท</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as NotificationChannelType }))}
+                className="form-input"
+              >
+                {(Object.keys(TYPE_LABELS) as NotificationChannelType[]).map(type => (
+                  <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            {(form.type === 'WEBHOOK' || form.type === 'LINE') && (
+              <div className="md:col-span-2">
+                <label className="form-label">{form.type === 'WEBHOOK' ? 'Webhook URL' : 'Endpoint (ไม่บังคับ)'}</label>
+                <input
+                  type="url"
+                  value={form.url}
+                  onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                  className="form-input"
+                  placeholder={form.type === 'WEBHOOK' ? 'https://example.com/hooks/ssh-panel' : 'https://notify-api.line.me/api/notify'}
+                  required={form.type === 'WEBHOOK'}
+                />
+              </div>
+            )}
+
+            {form.type === 'EMAIL' && (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="col-span-2">
+                    <label className="form-label">SMTP Host</label>
+                    <input
+                      type="text"
+                      value={form.host}
+                      onChange={(e) => setForm(prev => ({ ...prev, host: e.target.value }))}
+                      className="form-input"
+                      placeholder="smtp.example.com"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="form-label">Port</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="65535"
+                      value={form.port}
+                      onChange={(e) => setForm(prev => ({ ...prev, port: parseInt(e.target.value) || 587 }))}
+                      className="form-input"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="form-label">ชื่อผู้ใช้ SMTP</label>
+                  <input
+                    type="text"
+                    value={form.username}
+                    onChange={(e) => setForm(prev => ({ ...prev, username: e.target.value }))}
+                    className="form-input"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">ผู้ส่ง</label>
+                  <input
+                    type="text"
+                    value={form.from}
+                    onChange={(e) => setForm(prev => ({ ...prev, from: e.target.value }))}
+                    className="form-input"
+                    placeholder="SSH Panel <alerts@example.com>"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="form-label">ผู้รับ</label>
+                  <input
+                    type="text"
+                    value={form.to}
+                    onChange={(e) => setForm(prev => ({ ...prev, to: e.target.value }))}
+                    className="form-input"
+                    placeholder="ops@example.com, admin@example.com"
+                    required
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.secure}
+                      onChange={(e) => setForm(prev => ({ ...prev, secure: e.target.checked }))}
+                      className="rounded border-gray-300 text-blue-600 mr-2"
+                    />
+                    ใช้ TLS ตั้งแต่เริ่มเชื่อมต่อ (โดยปกติคือพอร์ต 465)
+                  </label>
+                </div>
+              </>
+            )}
+
+            <div className="md:col-span-2">
+              <label className="form-label">{SECRET_LABELS[form.type]}</label>
+              <input
+                type="password"
+                value={form.secret}
+                onChange={(e) => setForm(prev => ({ ...prev, secret: e.target.value, clearSecret: false }))}
+                className="form-input"
+                placeholder={editingHasSecret ? 'เว้นว่างเพื่อใช้ค่าเดิม' : ''}
+                autoComplete="new-password"
+              />
+              {editingHasSecret && form.type === 'WEBHOOK' && (
+                <label className="inline-flex items-center mt-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.clearSecret}
+                    onChange={(e) => setForm(prev => ({ ...prev, clearSecret: e.target.checked, secret: '' }))}
+                    className="rounded border-gray-300 text-blue-600 mr-2"
+                  />
+                  ไม่ลงลายมือชื่อ (ลบ secret เดิม)
+                </label>
+              )}
+              <p className="mt-1 text-xs text-gray-500">ค่านี้ถูกเข้ารหัสก่อนจัดเก็บและจะไม่แสดงอีก</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="form-label">เหตุการณ์ที่แจ้งเตือน</label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 border border-gray-200 rounded-md p-3">
+              {(Object.keys(EVENT_LABELS) as NotificationEventType[]).map(event => (
+                <label key={event} className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="rounded border-gray-300 text-blue-600 mr-2"
+                  />
+                  {EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm(prev => ({ ...prev, isActive: e.target.checked }))}
+                className="rounded border-gray-300 text-blue-600 mr-2"
+              />
+              เปิดใช้งาน
+            </label>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                ยกเลิก
+              </button>
+              <button type="submit" disabled={isSaving} className="btn-primary">
+                {isSaving ? 'กำลังบันทึก...' : 'บันทึก'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {channels.length === 0 ? (
+        <p className="text-sm text-gray-500">ยังไม่มีช่องทางการแจ้งเตือน</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">ชื่อช่องทาง</th>
+                <th className="py-2 pr-4 font-medium">ประเภท</th>
+                <th className="py-2 pr-4 font-medium">ปลายทาง</th>
+                <th className="py-2 pr-4 font-medium">เหตุการณ์</th>
+                <th className="py-2 pr-4 font-medium">สถานะ</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {channels.map(channel => (
+                <tr key={channel.id}>
+                  <td className="py-2 pr-4 font-medium text-gray-900">{channel.name}</td>
+                  <td className="py-2 pr-4 text-gray-700">{TYPE_LABELS[channel.type]}</td>
+                  <td className="py-2 pr-4 text-gray-700 max-w-xs truncate">{describeTarget(channel)}</td>
+                  <td className="py-2 pr-4 text-gray-700">
+                    {channel.events.length === 0 ? '-' : channel.events.map(event => EVENT_LABELS[event]).join(', ')}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">{channel.isActive ? 'เปิดใช้งาน' : 'ปิดใช้งาน'}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => testChannel(channel)}
+                      disabled={testingId === channel.id}
+                      className="p-1 text-gray-400 hover:text-green-600 disabled:opacity-50"
+                      title="ส่งข้อความทดสอบ"
+                    >
+                      <Send className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => startEdit(channel)} className="p-1 text-gray-400 hover:text-blue-600 ml-2">
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => deleteChannel(channel)} className="p-1 text-gray-400 hover:text-red-600 ml-2">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-8">
+        <h4 className="text-sm font-medium text-gray-900 mb-3">ประวัติการส่งล่าสุด</h4>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">ยังไม่มีการส่งการแจ้งเตือน</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">เวลา</th>
+                  <th className="py-2 pr-4 font-medium">ช่องทาง</th>
+                  <th className="py-2 pr-4 font-medium">เรื่อง</th>
+                  <th className="py-2 pr-4 font-medium">ผลลัพธ์</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id}>
+                    <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">
+                      {new Date(delivery.createdAt).toLocaleString('th-TH')}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">
+                      {channels.find(channel => channel.id === delivery.channelId)?.name || `#${delivery.channelId}`}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{delivery.title}</td>
+                    <td className="py-2 pr-4">
+                      {delivery.status === 'SUCCESS' ? (
+                        <span className="inline-flex items-center text-green-700">
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          สำเร็จ{delivery.duration !== undefined && ` (${delivery.duration} ms)`}
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center text-red-700" title={delivery.error}>
+                          <XCircle className="h-4 w-4 mr-1" />
+                          ล้มเหลว{delivery.error && `: ${delivery.error.substring(0, 80)}`}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Play, Pause, RotateCcw, Search } from 'lucide-react';
+import { searchAsciicast, formatPlaybackTime, type Asciicast, type AsciicastSearchMatch } from '@/lib/asciicast';
+import 'xterm/css/xterm.css';
+
+interface RecordingPlayerProps {
+  cast: Asciicast;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+export default function RecordingPlayer({ cast }: RecordingPlayerProps) {
+  const terminalContainerRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<any>(null);
+  // Index of the next event to apply
+  const eventIndexRef = useRef(0);
+  // Wall clock reference for the current playback run
+  const clockRef = useRef<{ wallStart: number; timeStart: number }>({ wallStart: 0, timeStart: 0 });
+  const frameRef = useRef<number | null>(null);
+
+  const [isReady, setIsReady] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<AsciicastSearchMatch[]>([]);
+
+  // Write all events up to `time` in one go
+  const applyEventsUntil = useCallback((time: number) => {
+    const terminal = xtermRef.current;
+    if (!terminal) return;
+
+    let output = '';
+    while (eventIndexRef.current < cast.events.length && cast.events[eventIndexRef.current][0] <= time) {
+      const [, code, data] = cast.events[eventIndexRef.current];
+
+      if (code === 'o') {
+        output += data;
+      } else if (code === 'r') {
+        if (output) {
+          terminal.write(output);
+          output = '';
+        }
+        const [cols, rows] = data.split('x').map(Number);
+        if (cols && rows) {
+          terminal.resize(cols, rows);
+        }
+      }
+
+      eventIndexRef.current++;
+    }
+
+    if (output) {
+      terminal.write(output);
+    }
+  }, [cast]);
+
+  const seek = useCallback((time: number) => {
+    const terminal = xtermRef.current;
+    if (!terminal) return;
+
+    const target = Math.min(Math.max(time, 0), cast.duration);
+    terminal.reset();
+    terminal.resize(cast.header.width, cast.header.height);
+    eventIndexRef.current = 0;
+    applyEventsUntil(target);
+
+    clockRef.current = { wallStart: performance.now(), timeStart: target };
+    setCurrentTime(target);
+  }, [cast, applyEventsUntil]);
+
+  // Create the terminal
+  useEffect(() => {
+    let terminal: any = null;
+    let isCleanedUp = false;
+
+    const initXterm = async () => {
+      const { Terminal } = await import('xterm');
+
+      if (isCleanedUp || !terminalContainerRef.current) {
+        return;
+      }
+
+      terminal = new Terminal({
+        cols: cast.header.width,
+        rows: cast.header.height,
+        disableStdin: true,
+        cursorBlink: false,
+        fontSize: 14,
+        fontFamily: 'JetBrains Mono, Fira Code, Monaco, Consolas, "Courier New", monospace',
+        lineHeight: 1.2,
+        theme: {
+          background: '#0d1117',
+          foreground: '#c9d1d9',
+          cursor: '#58a6ff'
+        },
+        scrollback: 10000
+      });
+
+      terminal.open(terminalContainerRef.current);
+      xtermRef.current = terminal;
+      eventIndexRef.current = 0;
+      setIsReady(true);
+    };
+
+    initXterm();
+
+    return () => {
+      isCleanedUp = true;
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+      }
+      terminal?.dispose();
+      xtermRef.current = null;
+    };
+  }, [cast]);
+
+  // Playback loop
+  useEffect(() => {
+    if (!isPlaying || !isReady) return;
+
+    clockRef.current = { wallStart: performance.now(), timeStart: currentTime };
+
+    const tick = () => {
+      const { wallStart, timeStart } = clockRef.current;
+      const time = timeStart + ((performance.now() - wallStart) / 1000) * speed;
+
+      applyEventsUntil(time);
+
+      if (time >= cast.duration) {
+        setCurrentTime(cast.duration);
+        setIsPlaying(false);
+        return;
+      }
+
+      setCurrentTime(time);
+      frameRef.current = requestAnimationFrame(tick);
+    };
+
+    frameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+    // currentTime is read only when (re)starting playback
+  }, [isPlaying, isReady, speed, cast, applyEventsUntil]);
+
+  const togglePlay = () => {
+    if (!isPlaying && currentTime >= cast.duration) {
+      seek(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    seek(parseFloat(e.target.value));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMatches(searchAsciicast(cast, query));
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white shadow-soft rounded-lg overflow-hidden">
+        <div className="bg-[#0d1117] p-2 overflow-auto">
+          <div ref={terminalContainerRef} />
+        </div>
+
+        {/* Controls */}
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center space-x-3">
+          <button
+            onClick={togglePlay}
+            disabled={!isReady}
+            className="p-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            title={isPlaying ? 'หยุดชั่วคราว' : 'เล่น'}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => seek(0)}
+            disabled={!isReady}
+            className="p-2 rounded-md text-gray-700 border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            title="เริ่มใหม่"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </button>
+
+          <span className="text-sm font-mono text-gray-600 w-24 text-right">
+            {formatPlaybackTime(currentTime)}
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={cast.duration || 0}
+            step={0.1}
+            value={currentTime}
+            onChange={handleSeek}
+            disabled={!isReady}
+            className="flex-1"
+          />
+          <span className="text-sm font-mono text-gray-600 w-24">
+            {formatPlaybackTime(cast.duration)}
+          </span>
+
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(parseFloat(e.target.value))}
+            className="text-sm border border-gray-300 rounded px-2 py-1"
+          >
+            {SPEEDS.map(value => (
+              <option key={value} value={value}>{value}x</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white shadow-soft rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <form onSubmit={handleSearch} className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="ค้นหาข้อความในเซสชัน..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-10 form-input"
+            />
+          </form>
+        </div>
+        <div className="max-h-[28rem] overflow-y-auto divide-y divide-gray-100">
+          {matches.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              {query ? 'ไม่พบข้อความที่ค้นหา' : 'ค้นหาคำสั่งหรือผลลัพธ์ แล้วคลิกเพื่อข้ามไปยังตำแหน่งนั้น'}
+            </p>
+          ) : (
+            matches.map((match, index) => (
+              <button
+                key={index}
+                onClick={() => seek(match.time)}
+                className="w-full text-left px-4 py-2 hover:bg-gray-50"
+              >
+                <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                  <span className="font-mono">{formatPlaybackTime(match.time)}</span>
+                  <span className={`px-1.5 py-0.5 rounded ${match.code === 'i' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'}`}>
+                    {match.code === 'i' ? 'input' : 'output'}
+                  </span>
+                </div>
+                <div className="font-mono text-xs text-gray-900 truncate">{match.excerpt}</div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { Plus, Trash2, ArrowUp, ArrowDown, ShieldCheck } from 'lucide-react';
+import { normalizeTags } from '@/lib/utils';
+import type { RunbookStep, RunStrategy, Server } from '@/types';
+
+interface RunbookStepEditorProps {
+  steps: RunbookStep[];
+  servers: Server[];
+  onChange: (steps: RunbookStep[]) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 600;
+
+const newStep = (number: number): RunbookStep => ({
+  name: `Step ${number}`,
+  command: '',
+  serverIds: [],
+  tags: [],
+  timeoutSeconds: DEFAULT_TIMEOUT_SECONDS,
+  retries: 0,
+  onFailure: 'abort',
+  requiresApproval: false
+});
+
+/**
+ * Edit the ordered steps of a runbook
+ */
+export default function RunbookStepEditor({ steps, servers, onChange, disabled }: RunbookStepEditorProps) {
+  const update = (index: number, changes: Partial<RunbookStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const moved = [...steps];
+    [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+    onChange(moved);
+  };
+
+  const toggleServer = (index: number, serverId: number) => {
+    const { serverIds } = steps[index];
+    update(index, {
+      serverIds: serverIds.includes(serverId) ? serverIds.filter(id => id !== serverId) : [...serverIds, serverId]
+    });
+  };
+
+  const setMode = (index: number, mode: RunStrategy['mode']) => {
+    update(index, { strategy: mode === 'parallel' ? { mode, concurrency: 5 } : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      {steps.length === 0 && (
+        <p className="text-sm text-gray-500">No steps yet. Steps run in order, each on its own servers.</p>
+      )}
+
+      {steps.map((step, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          {step.requiresApproval && (
+            <div className="flex items-center text-sm text-yellow-700 bg-yellow-50 rounded px-3 py-1.5">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Waits for approval before it starts
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <span className="flex-shrink-0 w-7 h-7 rounded-full bg-blue-100 text-blue-700 text-sm font-medium flex items-center justify-center">
+              {index + 1}
+            </span>
+            <input
+              type="text"
+              value={step.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              className="form-input flex-1"
+              placeholder="e.g., Drain from load balancer"
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30"
+              title="Move up"
+              disabled={disabled || index === 0}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30"
+              title="Move down"
+              disabled={disabled || index === steps.length - 1}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(steps.filter((_, i) => i !== index))}
+              className="p-2 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+              title="Remove step"
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+
+          <textarea
+            value={step.command}
+            onChange={(e) => update(index, { command: e.target.value })}
+            className="form-input font-mono text-sm"
+            rows={3}
+            placeholder="Command to run on each server"
+            disabled={disabled}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="form-label">Servers</label>
+              <div className="border border-gray-200 rounded-lg max-h-32 overflow-y-auto divide-y divide-gray-100">
+                {servers.map(server => (
+                  <label key={server.id} className="flex items-center px-3 py-1 text-sm text-gray-700 hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={step.serverIds.includes(server.id)}
+                      onChange={() => toggleServer(index, server.id)}
+                      className="mr-2"
+                      disabled={disabled}
+                    />
+                    {server.name}
+                    <span className="ml-2 text-xs text-gray-400">{server.host}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="form-label">Server tags</label>
+              {/* Parsed on blur, so commas can be typed; remounts when the tags are replaced */}
+              <input
+                key={step.tags.join(',')}
+                type="text"
+                defaultValue={step.tags.join(', ')}
+                onBlur={(e) => update(index, { tags: normalizeTags(e.target.value.split(',')) })}
+                className="form-input"
+                placeholder="web, production"
+                disabled={disabled}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Active servers with any of these tags are added when the step starts.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="form-label">Servers run</label>
+              <select
+                value={step.strategy?.mode || 'sequential'}
+                onChange={(e) => setMode(index, e.target.value as RunStrategy['mode'])}
+                className="form-input"
+                disabled={disabled}
+              >
+                <option value="sequential">One at a time</option>
+                <option value="parallel">In parallel</option>
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Timeout (seconds)</label>
+              <input
+                type="number"
+                min={1}
+                value={step.timeoutSeconds}
+                onChange={(e) => update(index, { timeoutSeconds: Number(e.target.value) || 0 })}
+                className="form-input"
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="form-label">Retries</label>
+              <input
+                type="number"
+                min={0}
+                value={step.retries}
+                onChange={(e) => update(index, { retries: Number(e.target.value) || 0 })}
+                className="form-input"
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="form-label">If it fails</label>
+              <select
+                value={step.onFailure}
+                onChange={(e) => update(index, { onFailure: e.target.value as RunbookStep['onFailure'] })}
+                className="form-input"
+                disabled={disabled}
+              >
+                <option value="abort">Abort the runbook</option>
+                <option value="continue">Continue</option>
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={step.requiresApproval}
+              onChange={(e) => update(index, { requiresApproval: e.target.checked })}
+              className="mr-2"
+              disabled={disabled}
+            />
+            Require approval before this step
+          </label>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...steps, newStep(steps.length + 1)])}
+        className="text-sm text-blue-600 hover:text-blue-800 flex items-center disabled:opacity-50"
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Step
+      </button>
+    </div>
+  );
+}
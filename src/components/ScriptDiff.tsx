@@ -0,0 +1,50 @@
+'use client';
+
+import { useMemo } from 'react';
+import { diffLines } from '@/lib/line-diff';
+
+interface ScriptDiffProps {
+  oldText: string;
+  newText: string;
+}
+
+const LINE_CLASSES = {
+  same: 'text-gray-300',
+  added: 'bg-green-900/60 text-green-200',
+  removed: 'bg-red-900/60 text-red-200'
+};
+
+const LINE_MARKERS = {
+  same: ' ',
+  added: '+',
+  removed: '-'
+};
+
+/**
+ * Unified line diff between two versions of a command
+ */
+export default function ScriptDiff({ oldText, newText }: ScriptDiffProps) {
+  const lines = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+  const changed = lines.some(line => line.type !== 'same');
+
+  if (!changed) {
+    return <p className="text-sm text-gray-500">Command is unchanged</p>;
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-lg overflow-auto max-h-96 font-mono text-xs">
+      <table className="min-w-full">
+        <tbody>
+          {lines.map((line, index) => (
+            <tr key={index} className={LINE_CLASSES[line.type]}>
+              <td className="px-2 text-right text-gray-500 select-none w-10">{line.oldNumber ?? ''}</td>
+              <td className="px-2 text-right text-gray-500 select-none w-10">{line.newNumber ?? ''}</td>
+              <td className="px-1 select-none w-4">{LINE_MARKERS[line.type]}</td>
+              <td className="pr-4 whitespace-pre">{line.text}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { PARAMETER_TYPES } from '@/lib/script-parameters';
+import type { ScriptParameter, ScriptParameterType } from '@/types';
+
+interface ScriptParameterEditorProps {
+  parameters: ScriptParameter[];
+  onChange: (parameters: ScriptParameter[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Edit the parameter definitions of a saved script or quick command
+ */
+export default function ScriptParameterEditor({ parameters, onChange, disabled }: ScriptParameterEditorProps) {
+  const update = (index: number, changes: Partial<ScriptParameter>) => {
+    onChange(parameters.map((parameter, i) => (i === index ? { ...parameter, ...changes } : parameter)));
+  };
+
+  const setType = (index: number, type: ScriptParameterType) => {
+    // Type-specific settings and the default would no longer fit the new type
+    const { name, label, description, required } = parameters[index];
+    onChange(parameters.map((parameter, i) => (
+      i === index ? { name, label, description, required, type, ...(type === 'enum' && { options: [] }) } : parameter
+    )));
+  };
+
+  const add = () => {
+    onChange([...parameters, { name: `param${parameters.length + 1}`, type: 'string' }]);
+  };
+
+  const remove = (index: number) => {
+    onChange(parameters.filter((_, i) => i !== index));
+  };
+
+  const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  return (
+    <div className="space-y-3">
+      {parameters.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No parameters. Add one and use it in the command as {'{{name}}'}, unquoted.
+        </p>
+      )}
+
+      {parameters.map((parameter, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={parameter.name}
+              onChange={(e) => update(index, { name: e.target.value.trim() })}
+              className="form-input font-mono text-sm"
+              placeholder="name"
+              disabled={disabled}
+            />
+            <select
+              value={parameter.type}
+              onChange={(e) => setType(index, e.target.value as ScriptParameterType)}
+              className="form-input text-sm"
+              disabled={disabled}
+            >
+              {PARAMETER_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={parameter.label || ''}
+              onChange={(e) => update(index, { label: e.target.value || undefined })}
+              className="form-input text-sm"
+              placeholder="Label"
+              disabled={disabled}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {parameter.type === 'enum' && (
+              // Parsed on blur, so commas can be typed; remounts when the options are replaced
+              <input
+                key={(parameter.options || []).join(',')}
+                type="text"
+                defaultValue={(parameter.options || []).join(', ')}
+                onBlur={(e) => update(index, {
+                  options: e.target.value.split(',').map(option => option.trim()).filter(Boolean)
+                })}
+                className="form-input text-sm md:col-span-2"
+                placeholder="Options, comma separated"
+                disabled={disabled}
+              />
+            )}
+            {(parameter.type === 'string' || parameter.type === 'secret') && (
+              <input
+                type="text"
+                value={parameter.pattern || ''}
+                onChange={(e) => update(index, { pattern: e.target.value || undefined })}
+                className="form-input font-mono text-sm md:col-span-2"
+                placeholder="Pattern (regular expression, optional)"
+                disabled={disabled}
+              />
+            )}
+            {parameter.type === 'number' && (
+              <>
+                <input
+                  type="number"
+                  value={parameter.min ?? ''}
+                  onChange={(e) => update(index, { min: toNumber(e.target.value) })}
+                  className="form-input text-sm"
+                  placeholder="Min"
+                  disabled={disabled}
+                />
+                <input
+                  type="number"
+                  value={parameter.max ?? ''}
+                  onChange={(e) => update(index, { max: toNumber(e.target.value) })}
+                  className="form-input text-sm"
+                  placeholder="Max"
+                  disabled={disabled}
+                />
+              </>
+            )}
+            {parameter.type === 'boolean' ? (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={parameter.default === true}
+                  onChange={(e) => update(index, { default: e.target.checked })}
+                  className="mr-2"
+                  disabled={disabled}
+                />
+                Checked by default
+              </label>
+            ) : parameter.type !== 'secret' && (
+              <input
+                type={parameter.type === 'number' ? 'number' : 'text'}
+                value={parameter.default === undefined ? '' : String(parameter.default)}
+                onChange={(e) => update(index, {
+                  default: e.target.value === '' ? undefined
+                    : parameter.type === 'number' ? Number(e.target.value) : e.target.value
+                })}
+                className="form-input text-sm"
+                placeholder="Default"
+                disabled={disabled}
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={parameter.description || ''}
+              onChange={(e) => update(index, { description: e.target.value || undefined })}
+              className="form-input text-sm flex-1"
+              placeholder="Description"
+              disabled={disabled}
+            />
+            {parameter.type !== 'boolean' && (
+              <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={!!parameter.required}
+                  onChange={(e) => update(index, { required: e.target.checked || undefined })}
+                  className="mr-1"
+                  disabled={disabled}
+                />
+                Required
+              </label>
+            )}
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              className="p-2 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+              title="Remove parameter"
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={add}
+        className="text-sm text-blue-600 hover:text-blue-800 flex items-center disabled:opacity-50"
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Parameter
+      </button>
+    </div>
+  );
+}
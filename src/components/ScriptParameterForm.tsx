@@ -0,0 +1,80 @@
+'use client';
+
+import { parameterLabel } from '@/lib/script-parameters';
+import type { ScriptParameter, ScriptParameterValues } from '@/types';
+
+interface ScriptParameterFormProps {
+  parameters: ScriptParameter[];
+  values: ScriptParameterValues;
+  onChange: (values: ScriptParameterValues) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Inputs for the typed parameters of a script, prefilled with their defaults
+ */
+export default function ScriptParameterForm({ parameters, values, onChange, disabled }: ScriptParameterFormProps) {
+  if (parameters.length === 0) return null;
+
+  const setValue = (name: string, value: string | number | boolean) => {
+    onChange({ ...values, [name]: value });
+  };
+
+  const valueOf = (parameter: ScriptParameter) => values[parameter.name] ?? parameter.default ?? '';
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {parameters.map(parameter => (
+        <div key={parameter.name}>
+          {parameter.type === 'boolean' ? (
+            <label className="flex items-center text-sm text-gray-700 mt-6">
+              <input
+                type="checkbox"
+                checked={valueOf(parameter) === true || valueOf(parameter) === 'true'}
+                onChange={(e) => setValue(parameter.name, e.target.checked)}
+                className="mr-2"
+                disabled={disabled}
+              />
+              {parameterLabel(parameter)}
+            </label>
+          ) : (
+            <>
+              <label className="form-label">
+                {parameterLabel(parameter)}
+                {parameter.required && <span className="text-red-500 ml-0.5">*</span>}
+              </label>
+              {parameter.type === 'enum' ? (
+                <select
+                  value={String(valueOf(parameter))}
+                  onChange={(e) => setValue(parameter.name, e.target.value)}
+                  className="form-input"
+                  disabled={disabled}
+                >
+                  <option value="">Select...</option>
+                  {(parameter.options || []).map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={parameter.type === 'number' ? 'number' : parameter.type === 'secret' ? 'password' : 'text'}
+                  value={String(valueOf(parameter))}
+                  onChange={(e) => setValue(parameter.name, e.target.value)}
+                  min={parameter.min}
+                  max={parameter.max}
+                  className="form-input"
+                  placeholder={parameter.pattern ? `Format: ${parameter.pattern}` : undefined}
+                  autoComplete={parameter.type === 'secret' ? 'new-password' : undefined}
+                  disabled={disabled}
+                />
+              )}
+            </>
+          )}
+          {parameter.description && (
+            <p className="mt-1 text-xs text-gray-500">{parameter.description}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
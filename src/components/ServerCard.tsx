@@ -64,8 +64,21 @@ export default function ServerCard({ server, onEdit, onDelete, onConnect, onTerm
               <Server className="h-6 w-6 text-blue-600" />
             </div>
             <div>
-              <h3 className="text-lg font-medium text-gray-900">{server.name}</h3>
+              <h3 className="text-lg font-medium text-gray-900">
+                <a href={`/dashboard/servers/${server.id}`} className="hover:text-blue-600 transition-colors duration-150">
+                  {server.name}
+                </a>
+              </h3>
               <p className="text-sm text-gray-500">{server.host}:{server.port}</p>
+              {server.tags && server.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {server.tags.map(tag => (
+                    <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
           
@@ -1,39 +1,21 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { X, RotateCcw, Download, Loader2 } from 'lucide-react';
+import { X, RotateCcw, Download, Loader2, Upload } from 'lucide-react';
 import { io, Socket } from 'socket.io-client';
+import Swal from 'sweetalert2';
+import FileTransferList, { useFileTransfers } from './FileTransferList';
+import { getWebSocketUrl, createTransferId, uploadFile } from '@/lib/file-transfer-client';
 import type { TerminalProps } from '@/types';
 import 'xterm/css/xterm.css';
 
-// Helper function to get WebSocket URL
-function getWebSocketUrl(): string {
-  const wsUrl = process.env.NEXT_PUBLIC_WS_URL;
-  
-  if (wsUrl) {
-    return wsUrl;
-  }
-  
-  if (typeof window !== 'undefined') {
-    const protocol = window.location.protocol;
-    const hostname = window.location.hostname;
-    const wsPort = process.env.WS_PORT || '3005';
-    
-    if (hostname === 'localhost' || hostname === '127.0.0.1') {
-      return `${protocol}//${hostname}:${wsPort}`;
-    }
-    
-    return `${protocol}//ws-${hostname}`;
-  }
-  
-  return 'http://localhost:3005';
-}
-
 export default function Terminal({ serverId, serverName, onClose }: TerminalProps) {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [currentDir, setCurrentDir] = useState('~');
+  const [dragging, setDragging] = useState(false);
+  const { transfers, addTransfer, updateTransfer, removeTransfer, bindSocket } = useFileTransfers();
   
   const terminalContainerRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<any>(null);
@@ -91,6 +73,7 @@ export default function Terminal({ serverId, serverName, onClose }: TerminalProp
       reconnectionDelay: 1000,
       timeout: 20000,
     });
+    bindSocket(newSocket);
 
     newSocket.on('connect', () => {
       console.log('WebSocket connected');
@@ -146,6 +129,33 @@ export default function Terminal({ serverId, serverName, onClose }: TerminalProp
       isConnectingRef.current = false;
     });
 
+    // A typed line the security policy wants confirmed; the server holds its Enter
+    newSocket.on('terminal:confirm', async (data: { sessionId: string; command: string; warning?: string }) => {
+      const details = document.createElement('div');
+      details.className = 'text-left';
+      const warning = document.createElement('p');
+      warning.className = 'mb-2';
+      warning.textContent = data.warning || 'This command requires confirmation by the security policy.';
+      const code = document.createElement('pre');
+      code.className = 'bg-gray-100 p-3 rounded text-sm whitespace-pre-wrap max-h-32 overflow-auto';
+      code.textContent = data.command;
+      details.append(warning, code);
+
+      const result = await Swal.fire({
+        title: 'Confirmation Required',
+        html: details,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonColor: '#ef4444',
+        cancelButtonColor: '#6b7280',
+        confirmButtonText: 'Run Anyway',
+        cancelButtonText: 'Cancel'
+      });
+
+      newSocket.emit('terminal:confirmed', { sessionId: data.sessionId, confirmed: result.isConfirmed });
+      xtermRef.current?.focus();
+    });
+
     newSocket.on('terminal:closed', () => {
       console.log('Terminal session closed');
       setIsConnected(false);
@@ -175,7 +185,7 @@ export default function Terminal({ serverId, serverName, onClose }: TerminalProp
       }
     });
 
-  }, [serverId, fitTerminal]);
+  }, [serverId, fitTerminal, bindSocket]);
 
   // Initialize xterm.js
   useEffect(() => {
@@ -407,6 +417,72 @@ export default function Terminal({ serverId, serverName, onClose }: TerminalProp
     URL.revokeObjectURL(url);
   }, [serverName]);
 
+  // Upload dropped files to the working directory (home when it is not an absolute path)
+  const uploadDroppedFiles = useCallback(async (files: File[]) => {
+    const directory = currentDir.startsWith('/') ? currentDir : undefined;
+
+    for (const file of files) {
+      const transferId = createTransferId();
+      addTransfer({
+        transferId,
+        direction: 'upload',
+        name: file.name,
+        path: directory ? `${directory.replace(/\/$/, '')}/${file.name}` : file.name,
+        transferred: 0,
+        total: file.size,
+        status: 'running'
+      });
+
+      const options = { serverId, file, directory, transferId, socketId: socketRef.current?.id };
+      let result = await uploadFile(options);
+
+      if (result.status === 409) {
+        const confirm = await Swal.fire({
+          title: 'มีไฟล์นี้อยู่แล้ว',
+          text: `ต้องการเขียนทับ "${file.name}" หรือไม่?`,
+          icon: 'warning',
+          showCancelButton: true,
+          confirmButtonText: 'เขียนทับ',
+          cancelButtonText: 'ข้าม'
+        });
+        if (!confirm.isConfirmed) {
+          removeTransfer(transferId);
+          continue;
+        }
+        updateTransfer(transferId, { status: 'running', error: undefined });
+        result = await uploadFile({ ...options, overwrite: true });
+      }
+
+      updateTransfer(transferId, result.success
+        ? { status: 'completed', path: result.data?.path ?? file.name, transferred: result.data?.size ?? file.size }
+        : { status: 'failed', error: result.error || 'Upload failed' });
+
+      if (result.success && xtermRef.current) {
+        xtermRef.current.writeln(`\r\n\x1b[90mUploaded ${result.data?.path}\x1b[0m`);
+      }
+    }
+  }, [serverId, currentDir, addTransfer, updateTransfer, removeTransfer]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!isConnected || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragging(true);
+  }, [isConnected]);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDragging(false);
+    }
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(false);
+    uploadDroppedFiles(Array.from(e.dataTransfer.files));
+  }, [uploadDroppedFiles]);
+
   return (
     <div className="flex flex-col bg-gray-900 rounded-lg overflow-hidden shadow-2xl border border-gray-700 w-full h-full">
       {/* Title Bar */}
@@ -465,8 +541,11 @@ export default function Terminal({ serverId, serverName, onClose }: TerminalProp
 
       {/* Terminal Content */}
       <div 
-        className="flex-1 min-h-0 overflow-hidden"
+        className="flex-1 min-h-0 overflow-hidden relative"
         style={{ backgroundColor: '#0d1117' }}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
       >
         <div 
           ref={terminalContainerRef}
@@ -476,6 +555,21 @@ export default function Terminal({ serverId, serverName, onClose }: TerminalProp
             boxSizing: 'border-box'
           }}
         />
+
+        {dragging && (
+          <div className="absolute inset-0 bg-blue-900/40 border-2 border-dashed border-blue-400 flex items-center justify-center pointer-events-none">
+            <div className="text-center text-blue-100">
+              <Upload className="mx-auto h-10 w-10" />
+              <p className="mt-2 text-sm font-medium">Drop files to upload to {currentDir}</p>
+            </div>
+          </div>
+        )}
+
+        <FileTransferList
+          transfers={transfers}
+          onDismiss={removeTransfer}
+          className="absolute bottom-3 right-3 w-72 max-h-48 overflow-y-auto"
+        />
       </div>
 
       {/* Status Bar */}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldAlert, KeyRound, RefreshCw } from 'lucide-react';
+import Swal from 'sweetalert2';
+import type { ApiResponse, TwoFactorStatus, TwoFactorSetup } from '@/types';
+
+// Recovery codes are only returned once, so show them until the user confirms they saved them
+async function showRecoveryCodes(codes: string[]) {
+  await Swal.fire({
+    title: 'รหัสกู้คืน',
+    html: `
+      <p class="text-sm text-gray-600 mb-3">เก็บรหัสเหล่านี้ไว้ในที่ปลอดภัย แต่ละรหัสใช้เข้าสู่ระบบแทนรหัสจากแอปได้หนึ่งครั้ง</p>
+      <div class="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 rounded p-3">
+        ${codes.map(code => `<span>${code}</span>`).join('')}
+      </div>
+    `,
+    icon: 'info',
+    confirmButtonText: 'บันทึกรหัสแล้ว',
+    allowOutsideClick: false
+  });
+}
+
+export default function TwoFactorPanel() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  useEffect(() => {
+    if (!setup) {
+      setQrCode(null);
+      return;
+    }
+
+    import('qrcode')
+      .then(QRCode => QRCode.toDataURL(setup.otpauthUri, { width: 200, margin: 1 }))
+      .then(setQrCode)
+      .catch(error => console.error('Failed to render QR code:', error));
+  }, [setup]);
+
+  const request = async <T,>(url: string, method: string, body?: object): Promise<ApiResponse<T>> => {
+    const token = localStorage.getItem('auth_token');
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      ...(body && { body: JSON.stringify(body) })
+    });
+    return response.json();
+  };
+
+  const fetchStatus = async () => {
+    try {
+      const data = await request<TwoFactorStatus>('/api/profile/two-factor', 'GET');
+      if (data.success && data.data) {
+        setStatus(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch two-factor status:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (message?: string) => Swal.fire({
+    title: 'เกิดข้อผิดพลาด',
+    text: message || 'ไม่สามารถดำเนินการได้',
+    icon: 'error'
+  });
+
+  const beginSetup = async () => {
+    setIsSaving(true);
+    try {
+      const data = await request<TwoFactorSetup>('/api/profile/two-factor', 'POST');
+      if (data.success && data.data) {
+        setSetup(data.data);
+        setCode('');
+      } else {
+        await showError(data.error);
+      }
+    } catch (error) {
+      await showError();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const data = await request<{ recoveryCodes: string[] }>('/api/profile/two-factor', 'PUT', { code: code.trim() });
+      if (data.success && data.data) {
+        setSetup(null);
+        setCode('');
+        await showRecoveryCodes(data.data.recoveryCodes);
+        await fetchStatus();
+      } else {
+        setCode('');
+        await showError(data.error === 'Invalid verification code' ? 'รหัสยืนยันไม่ถูกต้อง' : data.error);
+      }
+    } catch (error) {
+      await showError();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const regenerateCodes = async () => {
+    const result = await Swal.fire({
+      title: 'สร้างรหัสกู้คืนใหม่?',
+      text: 'รหัสกู้คืนเดิมทั้งหมดจะใช้งานไม่ได้ กรอกรหัสจากแอป Authenticator เพื่อยืนยัน',
+      input: 'text',
+      inputPlaceholder: '000000',
+      showCancelButton: true,
+      confirmButtonText: 'สร้างใหม่',
+      cancelButtonText: 'ยกเลิก',
+      inputValidator: (value) => !value ? 'กรุณากรอกรหัสยืนยัน' : null
+    });
+
+    if (!result.isConfirmed) return;
+
+    try {
+      const data = await request<{ recoveryCodes: string[] }>(
+        '/api/profile/two-factor/recovery-codes',
+        'POST',
+        { code: result.value }
+      );
+      if (data.success && data.data) {
+        await showRecoveryCodes(data.data.recoveryCodes);
+        await fetchStatus();
+      } else {
+        await showError(data.error === 'Invalid verification code' ? 'รหัสยืนยันไม่ถูกต้อง' : data.error);
+      }
+    } catch (error) {
+      await showError();
+    }
+  };
+
+  const disable = async () => {
+    const result = await Swal.fire({
+      title: 'ปิดการยืนยันตัวตนสองขั้นตอน?',
+      html: `
+        <input id="swal-2fa-password" type="password" class="swal2-input" placeholder="รหัสผ่าน">
+        <input id="swal-2fa-code" type="text" class="swal2-input" placeholder="รหัสจากแอปหรือรหัสกู้คืน">
+      `,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#dc2626',
+      cancelButtonColor: '#6b7280',
+      confirmButtonText: 'ปิดใช้งาน',
+      cancelButtonText: 'ยกเลิก',
+      preConfirm: () => {
+        const password = (document.getElementById('swal-2fa-password') as HTMLInputElement).value;
+        const code = (document.getElementById('swal-2fa-code') as HTMLInputElement).value;
+        if (!password || !code) {
+          Swal.showValidationMessage('กรุณากรอกรหัสผ่านและรหัสยืนยัน');
+          return false;
+        }
+        return { password, code };
+      }
+    });
+
+    if (!result.isConfirmed) return;
+
+    try {
+      const data = await request('/api/profile/two-factor', 'DELETE', result.value);
+      if (data.success) {
+        await Swal.fire({
+          title: 'สำเร็จ',
+          text: 'ปิดการยืนยันตัวตนสองขั้นตอนแล้ว',
+          icon: 'success',
+          timer: 1500,
+          showConfirmButton: false
+        });
+        await fetchStatus();
+      } else {
+        await showError(data.error);
+      }
+    } catch (error) {
+      await showError();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white shadow-soft rounded-lg p-6 animate-pulse">
+        <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+        <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  if (!status) return null;
+
+  return (
+    <div className="bg-white shadow-soft rounded-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <KeyRound className="h-6 w-6 text-blue-600 mr-3" />
+          <h3 className="text-lg font-medium text-gray-900">การยืนยันตัวตนสองขั้นตอน (2FA)</h3>
+        </div>
+        {status.enabled ? (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+            <ShieldCheck className="h-3 w-3 mr-1" />
+            เปิดใช้งาน
+          </span>
+        ) : (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+            ปิดอยู่
+          </span>
+        )}
+      </div>
+
+      {status.required && !status.enabled && (
+        <div className="rounded-md bg-yellow-50 border border-yellow-200 p-4 mb-6 flex items-start">
+          <ShieldAlert className="h-5 w-5 text-yellow-600 mr-2 flex-shrink-0" />
+          <p className="text-sm text-yellow-800">
+            ผู้ดูแลระบบต้องเปิดใช้งานการยืนยันตัวตนสองขั้นตอนก่อนจึงจะเปิดเทอร์มินัลได้
+          </p>
+        </div>
+      )}
+
+      {status.enabled ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            การเข้าสู่ระบบต้องใช้รหัสจากแอป Authenticator · เหลือรหัสกู้คืน {status.recoveryCodesRemaining} รหัส
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={regenerateCodes}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              สร้างรหัสกู้คืนใหม่
+            </button>
+            {!status.required && (
+              <button
+                onClick={disable}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700"
+              >
+                ปิดใช้งาน
+              </button>
+            )}
+          </div>
+        </div>
+      ) : setup ? (
+        <form onSubmit={confirmSetup} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            สแกน QR code ด้วยแอป Authenticator (เช่น Google Authenticator, 1Password) แล้วกรอกรหัส 6 หลักเพื่อยืนยัน
+          </p>
+          <div className="flex flex-col md:flex-row md:items-center md:space-x-6 space-y-4 md:space-y-0">
+            <div className="h-[200px] w-[200px] flex items-center justify-center border rounded-lg bg-white">
+              {qrCode ? (
+                <img src={qrCode} alt="QR code สำหรับแอป Authenticator" className="h-[200px] w-[200px]" />
+              ) : (
+                <RefreshCw className="h-6 w-6 text-gray-400 animate-spin" />
+              )}
+            </div>
+            <div className="flex-1 space-y-3">
+              <div>
+                <label className="form-label">หรือกรอกรหัสลับด้วยตนเอง</label>
+                <code className="block text-sm font-mono bg-gray-50 rounded p-2 break-all">{setup.secret}</code>
+              </div>
+              <div>
+                <label className="form-label">รหัสยืนยัน</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="form-input font-mono tracking-widest"
+                  placeholder="000000"
+                  required
+                />
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              ยกเลิก
+            </button>
+            <button type="submit" disabled={isSaving || !code.trim()} className="btn-primary">
+              {isSaving ? 'กำลังตรวจสอบ...' : 'ยืนยันและเปิดใช้งาน'}
+            </button>
+          </div>
+        </form>
+      ) : status.enrollmentAllowed ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            เพิ่มความปลอดภัยให้บัญชีด้วยรหัสแบบใช้ครั้งเดียวจากแอป Authenticator ทุกครั้งที่เข้าสู่ระบบ
+          </p>
+          <button onClick={beginSetup} disabled={isSaving} className="btn-primary">
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {isSaving ? 'กำลังเตรียม...' : 'ตั้งค่าการยืนยันตัวตนสองขั้นตอน'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          ผู้ดูแลระบบยังไม่ได้เปิดใช้งานการยืนยันตัวตนสองขั้นตอน
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+/**
+ * Threshold alert rules - evaluated by the WebSocket server after each metrics collection round
+ * A rule fires once its condition has held for `duration` seconds on a server in scope and
+ * resolves itself when the condition clears. Firing and pending state is kept per rule and
+ * server; the pending timer is in memory, so a restart starts the duration over.
+ * An alert resolved by hand does not fire again until the condition has been seen clear.
+ */
+
+import type { AlertRule as AlertRuleRow, Prisma } from '@prisma/client';
+import { prisma } from './database';
+import { getLatestMetrics } from './server-metrics';
+import { normalizeTags } from './utils';
+import { notify } from './notifications';
+import type {
+  AlertRule,
+  AlertRuleData,
+  AlertEvent,
+  AlertMetric,
+  AlertComparator,
+  AlertSeverity,
+  ServerMetricSample
+} from '@/types';
+
+export const ALERT_METRICS: AlertMetric[] = [
+  'CPU_USAGE',
+  'MEMORY_USAGE',
+  'DISK_USAGE',
+  'LOAD_AVERAGE',
+  'NETWORK_IN',
+  'NETWORK_OUT',
+  'SERVER_OFFLINE'
+];
+export const ALERT_COMPARATORS: AlertComparator[] = ['GT', 'GTE', 'LT', 'LTE'];
+export const ALERT_SEVERITIES: AlertSeverity[] = ['INFO', 'WARNING', 'CRITICAL'];
+
+const METRIC_NAMES: Record<AlertMetric, string> = {
+  CPU_USAGE: 'CPU usage (%)',
+  MEMORY_USAGE: 'Memory usage (%)',
+  DISK_USAGE: 'Disk usage (%)',
+  LOAD_AVERAGE: 'Load average (1m)',
+  NETWORK_IN: 'Network in (bytes/s)',
+  NETWORK_OUT: 'Network out (bytes/s)',
+  SERVER_OFFLINE: 'Server offline'
+};
+
+const NOTIFICATION_SEVERITIES: Record<AlertSeverity, 'info' | 'warning' | 'critical'> = {
+  INFO: 'info',
+  WARNING: 'warning',
+  CRITICAL: 'critical'
+};
+
+const COMPARATOR_SYMBOLS: Record<AlertComparator, string> = {
+  GT: '>',
+  GTE: '>=',
+  LT: '<',
+  LTE: '<='
+};
+
+// Include for converting events with toAlertEvent
+export const alertEventInclude = {
+  rule: { select: { name: true, metric: true } },
+  server: { select: { name: true } },
+  acknowledgedBy: { select: { email: true } },
+  resolvedBy: { select: { email: true } }
+} satisfies Prisma.AlertEventInclude;
+
+type AlertEventRow = Prisma.AlertEventGetPayload<{ include: typeof alertEventInclude }>;
+
+type ScopedServer = { id: number; name: string; status: string; tags: unknown };
+
+// First time each rule/server condition was seen breached, keyed by `${ruleId}-${serverId}`
+const pendingSince = new Map<string, number>();
+// Last time each rule/server condition was seen clear, to lift the hold on alerts resolved by hand
+const clearedAt = new Map<string, number>();
+
+export function toAlertRule(rule: AlertRuleRow): AlertRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    metric: rule.metric,
+    comparator: rule.comparator,
+    threshold: rule.threshold,
+    duration: rule.duration,
+    severity: rule.severity,
+    serverIds: Array.isArray(rule.serverIds) ? (rule.serverIds as unknown[]).filter(Number.isInteger) as number[] : [],
+    tags: normalizeTags(rule.tags),
+    isActive: rule.isActive,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString()
+  };
+}
+
+export function toAlertEvent(event: AlertEventRow): AlertEvent {
+  return {
+    id: event.id,
+    ruleId: event.ruleId,
+    ruleName: event.rule.name,
+    metric: event.rule.metric,
+    serverId: event.serverId,
+    serverName: event.server.name,
+    status: event.status,
+    severity: event.severity,
+    message: event.message,
+    value: event.value,
+    threshold: event.threshold,
+    firedAt: event.firedAt.toISOString(),
+    acknowledgedAt: event.acknowledgedAt?.toISOString(),
+    acknowledgedBy: event.acknowledgedBy?.email,
+    resolvedAt: event.resolvedAt?.toISOString(),
+    resolvedBy: event.resolvedBy?.email
+  };
+}
+
+/**
+ * Validate a rule from the API
+ * @param partial - Only check fields that are present (for updates)
+ * @returns An error message, or null if valid
+ */
+export function validateAlertRule(data: Partial<AlertRuleData>, partial: boolean = false): string | null {
+  if (!partial || data.name !== undefined) {
+    if (typeof data.name !== 'string' || !data.name.trim()) return 'Rule name is required';
+  }
+  if (!partial || data.metric !== undefined) {
+    if (!ALERT_METRICS.includes(data.metric as AlertMetric)) return 'Invalid metric';
+  }
+  if (!partial || data.threshold !== undefined) {
+    if (typeof data.threshold !== 'number' || !isFinite(data.threshold)) return 'Threshold must be a number';
+  }
+  if (data.comparator !== undefined && !ALERT_COMPARATORS.includes(data.comparator)) {
+    return 'Invalid comparator';
+  }
+  if (data.severity !== undefined && !ALERT_SEVERITIES.includes(data.severity)) {
+    return 'Invalid severity';
+  }
+  if (data.duration !== undefined && (!Number.isInteger(data.duration) || data.duration < 0)) {
+    return 'Duration must be a non-negative number of seconds';
+  }
+  if (data.serverIds !== undefined && (!Array.isArray(data.serverIds) || !data.serverIds.every(Number.isInteger))) {
+    return 'Server IDs must be an array of integers';
+  }
+  if (data.tags !== undefined && !Array.isArray(data.tags)) {
+    return 'Tags must be an array of strings';
+  }
+  return null;
+}
+
+function ruleAppliesTo(rule: AlertRule, server: ScopedServer): boolean {
+  if (rule.serverIds.length === 0 && rule.tags.length === 0) return true;
+
+  const serverTags = normalizeTags(server.tags);
+  return rule.serverIds.includes(server.id) || rule.tags.some(tag => serverTags.includes(tag));
+}
+
+// Current value of a metric, or null when there is no recent sample to judge by
+function metricValue(metric: AlertMetric, server: ScopedServer, sample?: ServerMetricSample): number | null {
+  if (metric === 'SERVER_OFFLINE') {
+    return server.status === 'ERROR' || server.status === 'DISCONNECTED' ? 1 : 0;
+  }
+  if (!sample) return null;
+
+  switch (metric) {
+    case 'CPU_USAGE': return sample.cpuUsage;
+    case 'MEMORY_USAGE': return sample.memoryUsage;
+    case 'DISK_USAGE': return sample.diskUsage;
+    case 'LOAD_AVERAGE': return sample.loadAverage[0];
+    case 'NETWORK_IN': return sample.networkInRate;
+    case 'NETWORK_OUT': return sample.networkOutRate;
+  }
+}
+
+function isBreached(value: number, comparator: AlertComparator, threshold: number): boolean {
+  switch (comparator) {
+    case 'GT': return value > threshold;
+    case 'GTE': return value >= threshold;
+    case 'LT': return value < threshold;
+    case 'LTE': return value <= threshold;
+  }
+}
+
+function describeAlert(rule: AlertRule, server: ScopedServer, value: number): string {
+  if (rule.metric === 'SERVER_OFFLINE') {
+    return `${rule.name}: ${server.name} is offline (${server.status})`;
+  }
+
+  const shown = Number.isInteger(value) ? value : value.toFixed(2);
+  return `${rule.name}: ${METRIC_NAMES[rule.metric]} on ${server.name} is ${shown} (${COMPARATOR_SYMBOLS[rule.comparator]} ${rule.threshold})`;
+}
+
+async function fireAlert(rule: AlertRule, server: ScopedServer, value: number): Promise<void> {
+  const message = describeAlert(rule, server, value);
+
+  const event = await prisma.alertEvent.create({
+    data: {
+      ruleId: rule.id,
+      serverId: server.id,
+      severity: rule.severity,
+      message,
+      value,
+      threshold: rule.threshold
+    }
+  });
+
+  await prisma.serverLog.create({
+    data: {
+      serverId: server.id,
+      logType: 'SYSTEM',
+      message: `Alert fired: ${message}`,
+      data: { event: 'ALERT_FIRED', alertId: event.id, ruleId: rule.id, severity: rule.severity, value }
+    }
+  });
+
+  await notify({
+    event: 'ALERT_FIRED',
+    title: `Alert on ${server.name}: ${rule.name}`,
+    message,
+    severity: NOTIFICATION_SEVERITIES[rule.severity],
+    data: { alertId: event.id, ruleId: rule.id, serverId: server.id, serverName: server.name, value, threshold: rule.threshold }
+  });
+}
+
+/**
+ * Mark a firing alert as acknowledged (it keeps firing until the condition clears)
+ * @returns false if the alert is not currently firing
+ */
+export async function acknowledgeAlert(alertId: number, user: { id: number; email: string }): Promise<boolean> {
+  const { count } = await prisma.alertEvent.updateMany({
+    where: { id: alertId, status: 'FIRING' },
+    data: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date(), acknowledgedById: user.id }
+  });
+
+  return count > 0;
+}
+
+/**
+ * Resolve an open alert
+ * @param user - The user resolving it by hand, omitted when the condition cleared
+ * @returns false if the alert is already resolved
+ */
+export async function resolveAlert(alertId: number, user?: { id: number; email: string }): Promise<boolean> {
+  const { count } = await prisma.alertEvent.updateMany({
+    where: { id: alertId, status: { not: 'RESOLVED' } },
+    data: { status: 'RESOLVED', resolvedAt: new Date(), resolvedById: user?.id ?? null }
+  });
+  if (count === 0) return false;
+
+  const event = await prisma.alertEvent.findUniqueOrThrow({
+    where: { id: alertId },
+    include: { rule: { select: { name: true } }, server: { select: { name: true } } }
+  });
+  await prisma.serverLog.create({
+    data: {
+      serverId: event.serverId,
+      logType: 'SYSTEM',
+      message: `Alert resolved${user ? ` by ${user.email}` : ''}: ${event.message}`,
+      data: { event: 'ALERT_RESOLVED', alertId, ruleId: event.ruleId, ...(user && { resolvedBy: user.id }) }
+    }
+  });
+
+  await notify({
+    event: 'ALERT_RESOLVED',
+    title: `Alert resolved on ${event.server.name}: ${event.rule.name}`,
+    message: `${event.message}${user ? ` (resolved by ${user.email})` : ' (condition cleared)'}`,
+    severity: 'info',
+    data: { alertId, ruleId: event.ruleId, serverId: event.serverId, serverName: event.server.name, ...(user && { resolvedBy: user.email }) }
+  });
+
+  return true;
+}
+
+/**
+ * Evaluate all active rules against the latest samples and current server status
+ * @param maxSampleAgeMs - Older samples are treated as missing (metric rules are then left as they are)
+ */
+export async function evaluateAlerts(maxSampleAgeMs: number): Promise<void> {
+  try {
+    const [rules, servers, openEvents, latestEvents, manualResolves] = await Promise.all([
+      prisma.alertRule.findMany({ where: { isActive: true } }),
+      prisma.server.findMany({
+        where: { isActive: true },
+        select: { id: true, name: true, status: true, tags: true }
+      }),
+      prisma.alertEvent.findMany({
+        where: { status: { in: ['FIRING', 'ACKNOWLEDGED'] } },
+        select: { id: true, ruleId: true, serverId: true }
+      }),
+      prisma.alertEvent.groupBy({
+        by: ['ruleId', 'serverId'],
+        _max: { firedAt: true }
+      }),
+      prisma.alertEvent.groupBy({
+        by: ['ruleId', 'serverId'],
+        where: { status: 'RESOLVED', resolvedById: { not: null } },
+        _max: { firedAt: true, resolvedAt: true }
+      })
+    ]);
+
+    const cutoff = Date.now() - maxSampleAgeMs;
+    const samples = new Map(
+      (await getLatestMetrics(servers.map(server => server.id)))
+        .filter(sample => new Date(sample.timestamp).getTime() >= cutoff)
+        .map(sample => [sample.serverId, sample])
+    );
+    const openByKey = new Map(openEvents.map(event => [`${event.ruleId}-${event.serverId}`, event.id]));
+    const latestFiredAt = new Map(
+      latestEvents.map(group => [`${group.ruleId}-${group.serverId}`, group._max.firedAt?.getTime()])
+    );
+    // When the latest alert of a rule/server was resolved by hand, keyed like pendingSince
+    const resolvedByHandAt = new Map<string, number>();
+    for (const group of manualResolves) {
+      const key = `${group.ruleId}-${group.serverId}`;
+      if (group._max.resolvedAt && group._max.firedAt?.getTime() === latestFiredAt.get(key)) {
+        resolvedByHandAt.set(key, group._max.resolvedAt.getTime());
+      }
+    }
+    const evaluated = new Set<string>();
+    const now = Date.now();
+
+    for (const rule of rules.map(toAlertRule)) {
+      for (const server of servers.filter(server => ruleAppliesTo(rule, server))) {
+        const key = `${rule.id}-${server.id}`;
+        evaluated.add(key);
+
+        const value = metricValue(rule.metric, server, samples.get(server.id));
+        if (value === null) continue;
+
+        const openEventId = openByKey.get(key);
+
+        if (!isBreached(value, rule.comparator, rule.threshold)) {
+          pendingSince.delete(key);
+          clearedAt.set(key, now);
+          if (openEventId) await resolveAlert(openEventId);
+          continue;
+        }
+
+        const since = pendingSince.get(key) ?? now;
+        pendingSince.set(key, since);
+
+        // Not known to have cleared since it was resolved by hand (after a restart, until seen clear)
+        const resolvedAt = resolvedByHandAt.get(key);
+        const heldAfterResolve = resolvedAt !== undefined && (clearedAt.get(key) ?? 0) <= resolvedAt;
+
+        if (!openEventId && !heldAfterResolve && now - since >= rule.duration * 1000) {
+          await fireAlert(rule, server, value);
+        }
+      }
+    }
+
+    // Rules that were disabled or deleted, or servers that left a rule's scope
+    for (const key of Array.from(pendingSince.keys())) {
+      if (!evaluated.has(key)) pendingSince.delete(key);
+    }
+    for (const key of Array.from(clearedAt.keys())) {
+      if (!evaluated.has(key)) clearedAt.delete(key);
+    }
+    for (const [key, eventId] of Array.from(openByKey)) {
+      if (!evaluated.has(key)) await resolveAlert(eventId);
+    }
+  } catch (error) {
+    console.error('Alert evaluation error:', error);
+  }
+}
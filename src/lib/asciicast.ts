@@ -0,0 +1,130 @@
+/**
+ * asciicast v2 parsing and search - used by the recording playback page
+ */
+
+export interface AsciicastHeader {
+  version: number;
+  width: number;
+  height: number;
+  timestamp?: number;
+  title?: string;
+}
+
+// [time in seconds, event code, data] - o: output, i: input, r: resize ("COLSxROWS")
+export type AsciicastEvent = [number, string, string];
+
+export interface Asciicast {
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+  duration: number;
+}
+
+export interface AsciicastSearchMatch {
+  time: number;
+  code: string;
+  excerpt: string;
+}
+
+/**
+ * Parse an asciicast v2 recording, skipping malformed lines
+ */
+export function parseAsciicast(content: string): Asciicast {
+  const lines = content.split('\n').filter(line => line.trim());
+
+  if (lines.length === 0) {
+    throw new Error('Empty recording');
+  }
+
+  const header = JSON.parse(lines[0]) as AsciicastHeader;
+  if (header.version !== 2) {
+    throw new Error(`Unsupported asciicast version: ${header.version}`);
+  }
+
+  const events: AsciicastEvent[] = [];
+  for (const line of lines.slice(1)) {
+    try {
+      const event = JSON.parse(line);
+      if (Array.isArray(event) && event.length === 3) {
+        events.push(event as AsciicastEvent);
+      }
+    } catch {
+      // A partially flushed last line is expected for sessions still in progress
+    }
+  }
+
+  return {
+    header,
+    events,
+    duration: events.length > 0 ? events[events.length - 1][0] : 0
+  };
+}
+
+/**
+ * Remove ANSI escape sequences so recorded output can be searched as plain text
+ */
+export function stripAnsi(text: string): string {
+  return text
+    .replace(/\x1b\[[0-?]*[ -/]*[@-~]/g, '')
+    .replace(/\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g, '')
+    .replace(/\x1b[@-Z\\-_]/g, '')
+    .replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Find occurrences of a query in recorded output and input (case-insensitive)
+ * Events are concatenated per stream so matches split across chunks are still found.
+ */
+export function searchAsciicast(cast: Asciicast, query: string, maxResults: number = 100): AsciicastSearchMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const matches: AsciicastSearchMatch[] = [];
+
+  for (const code of ['o', 'i']) {
+    let text = '';
+    const offsets: { offset: number; time: number }[] = [];
+
+    for (const [time, eventCode, data] of cast.events) {
+      if (eventCode !== code) continue;
+      offsets.push({ offset: text.length, time });
+      text += stripAnsi(data);
+    }
+
+    const haystack = text.toLowerCase();
+    let index = haystack.indexOf(needle);
+    let offsetIndex = 0;
+
+    while (index !== -1 && matches.length < maxResults) {
+      while (offsetIndex + 1 < offsets.length && offsets[offsetIndex + 1].offset <= index) {
+        offsetIndex++;
+      }
+
+      const lineStart = text.lastIndexOf('\n', index) + 1;
+      const lineEnd = text.indexOf('\n', index + needle.length);
+
+      matches.push({
+        time: offsets[offsetIndex].time,
+        code,
+        excerpt: text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim().slice(0, 200)
+      });
+
+      index = haystack.indexOf(needle, index + needle.length);
+    }
+  }
+
+  return matches.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Format seconds as m:ss or h:mm:ss
+ */
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
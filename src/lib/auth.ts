@@ -1,7 +1,19 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from './database';
+import { getSecuritySettings } from './security-settings';
+import {
+  getIpLockedUntil,
+  recordIpFailure,
+  recordAccountFailure,
+  clearAccountFailures,
+  cleanupIpFailures
+} from './login-lockout';
+import { verifyTwoFactorCode } from './two-factor';
+import { isIpAllowed } from './ip-allowlist';
+import { getRequestIp } from './ip-address';
 import type { User } from '@/types';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'default-jwt-secret-change-this';
@@ -31,10 +43,34 @@ export function generateToken(user: User): string {
   );
 }
 
+// Short-lived token proving the password step passed, exchanged for a session token with a 2FA code
+const TWO_FACTOR_CHALLENGE_PURPOSE = 'two-factor';
+
+export function generateTwoFactorChallenge(userId: number): string {
+  return jwt.sign(
+    { userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+    JWT_SECRET,
+    { expiresIn: '5m' }
+  );
+}
+
+// Verify a 2FA challenge token, returning the user id it was issued for
+export function verifyTwoFactorChallenge(token: string): number | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { userId: number; purpose?: string };
+    return payload.purpose === TWO_FACTOR_CHALLENGE_PURPOSE ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
 // Verify JWT token
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const payload = jwt.verify(token, JWT_SECRET) as JWTPayload & { purpose?: string };
+    // Challenge tokens only grant the second login step
+    if (payload.purpose) return null;
+    return payload;
   } catch (error) {
     console.error('Token verification failed:', error);
     return null;
@@ -51,69 +87,221 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
+// Active user by id, as returned to the client
+async function getActiveUser(userId: number): Promise<User | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      isActive: true,
+      twoFactorEnabled: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  if (!user || !user.isActive) return null;
+
+  return {
+    ...user,
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
 // Get user from token
 export async function getUserFromToken(token: string): Promise<User | null> {
   try {
     const payload = verifyToken(token);
     if (!payload) return null;
 
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+    return await getActiveUser(payload.userId);
+  } catch (error) {
+    console.error('Get user from token failed:', error);
+    return null;
+  }
+}
 
-    if (!user || !user.isActive) return null;
+// Short-lived token for one file download link, so the session token never goes in a URL
+const DOWNLOAD_TOKEN_PURPOSE = 'download';
 
-    return {
-      ...user,
-      createdAt: user.createdAt.toISOString(),
-      updatedAt: user.updatedAt.toISOString(),
+export interface DownloadGrant {
+  user: User;
+  serverId: number;
+  path: string;
+  // Unique per token, to refuse a second use
+  tokenId: string;
+  expiresAt: number;
+}
+
+export function generateDownloadToken(userId: number, serverId: number, remotePath: string): string {
+  return jwt.sign(
+    { userId, serverId, path: remotePath, purpose: DOWNLOAD_TOKEN_PURPOSE },
+    JWT_SECRET,
+    { expiresIn: '1m', jwtid: crypto.randomBytes(16).toString('hex') }
+  );
+}
+
+// Verify a download token, returning the user and the file it was issued for
+export async function getDownloadGrant(token: string): Promise<DownloadGrant | null> {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as {
+      userId: number;
+      serverId: number;
+      path: string;
+      purpose?: string;
+      jti: string;
+      exp: number;
     };
-  } catch (error) {
-    console.error('Get user from token failed:', error);
+    if (payload.purpose !== DOWNLOAD_TOKEN_PURPOSE) return null;
+
+    const user = await getActiveUser(payload.userId);
+    return user
+      ? { user, serverId: payload.serverId, path: payload.path, tokenId: payload.jti, expiresAt: payload.exp * 1000 }
+      : null;
+  } catch {
     return null;
   }
 }
 
-// Authenticate user
-export async function authenticateUser(email: string, password: string): Promise<User | null> {
+export type AuthResult =
+  | { success: true; user: User; twoFactorRequired: boolean }
+  | { success: false; error: string; lockedUntil?: string };
+
+const LOCKED_OUT_ERROR = 'Too many failed login attempts. Please try again later.';
+
+function toAuthUser(user: {
+  id: number;
+  email: string;
+  name: string;
+  role: string;
+  isActive: boolean;
+  twoFactorEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}): User {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role as 'ADMIN' | 'DEVELOPER',
+    isActive: user.isActive,
+    twoFactorEnabled: user.twoFactorEnabled,
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
+// Authenticate user, enforcing account and IP lockout from the security settings
+export async function authenticateUser(email: string, password: string, clientIP: string = 'unknown'): Promise<AuthResult> {
   try {
+    const settings = await getSecuritySettings();
+
+    const ipLockedUntil = await getIpLockedUntil(clientIP);
+    if (ipLockedUntil) {
+      return { success: false, error: LOCKED_OUT_ERROR, lockedUntil: ipLockedUntil.toISOString() };
+    }
+
     const user = await prisma.user.findUnique({
       where: { email },
     });
 
-    if (!user || !user.isActive) return null;
+    if (user?.lockedUntil && user.lockedUntil > new Date()) {
+      return { success: false, error: LOCKED_OUT_ERROR, lockedUntil: user.lockedUntil.toISOString() };
+    }
+
+    const isPasswordValid = !!user && user.isActive && await comparePassword(password, user.password);
 
-    const isPasswordValid = await comparePassword(password, user.password);
-    if (!isPasswordValid) return null;
+    if (!user || !isPasswordValid) {
+      const ipLock = await recordIpFailure(clientIP, email, settings);
+      const accountLock = user ? await recordAccountFailure(user, clientIP, settings) : null;
+      const lockedUntil = accountLock || ipLock;
+
+      return lockedUntil
+        ? { success: false, error: LOCKED_OUT_ERROR, lockedUntil: lockedUntil.toISOString() }
+        : { success: false, error: 'Invalid email or password' };
+    }
+
+    // Failures are cleared once the whole login succeeds, so 2FA guesses keep counting
+    if (!user.twoFactorEnabled && (user.failedLoginAttempts > 0 || user.lockedUntil)) {
+      await clearAccountFailures(user.id);
+    }
 
     return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role as 'ADMIN' | 'DEVELOPER',
-      isActive: user.isActive,
-      createdAt: user.createdAt.toISOString(),
-      updatedAt: user.updatedAt.toISOString(),
+      success: true,
+      user: toAuthUser(user),
+      twoFactorRequired: user.twoFactorEnabled
     };
   } catch (error) {
     console.error('Authentication failed:', error);
-    return null;
+    return { success: false, error: 'Invalid email or password' };
   }
 }
 
-// Middleware for protecting routes
+// Complete a login with a TOTP or recovery code, counting wrong codes towards lockout
+export async function completeTwoFactorLogin(challengeToken: string, code: string, clientIP: string = 'unknown'): Promise<AuthResult> {
+  try {
+    const settings = await getSecuritySettings();
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    if (!userId) {
+      return { success: false, error: 'Login session expired. Please sign in again.' };
+    }
+
+    const ipLockedUntil = await getIpLockedUntil(clientIP);
+    if (ipLockedUntil) {
+      return { success: false, error: LOCKED_OUT_ERROR, lockedUntil: ipLockedUntil.toISOString() };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      return { success: false, error: 'Login session expired. Please sign in again.' };
+    }
+
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      return { success: false, error: LOCKED_OUT_ERROR, lockedUntil: user.lockedUntil.toISOString() };
+    }
+
+    if (!await verifyTwoFactorCode(user, code)) {
+      const ipLock = await recordIpFailure(clientIP, user.email, settings);
+      const accountLock = await recordAccountFailure(user, clientIP, settings);
+      const lockedUntil = accountLock || ipLock;
+
+      return lockedUntil
+        ? { success: false, error: LOCKED_OUT_ERROR, lockedUntil: lockedUntil.toISOString() }
+        : { success: false, error: 'Invalid verification code' };
+    }
+
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await clearAccountFailures(user.id);
+    }
+
+    return { success: true, user: toAuthUser(user), twoFactorRequired: false };
+  } catch (error) {
+    console.error('Two-factor authentication failed:', error);
+    return { success: false, error: 'Invalid verification code' };
+  }
+}
+
+export const IP_NOT_ALLOWED_ERROR = 'Access denied from this IP address';
+
+// Middleware for protecting routes (also enforces the IP allowlist)
 export function withAuth(handler: Function) {
   return async (request: NextRequest, context?: any) => {
     try {
+      if (!await isIpAllowed(getRequestIp(request))) {
+        return NextResponse.json({
+          success: false,
+          error: IP_NOT_ALLOWED_ERROR
+        }, { status: 403 });
+      }
+
       const token = request.headers.get('authorization')?.replace('Bearer ', '');
       
       if (!token) {
@@ -255,5 +443,6 @@ export function cleanupInactiveSessions(timeoutMs: number = 300000) { // 5 minut
 // Auto cleanup every 5 minutes
 setInterval(() => {
   cleanupRateLimit();
+  cleanupIpFailures();
   cleanupInactiveSessions();
 }, 300000);
\ No newline at end of file
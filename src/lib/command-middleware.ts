@@ -1,4 +1,5 @@
 import { parseCommand, isDangerousCommand, validateCommand } from './terminal-utils';
+import { DEFAULT_SECURITY_SETTINGS, getSecuritySettings } from './security-settings';
 
 export interface CommandValidationResult {
   allowed: boolean;
@@ -13,31 +14,23 @@ export interface CommandMiddlewareOptions {
   enableCommandLogging?: boolean;
   maxCommandLength?: number;
   blockedCommands?: string[];
+  approvalRequiredCommands?: string[];
   allowedCommands?: string[];
 }
 
+// Defaults mirror the security settings so an unsaved policy behaves the same everywhere
 const DEFAULT_OPTIONS: CommandMiddlewareOptions = {
-  allowDangerousCommands: true,
-  requireSudoConfirmation: true,
-  enableCommandLogging: true,
-  maxCommandLength: 1000,
-  blockedCommands: [],
+  allowDangerousCommands: DEFAULT_SECURITY_SETTINGS.allowDangerousCommands,
+  requireSudoConfirmation: DEFAULT_SECURITY_SETTINGS.requireSudoConfirmation,
+  enableCommandLogging: DEFAULT_SECURITY_SETTINGS.enableCommandLogging,
+  maxCommandLength: DEFAULT_SECURITY_SETTINGS.maxCommandLength,
+  blockedCommands: DEFAULT_SECURITY_SETTINGS.blockedCommands,
+  approvalRequiredCommands: DEFAULT_SECURITY_SETTINGS.approvalRequiredCommands,
   allowedCommands: []
 };
 
-// Completely blocked commands (never allow)
-const BLOCKED_COMMANDS = [
-  'rm -rf /',
-  'rm -rf /*',
-  'rm -rf .*',
-  'mkfs',
-  'dd if=/dev/zero of=/dev/',
-  'format',
-  ':(){ :|:& };:', // Fork bomb
-  'chmod 777 /',
-  'chown root:root /',
-  'passwd root'
-];
+// sudo at the start of any command in a line, chain or pipeline
+const SUDO_PATTERN = /(^|[;&|\n]\s*)sudo\s/;
 
 // Commands that require special handling
 const INTERACTIVE_COMMANDS = [
@@ -76,8 +69,9 @@ export class CommandValidator {
       return { allowed: false, warning: 'Empty command' };
     }
 
-    if (trimmedCommand.length > (this.options.maxCommandLength || 1000)) {
-      return { allowed: false, warning: 'Command too long' };
+    const maxLength = this.options.maxCommandLength || 1000;
+    if (trimmedCommand.length > maxLength) {
+      return { allowed: false, warning: `Command too long (maximum ${maxLength} characters)` };
     }
 
     // Check for blocked commands
@@ -116,7 +110,7 @@ export class CommandValidator {
     }
 
     // Check for sudo commands
-    if (trimmedCommand.startsWith('sudo ')) {
+    if (SUDO_PATTERN.test(trimmedCommand)) {
       if (this.options.requireSudoConfirmation) {
         return {
           allowed: true,
@@ -146,23 +140,23 @@ export class CommandValidator {
     return { allowed: true };
   }
 
-  // Check if command is completely blocked
+  // Check if command is completely blocked (blockedCommands from the security settings)
   private isBlockedCommand(command: string): boolean {
     const lowerCommand = command.toLowerCase();
-    
-    // Check built-in blocked commands
-    if (BLOCKED_COMMANDS.some(blocked => lowerCommand.includes(blocked.toLowerCase()))) {
-      return true;
-    }
 
-    // Check user-defined blocked commands
-    if (this.options.blockedCommands) {
-      return this.options.blockedCommands.some(blocked => 
-        lowerCommand.includes(blocked.toLowerCase())
-      );
-    }
+    return (this.options.blockedCommands || []).some(blocked =>
+      blocked.trim() && lowerCommand.includes(blocked.trim().toLowerCase())
+    );
+  }
 
-    return false;
+  // Pattern from approvalRequiredCommands the command contains, null if none (same matching as blocked commands)
+  approvalPattern(command: string): string | null {
+    const lowerCommand = command.toLowerCase();
+
+    const pattern = (this.options.approvalRequiredCommands || []).find(item =>
+      item.trim() && lowerCommand.includes(item.trim().toLowerCase())
+    );
+    return pattern ? pattern.trim() : null;
   }
 
   // Check if command is interactive
@@ -340,6 +334,40 @@ export function postprocessOutput(output: string, command: string): string {
 // Create default command validator instance
 export const defaultCommandValidator = new CommandValidator();
 
+/**
+ * Create a validator from the saved security policy
+ * Loaded per execution so policy changes apply without restarting the WebSocket server.
+ */
+export async function loadCommandValidator(): Promise<CommandValidator> {
+  const settings = await getSecuritySettings();
+
+  return new CommandValidator({
+    allowDangerousCommands: settings.allowDangerousCommands,
+    requireSudoConfirmation: settings.requireSudoConfirmation,
+    enableCommandLogging: settings.enableCommandLogging,
+    maxCommandLength: settings.maxCommandLength,
+    blockedCommands: settings.blockedCommands,
+    approvalRequiredCommands: settings.approvalRequiredCommands
+  });
+}
+
+/**
+ * Why a run needs an admin's approval, or null if it can start
+ * Admins never need approval.
+ */
+export function getApprovalReason(
+  user: { role: string },
+  script: { requiresApproval: boolean } | null,
+  command: string,
+  validator: CommandValidator
+): string | null {
+  if (user.role === 'ADMIN') return null;
+  if (script?.requiresApproval) return 'The script requires approval';
+
+  const pattern = validator.approvalPattern(command);
+  return pattern ? `The command contains "${pattern}", which requires approval` : null;
+}
+
 // Export convenience functions
 export function validateCommandQuick(command: string): CommandValidationResult {
   return defaultCommandValidator.validate(command, 0, 0);
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCron, validateCron, getNextRun, getNextRuns, isValidTimeZone } from './cron';
+
+const values = (set: Set<number>) => Array.from(set).sort((a, b) => a - b);
+
+test('parseCron expands lists, ranges, steps and names', () => {
+  const schedule = parseCron('*/15 9-17/4 1,15 JAN-MAR mon-fri');
+
+  assert.deepEqual(values(schedule.minutes), [0, 15, 30, 45]);
+  assert.deepEqual(values(schedule.hours), [9, 13, 17]);
+  assert.deepEqual(values(schedule.daysOfMonth), [1, 15]);
+  assert.deepEqual(values(schedule.months), [1, 2, 3]);
+  assert.deepEqual(values(schedule.daysOfWeek), [1, 2, 3, 4, 5]);
+  assert.equal(schedule.anyDayOfMonth, false);
+  assert.equal(schedule.anyDayOfWeek, false);
+});
+
+test('parseCron treats a start with a step as running to the end of the field', () => {
+  assert.deepEqual(values(parseCron('5/20 * * * *').minutes), [5, 25, 45]);
+});
+
+test('parseCron reads 7 as Sunday and accepts macros', () => {
+  assert.deepEqual(values(parseCron('0 0 * * 5-7').daysOfWeek), [0, 5, 6]);
+  assert.deepEqual(parseCron('@daily'), parseCron('0 0 * * *'));
+  assert.deepEqual(parseCron('@WEEKLY'), parseCron('0 0 * * 0'));
+});
+
+test('validateCron reports invalid expressions', () => {
+  assert.equal(validateCron('0 3 * * *'), null);
+
+  for (const expression of ['* * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '* * * * 8',
+    '*/0 * * * *', '5-1 * * * *', '1- * * * *', 'a * * * *', '* * * FOO *']) {
+    assert.notEqual(validateCron(expression), null, expression);
+  }
+});
+
+test('getNextRun returns the first matching minute strictly after the given time', () => {
+  const after = new Date('2024-01-10T10:07:30Z');
+
+  assert.equal(getNextRun('*/15 * * * *', 'UTC', after)?.toISOString(), '2024-01-10T10:15:00.000Z');
+  assert.equal(getNextRun('15 10 * * *', 'UTC', new Date('2024-01-10T10:15:00Z'))?.toISOString(), '2024-01-11T10:15:00.000Z');
+});
+
+test('getNextRun matches the wall clock of the time zone', () => {
+  // 09:00 in Bangkok (UTC+7) is 02:00 UTC
+  assert.equal(getNextRun('0 9 * * *', 'Asia/Bangkok', new Date('2024-01-10T03:00:00Z'))?.toISOString(),
+    '2024-01-11T02:00:00.000Z');
+});
+
+test('getNextRun runs when either restricted day field matches', () => {
+  // The 13th, or any Friday: Friday 2024-09-06 comes before Friday the 13th
+  assert.equal(getNextRun('0 0 13 * 5', 'UTC', new Date('2024-09-01T00:00:00Z'))?.toISOString(),
+    '2024-09-06T00:00:00.000Z');
+});
+
+test('getNextRun skips a time that a daylight saving change removes', () => {
+  // 2024-03-10 02:30 does not exist in New York
+  assert.equal(getNextRun('30 2 * * *', 'America/New_York', new Date('2024-03-09T12:00:00Z'))?.toISOString(),
+    '2024-03-11T06:30:00.000Z');
+});
+
+test('getNextRuns runs a repeated daylight saving hour once', () => {
+  // 01:30 happens twice in New York on 2024-11-03
+  const runs = getNextRuns('30 1 * * *', 'America/New_York', 2, new Date('2024-11-02T12:00:00Z'));
+
+  assert.deepEqual(runs.map(run => run.toISOString()), ['2024-11-03T05:30:00.000Z', '2024-11-04T06:30:00.000Z']);
+});
+
+test('getNextRun returns null for expressions that never match', () => {
+  assert.equal(getNextRun('0 0 31 2 *', 'UTC', new Date('2024-01-01T00:00:00Z')), null);
+});
+
+test('isValidTimeZone accepts IANA names only', () => {
+  assert.equal(isValidTimeZone('Europe/Berlin'), true);
+  assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+});
@@ -0,0 +1,252 @@
+/**
+ * Cron expressions with time zones, for scheduled script runs
+ *
+ *   ┌ minute (0-59)
+ *   │ ┌ hour (0-23)
+ *   │ │ ┌ day of month (1-31)
+ *   │ │ │ ┌ month (1-12 or JAN-DEC)
+ *   │ │ │ │ ┌ day of week (0-7 or SUN-SAT, 0 and 7 are Sunday)
+ *   * * * * *
+ *
+ * Fields take *, lists (1,15), ranges (1-5) and steps (*\/15, 0-30/10). Like Vixie cron, when
+ * both day of month and day of week are restricted a day matching either one runs. The
+ * macros @yearly, @monthly, @weekly, @daily and @hourly are also accepted.
+ *
+ * Times are matched against the wall clock of the schedule's IANA time zone. A time skipped
+ * by a daylight saving change does not run that day; a repeated hour runs once. Uses only
+ * Intl, so it works in the browser for next-run previews.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were restricted, for the either-day rule
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES }
+];
+
+// Days searched before giving up on expressions that never match (e.g. 30 2 31 2 *)
+const MAX_SEARCH_DAYS = 5 * 366;
+
+const MINUTE_MS = 60 * 1000;
+
+function parseValue(value: string, field: typeof FIELDS[number]): number {
+  const index = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  // Month names are 1-based, day names 0-based
+  const number = index >= 0 ? index + field.min : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+
+  if (isNaN(number) || number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} "${value}" (allowed ${field.min}-${field.max})`);
+  }
+  return number;
+}
+
+function parseField(text: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : /^\d+$/.test(stepText) ? parseInt(stepText, 10) : 0;
+    if (step < 1) throw new Error(`Invalid step in ${field.name} "${part}"`);
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) throw new Error(`Invalid range in ${field.name} "${range}"`);
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression or macro
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, i) => parseField(text, FIELDS[i]));
+
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+}
+
+/**
+ * Check a cron expression
+ * @returns An error message, or null if valid
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall clock time in a zone, as a UTC timestamp with the same fields
+function toWallClock(time: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(time))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Instant a wall clock time happens in a zone, or null if a daylight saving change skips it
+function fromWallClock(wall: number, timeZone: string): number | null {
+  // Offset at the wall time read as UTC, then at the corrected guess (differs near transitions)
+  let time = wall - (toWallClock(wall, timeZone) - wall);
+  time = wall - (toWallClock(time, timeZone) - time);
+  return toWallClock(time, timeZone) === wall ? time : null;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First run strictly after a time
+ * @returns The run time, or null if the expression never matches
+ */
+export function getNextRun(expression: string | CronSchedule, timeZone: string, after: Date = new Date()): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  // Work on the zone's wall clock (as UTC fields), starting at the next whole minute
+  const start = toWallClock(after.getTime(), timeZone);
+  const wall = new Date(Math.floor(start / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = wall.getTime() + MAX_SEARCH_DAYS * 24 * 60 * MINUTE_MS;
+
+  while (wall.getTime() < limit) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const time = fromWallClock(wall.getTime(), timeZone);
+    if (time !== null && time > after.getTime()) {
+      return new Date(time);
+    }
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  return null;
+}
+
+/**
+ * Upcoming runs, for previews
+ */
+export function getNextRuns(expression: string, timeZone: string, count: number, after: Date = new Date()): Date[] {
+  const schedule = parseCron(expression);
+  const runs: Date[] = [];
+
+  let next = getNextRun(schedule, timeZone, after);
+  while (next && runs.length < count) {
+    runs.push(next);
+    next = getNextRun(schedule, timeZone, next);
+  }
+
+  return runs;
+}
@@ -0,0 +1,269 @@
+/**
+ * Distribute one file to many servers
+ * The file is first staged on the WebSocket server host, either uploaded from the browser
+ * (POST /files/stage) or copied from a server over SFTP, so each target receives identical
+ * bytes. Each upload goes to a temporary file next to the target, and its SHA-256 is compared
+ * with the staged checksum before it is moved over the target.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { SFTPWrapper } from 'ssh2';
+import type { NodeSSH } from 'node-ssh';
+import { withSFTP, statPath, changeMode, ensureDirectory, removeFile, replacePath } from './sftp';
+import { escapeShellArg } from './terminal-utils';
+import type { StagedFile } from '@/types';
+
+const STAGING_DIRECTORY = path.join(os.tmpdir(), 'ssh-panel-staging');
+// Staged files that are never distributed are removed after this long
+const STAGE_TTL_MS = 60 * 60 * 1000;
+const PROGRESS_INTERVAL_MS = 250;
+
+// User or group name, or a numeric id
+const ACCOUNT_NAME_PATTERN = /^(?:[a-z_][a-z0-9_.-]*\$?|\d+)$/i;
+
+interface StagedEntry extends StagedFile {
+  userId: number;
+  localPath: string;
+  createdAt: number;
+}
+
+export interface DistributionTarget {
+  path: string;
+  owner?: string;
+  group?: string;
+  mode?: string;
+}
+
+const stagedFiles = new Map<string, StagedEntry>();
+
+function sweepStagedFiles(): void {
+  const now = Date.now();
+  for (const [stageId, entry] of stagedFiles.entries()) {
+    if (now - entry.createdAt > STAGE_TTL_MS) {
+      releaseStagedFile(stageId);
+    }
+  }
+}
+
+/**
+ * Write a stream to a new staged file, hashing it on the way
+ * @param transforms - Applied before writing, e.g. progress and size limit
+ */
+export async function stageFile(userId: number, name: string, source: Readable, ...transforms: Transform[]): Promise<StagedFile> {
+  sweepStagedFiles();
+  await fs.promises.mkdir(STAGING_DIRECTORY, { recursive: true, mode: 0o700 });
+
+  const stageId = crypto.randomBytes(16).toString('hex');
+  const localPath = path.join(STAGING_DIRECTORY, stageId);
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+
+  const hasher = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    }
+  });
+
+  try {
+    await pipeline([source, ...transforms, hasher, fs.createWriteStream(localPath, { mode: 0o600 })]);
+  } catch (error) {
+    await fs.promises.rm(localPath, { force: true });
+    throw error;
+  }
+
+  const entry: StagedEntry = {
+    stageId,
+    name,
+    size,
+    checksum: hash.digest('hex'),
+    userId,
+    localPath,
+    createdAt: Date.now()
+  };
+  stagedFiles.set(stageId, entry);
+
+  return { stageId, name, size, checksum: entry.checksum };
+}
+
+/**
+ * Stage a copy of a file on a server
+ */
+export async function stageRemoteFile(
+  serverId: number,
+  userId: number,
+  isAdmin: boolean,
+  remotePath: string,
+  maxBytes: number
+): Promise<StagedFile> {
+  return withSFTP(serverId, userId, isAdmin, async sftp => {
+    const stats = await statPath(sftp, remotePath);
+    if (!stats.isFile()) {
+      throw new Error('Source must be a regular file');
+    }
+    if (stats.size > maxBytes) {
+      throw new Error(`File exceeds the upload limit of ${Math.round(maxBytes / 1024 / 1024)} MB`);
+    }
+
+    return stageFile(userId, path.posix.basename(remotePath), sftp.createReadStream(remotePath));
+  });
+}
+
+/**
+ * Staged file of a user, or null if unknown or expired
+ */
+export function getStagedFile(stageId: string, userId: number): StagedFile | null {
+  const entry = stagedFiles.get(stageId);
+  if (!entry || entry.userId !== userId) return null;
+
+  return { stageId: entry.stageId, name: entry.name, size: entry.size, checksum: entry.checksum };
+}
+
+export function releaseStagedFile(stageId: string): void {
+  const entry = stagedFiles.get(stageId);
+  if (!entry) return;
+
+  stagedFiles.delete(stageId);
+  fs.promises.rm(entry.localPath, { force: true }).catch(error => {
+    console.error('Failed to remove staged file:', error);
+  });
+}
+
+/**
+ * Check owner, group and mode options
+ * @returns Error message, or null if valid
+ */
+export function validateDistributionTarget(target: DistributionTarget): string | null {
+  if (!target.path || !target.path.startsWith('/') || target.path.includes('\0')) {
+    return 'Target path must be absolute';
+  }
+  if (target.owner && !ACCOUNT_NAME_PATTERN.test(target.owner)) {
+    return 'Invalid owner';
+  }
+  if (target.group && !ACCOUNT_NAME_PATTERN.test(target.group)) {
+    return 'Invalid group';
+  }
+  if (target.mode && !/^[0-7]{3,4}$/.test(target.mode)) {
+    return 'Mode must be an octal value such as 644 or 0755';
+  }
+  return null;
+}
+
+async function remoteChecksum(sftp: SFTPWrapper, ssh: NodeSSH, remotePath: string): Promise<string> {
+  const result = await ssh.execCommand(`sha256sum ${escapeShellArg(remotePath)}`);
+  const checksum = result.stdout.trim().split(/\s+/)[0];
+  if (result.code === 0 && /^[0-9a-f]{64}$/.test(checksum)) {
+    return checksum;
+  }
+
+  // No sha256sum on the server: read the file back
+  const hash = crypto.createHash('sha256');
+  await pipeline(sftp.createReadStream(remotePath), new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      callback();
+    }
+  }));
+  return hash.digest('hex');
+}
+
+async function applyOwnership(ssh: NodeSSH, remotePath: string, owner?: string, group?: string): Promise<void> {
+  if (!owner && !group) return;
+
+  const command = owner
+    ? `chown ${escapeShellArg(group ? `${owner}:${group}` : owner)} ${escapeShellArg(remotePath)}`
+    : `chgrp ${escapeShellArg(group!)} ${escapeShellArg(remotePath)}`;
+
+  const result = await ssh.execCommand(command);
+  if (result.code !== 0) {
+    throw new Error(`Failed to change owner: ${result.stderr.trim() || `exit code ${result.code}`}`);
+  }
+}
+
+/**
+ * Upload a staged file to a server, apply mode and owner, verify the checksum and move it into place
+ * @param onProgress - Called with bytes sent while uploading, then once with null before verifying
+ * @returns Final path and checksum; throws on any failure, including a checksum mismatch
+ */
+export async function pushStagedFile(
+  serverId: number,
+  userId: number,
+  isAdmin: boolean,
+  stageId: string,
+  target: DistributionTarget,
+  onProgress: (transferred: number | null) => void
+): Promise<{ path: string; checksum: string }> {
+  const entry = stagedFiles.get(stageId);
+  if (!entry || entry.userId !== userId) {
+    throw new Error('Staged file not found');
+  }
+
+  return withSFTP(serverId, userId, isAdmin, async (sftp, ssh) => {
+    let remotePath = path.posix.normalize(target.path);
+
+    const isDirectory = target.path.endsWith('/')
+      || await statPath(sftp, remotePath).then(stats => stats.isDirectory(), () => false);
+    if (isDirectory) {
+      remotePath = path.posix.join(remotePath, entry.name);
+    }
+
+    await ensureDirectory(sftp, path.posix.dirname(remotePath));
+
+    // Upload, set up and verify a file next to the target, then move it into place, so a
+    // dropped connection or a checksum mismatch never touches the file it would replace
+    const existing = await statPath(sftp, remotePath).catch(() => null);
+    const tempPath = path.posix.join(
+      path.posix.dirname(remotePath),
+      `.upload-${crypto.randomBytes(4).toString('hex')}-${path.posix.basename(remotePath)}`
+    );
+    const mode = existing ? existing.mode & 0o777 : undefined;
+
+    let transferred = 0;
+    let lastEmit = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        transferred += chunk.length;
+        const now = Date.now();
+        if (now - lastEmit >= PROGRESS_INTERVAL_MS) {
+          lastEmit = now;
+          onProgress(transferred);
+        }
+        callback(null, chunk);
+      }
+    });
+
+    let checksum: string;
+    try {
+      await pipeline(
+        fs.createReadStream(entry.localPath),
+        counter,
+        sftp.createWriteStream(tempPath, mode !== undefined ? { mode } : {})
+      );
+      onProgress(transferred);
+
+      if (target.mode) {
+        await changeMode(sftp, tempPath, target.mode);
+      }
+      await applyOwnership(ssh, tempPath, target.owner, target.group);
+
+      onProgress(null);
+      checksum = await remoteChecksum(sftp, ssh, tempPath);
+      if (checksum !== entry.checksum) {
+        throw new Error(`Checksum mismatch: expected ${entry.checksum}, got ${checksum}`);
+      }
+
+      await replacePath(sftp, tempPath, remotePath);
+    } catch (error) {
+      await removeFile(sftp, tempPath).catch(() => undefined);
+      throw error;
+    }
+
+    return { path: remotePath, checksum };
+  });
+}
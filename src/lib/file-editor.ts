@@ -0,0 +1,181 @@
+/**
+ * Open and save text files for the in-browser editor
+ * Saving checks the file against the hash it had when opened, copies the previous version to
+ * ~/.ssh-panel/backups/<original path>.<timestamp> (outside the original directory so include
+ * globs such as sites-enabled/* do not pick it up) and can run a validation command.
+ * A command containing {file} checks a temporary copy of the new content, kept under
+ * ~/.ssh-panel/tmp for the same reason, and the live file is only written once it passes.
+ * Other commands (such as nginx -t) check the configuration as installed, so the file is
+ * written first and its previous content put back if the command fails.
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import type { SFTPWrapper, Stats } from 'ssh2';
+import { withSFTP, statPath, realPath, readFile, writeFile, deletePath, ensureDirectory } from './sftp';
+import { executeCommand } from './ssh';
+import { escapeShellArg } from './terminal-utils';
+import type { RemoteFileInfo, RemoteFileContent, SaveFileData, FileValidationResult } from '@/types';
+
+export const MAX_EDITABLE_FILE_SIZE = 2 * 1024 * 1024;
+
+const BACKUP_DIRECTORY = '.ssh-panel/backups';
+const TEMP_DIRECTORY = '.ssh-panel/tmp';
+const MAX_VALIDATION_OUTPUT = 10000;
+
+export type SaveTextFileResult =
+  | { status: 'saved'; file: RemoteFileInfo; backupPath: string | null; validation: FileValidationResult | null }
+  | { status: 'conflict'; current: RemoteFileInfo }
+  | { status: 'invalid'; validation: FileValidationResult };
+
+function hashContent(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function toRemoteFileInfo(remotePath: string, stats: Stats, data: Buffer): RemoteFileInfo {
+  return {
+    path: remotePath,
+    size: data.length,
+    modified: new Date(stats.mtime * 1000).toISOString(),
+    hash: hashContent(data)
+  };
+}
+
+/**
+ * Check that a path can be opened in the editor
+ * @returns Error message, or null if editable
+ */
+function getEditError(stats: Stats): string | null {
+  if (!stats.isFile()) return 'Only regular files can be edited';
+  if (stats.size > MAX_EDITABLE_FILE_SIZE) {
+    return `File is larger than ${MAX_EDITABLE_FILE_SIZE / 1024 / 1024} MB`;
+  }
+  return null;
+}
+
+/**
+ * Read a text file
+ * @returns The file, or an error message if it cannot be edited as text
+ */
+export async function openTextFile(sftp: SFTPWrapper, remotePath: string): Promise<RemoteFileContent | string> {
+  const stats = await statPath(sftp, remotePath);
+  const editError = getEditError(stats);
+  if (editError) return editError;
+
+  const data = await readFile(sftp, remotePath);
+  if (data.includes(0)) {
+    return 'Binary files cannot be edited';
+  }
+
+  const text = data.toString('utf8');
+  const lineEnding = text.includes('\r\n') ? 'crlf' : 'lf';
+
+  return {
+    ...toRemoteFileInfo(remotePath, stats, data),
+    content: lineEnding === 'crlf' ? text.replace(/\r\n/g, '\n') : text,
+    lineEnding
+  };
+}
+
+function toValidationResult(command: string, result: { code: number | null; stdout: string; stderr: string }): FileValidationResult {
+  const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
+  return {
+    command,
+    exitCode: result.code ?? 0,
+    output: output.length > MAX_VALIDATION_OUTPUT ? output.substring(0, MAX_VALIDATION_OUTPUT) + '\n...' : output
+  };
+}
+
+// Placeholder in a validation command for the temporary copy of the new content
+export const VALIDATION_FILE_PLACEHOLDER = '{file}';
+
+/**
+ * Save a text file (the path must already be normalized)
+ * A failed validation leaves the file with its previous content.
+ */
+export async function saveTextFile(
+  serverId: number,
+  userId: number,
+  isAdmin: boolean,
+  data: SaveFileData
+): Promise<SaveTextFileResult> {
+  const remotePath = data.path;
+  const directory = path.posix.dirname(remotePath);
+  const runValidation = async (command: string) => toValidationResult(
+    command,
+    await executeCommand(serverId, userId, command, { cwd: directory }, isAdmin)
+  );
+
+  return withSFTP(serverId, userId, isAdmin, async sftp => {
+    const stats = await statPath(sftp, remotePath);
+    const editError = getEditError(stats);
+    if (editError) {
+      throw new Error(editError);
+    }
+
+    const previous = await readFile(sftp, remotePath);
+    if (!data.force && hashContent(previous) !== data.expectedHash) {
+      return { status: 'conflict', current: toRemoteFileInfo(remotePath, stats, previous) };
+    }
+
+    const content = Buffer.from(
+      data.lineEnding === 'crlf' ? data.content.replace(/\n/g, '\r\n') : data.content,
+      'utf8'
+    );
+    const command = data.validateCommand?.trim();
+    const home = await realPath(sftp, '.');
+    let validation: FileValidationResult | null = null;
+
+    // Validate a temporary copy before touching the file; it keeps the file name so
+    // validators that go by extension still recognize it
+    if (command?.includes(VALIDATION_FILE_PLACEHOLDER)) {
+      const tempDirectory = path.posix.join(home, TEMP_DIRECTORY, crypto.randomBytes(8).toString('hex'));
+      const tempPath = path.posix.join(tempDirectory, path.posix.basename(remotePath));
+
+      await ensureDirectory(sftp, tempDirectory, 0o700);
+      try {
+        await writeFile(sftp, tempPath, content, stats.mode & 0o777);
+        validation = await runValidation(command.split(VALIDATION_FILE_PLACEHOLDER).join(escapeShellArg(tempPath)));
+      } finally {
+        await deletePath(sftp, tempDirectory).catch(() => undefined);
+      }
+
+      if (validation.exitCode !== 0) {
+        return { status: 'invalid', validation };
+      }
+    }
+
+    let backupPath: string | null = null;
+    if (data.backup !== false) {
+      const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '');
+      backupPath = path.posix.join(home, BACKUP_DIRECTORY, `${remotePath}.${timestamp}`);
+
+      await ensureDirectory(sftp, path.posix.dirname(backupPath), 0o700);
+      await writeFile(sftp, backupPath, previous, stats.mode & 0o777);
+    }
+
+    await writeFile(sftp, remotePath, content);
+
+    // Without {file} the command checks the installed file, so undo the write if it fails
+    if (command && !validation) {
+      try {
+        validation = await runValidation(command);
+      } catch (error) {
+        await writeFile(sftp, remotePath, previous);
+        throw error;
+      }
+      if (validation.exitCode !== 0) {
+        await writeFile(sftp, remotePath, previous);
+        return { status: 'invalid', validation };
+      }
+    }
+
+    const saved = await statPath(sftp, remotePath);
+    return {
+      status: 'saved',
+      file: toRemoteFileInfo(remotePath, saved, content),
+      backupPath,
+      validation
+    };
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * Browser side of the streaming file transfer endpoints on the WebSocket server (see file-transfer.ts)
+ * Progress is reported over Socket.IO, so pass the id of a connected socket to receive it.
+ */
+
+import type { ApiResponse, StagedFile } from '@/types';
+
+// Helper function to get WebSocket URL
+export function getWebSocketUrl(): string {
+  const wsUrl = process.env.NEXT_PUBLIC_WS_URL;
+
+  if (wsUrl) {
+    return wsUrl;
+  }
+
+  if (typeof window !== 'undefined') {
+    const protocol = window.location.protocol;
+    const hostname = window.location.hostname;
+    const wsPort = process.env.WS_PORT || '3005';
+
+    if (hostname === 'localhost' || hostname === '127.0.0.1') {
+      return `${protocol}//${hostname}:${wsPort}`;
+    }
+
+    return `${protocol}//ws-${hostname}`;
+  }
+
+  return 'http://localhost:3005';
+}
+
+export function createTransferId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export interface UploadFileOptions {
+  serverId: number;
+  file: File;
+  // Absolute directory; the login user's home directory when omitted
+  directory?: string;
+  overwrite?: boolean;
+  transferId: string;
+  socketId?: string;
+}
+
+/**
+ * Upload a file; resolves with the API response and HTTP status (0 on network errors), also for failures
+ */
+export async function uploadFile(
+  options: UploadFileOptions
+): Promise<ApiResponse<{ path: string; size: number }> & { status: number }> {
+  const params = new URLSearchParams({
+    serverId: String(options.serverId),
+    name: options.file.name,
+    transferId: options.transferId
+  });
+  if (options.directory) params.set('path', options.directory);
+  if (options.overwrite) params.set('overwrite', '1');
+  if (options.socketId) params.set('socketId', options.socketId);
+
+  try {
+    const response = await fetch(`${getWebSocketUrl()}/files/upload?${params}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+      },
+      body: options.file
+    });
+    return { ...await response.json(), status: response.status };
+  } catch (error) {
+    console.error('File upload failed:', error);
+    return { success: false, error: 'Upload failed', status: 0 };
+  }
+}
+
+/**
+ * Stage a file on the WebSocket server for file:distribute
+ */
+export async function stageFile(file: File, transferId: string, socketId?: string): Promise<ApiResponse<StagedFile>> {
+  const params = new URLSearchParams({ name: file.name, transferId });
+  if (socketId) params.set('socketId', socketId);
+
+  try {
+    const response = await fetch(`${getWebSocketUrl()}/files/stage?${params}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+      },
+      body: file
+    });
+    return await response.json();
+  } catch (error) {
+    console.error('File stage failed:', error);
+    return { success: false, error: 'Upload failed' };
+  }
+}
+
+/**
+ * URL that downloads a file when opened
+ * Links cannot send headers, so the URL carries a token for this one download rather than the session token.
+ * @returns The URL, or null if the token could not be issued
+ */
+export async function getDownloadUrl(
+  serverId: number,
+  remotePath: string,
+  transferId?: string,
+  socketId?: string
+): Promise<string | null> {
+  try {
+    const response = await fetch(`${getWebSocketUrl()}/files/download-token?${new URLSearchParams({
+      serverId: String(serverId),
+      path: remotePath
+    })}`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` }
+    });
+    const result = await response.json() as ApiResponse<{ token: string }>;
+    if (!result.success || !result.data) return null;
+
+    const params = new URLSearchParams({ token: result.data.token });
+    if (transferId && socketId) {
+      params.set('transferId', transferId);
+      params.set('socketId', socketId);
+    }
+
+    return `${getWebSocketUrl()}/files/download?${params}`;
+  } catch (error) {
+    console.error('Download link failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * Streaming file upload and download over SFTP, served by the WebSocket server
+ *
+ *   POST /files/upload?serverId=&path=&name=&overwrite=1   request body is the raw file
+ *   POST /files/download-token?serverId=&path=              returns a token for one download
+ *   GET  /files/download?token=                             response is the raw file
+ *   POST /files/stage?name=                                 stages the raw file for distribution
+ *
+ * POST requests take the session JWT as a bearer token. Downloads are plain links, which cannot
+ * send headers, so they carry a download token instead: valid for a minute, for one file on one
+ * server and only once, which keeps the session token out of URLs, logs and browser history.
+ * With `socketId` and `transferId` set, progress is emitted to that Socket.IO connection of the
+ * same user as file:transfer:progress / file:transfer:complete / file:transfer:error.
+ * Uploads are limited to the maxFileUploadSize system setting (MB); every transfer is logged.
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { SFTPWrapper } from 'ssh2';
+import { prisma } from './database';
+import { getUserFromToken, generateDownloadToken, getDownloadGrant } from './auth';
+import { isIpAllowed } from './ip-allowlist';
+import { getHandshakeIp } from './ip-address';
+import { withSFTP, normalizeRemotePath, sftpErrorStatus, realPath, statPath, removeFile, replacePath } from './sftp';
+import { stageFile } from './file-distribution';
+import type { User, FileTransferProgress } from '@/types';
+
+const DEFAULT_MAX_UPLOAD_MB = 10;
+const PROGRESS_INTERVAL_MS = 250;
+
+type TransferDirection = FileTransferProgress['direction'];
+
+export interface FileTransferOptions {
+  isOriginAllowed: (origin: string) => boolean;
+  // Emit to a socket, only if it belongs to the user
+  emitToSocket: (socketId: string, userId: number, event: string, data: unknown) => void;
+}
+
+interface TransferContext {
+  user: User;
+  // 0 for staging, which is not tied to a server
+  serverId: number;
+  transferId: string | null;
+  socketId: string | null;
+  options: FileTransferOptions;
+}
+
+// Download tokens already used, by token id until they expire
+const usedDownloadTokens = new Map<string, number>();
+
+function claimDownloadToken(tokenId: string, expiresAt: number): boolean {
+  const now = Date.now();
+  usedDownloadTokens.forEach((expiry, id) => {
+    if (expiry <= now) usedDownloadTokens.delete(id);
+  });
+
+  if (usedDownloadTokens.has(tokenId)) return false;
+  usedDownloadTokens.set(tokenId, expiresAt);
+  return true;
+}
+
+// Status and message for an error that ends a transfer before any data is sent
+interface TransferFailure {
+  status: number;
+  error: string;
+}
+
+/**
+ * Upload size limit in bytes, from the maxFileUploadSize system setting
+ */
+export async function getMaxUploadBytes(): Promise<number> {
+  const settingsRecord = await prisma.systemSettings.findUnique({
+    where: { key: 'system' }
+  });
+  const settings = settingsRecord?.value as { maxFileUploadSize?: number } | undefined;
+  return (settings?.maxFileUploadSize || DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+}
+
+function isValidFileName(name: string | null): name is string {
+  return !!name && name !== '.' && name !== '..' && !name.includes('/') && !name.includes('\0');
+}
+
+function sendJson(res: ServerResponse, status: number, body: object): void {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function emitProgress(context: TransferContext, event: string, data: object): void {
+  if (context.socketId && context.transferId) {
+    context.options.emitToSocket(context.socketId, context.user.id, event, { transferId: context.transferId, ...data });
+  }
+}
+
+/**
+ * Pass-through stream that counts bytes, reports progress and enforces a size limit
+ */
+function createProgressStream(
+  context: TransferContext,
+  progress: Omit<FileTransferProgress, 'transferId' | 'transferred'>,
+  maxBytes?: number
+): { stream: Transform; transferred: () => number } {
+  let transferred = 0;
+  let lastEmit = 0;
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      transferred += chunk.length;
+
+      if (maxBytes !== undefined && transferred > maxBytes) {
+        callback(new Error(`File exceeds the upload limit of ${Math.round(maxBytes / 1024 / 1024)} MB`));
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastEmit >= PROGRESS_INTERVAL_MS) {
+        lastEmit = now;
+        emitProgress(context, 'file:transfer:progress', { ...progress, transferred });
+      }
+      callback(null, chunk);
+    }
+  });
+
+  return { stream, transferred: () => transferred };
+}
+
+async function logTransfer(
+  context: TransferContext,
+  direction: TransferDirection,
+  remotePath: string,
+  size: number,
+  startTime: number,
+  error?: string
+): Promise<void> {
+  const verb = direction === 'upload' ? 'uploaded' : 'downloaded';
+
+  try {
+    await prisma.serverLog.create({
+      data: {
+        serverId: context.serverId,
+        logType: error ? 'ERROR' : 'COMMAND',
+        message: error
+          ? `File ${direction} by ${context.user.email} failed: ${remotePath} (${error})`
+          : `File ${verb} by ${context.user.email}: ${remotePath} (${size} bytes)`,
+        data: {
+          event: direction === 'upload' ? 'FILE_UPLOAD' : 'FILE_DOWNLOAD',
+          path: remotePath,
+          size,
+          duration: Date.now() - startTime,
+          success: !error,
+          ...(error && { error }),
+          ...(context.transferId && { transferId: context.transferId }),
+          userId: context.user.id
+        }
+      }
+    });
+  } catch (logError) {
+    console.error('Failed to log file transfer:', logError);
+  }
+}
+
+async function handleUpload(req: IncomingMessage, res: ServerResponse, context: TransferContext, params: URLSearchParams): Promise<void> {
+  const name = params.get('name');
+  const requestedPath = params.get('path');
+  const directory = requestedPath ? normalizeRemotePath(requestedPath) : undefined;
+  const overwrite = params.get('overwrite') === '1';
+
+  if (!isValidFileName(name)) {
+    return sendJson(res, 400, { success: false, error: 'Invalid file name' });
+  }
+  if (directory === null) {
+    return sendJson(res, 400, { success: false, error: 'Path must be absolute' });
+  }
+
+  const maxBytes = await getMaxUploadBytes();
+  const declaredSize = parseInt(req.headers['content-length'] || '');
+  if (declaredSize > maxBytes) {
+    return sendJson(res, 413, {
+      success: false,
+      error: `File exceeds the upload limit of ${Math.round(maxBytes / 1024 / 1024)} MB`
+    });
+  }
+
+  const startTime = Date.now();
+  let remotePath = directory ? path.posix.join(directory, name) : name;
+  let transferred = 0;
+
+  try {
+    const failure = await withSFTP(context.serverId, context.user.id, context.user.role === 'ADMIN', async (sftp: SFTPWrapper) => {
+      remotePath = path.posix.join(directory || await realPath(sftp, '.'), name);
+
+      const existing = await statPath(sftp, remotePath).catch(() => null);
+      if (existing && !overwrite) {
+        return { status: 409, error: 'File already exists' } as TransferFailure;
+      }
+
+      const progress = createProgressStream(context, {
+        direction: 'upload',
+        path: remotePath,
+        total: isNaN(declaredSize) ? null : declaredSize
+      }, maxBytes);
+
+      // Write next to the target and move it into place once complete, so a failed upload
+      // never touches the file it would overwrite
+      const tempPath = path.posix.join(
+        path.posix.dirname(remotePath),
+        `.upload-${crypto.randomBytes(4).toString('hex')}-${name}`
+      );
+      const mode = existing ? existing.mode & 0o777 : undefined;
+
+      try {
+        await pipeline(req, progress.stream, sftp.createWriteStream(tempPath, mode !== undefined ? { mode } : {}));
+        transferred = progress.transferred();
+        await replacePath(sftp, tempPath, remotePath);
+      } catch (error) {
+        transferred = progress.transferred();
+        await removeFile(sftp, tempPath).catch(() => undefined);
+        throw error;
+      }
+      return null;
+    });
+
+    if (failure) {
+      emitProgress(context, 'file:transfer:error', { error: failure.error });
+      return sendJson(res, failure.status, { success: false, error: failure.error });
+    }
+
+    await logTransfer(context, 'upload', remotePath, transferred, startTime);
+    emitProgress(context, 'file:transfer:complete', { direction: 'upload', path: remotePath, transferred });
+    sendJson(res, 200, {
+      success: true,
+      data: { path: remotePath, size: transferred },
+      message: 'File uploaded successfully'
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Upload failed';
+    const status = message.startsWith('File exceeds') ? 413 : sftpErrorStatus(error);
+
+    console.error('File upload error:', error);
+    await logTransfer(context, 'upload', remotePath, transferred, startTime, message);
+    emitProgress(context, 'file:transfer:error', { error: message });
+    sendJson(res, status, { success: false, error: message });
+  }
+}
+
+// Stage an upload on this host for file distribution (no audit entry, each target is logged instead)
+async function handleStage(req: IncomingMessage, res: ServerResponse, context: TransferContext, params: URLSearchParams): Promise<void> {
+  const name = params.get('name');
+  if (!isValidFileName(name)) {
+    return sendJson(res, 400, { success: false, error: 'Invalid file name' });
+  }
+
+  const maxBytes = await getMaxUploadBytes();
+  const declaredSize = parseInt(req.headers['content-length'] || '');
+  if (declaredSize > maxBytes) {
+    return sendJson(res, 413, {
+      success: false,
+      error: `File exceeds the upload limit of ${Math.round(maxBytes / 1024 / 1024)} MB`
+    });
+  }
+
+  try {
+    const progress = createProgressStream(context, {
+      direction: 'upload',
+      path: name,
+      total: isNaN(declaredSize) ? null : declaredSize
+    }, maxBytes);
+    const staged = await stageFile(context.user.id, name, req, progress.stream);
+
+    emitProgress(context, 'file:transfer:complete', { direction: 'upload', path: name, transferred: staged.size });
+    sendJson(res, 200, { success: true, data: staged, message: 'File staged successfully' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Upload failed';
+
+    console.error('File stage error:', error);
+    emitProgress(context, 'file:transfer:error', { error: message });
+    sendJson(res, message.startsWith('File exceeds') ? 413 : 500, { success: false, error: message });
+  }
+}
+
+async function handleDownload(res: ServerResponse, context: TransferContext, remotePath: string): Promise<void> {
+  const startTime = Date.now();
+  let transferred = 0;
+
+  try {
+    const failure = await withSFTP(context.serverId, context.user.id, context.user.role === 'ADMIN', async (sftp: SFTPWrapper) => {
+      const stats = await statPath(sftp, remotePath);
+      if (!stats.isFile()) {
+        return { status: 400, error: 'Only regular files can be downloaded' } as TransferFailure;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': stats.size,
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(path.posix.basename(remotePath))}`,
+        'Cache-Control': 'no-store'
+      });
+
+      const progress = createProgressStream(context, { direction: 'download', path: remotePath, total: stats.size });
+      try {
+        await pipeline(sftp.createReadStream(remotePath), progress.stream, res);
+      } finally {
+        transferred = progress.transferred();
+      }
+      return null;
+    });
+
+    if (failure) {
+      emitProgress(context, 'file:transfer:error', { error: failure.error });
+      return sendJson(res, failure.status, { success: false, error: failure.error });
+    }
+
+    await logTransfer(context, 'download', remotePath, transferred, startTime);
+    emitProgress(context, 'file:transfer:complete', { direction: 'download', path: remotePath, transferred });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Download failed';
+
+    console.error('File download error:', error);
+    await logTransfer(context, 'download', remotePath, transferred, startTime, message);
+    emitProgress(context, 'file:transfer:error', { error: message });
+    sendJson(res, sftpErrorStatus(error), { success: false, error: message });
+  }
+}
+
+// Same rule as canAccessServer: admins may use any server, others only their own
+async function getServerAccessError(user: User, serverId: number): Promise<TransferFailure | null> {
+  const server = await prisma.server.findUnique({
+    where: { id: serverId },
+    select: { userId: true }
+  });
+  if (!server) {
+    return { status: 404, error: 'Server not found' };
+  }
+  if (user.role !== 'ADMIN' && server.userId !== user.id) {
+    return { status: 403, error: 'Access denied to this server' };
+  }
+  return null;
+}
+
+/**
+ * Handle a /files/* request
+ */
+export async function handleFileTransferRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: FileTransferOptions
+): Promise<void> {
+  const origin = req.headers.origin;
+  if (origin && options.isOriginAllowed(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.setHeader('Vary', 'Origin');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+
+    if (!['POST /files/upload', 'POST /files/download-token', 'GET /files/download', 'POST /files/stage'].includes(route)) {
+      return sendJson(res, 404, { success: false, error: 'Not found' });
+    }
+
+    const clientIp = getHandshakeIp({ address: req.socket.remoteAddress || '', headers: req.headers });
+    if (!await isIpAllowed(clientIp)) {
+      return sendJson(res, 403, { success: false, error: 'Access denied from this IP address' });
+    }
+
+    const transferId = url.searchParams.get('transferId');
+    const socketId = url.searchParams.get('socketId');
+
+    if (route === 'GET /files/download') {
+      const grant = await getDownloadGrant(url.searchParams.get('token') || '');
+      if (!grant) {
+        return sendJson(res, 401, { success: false, error: 'Invalid or expired download link' });
+      }
+      if (!claimDownloadToken(grant.tokenId, grant.expiresAt)) {
+        return sendJson(res, 410, { success: false, error: 'Download link has already been used' });
+      }
+
+      const accessError = await getServerAccessError(grant.user, grant.serverId);
+      if (accessError) {
+        return sendJson(res, accessError.status, { success: false, error: accessError.error });
+      }
+
+      return await handleDownload(res, { user: grant.user, serverId: grant.serverId, transferId, socketId, options }, grant.path);
+    }
+
+    const token = req.headers.authorization?.replace('Bearer ', '');
+    const user = token ? await getUserFromToken(token) : null;
+    if (!user) {
+      return sendJson(res, 401, { success: false, error: 'Invalid or expired token' });
+    }
+
+    if (route === 'POST /files/stage') {
+      return await handleStage(req, res, { user, serverId: 0, transferId, socketId, options }, url.searchParams);
+    }
+
+    const serverId = parseInt(url.searchParams.get('serverId') || '');
+    if (isNaN(serverId)) {
+      return sendJson(res, 400, { success: false, error: 'Invalid server ID' });
+    }
+
+    const accessError = await getServerAccessError(user, serverId);
+    if (accessError) {
+      return sendJson(res, accessError.status, { success: false, error: accessError.error });
+    }
+
+    if (route === 'POST /files/download-token') {
+      const remotePath = normalizeRemotePath(url.searchParams.get('path'));
+      if (!remotePath) {
+        return sendJson(res, 400, { success: false, error: 'Path must be absolute' });
+      }
+      return sendJson(res, 200, { success: true, data: { token: generateDownloadToken(user.id, serverId, remotePath) } });
+    }
+
+    await handleUpload(req, res, { user, serverId, transferId, socketId, options }, url.searchParams);
+  } catch (error) {
+    console.error('File transfer error:', error);
+    sendJson(res, 500, { success: false, error: 'File transfer failed' });
+  }
+}
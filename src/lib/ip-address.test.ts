@@ -0,0 +1,82 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  normalizeIp,
+  isValidAllowlistEntry,
+  isIpInAllowlist,
+  getRequestIp,
+  getHandshakeIp,
+  UNKNOWN_IP
+} from './ip-address';
+
+afterEach(() => {
+  delete process.env.TRUSTED_PROXY_COUNT;
+});
+
+test('normalizeIp strips the IPv4-mapped IPv6 prefix', () => {
+  assert.equal(normalizeIp('::ffff:10.0.0.1'), '10.0.0.1');
+  assert.equal(normalizeIp(' 10.0.0.1 '), '10.0.0.1');
+  assert.equal(normalizeIp('::ffff:abcd'), '::ffff:abcd');
+});
+
+test('isValidAllowlistEntry accepts addresses, CIDR ranges and localhost', () => {
+  for (const entry of ['10.0.0.1', '10.0.0.0/8', '0.0.0.0/0', '2001:db8::/32', '::1', 'localhost']) {
+    assert.equal(isValidAllowlistEntry(entry), true, entry);
+  }
+  for (const entry of ['10.0.0.0/33', '2001:db8::/129', '10.0.0.0/', '10.0.0.0/8/1', '10.0.0.0/x', 'example.com', '']) {
+    assert.equal(isValidAllowlistEntry(entry), false, entry);
+  }
+});
+
+test('isIpInAllowlist matches CIDR ranges', () => {
+  const allowlist = ['192.168.1.0/24', '10.1.2.3', '2001:db8::/32'];
+
+  assert.equal(isIpInAllowlist('192.168.1.200', allowlist), true);
+  assert.equal(isIpInAllowlist('192.168.2.1', allowlist), false);
+  assert.equal(isIpInAllowlist('10.1.2.3', allowlist), true);
+  assert.equal(isIpInAllowlist('10.1.2.4', allowlist), false);
+  assert.equal(isIpInAllowlist('2001:db8:1::5', allowlist), true);
+  assert.equal(isIpInAllowlist('2001:db9::5', allowlist), false);
+  assert.equal(isIpInAllowlist('::ffff:192.168.1.7', allowlist), true);
+});
+
+test('isIpInAllowlist allows everything with an empty list and rejects unknown addresses otherwise', () => {
+  assert.equal(isIpInAllowlist('203.0.113.5', []), true);
+  assert.equal(isIpInAllowlist(UNKNOWN_IP, ['0.0.0.0/0']), false);
+});
+
+test('isIpInAllowlist expands localhost and ignores invalid entries', () => {
+  assert.equal(isIpInAllowlist('127.0.0.1', ['localhost']), true);
+  assert.equal(isIpInAllowlist('::1', ['localhost']), true);
+  assert.equal(isIpInAllowlist('10.0.0.1', ['not-an-ip', '10.0.0.0/33']), false);
+});
+
+test('X-Forwarded-For is ignored unless proxies are trusted', () => {
+  const headers = new Headers({ 'x-forwarded-for': '198.51.100.7' });
+
+  assert.equal(getRequestIp({ headers }), UNKNOWN_IP);
+  assert.equal(getHandshakeIp({ address: '::ffff:10.0.0.2', headers: { 'x-forwarded-for': '198.51.100.7' } }), '10.0.0.2');
+});
+
+test('X-Forwarded-For uses the hop appended by the outermost trusted proxy', () => {
+  process.env.TRUSTED_PROXY_COUNT = '2';
+  // The client wrote the first entry itself; the two proxies appended the others
+  const header = '1.2.3.4, 198.51.100.7, 10.0.0.5';
+
+  assert.equal(getRequestIp({ headers: new Headers({ 'x-forwarded-for': header }) }), '198.51.100.7');
+  assert.equal(getHandshakeIp({ address: '10.0.0.9', headers: { 'x-forwarded-for': header } }), '198.51.100.7');
+});
+
+test('X-Forwarded-For with fewer hops than trusted proxies or an invalid hop is not used', () => {
+  process.env.TRUSTED_PROXY_COUNT = '2';
+
+  assert.equal(getRequestIp({ headers: new Headers({ 'x-forwarded-for': '198.51.100.7' }) }), UNKNOWN_IP);
+  assert.equal(getRequestIp({ headers: new Headers({ 'x-forwarded-for': 'garbage, 10.0.0.5' }) }), UNKNOWN_IP);
+  assert.equal(getHandshakeIp({ address: '10.0.0.9', headers: { 'x-forwarded-for': ['198.51.100.7'] } }), '10.0.0.9');
+});
+
+test('the platform address takes precedence over X-Forwarded-For', () => {
+  process.env.TRUSTED_PROXY_COUNT = '1';
+
+  assert.equal(getRequestIp({ ip: '203.0.113.9', headers: new Headers({ 'x-forwarded-for': '198.51.100.7' }) }), '203.0.113.9');
+});
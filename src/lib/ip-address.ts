@@ -0,0 +1,130 @@
+/**
+ * Client addresses and allowlist matching, without database access
+ * Allowlist entries are single addresses, CIDR ranges (IPv4 or IPv6) or 'localhost'.
+ * An empty list allows every address.
+ *
+ * X-Forwarded-For is written by the client, so it is only read when TRUSTED_PROXY_COUNT
+ * names how many reverse proxies append to it. The client is then the hop that many entries
+ * from the right; anything further left was supplied by the client. Without the setting the
+ * WebSocket server uses the socket peer, and Next.js requests have no usable address, which
+ * a non-empty allowlist rejects.
+ */
+
+import { BlockList, isIP } from 'net';
+
+const LOCALHOST_ADDRESSES = ['127.0.0.1', '::1'];
+
+// Address of a Next.js request with no platform IP and no trusted proxy
+export const UNKNOWN_IP = 'unknown';
+
+interface AllowlistEntry {
+  address: string;
+  prefix: number;
+  family: 'ipv4' | 'ipv6';
+}
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix so ::ffff:10.0.0.1 matches 10.0.0.1
+ */
+export function normalizeIp(ip: string): string {
+  const trimmed = ip.trim();
+  return trimmed.toLowerCase().startsWith('::ffff:') && isIP(trimmed.substring(7)) === 4
+    ? trimmed.substring(7)
+    : trimmed;
+}
+
+function parseEntry(entry: string): AllowlistEntry | null {
+  const [address, prefixPart, ...rest] = entry.trim().split('/');
+  const version = isIP(address);
+  if (!version || rest.length > 0) return null;
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefix = prefixPart === undefined ? maxPrefix : Number(prefixPart);
+  if (!/^\d+$/.test(prefixPart ?? '0') || prefix < 0 || prefix > maxPrefix) return null;
+
+  return { address, prefix, family: version === 4 ? 'ipv4' : 'ipv6' };
+}
+
+/**
+ * Check the format of an allowlist entry
+ */
+export function isValidAllowlistEntry(entry: string): boolean {
+  return entry === 'localhost' || parseEntry(entry) !== null;
+}
+
+/**
+ * Check an address against allowlist entries (invalid entries are ignored)
+ */
+export function isIpInAllowlist(ip: string, allowlist: string[]): boolean {
+  if (allowlist.length === 0) return true;
+
+  const address = normalizeIp(ip);
+  const version = isIP(address);
+  if (!version) return false;
+
+  const list = new BlockList();
+  for (const entry of allowlist) {
+    if (entry === 'localhost') {
+      LOCALHOST_ADDRESSES.forEach(localhost => list.addAddress(localhost, isIP(localhost) === 4 ? 'ipv4' : 'ipv6'));
+      continue;
+    }
+
+    const parsed = parseEntry(entry);
+    if (parsed) {
+      list.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return list.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Logged once per process when a request has no usable address
+let warnedUnknownIp = false;
+
+// Reverse proxies in front of the app that append to X-Forwarded-For
+function getTrustedProxyCount(): number {
+  const count = parseInt(process.env.TRUSTED_PROXY_COUNT || '0');
+  return isNaN(count) || count < 0 ? 0 : count;
+}
+
+/**
+ * Client address from X-Forwarded-For, as appended by the trusted proxies
+ * @returns null when no proxy is trusted or the header has fewer hops than proxies
+ */
+function getForwardedIp(header: string | string[] | null | undefined): string | null {
+  const proxyCount = getTrustedProxyCount();
+  if (proxyCount === 0 || !header) return null;
+
+  const hops = (Array.isArray(header) ? header.join(',') : header)
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  const hop = hops[hops.length - proxyCount];
+
+  return hop && isIP(normalizeIp(hop)) ? normalizeIp(hop) : null;
+}
+
+/**
+ * Client address of a Next.js request
+ * request.ip is set by hosting platforms; otherwise only a trusted proxy's X-Forwarded-For is used.
+ */
+export function getRequestIp(request: { ip?: string; headers: Headers }): string {
+  const ip = request.ip || getForwardedIp(request.headers.get('x-forwarded-for'));
+  if (ip) return ip;
+
+  if (!warnedUnknownIp) {
+    warnedUnknownIp = true;
+    console.warn(
+      'WARNING: client IP addresses cannot be determined. Login rate limiting applies to all clients ' +
+      'together and per-IP lockout is disabled. Set TRUSTED_PROXY_COUNT to the number of reverse proxies in front of the app.'
+    );
+  }
+  return UNKNOWN_IP;
+}
+
+/**
+ * Client address of a Socket.IO handshake (or a raw HTTP request to the WebSocket server)
+ */
+export function getHandshakeIp(handshake: { address: string; headers: Record<string, string | string[] | undefined> }): string {
+  return getForwardedIp(handshake.headers['x-forwarded-for']) || normalizeIp(handshake.address);
+}
@@ -0,0 +1,28 @@
+/**
+ * IP allowlist enforcement from the security settings (ipWhitelist)
+ * Matching and client address parsing are in ip-address.ts.
+ *
+ * Emergency bypass: set IP_ALLOWLIST_BYPASS=true and restart to ignore the list,
+ * e.g. after saving a list that excludes the admin's own address.
+ */
+
+import { getSecuritySettings } from './security-settings';
+import { isIpInAllowlist } from './ip-address';
+
+export function isAllowlistBypassed(): boolean {
+  return process.env.IP_ALLOWLIST_BYPASS === 'true';
+}
+
+/**
+ * Check a client address against the current security settings
+ */
+export async function isIpAllowed(ip: string): Promise<boolean> {
+  if (isAllowlistBypassed()) return true;
+
+  const settings = await getSecuritySettings();
+  return isIpInAllowlist(ip, settings.ipWhitelist);
+}
+
+if (isAllowlistBypassed()) {
+  console.warn('⚠️ IP_ALLOWLIST_BYPASS is set: the IP allowlist is not enforced');
+}
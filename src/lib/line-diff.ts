@@ -0,0 +1,81 @@
+/**
+ * Line diff for comparing script versions (longest common subsequence)
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  // 1-based line numbers in the old and new text
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+// Above this many line pairs the LCS table gets too large; show a full replace instead
+const MAX_DIFF_CELLS = 2000 * 2000;
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Common prefix and suffix are cheap to strip and keep the table small
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'same', text: oldLines[i], oldNumber: i + 1, newNumber: i + 1 });
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a.forEach((text, i) => result.push({ type: 'removed', text, oldNumber: start + i + 1 }));
+    b.forEach((text, i) => result.push({ type: 'added', text, newNumber: start + i + 1 }));
+  } else {
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        result.push({ type: 'same', text: a[i], oldNumber: start + i + 1, newNumber: start + j + 1 });
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        result.push({ type: 'removed', text: a[i], oldNumber: start + i + 1 });
+        i++;
+      } else {
+        result.push({ type: 'added', text: b[j], newNumber: start + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - oldEnd; k++) {
+    result.push({
+      type: 'same',
+      text: oldLines[oldEnd + k],
+      oldNumber: oldEnd + k + 1,
+      newNumber: newEnd + k + 1
+    });
+  }
+
+  return result;
+}
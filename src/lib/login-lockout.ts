@@ -0,0 +1,201 @@
+/**
+ * Failed login tracking and account lockout
+ * Thresholds come from the security settings (lockoutAttempts, lockoutDuration in seconds).
+ * Accounts are tracked on the User row and client IPs in login_ip_failures; counts are
+ * incremented in the database so concurrent attempts all count. Requests without a known
+ * client address (no trusted proxy) are only tracked per account, as locking the shared
+ * address would lock everyone out; the login rate limit still applies to them as one bucket.
+ */
+
+import { prisma } from './database';
+import { UNKNOWN_IP } from './ip-address';
+import type { SecuritySettings } from './security-settings';
+
+// Shared IPs (NAT, proxies) get more headroom than a single account
+const IP_LOCKOUT_MULTIPLIER = 2;
+
+// IP failure rows idle this long are removed by cleanupIpFailures
+const IP_FAILURE_RETENTION_MS = 3600000;
+
+/**
+ * Write an AUTH entry to the system log (not tied to a server)
+ */
+export async function logAuthEvent(message: string, data: Record<string, unknown>): Promise<void> {
+  try {
+    await prisma.serverLog.create({
+      data: {
+        logType: 'AUTH',
+        message,
+        data: data as any
+      }
+    });
+  } catch (error) {
+    console.error('Failed to write auth log:', error);
+  }
+}
+
+/**
+ * Get the time an IP is locked out until, or null if it may attempt a login
+ */
+export async function getIpLockedUntil(ip: string): Promise<Date | null> {
+  if (ip === UNKNOWN_IP) return null;
+
+  const record = await prisma.loginIpFailure.findUnique({ where: { ip } });
+  return record?.lockedUntil && record.lockedUntil > new Date() ? record.lockedUntil : null;
+}
+
+/**
+ * Count a failed login from an IP
+ * @returns The lockout expiry if this failure locked the IP out
+ */
+export async function recordIpFailure(
+  ip: string,
+  email: string,
+  settings: SecuritySettings
+): Promise<Date | null> {
+  if (ip === UNKNOWN_IP) return null;
+
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - settings.lockoutDuration * 1000);
+
+  // Failures older than the lockout duration start a new window
+  await prisma.loginIpFailure.updateMany({
+    where: { ip, firstFailureAt: { lt: windowStart } },
+    data: { count: 0, firstFailureAt: now, lockedUntil: null }
+  });
+
+  const increment = { count: { increment: 1 } };
+  const record = await prisma.loginIpFailure.upsert({
+    where: { ip },
+    create: { ip, count: 1, firstFailureAt: now },
+    update: increment
+  }).catch(() =>
+    // Another attempt created the row first
+    prisma.loginIpFailure.update({ where: { ip }, data: increment })
+  );
+
+  if (record.count < settings.lockoutAttempts * IP_LOCKOUT_MULTIPLIER) {
+    return null;
+  }
+
+  const lockedUntil = new Date(now.getTime() + settings.lockoutDuration * 1000);
+  const { count: locked } = await prisma.loginIpFailure.updateMany({
+    where: { ip, lockedUntil: null },
+    data: { lockedUntil }
+  });
+
+  if (locked > 0) {
+    await logAuthEvent(`IP ${ip} locked out after ${record.count} failed login attempts`, {
+      event: 'IP_LOCKED',
+      ip,
+      lastEmail: email,
+      attempts: record.count,
+      lockedUntil: lockedUntil.toISOString()
+    });
+  }
+
+  return lockedUntil;
+}
+
+/**
+ * Count a failed login for an account
+ * Failures older than the lockout duration are forgotten.
+ * @returns The lockout expiry if this failure locked the account
+ */
+export async function recordAccountFailure(
+  user: { id: number; email: string },
+  ip: string,
+  settings: SecuritySettings
+): Promise<Date | null> {
+  const now = new Date();
+  const windowMs = settings.lockoutDuration * 1000;
+  const windowStart = new Date(now.getTime() - windowMs);
+
+  await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ lastFailedLoginAt: null }, { lastFailedLoginAt: { lt: windowStart } }]
+    },
+    data: { failedLoginAttempts: 0 }
+  });
+
+  const { failedLoginAttempts: attempts } = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginAttempts: { increment: 1 },
+      lastFailedLoginAt: now
+    },
+    select: { failedLoginAttempts: true }
+  });
+
+  if (attempts < settings.lockoutAttempts) {
+    return null;
+  }
+
+  const lockedUntil = new Date(now.getTime() + windowMs);
+  const { count: locked } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }]
+    },
+    data: { lockedUntil }
+  });
+
+  if (locked > 0) {
+    await logAuthEvent(`Account ${user.email} locked out after ${attempts} failed login attempts`, {
+      event: 'ACCOUNT_LOCKED',
+      userId: user.id,
+      email: user.email,
+      ip,
+      attempts,
+      lockedUntil: lockedUntil.toISOString()
+    });
+  }
+
+  return lockedUntil;
+}
+
+/**
+ * Reset failure tracking after a successful login
+ */
+export async function clearAccountFailures(userId: number): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null
+    }
+  });
+}
+
+/**
+ * Unlock an account before its lockout expires (admin action)
+ */
+export async function unlockAccount(
+  user: { id: number; email: string },
+  unlockedBy: { id: number; email: string }
+): Promise<void> {
+  await clearAccountFailures(user.id);
+
+  await logAuthEvent(`Account ${user.email} unlocked by ${unlockedBy.email}`, {
+    event: 'ACCOUNT_UNLOCKED',
+    userId: user.id,
+    email: user.email,
+    unlockedBy: unlockedBy.id
+  });
+}
+
+export async function cleanupIpFailures(): Promise<void> {
+  const now = new Date();
+  try {
+    await prisma.loginIpFailure.deleteMany({
+      where: {
+        firstFailureAt: { lt: new Date(now.getTime() - IP_FAILURE_RETENTION_MS) },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }]
+      }
+    });
+  } catch (error) {
+    console.error('Failed to clean up login IP failures:', error);
+  }
+}
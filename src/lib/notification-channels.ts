@@ -0,0 +1,234 @@
+/**
+ * Notification channel senders - generic webhook, SMTP email, Slack-compatible webhook
+ * and LINE Notify-style token endpoint. Kept free of database access so the vault
+ * rotation script can import the secret context.
+ *
+ * Generic webhooks receive the notification as JSON. With a secret set, the raw body is
+ * signed with HMAC-SHA256 and sent as `X-Signature-256: sha256=<hex>`.
+ */
+
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import type {
+  NotificationChannelType,
+  NotificationChannelConfig,
+  NotificationChannelData,
+  NotificationEventType
+} from '@/types';
+
+export const NOTIFICATION_SECRET_CONTEXT = 'notificationChannel.secret';
+
+export const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = ['WEBHOOK', 'EMAIL', 'SLACK', 'LINE'];
+
+export const NOTIFICATION_EVENTS: NotificationEventType[] = [
+  'SERVER_ERROR',
+  'SERVER_RECOVERED',
+  'SCRIPT_COMPLETED',
+  'SCRIPT_FAILED',
+  'ALERT_FIRED',
+  'ALERT_RESOLVED',
+  'APPROVAL_REQUESTED'
+];
+
+export const DEFAULT_LINE_NOTIFY_URL = 'https://notify-api.line.me/api/notify';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+export interface Notification {
+  // TEST is only sent from the channel test button and ignores event filters
+  event: NotificationEventType | 'TEST';
+  title: string;
+  message: string;
+  severity: 'info' | 'warning' | 'critical';
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+export interface DeliveryResult {
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a channel from the API
+ * @param hasStoredSecret - Whether the channel already has a secret (updates may keep it)
+ * @returns An error message, or null if valid
+ */
+export function validateNotificationChannel(
+  data: Partial<NotificationChannelData>,
+  hasStoredSecret: boolean = false
+): string | null {
+  if (typeof data.name !== 'string' || !data.name.trim()) return 'Channel name is required';
+  if (!NOTIFICATION_CHANNEL_TYPES.includes(data.type as NotificationChannelType)) return 'Invalid channel type';
+  if (!Array.isArray(data.events) || !data.events.every(event => NOTIFICATION_EVENTS.includes(event))) {
+    return 'Events must be a list of notification event types';
+  }
+
+  const config = data.config || {};
+  const hasSecret = typeof data.secret === 'string' && data.secret.length > 0
+    ? true
+    : data.secret === null ? false : hasStoredSecret;
+
+  switch (data.type) {
+    case 'WEBHOOK':
+      if (!isHttpUrl(config.url)) return 'Webhook URL must be an http(s) URL';
+      break;
+    case 'SLACK':
+      if (typeof data.secret === 'string' && data.secret && !isHttpUrl(data.secret)) {
+        return 'Slack webhook URL must be an http(s) URL';
+      }
+      if (!hasSecret) return 'Slack webhook URL is required';
+      break;
+    case 'LINE':
+      if (config.url !== undefined && config.url !== '' && !isHttpUrl(config.url)) {
+        return 'LINE endpoint must be an http(s) URL';
+      }
+      if (!hasSecret) return 'LINE access token is required';
+      break;
+    case 'EMAIL':
+      if (!config.host) return 'SMTP host is required';
+      if (config.port !== undefined && (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535)) {
+        return 'SMTP port must be between 1 and 65535';
+      }
+      if (!config.from) return 'Sender address is required';
+      if (!Array.isArray(config.to) || config.to.length === 0) return 'At least one recipient is required';
+      break;
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the config fields used by the channel type
+ */
+export function pickChannelConfig(type: NotificationChannelType, config: NotificationChannelConfig = {}): NotificationChannelConfig {
+  switch (type) {
+    case 'WEBHOOK':
+      return { url: config.url };
+    case 'LINE':
+      return config.url ? { url: config.url } : {};
+    case 'EMAIL':
+      return {
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        username: config.username || undefined,
+        from: config.from,
+        to: config.to
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of a webhook body
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function formatPlainText(notification: Notification): string {
+  const details = Object.entries(notification.data || {})
+    .filter(([, value]) => value !== undefined && value !== null && typeof value !== 'object')
+    .map(([key, value]) => `${key}: ${value}`);
+
+  return [notification.message, ...(details.length > 0 ? ['', ...details] : [])].join('\n');
+}
+
+async function post(url: string, body: string, headers: Record<string, string>): Promise<DeliveryResult> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'User-Agent': 'SSH-Control-Panel', ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  });
+
+  if (response.ok) {
+    return { success: true, statusCode: response.status };
+  }
+
+  const text = await response.text().catch(() => '');
+  return {
+    success: false,
+    statusCode: response.status,
+    error: `HTTP ${response.status}${text ? `: ${text.substring(0, 200)}` : ''}`
+  };
+}
+
+async function sendEmail(config: NotificationChannelConfig, password: string | null, notification: Notification): Promise<DeliveryResult> {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port || 587,
+    secure: config.secure ?? config.port === 465,
+    ...(config.username && { auth: { user: config.username, pass: password || '' } }),
+    connectionTimeout: DELIVERY_TIMEOUT_MS,
+    greetingTimeout: DELIVERY_TIMEOUT_MS
+  });
+
+  try {
+    await transport.sendMail({
+      from: config.from,
+      to: config.to,
+      subject: `[${notification.severity.toUpperCase()}] ${notification.title}`,
+      text: formatPlainText(notification)
+    });
+    return { success: true };
+  } finally {
+    transport.close();
+  }
+}
+
+/**
+ * Deliver a notification through one channel
+ * @param secret - The decrypted channel secret
+ */
+export async function sendNotification(
+  type: NotificationChannelType,
+  config: NotificationChannelConfig,
+  secret: string | null,
+  notification: Notification
+): Promise<DeliveryResult> {
+  try {
+    switch (type) {
+      case 'WEBHOOK': {
+        const body = JSON.stringify(notification);
+        return await post(config.url!, body, {
+          'Content-Type': 'application/json',
+          'X-Notification-Event': notification.event,
+          ...(secret && { 'X-Signature-256': signWebhookPayload(body, secret) })
+        });
+      }
+      case 'SLACK':
+        return await post(secret!, JSON.stringify({ text: `*${notification.title}*\n${formatPlainText(notification)}` }), {
+          'Content-Type': 'application/json'
+        });
+      case 'LINE':
+        return await post(
+          config.url || DEFAULT_LINE_NOTIFY_URL,
+          new URLSearchParams({ message: `\n${notification.title}\n${formatPlainText(notification)}` }).toString(),
+          {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Authorization': `Bearer ${secret}`
+          }
+        );
+      case 'EMAIL':
+        return await sendEmail(config, secret, notification);
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Delivery failed'
+    };
+  }
+}
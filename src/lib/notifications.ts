@@ -0,0 +1,167 @@
+/**
+ * Notification dispatch - sends events to every active channel subscribed to them
+ * and records each attempt in notification_deliveries.
+ *
+ * Server status transitions are detected by the WebSocket server after each metrics
+ * collection round; script results are sent when a script:run finishes. Alert events
+ * are sent by the alert evaluator (or the API, when an alert is resolved by hand).
+ */
+
+import type {
+  NotificationChannel as NotificationChannelRow,
+  NotificationDelivery as NotificationDeliveryRow
+} from '@prisma/client';
+import { prisma } from './database';
+import { decryptOptional } from './vault';
+import {
+  NOTIFICATION_SECRET_CONTEXT,
+  sendNotification,
+  type Notification,
+  type DeliveryResult
+} from './notification-channels';
+import type {
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationDelivery,
+  NotificationEventType
+} from '@/types';
+
+// Last seen status per server, to notify on transitions only
+const lastStatuses = new Map<number, string>();
+
+export function toNotificationChannel(channel: NotificationChannelRow): NotificationChannel {
+  return {
+    id: channel.id,
+    name: channel.name,
+    type: channel.type,
+    config: channel.config as NotificationChannelConfig,
+    hasSecret: !!channel.secret,
+    events: Array.isArray(channel.events) ? channel.events as NotificationEventType[] : [],
+    isActive: channel.isActive,
+    createdAt: channel.createdAt.toISOString(),
+    updatedAt: channel.updatedAt.toISOString()
+  };
+}
+
+export function toNotificationDelivery(delivery: NotificationDeliveryRow): NotificationDelivery {
+  return {
+    id: delivery.id,
+    channelId: delivery.channelId,
+    event: delivery.event,
+    title: delivery.title,
+    status: delivery.status,
+    statusCode: delivery.statusCode ?? undefined,
+    error: delivery.error ?? undefined,
+    duration: delivery.duration ?? undefined,
+    createdAt: delivery.createdAt.toISOString()
+  };
+}
+
+// The system setting enableEmailNotifications switches off all email channels
+async function isEmailEnabled(): Promise<boolean> {
+  const settingsRecord = await prisma.systemSettings.findUnique({
+    where: { key: 'system' }
+  });
+  const settings = settingsRecord?.value as { enableEmailNotifications?: boolean } | undefined;
+  return settings?.enableEmailNotifications !== false;
+}
+
+/**
+ * Send a notification through one channel and record the attempt
+ */
+export async function deliverToChannel(channel: NotificationChannelRow, notification: Notification): Promise<DeliveryResult> {
+  const startTime = Date.now();
+  let result: DeliveryResult;
+
+  try {
+    const secret = decryptOptional(channel.secret, NOTIFICATION_SECRET_CONTEXT);
+    result = await sendNotification(channel.type, channel.config as NotificationChannelConfig, secret, notification);
+  } catch (error) {
+    result = { success: false, error: error instanceof Error ? error.message : 'Delivery failed' };
+  }
+
+  try {
+    await prisma.notificationDelivery.create({
+      data: {
+        channelId: channel.id,
+        event: notification.event,
+        title: notification.title,
+        status: result.success ? 'SUCCESS' : 'FAILED',
+        statusCode: result.statusCode,
+        error: result.error,
+        duration: Date.now() - startTime
+      }
+    });
+  } catch (error) {
+    console.error('Failed to record notification delivery:', error);
+  }
+
+  if (!result.success) {
+    console.error(`Notification to channel "${channel.name}" failed:`, result.error);
+  }
+
+  return result;
+}
+
+/**
+ * Send an event to all active channels subscribed to it
+ * Never throws, so callers may fire and forget.
+ */
+export async function notify(notification: Omit<Notification, 'timestamp'>): Promise<void> {
+  try {
+    const channels = (await prisma.notificationChannel.findMany({ where: { isActive: true } }))
+      .filter(channel => Array.isArray(channel.events) && (channel.events as string[]).includes(notification.event));
+    if (channels.length === 0) return;
+
+    const emailEnabled = channels.some(channel => channel.type === 'EMAIL') && await isEmailEnabled();
+    const payload: Notification = { ...notification, timestamp: new Date().toISOString() };
+
+    await Promise.all(
+      channels
+        .filter(channel => channel.type !== 'EMAIL' || emailEnabled)
+        .map(channel => deliverToChannel(channel, payload))
+    );
+  } catch (error) {
+    console.error('Notification dispatch error:', error);
+  }
+}
+
+/**
+ * Notify when a server enters ERROR or recovers from it
+ * The first call only records the current statuses.
+ */
+export async function checkServerStatusTransitions(): Promise<void> {
+  try {
+    const servers = await prisma.server.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true, host: true, status: true }
+    });
+
+    for (const server of servers) {
+      const previous = lastStatuses.get(server.id);
+      lastStatuses.set(server.id, server.status);
+
+      if (previous === undefined || previous === server.status) continue;
+
+      if (server.status === 'ERROR') {
+        await notify({
+          event: 'SERVER_ERROR',
+          title: `Server ${server.name} is unreachable`,
+          message: `${server.name} (${server.host}) changed from ${previous} to ERROR.`,
+          severity: 'critical',
+          data: { serverId: server.id, serverName: server.name, host: server.host, previousStatus: previous }
+        });
+      } else if (server.status === 'CONNECTED' && previous === 'ERROR') {
+        await notify({
+          event: 'SERVER_RECOVERED',
+          title: `Server ${server.name} recovered`,
+          message: `${server.name} (${server.host}) is reachable again.`,
+          severity: 'info',
+          data: { serverId: server.id, serverName: server.name, host: server.host }
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Server status check error:', error);
+  }
+}
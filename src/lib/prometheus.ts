@@ -0,0 +1,217 @@
+/**
+ * Prometheus exposition for /api/metrics
+ * The endpoint is disabled unless METRICS_TOKEN is set; scrapers send it as a bearer token
+ * (`authorization: { credentials: ... }` in the scrape config).
+ *
+ * PTY sessions live in the WebSocket server process, so their count is read from its
+ * /metrics/pty endpoint on WS_PORT, protected by the same token.
+ *
+ * Script runs are counted in memory by the process that finishes them (countScriptRun), so
+ * the counter survives log pruning and server deletion. The WebSocket server reports its
+ * counts through the same endpoint; each process is its own series (`process` label) and
+ * starts from zero when restarted, which rate() and increase() treat as a counter reset.
+ */
+
+import crypto from 'crypto';
+import { prisma } from './database';
+import { getLatestMetrics, METRICS_INTERVAL_MS } from './server-metrics';
+import type { ScriptStatus } from '@/types';
+
+const PTY_FETCH_TIMEOUT_MS = 2000;
+
+const FINISHED_SCRIPT_STATUSES: ScriptStatus[] = ['SUCCESS', 'FAILED', 'CANCELLED'];
+
+export type ScriptRunCounts = Partial<Record<ScriptStatus, number>>;
+
+// Finished script runs (one per server) in this process since it started
+const scriptRunCounts: ScriptRunCounts = {};
+
+type MetricType = 'gauge' | 'counter';
+type Labels = Record<string, string | number>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: { labels?: Labels; value: number }[];
+}
+
+export function getMetricsToken(): string | null {
+  return process.env.METRICS_TOKEN || null;
+}
+
+/**
+ * Check a bearer token against METRICS_TOKEN (always false when the endpoint is disabled)
+ */
+export function isMetricsTokenValid(authorization: string | null): boolean {
+  const expected = getMetricsToken();
+  const provided = authorization?.replace('Bearer ', '');
+  if (!expected || !provided) return false;
+
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Count finished script runs for ssh_panel_script_runs_total
+ * @param count - Runs finished together, e.g. by one update of several rows
+ */
+export function countScriptRun(status: ScriptStatus, count = 1): void {
+  scriptRunCounts[status] = (scriptRunCounts[status] || 0) + count;
+}
+
+export function getScriptRunCounts(): ScriptRunCounts {
+  return { ...scriptRunCounts };
+}
+
+function escapeLabelValue(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatFamily(family: MetricFamily): string {
+  const lines = [
+    `# HELP ${family.name} ${family.help}`,
+    `# TYPE ${family.name} ${family.type}`
+  ];
+
+  for (const sample of family.samples) {
+    const labels = Object.entries(sample.labels || {})
+      .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+      .join(',');
+    lines.push(`${family.name}${labels ? `{${labels}}` : ''} ${Number.isFinite(sample.value) ? sample.value : 'NaN'}`);
+  }
+
+  return lines.join('\n');
+}
+
+// Active PTY sessions and script run counts of the WebSocket server, or null if it cannot be reached
+async function fetchWebSocketMetrics(): Promise<{ sessions: number; scriptRuns: ScriptRunCounts } | null> {
+  const port = process.env.WS_PORT || '3005';
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/metrics/pty`, {
+      headers: { 'Authorization': `Bearer ${getMetricsToken()}` },
+      signal: AbortSignal.timeout(PTY_FETCH_TIMEOUT_MS),
+      cache: 'no-store'
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json() as { sessions: number; scriptRuns?: ScriptRunCounts };
+    return { sessions: data.sessions, scriptRuns: data.scriptRuns || {} };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the exposition text for all panel metrics
+ */
+export async function renderMetrics(): Promise<string> {
+  const [servers, webSocket] = await Promise.all([
+    prisma.server.findMany({
+      select: { id: true, name: true, host: true, status: true, isActive: true, lastChecked: true },
+      orderBy: { id: 'asc' }
+    }),
+    fetchWebSocketMetrics()
+  ]);
+  const ptySessions = webSocket?.sessions ?? null;
+  const scriptRuns: { process: string; counts: ScriptRunCounts }[] = [
+    { process: 'next', counts: getScriptRunCounts() },
+    ...(webSocket ? [{ process: 'websocket', counts: webSocket.scriptRuns }] : [])
+  ];
+
+  const now = Date.now();
+  // Samples older than two collection rounds are left out rather than reported as current
+  const cutoff = now - METRICS_INTERVAL_MS * 2;
+  const samples = (await getLatestMetrics(servers.map(server => server.id)))
+    .filter(sample => new Date(sample.timestamp).getTime() >= cutoff);
+
+  const serverLabels = new Map(servers.map(server => [
+    server.id,
+    { server_id: server.id, server: server.name, host: server.host }
+  ]));
+  const hostSample = (name: string, help: string, value: (sample: typeof samples[number]) => number | null): MetricFamily => ({
+    name,
+    help,
+    type: 'gauge',
+    samples: samples.flatMap(sample => {
+      const v = value(sample);
+      return v === null ? [] : [{ labels: serverLabels.get(sample.serverId), value: v }];
+    })
+  });
+
+  const families: MetricFamily[] = [
+    {
+      name: 'ssh_panel_server_up',
+      help: 'Whether the server was reachable at the last check (1 = CONNECTED).',
+      type: 'gauge',
+      samples: servers.map(server => ({
+        labels: serverLabels.get(server.id),
+        value: server.status === 'CONNECTED' ? 1 : 0
+      }))
+    },
+    {
+      name: 'ssh_panel_server_status',
+      help: 'Current server status, one series per status with value 1 for the active one.',
+      type: 'gauge',
+      samples: servers.flatMap(server =>
+        ['CONNECTED', 'DISCONNECTED', 'ERROR', 'CONNECTING'].map(status => ({
+          labels: { ...serverLabels.get(server.id), status },
+          value: server.status === status ? 1 : 0
+        }))
+      )
+    },
+    {
+      name: 'ssh_panel_server_active',
+      help: 'Whether the server is enabled in the panel.',
+      type: 'gauge',
+      samples: servers.map(server => ({ labels: serverLabels.get(server.id), value: server.isActive ? 1 : 0 }))
+    },
+    {
+      name: 'ssh_panel_server_last_check_age_seconds',
+      help: 'Seconds since the server status was last checked.',
+      type: 'gauge',
+      samples: servers.flatMap(server => server.lastChecked
+        ? [{ labels: serverLabels.get(server.id), value: Math.max(0, (now - server.lastChecked.getTime()) / 1000) }]
+        : [])
+    },
+    hostSample('ssh_panel_host_cpu_usage_percent', 'CPU usage of the host in percent.', sample => sample.cpuUsage),
+    hostSample('ssh_panel_host_cpu_cores', 'Number of CPU cores of the host.', sample => sample.cpuCores),
+    hostSample('ssh_panel_host_memory_total_bytes', 'Total memory of the host.', sample => sample.memoryTotal),
+    hostSample('ssh_panel_host_memory_used_bytes', 'Used memory of the host (excluding cache and buffers).', sample => sample.memoryUsed),
+    hostSample('ssh_panel_host_disk_total_bytes', 'Size of the host root filesystem.', sample => sample.diskTotal),
+    hostSample('ssh_panel_host_disk_used_bytes', 'Used space on the host root filesystem.', sample => sample.diskUsed),
+    hostSample('ssh_panel_host_network_receive_bytes_per_second', 'Network receive rate of the host.', sample => sample.networkInRate),
+    hostSample('ssh_panel_host_network_transmit_bytes_per_second', 'Network transmit rate of the host.', sample => sample.networkOutRate),
+    hostSample('ssh_panel_host_load1', '1 minute load average of the host.', sample => sample.loadAverage[0]),
+    hostSample('ssh_panel_host_load5', '5 minute load average of the host.', sample => sample.loadAverage[1]),
+    hostSample('ssh_panel_host_load15', '15 minute load average of the host.', sample => sample.loadAverage[2]),
+    hostSample('ssh_panel_host_uptime_seconds', 'Uptime of the host.', sample => sample.uptime),
+    hostSample('ssh_panel_host_sample_age_seconds', 'Seconds since the host metrics were collected.',
+      sample => (now - new Date(sample.timestamp).getTime()) / 1000),
+    {
+      name: 'ssh_panel_websocket_up',
+      help: 'Whether the WebSocket server answered the PTY session query.',
+      type: 'gauge',
+      samples: [{ value: ptySessions === null ? 0 : 1 }]
+    },
+    {
+      name: 'ssh_panel_pty_sessions',
+      help: 'Active interactive PTY terminal sessions.',
+      type: 'gauge',
+      samples: ptySessions === null ? [] : [{ value: ptySessions }]
+    },
+    {
+      name: 'ssh_panel_script_runs_total',
+      help: 'Script runs per server finished since the process started, by status.',
+      type: 'counter',
+      samples: scriptRuns.flatMap(({ process, counts }) => FINISHED_SCRIPT_STATUSES.map(status => ({
+        labels: { status, process },
+        value: counts[status] ?? 0
+      })))
+    }
+  ];
+
+  return families.map(formatFamily).join('\n') + '\n';
+}
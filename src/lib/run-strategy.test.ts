@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planBatches, runWithStrategy, validateRunStrategy } from './run-strategy';
+import type { RunStrategy } from '@/types';
+
+const servers = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+const notCancelled = { isCancelled: () => false };
+
+test('planBatches runs sequential strategies one server at a time', () => {
+  assert.deepEqual(planBatches(servers(3), { mode: 'sequential' }), { batches: [[1, 2, 3]], concurrency: 1 });
+});
+
+test('planBatches runs parallel strategies in one batch up to the concurrency', () => {
+  assert.deepEqual(planBatches(servers(4), { mode: 'parallel', concurrency: 2 }), { batches: [[1, 2, 3, 4]], concurrency: 2 });
+  assert.deepEqual(planBatches(servers(4), { mode: 'parallel' }), { batches: [[1, 2, 3, 4]], concurrency: 4 });
+});
+
+test('planBatches splits rolling strategies by count or percentage', () => {
+  assert.deepEqual(planBatches(servers(5), { mode: 'rolling', batchSize: 2 }).batches, [[1, 2], [3, 4], [5]]);
+  assert.deepEqual(planBatches(servers(10), { mode: 'rolling', batchSize: 25, batchUnit: 'percent' }).batches,
+    [[1, 2, 3], [4, 5, 6], [7, 8, 9], [10]]);
+  // At least one server per batch
+  assert.deepEqual(planBatches(servers(3), { mode: 'rolling', batchSize: 1, batchUnit: 'percent' }).batches, [[1], [2], [3]]);
+});
+
+test('validateRunStrategy rejects out-of-range settings', () => {
+  assert.equal(validateRunStrategy({ mode: 'rolling', batchSize: 2, pauseSeconds: 10 }), null);
+  assert.notEqual(validateRunStrategy({ mode: 'rolling' }), null);
+  assert.notEqual(validateRunStrategy({ mode: 'rolling', batchSize: 150, batchUnit: 'percent' }), null);
+  assert.notEqual(validateRunStrategy({ mode: 'parallel', concurrency: 0 }), null);
+  assert.notEqual(validateRunStrategy({ mode: 'sequential', maxFailurePercent: 101 }), null);
+  assert.notEqual(validateRunStrategy({ mode: 'everywhere' } as unknown as RunStrategy), null);
+});
+
+test('runWithStrategy runs every server when nothing fails', async () => {
+  const ran: number[] = [];
+  const result = await runWithStrategy(servers(4), { mode: 'rolling', batchSize: 2 }, async server => {
+    ran.push(server);
+    return true;
+  }, notCancelled);
+
+  assert.deepEqual(ran, [1, 2, 3, 4]);
+  assert.deepEqual(result, { stoppedReason: null, skipped: [] });
+});
+
+test('runWithStrategy stops starting servers after the first failure', async () => {
+  const result = await runWithStrategy(servers(4), { mode: 'sequential', stopOnFailure: true },
+    async server => server !== 2, notCancelled);
+
+  assert.equal(result.stoppedReason, 'Stopped after the first failure');
+  assert.deepEqual(result.skipped, [3, 4]);
+});
+
+test('runWithStrategy stops once failures exceed the threshold of all servers', async () => {
+  // 1 of 10 failed is 10%, not above the threshold; the second failure (20%) is
+  const result = await runWithStrategy(servers(10), { mode: 'sequential', maxFailurePercent: 10 },
+    async server => server !== 3 && server !== 5, notCancelled);
+
+  assert.equal(result.stoppedReason, 'Stopped after failures exceeded 10% (2 of 10 servers)');
+  assert.deepEqual(result.skipped, [6, 7, 8, 9, 10]);
+});
+
+test('runWithStrategy lets running servers finish and skips later batches after a failure', async () => {
+  const finished: number[] = [];
+  const result = await runWithStrategy(servers(6), { mode: 'rolling', batchSize: 3, stopOnFailure: true }, async server => {
+    await new Promise(resolve => setTimeout(resolve, server * 5));
+    finished.push(server);
+    return server !== 1;
+  }, notCancelled);
+
+  assert.deepEqual(finished.sort(), [1, 2, 3]);
+  assert.deepEqual(result.skipped, [4, 5, 6]);
+});
+
+test('runWithStrategy limits parallel runs to the concurrency', async () => {
+  let running = 0;
+  let peak = 0;
+
+  await runWithStrategy(servers(6), { mode: 'parallel', concurrency: 2 }, async () => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    running--;
+    return true;
+  }, notCancelled);
+
+  assert.equal(peak, 2);
+});
+
+test('runWithStrategy reports a cancelled run and the servers it skipped', async () => {
+  let cancelled = false;
+  const result = await runWithStrategy(servers(3), { mode: 'sequential' }, async server => {
+    cancelled = server === 1;
+    return true;
+  }, { isCancelled: () => cancelled });
+
+  assert.deepEqual(result, { stoppedReason: 'Cancelled', skipped: [2, 3] });
+});
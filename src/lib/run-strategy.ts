@@ -0,0 +1,158 @@
+/**
+ * Run strategies for script:run
+ *
+ *   sequential  one server at a time
+ *   parallel    up to `concurrency` servers at once
+ *   rolling     batches of `batchSize` servers (or percent), each fully parallel,
+ *               with `pauseSeconds` between batches
+ *
+ * Failure thresholds stop new servers from starting; servers already running finish.
+ */
+
+import type { RunStrategy } from '@/types';
+
+export const DEFAULT_RUN_STRATEGY: RunStrategy = { mode: 'sequential' };
+
+const MAX_CONCURRENCY = 50;
+const MAX_PAUSE_SECONDS = 3600;
+
+export interface StrategyHooks<T> {
+  // Checked before each server and during pauses
+  isCancelled: () => boolean;
+  onBatch?: (batch: number, totalBatches: number, items: T[]) => void;
+}
+
+export interface StrategyResult<T> {
+  // Why the run stopped early, null if every server ran
+  stoppedReason: string | null;
+  // Servers that never started
+  skipped: T[];
+}
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Validate a run strategy from a client
+ * @returns Error message, or null if valid
+ */
+export function validateRunStrategy(strategy: RunStrategy): string | null {
+  if (!['sequential', 'parallel', 'rolling'].includes(strategy.mode)) {
+    return 'Invalid run strategy';
+  }
+
+  if (strategy.mode === 'parallel' && strategy.concurrency !== undefined
+    && (!isPositiveInteger(strategy.concurrency) || strategy.concurrency > MAX_CONCURRENCY)) {
+    return `Concurrency must be between 1 and ${MAX_CONCURRENCY}`;
+  }
+
+  if (strategy.mode === 'rolling') {
+    if (!isPositiveInteger(strategy.batchSize)) {
+      return 'Batch size must be a positive number';
+    }
+    if (strategy.batchUnit === 'percent' && strategy.batchSize! > 100) {
+      return 'Batch size cannot exceed 100%';
+    }
+    if (strategy.pauseSeconds !== undefined
+      && (typeof strategy.pauseSeconds !== 'number' || strategy.pauseSeconds < 0 || strategy.pauseSeconds > MAX_PAUSE_SECONDS)) {
+      return `Pause must be between 0 and ${MAX_PAUSE_SECONDS} seconds`;
+    }
+  }
+
+  if (strategy.maxFailurePercent !== undefined
+    && (typeof strategy.maxFailurePercent !== 'number' || strategy.maxFailurePercent < 0 || strategy.maxFailurePercent > 100)) {
+    return 'Failure threshold must be between 0 and 100%';
+  }
+
+  return null;
+}
+
+/**
+ * Split servers into the batches a strategy runs them in, with the concurrency inside each batch
+ */
+export function planBatches<T>(items: T[], strategy: RunStrategy): { batches: T[][]; concurrency: number } {
+  switch (strategy.mode) {
+    case 'parallel':
+      return { batches: [items], concurrency: strategy.concurrency || items.length };
+
+    case 'rolling': {
+      const size = strategy.batchUnit === 'percent'
+        ? Math.max(1, Math.ceil(items.length * strategy.batchSize! / 100))
+        : strategy.batchSize!;
+
+      const batches: T[][] = [];
+      for (let i = 0; i < items.length; i += size) {
+        batches.push(items.slice(i, i + size));
+      }
+      return { batches, concurrency: size };
+    }
+
+    default:
+      return { batches: [items], concurrency: 1 };
+  }
+}
+
+function describeStrategyStop(strategy: RunStrategy, failed: number, total: number): string | null {
+  if (strategy.stopOnFailure && failed > 0) {
+    return 'Stopped after the first failure';
+  }
+  if (strategy.maxFailurePercent !== undefined && failed / total * 100 > strategy.maxFailurePercent) {
+    return `Stopped after failures exceeded ${strategy.maxFailurePercent}% (${failed} of ${total} servers)`;
+  }
+  return null;
+}
+
+// Sleep that ends early when the run is cancelled
+async function pause(seconds: number, isCancelled: () => boolean): Promise<void> {
+  const until = Date.now() + seconds * 1000;
+  while (Date.now() < until && !isCancelled()) {
+    await new Promise(resolve => setTimeout(resolve, Math.min(500, until - Date.now())));
+  }
+}
+
+/**
+ * Run `run` for each item following a strategy
+ * @param run - Resolves true on success; should not throw
+ */
+export async function runWithStrategy<T>(
+  items: T[],
+  strategy: RunStrategy,
+  run: (item: T) => Promise<boolean>,
+  hooks: StrategyHooks<T>
+): Promise<StrategyResult<T>> {
+  const { batches, concurrency } = planBatches(items, strategy);
+  const started = new Set<T>();
+  let failed = 0;
+  let stoppedReason: string | null = null;
+
+  const shouldStop = () => stoppedReason !== null || hooks.isCancelled();
+
+  for (let b = 0; b < batches.length && !shouldStop(); b++) {
+    if (b > 0 && strategy.pauseSeconds) {
+      await pause(strategy.pauseSeconds, hooks.isCancelled);
+      if (shouldStop()) break;
+    }
+
+    hooks.onBatch?.(b + 1, batches.length, batches[b]);
+
+    // Worker pool over the batch
+    const queue = [...batches[b]];
+    const worker = async () => {
+      while (queue.length > 0 && !shouldStop()) {
+        const item = queue.shift()!;
+        started.add(item);
+
+        if (!await run(item)) {
+          failed++;
+          stoppedReason = stoppedReason || describeStrategyStop(strategy, failed, items.length);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  }
+
+  return {
+    stoppedReason: stoppedReason || (hooks.isCancelled() ? 'Cancelled' : null),
+    skipped: items.filter(item => !started.has(item))
+  };
+}
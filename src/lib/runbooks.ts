@@ -0,0 +1,710 @@
+/**
+ * Runbooks: ordered steps run from the WebSocket server
+ * Each step resolves its servers when it starts (serverIds plus active servers carrying one of
+ * its tags, limited to servers the runner can use), runs its command on them with its strategy
+ * and writes a ScriptLog per server. A failed server is retried up to `retries` times; a failed
+ * step then aborts the run or lets it go on, as the step says. A step with an approval gate
+ * waits until the runner or an admin approves or rejects it. Progress is saved on the
+ * RunbookRun and sent to every socket watching the run, so the run view can be closed and
+ * reopened while it runs, and the run keeps going when the runner disconnects.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './database';
+import { normalizeTags, normalizeServerIds } from './utils';
+import { DEFAULT_RUN_STRATEGY, validateRunStrategy, runWithStrategy } from './run-strategy';
+import { loadCommandValidator, getApprovalReason } from './command-middleware';
+import { executeCommandStreaming } from './ssh';
+import { notify } from './notifications';
+import { countScriptRun } from './prometheus';
+import type {
+  Runbook,
+  RunbookData,
+  RunbookStep,
+  RunbookRun,
+  RunbookRunStatus,
+  RunbookStepResult,
+  RunbookServerResult,
+  RunbookOutput
+} from '@/types';
+
+const MAX_NAME_LENGTH = 191;
+const MAX_STEPS = 50;
+const MAX_TIMEOUT_SECONDS = 6 * 60 * 60;
+const MAX_RETRIES = 10;
+const RETRY_DELAY_MS = 5000;
+const MAX_SCRIPT_LOG_OUTPUT = 1024 * 1024;
+// Output kept per step and server for watchers that join late
+const MAX_OUTPUT_TAIL = 64 * 1024;
+
+export const runbookInclude = {
+  user: { select: { id: true, name: true, email: true } },
+  runs: { select: { id: true, status: true, startTime: true }, orderBy: { startTime: 'desc' }, take: 1 }
+} satisfies Prisma.RunbookInclude;
+
+export const runbookRunInclude = {
+  user: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.RunbookRunInclude;
+
+type RunbookRow = Prisma.RunbookGetPayload<{ include: typeof runbookInclude }>;
+type RunbookRunRow = Prisma.RunbookRunGetPayload<{ include: typeof runbookRunInclude }>;
+
+interface RunbookUser {
+  id: number;
+  role: string;
+}
+
+// Sends an event to the sockets watching a run
+export type RunbookEmit = (runId: number, event: string, payload: unknown) => void;
+
+interface ApprovalDecision {
+  approved: boolean;
+  user: { id: number; name: string };
+  comment?: string;
+}
+
+interface ActiveRun {
+  run: RunbookRun;
+  cancelled: boolean;
+  // Set while a step waits at its approval gate; resolved with null on cancel
+  approval: ((decision: ApprovalDecision | null) => void) | null;
+  // Recent output by `${step}:${serverId}`
+  output: Map<string, RunbookOutput>;
+  emit: RunbookEmit;
+}
+
+const activeRuns = new Map<number, ActiveRun>();
+
+// Socket.IO room of the sockets watching a run
+export const runbookRoom = (runId: number) => `runbook-run:${runId}`;
+
+const normalizeSteps = (value: unknown): RunbookStep[] =>
+  Array.isArray(value) ? value as RunbookStep[] : [];
+
+export function toRunbook(runbook: RunbookRow): Runbook {
+  const lastRun = runbook.runs[0];
+  return {
+    id: runbook.id,
+    name: runbook.name,
+    description: runbook.description || undefined,
+    steps: normalizeSteps(runbook.steps),
+    userId: runbook.userId,
+    owner: runbook.user,
+    lastRun: lastRun && { id: lastRun.id, status: lastRun.status, startTime: lastRun.startTime.toISOString() },
+    createdAt: runbook.createdAt.toISOString(),
+    updatedAt: runbook.updatedAt.toISOString()
+  };
+}
+
+export function toRunbookRun(run: RunbookRunRow): RunbookRun {
+  return {
+    id: run.id,
+    runbookId: run.runbookId,
+    runbookName: run.runbookName,
+    steps: normalizeSteps(run.steps),
+    stepResults: Array.isArray(run.stepResults) ? run.stepResults as unknown as RunbookStepResult[] : [],
+    status: run.status,
+    currentStep: run.currentStep,
+    error: run.error || undefined,
+    userId: run.userId,
+    user: run.user,
+    startTime: run.startTime.toISOString(),
+    endTime: run.endTime?.toISOString()
+  };
+}
+
+// Where clauses for runbooks and runs a user can see and manage
+export function visibleRunbooksWhere(user: RunbookUser): Prisma.RunbookWhereInput {
+  return user.role === 'ADMIN' ? {} : { userId: user.id };
+}
+
+export function visibleRunbookRunsWhere(user: RunbookUser): Prisma.RunbookRunWhereInput {
+  return user.role === 'ADMIN' ? {} : { userId: user.id };
+}
+
+const isInteger = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+function validateStep(step: Partial<RunbookStep>): string | null {
+  if (!step || typeof step !== 'object') return 'Invalid step';
+  if (typeof step.name !== 'string' || !step.name.trim()) return 'Step name is required';
+  if (step.name.trim().length > MAX_NAME_LENGTH) return `Step name cannot exceed ${MAX_NAME_LENGTH} characters`;
+  if (typeof step.command !== 'string' || !step.command.trim()) return 'Command is required';
+  if (!Array.isArray(step.serverIds) || !step.serverIds.every(Number.isInteger)) {
+    return 'Server IDs must be an array of integers';
+  }
+  if (!Array.isArray(step.tags)) return 'Tags must be an array of strings';
+  if (step.serverIds.length === 0 && normalizeTags(step.tags).length === 0) {
+    return 'Select at least one server or tag';
+  }
+  if (step.strategy !== undefined) {
+    const strategyError = validateRunStrategy(step.strategy);
+    if (strategyError) return strategyError;
+  }
+  if (!isInteger(step.timeoutSeconds, 1, MAX_TIMEOUT_SECONDS)) {
+    return `Timeout must be between 1 and ${MAX_TIMEOUT_SECONDS} seconds`;
+  }
+  if (!isInteger(step.retries, 0, MAX_RETRIES)) return `Retries must be between 0 and ${MAX_RETRIES}`;
+  if (step.onFailure !== 'abort' && step.onFailure !== 'continue') return 'On failure must be abort or continue';
+  if (typeof step.requiresApproval !== 'boolean') return 'requiresApproval must be a boolean';
+  return null;
+}
+
+/**
+ * Validate a runbook from the API
+ * @param partial - Only check fields that are present (for updates)
+ * @returns An error message, or null if valid
+ */
+export function validateRunbookData(data: Partial<RunbookData>, partial: boolean = false): string | null {
+  if (!partial || data.name !== undefined) {
+    if (typeof data.name !== 'string' || !data.name.trim()) return 'Runbook name is required';
+    if (data.name.trim().length > MAX_NAME_LENGTH) return `Runbook name cannot exceed ${MAX_NAME_LENGTH} characters`;
+  }
+  if (data.description !== undefined && data.description !== null && typeof data.description !== 'string') {
+    return 'Description must be a string';
+  }
+  if (!partial || data.steps !== undefined) {
+    if (!Array.isArray(data.steps) || data.steps.length === 0) return 'Add at least one step';
+    if (data.steps.length > MAX_STEPS) return `A runbook cannot have more than ${MAX_STEPS} steps`;
+
+    for (let i = 0; i < data.steps.length; i++) {
+      const stepError = validateStep(data.steps[i]);
+      if (stepError) return `Step ${i + 1}: ${stepError}`;
+    }
+  }
+  return null;
+}
+
+// Step as stored, without fields the API does not know
+export function normalizeStep(step: RunbookStep): RunbookStep {
+  return {
+    name: step.name.trim(),
+    command: step.command,
+    serverIds: Array.from(new Set(step.serverIds)),
+    tags: normalizeTags(step.tags),
+    ...(step.strategy && { strategy: step.strategy }),
+    timeoutSeconds: step.timeoutSeconds,
+    retries: step.retries,
+    onFailure: step.onFailure,
+    requiresApproval: step.requiresApproval
+  };
+}
+
+/**
+ * Check the steps can run as the user: server access and the security policy
+ * @returns Policy warnings the user must confirm before running, or an error with its HTTP status
+ */
+export async function checkRunbookSteps(
+  steps: RunbookStep[],
+  user: RunbookUser
+): Promise<{ warnings: string[] } | { error: string; status: number }> {
+  const serverIds = Array.from(new Set(steps.flatMap(step => step.serverIds)));
+  if (serverIds.length > 0) {
+    const accessible = await prisma.server.count({
+      where: {
+        id: { in: serverIds },
+        ...(user.role !== 'ADMIN' && { userId: user.id })
+      }
+    });
+    if (accessible !== serverIds.length) {
+      return { error: 'Access denied to one or more servers', status: 403 };
+    }
+  }
+
+  const validator = await loadCommandValidator();
+  const warnings: string[] = [];
+
+  for (let i = 0; i < steps.length; i++) {
+    const validation = validator.validate(steps[i].command, user.id, 0);
+    if (!validation.allowed) {
+      return {
+        error: `Step ${i + 1} "${steps[i].name}": ${validation.warning || 'Command is not allowed by the security policy'}`,
+        status: 400
+      };
+    }
+    const approvalReason = getApprovalReason(user, null, steps[i].command, validator);
+    if (approvalReason) {
+      return {
+        error: `Step ${i + 1} "${steps[i].name}": ${approvalReason}. Only an admin can run it in a runbook`,
+        status: 403
+      };
+    }
+    if (validation.requiresConfirmation) {
+      warnings.push(`Step ${i + 1} "${steps[i].name}": ${validation.warning || 'Command requires confirmation'}`);
+    }
+  }
+
+  return { warnings };
+}
+
+// Active servers the runner can use that a step targets by ID or tag
+async function findStepServers(step: RunbookStep, user: RunbookUser) {
+  const serverIds = normalizeServerIds(step.serverIds);
+  const tags = normalizeTags(step.tags);
+
+  const servers = await prisma.server.findMany({
+    where: {
+      isActive: true,
+      ...(user.role !== 'ADMIN' && { userId: user.id })
+    },
+    select: { id: true, name: true, host: true, tags: true },
+    orderBy: { name: 'asc' }
+  });
+
+  return servers.filter(server =>
+    serverIds.includes(server.id) || normalizeTags(server.tags).some(tag => tags.includes(tag))
+  );
+}
+
+// Send the run to its watchers and save it
+async function saveRun(active: ActiveRun): Promise<void> {
+  const { run } = active;
+  active.emit(run.id, 'runbook:update', run);
+
+  await prisma.runbookRun.update({
+    where: { id: run.id },
+    data: {
+      status: run.status,
+      currentStep: run.currentStep,
+      stepResults: run.stepResults as unknown as Prisma.InputJsonArray,
+      error: run.error ?? null,
+      endTime: run.endTime ? new Date(run.endTime) : null
+    }
+  }).catch(error => {
+    console.error('Failed to update runbook run:', error);
+  });
+}
+
+function sendOutput(active: ActiveRun, step: number, serverId: number, type: RunbookOutput['type'], data: string) {
+  const output: RunbookOutput = { runId: active.run.id, step, serverId, type, data };
+  active.emit(active.run.id, 'runbook:stream', output);
+
+  const key = `${step}:${serverId}`;
+  const tail = (active.output.get(key)?.data || '') + data;
+  active.output.set(key, { ...output, type: 'stdout', data: tail.slice(-MAX_OUTPUT_TAIL) });
+}
+
+// Cancellable wait between attempts
+async function retryDelay(active: ActiveRun): Promise<void> {
+  const until = Date.now() + RETRY_DELAY_MS;
+  while (Date.now() < until && !active.cancelled) {
+    await new Promise(resolve => setTimeout(resolve, Math.min(500, until - Date.now())));
+  }
+}
+
+// Run a step's command on one server, retrying failures; resolves true on success
+async function runOnServer(
+  active: ActiveRun,
+  stepIndex: number,
+  server: { id: number; name: string; host: string },
+  user: RunbookUser
+): Promise<boolean> {
+  const { run } = active;
+  const step = run.steps[stepIndex];
+  const result = run.stepResults[stepIndex].servers.find(s => s.serverId === server.id)!;
+  const maxAttempts = step.retries + 1;
+  const startTime = new Date();
+  let output = '';
+  let errorOutput = '';
+  let success = false;
+
+  try {
+    const scriptLog = await prisma.scriptLog.create({
+      data: {
+        scriptName: `${run.runbookName}: ${step.name}`,
+        command: step.command,
+        status: 'RUNNING',
+        userId: user.id,
+        serverId: server.id,
+        serverName: server.name,
+        serverHost: server.host,
+        startTime,
+        runbookRunId: run.id,
+        runbookStep: stepIndex
+      }
+    });
+
+    result.status = 'running';
+    result.scriptLogId = scriptLog.id;
+
+    for (let attempt = 1; attempt <= maxAttempts && !active.cancelled; attempt++) {
+      if (attempt > 1) {
+        const note = `\n--- ${result.error}; retrying (attempt ${attempt} of ${maxAttempts}) ---\n`;
+        output = (output + note).slice(0, MAX_SCRIPT_LOG_OUTPUT);
+        sendOutput(active, stepIndex, server.id, 'info', note);
+        await retryDelay(active);
+        if (active.cancelled) break;
+      }
+
+      result.attempts = attempt;
+      await saveRun(active);
+
+      let exitCode = 0;
+      let failure: string | undefined;
+      try {
+        await executeCommandStreaming(
+          server.id,
+          user.id,
+          step.command,
+          (type, data) => {
+            if (active.cancelled) return;
+
+            if (type === 'stdout' || type === 'stderr') {
+              if (type === 'stdout' && output.length < MAX_SCRIPT_LOG_OUTPUT) {
+                output += data as string;
+              } else if (type === 'stderr' && errorOutput.length < MAX_SCRIPT_LOG_OUTPUT) {
+                errorOutput += data as string;
+              }
+              sendOutput(active, stepIndex, server.id, type, data as string);
+            } else if (type === 'exit') {
+              exitCode = data as number;
+            }
+          },
+          { timeout: step.timeoutSeconds * 1000 },
+          user.role === 'ADMIN'
+        );
+      } catch (error) {
+        failure = error instanceof Error ? error.message : 'Execution failed';
+      }
+
+      result.exitCode = failure ? undefined : exitCode;
+      success = !failure && exitCode === 0;
+      if (success) {
+        result.error = undefined;
+        break;
+      }
+      result.error = failure || `Exit code ${exitCode}`;
+    }
+
+    result.status = success ? 'success' : result.attempts === 0 ? 'skipped' : 'failed';
+
+    const logStatus = active.cancelled ? 'CANCELLED' : success ? 'SUCCESS' : 'FAILED';
+    countScriptRun(logStatus);
+
+    await prisma.scriptLog.update({
+      where: { id: scriptLog.id },
+      data: {
+        status: logStatus,
+        output: output.slice(0, MAX_SCRIPT_LOG_OUTPUT) || null,
+        error: [errorOutput.slice(0, MAX_SCRIPT_LOG_OUTPUT), success ? undefined : result.error].filter(Boolean).join('\n') || null,
+        endTime: new Date(),
+        duration: Math.floor((Date.now() - startTime.getTime()) / 1000)
+      }
+    });
+  } catch (error) {
+    console.error(`Runbook run ${run.id} step ${stepIndex + 1} on ${server.name} error:`, error);
+    result.status = 'failed';
+    result.error = error instanceof Error ? error.message : 'Execution failed';
+    success = false;
+  }
+
+  await saveRun(active);
+  return success;
+}
+
+// Run one step on its servers; resolves true when every server succeeded
+async function runStep(active: ActiveRun, stepIndex: number, user: RunbookUser): Promise<boolean> {
+  const { run } = active;
+  const step = run.steps[stepIndex];
+  const result = run.stepResults[stepIndex];
+
+  result.status = 'running';
+  result.startedAt = new Date().toISOString();
+
+  const servers = await findStepServers(step, user);
+  if (servers.length === 0) {
+    result.status = 'failed';
+    result.error = 'No active servers match the step';
+    result.endedAt = new Date().toISOString();
+    await saveRun(active);
+    return false;
+  }
+
+  result.servers = servers.map((server): RunbookServerResult => ({
+    serverId: server.id,
+    serverName: server.name,
+    status: 'pending',
+    attempts: 0
+  }));
+  await saveRun(active);
+
+  const { stoppedReason, skipped } = await runWithStrategy(
+    servers,
+    step.strategy || DEFAULT_RUN_STRATEGY,
+    server => runOnServer(active, stepIndex, server, user),
+    { isCancelled: () => active.cancelled }
+  );
+
+  for (const server of skipped) {
+    const serverResult = result.servers.find(s => s.serverId === server.id)!;
+    serverResult.status = 'skipped';
+    serverResult.error = stoppedReason || 'Skipped';
+  }
+
+  const failed = result.servers.filter(s => s.status !== 'success').length;
+  result.status = active.cancelled ? 'cancelled' : failed > 0 ? 'failed' : 'success';
+  if (failed > 0 && !active.cancelled) {
+    result.error = stoppedReason || `Failed on ${failed} of ${servers.length} servers`;
+  }
+  result.endedAt = new Date().toISOString();
+  await saveRun(active);
+
+  return failed === 0;
+}
+
+// Wait at a step's approval gate; null when the run was cancelled
+async function waitForApproval(active: ActiveRun, stepIndex: number): Promise<ApprovalDecision | null> {
+  const { run } = active;
+  run.status = 'WAITING_APPROVAL';
+  run.stepResults[stepIndex].status = 'waiting_approval';
+  await saveRun(active);
+
+  const decision = await new Promise<ApprovalDecision | null>(resolve => {
+    active.approval = resolve;
+  });
+  active.approval = null;
+
+  if (decision) {
+    const result = run.stepResults[stepIndex];
+    result.approvedBy = decision.user;
+    result.approvedAt = new Date().toISOString();
+    result.approvalComment = decision.comment;
+    run.status = 'RUNNING';
+  }
+  return decision;
+}
+
+async function executeRun(active: ActiveRun, user: RunbookUser & { email: string }): Promise<void> {
+  const { run } = active;
+  let status: RunbookRunStatus = 'SUCCESS';
+  const failedSteps: number[] = [];
+
+  console.log(`Runbook "${run.runbookName}" (run ${run.id}) started by ${user.email} with ${run.steps.length} steps`);
+
+  try {
+    for (let i = 0; i < run.steps.length && !active.cancelled; i++) {
+      const step = run.steps[i];
+      run.currentStep = i;
+
+      if (step.requiresApproval) {
+        const decision = await waitForApproval(active, i);
+        if (!decision) break;
+
+        if (!decision.approved) {
+          run.stepResults[i].status = 'cancelled';
+          run.stepResults[i].error = `Rejected by ${decision.user.name}`;
+          run.error = `Step ${i + 1} "${step.name}" was rejected by ${decision.user.name}`;
+          status = 'CANCELLED';
+          break;
+        }
+      }
+
+      if (!await runStep(active, i, user)) {
+        if (active.cancelled) break;
+
+        failedSteps.push(i + 1);
+        status = 'FAILED';
+        if (step.onFailure === 'abort') {
+          run.error = `Step ${i + 1} "${step.name}" failed: ${run.stepResults[i].error}`;
+          break;
+        }
+      }
+    }
+
+    if (status === 'FAILED' && !run.error) {
+      run.error = `Step${failedSteps.length > 1 ? 's' : ''} ${failedSteps.join(', ')} failed; the runbook continued`;
+    }
+  } catch (error) {
+    console.error(`Runbook run ${run.id} error:`, error);
+    status = 'FAILED';
+    run.error = error instanceof Error ? error.message : 'Runbook run failed';
+  }
+
+  if (active.cancelled) status = 'CANCELLED';
+
+  // Steps that never started
+  for (const result of run.stepResults) {
+    if (result.status === 'pending' || result.status === 'waiting_approval') {
+      result.status = status === 'CANCELLED' ? 'cancelled' : 'skipped';
+    }
+  }
+
+  run.status = status;
+  run.endTime = new Date().toISOString();
+  await saveRun(active);
+  activeRuns.delete(run.id);
+
+  console.log(`Runbook "${run.runbookName}" (run ${run.id}) finished: ${status}${run.error ? ` - ${run.error}` : ''}`);
+
+  if (status !== 'CANCELLED') {
+    notify({
+      event: status === 'FAILED' ? 'SCRIPT_FAILED' : 'SCRIPT_COMPLETED',
+      title: status === 'FAILED' ? `Runbook "${run.runbookName}" failed` : `Runbook "${run.runbookName}" completed`,
+      message: `${run.error ? `${run.error}. ` : ''}Run by ${user.email}.`,
+      severity: status === 'FAILED' ? 'warning' : 'info',
+      data: {
+        runbookRunId: run.id,
+        runbookName: run.runbookName,
+        user: user.email,
+        steps: run.steps.length,
+        failedSteps
+      }
+    });
+  }
+}
+
+/**
+ * Start a runbook as the user; the run continues in the background
+ * @param confirmed - The user confirmed the policy warnings of its steps
+ * @returns The new run, the warnings to confirm first, or an error
+ */
+export async function startRunbookRun(
+  runbookId: number,
+  user: RunbookUser & { email: string },
+  confirmed: boolean,
+  emit: RunbookEmit
+): Promise<{ run: RunbookRun } | { warnings: string[] } | { error: string }> {
+  if (!Number.isInteger(runbookId)) return { error: 'Invalid runbook ID' };
+
+  const runbook = await prisma.runbook.findFirst({
+    where: { id: runbookId, ...visibleRunbooksWhere(user) }
+  });
+  if (!runbook) return { error: 'Runbook not found' };
+
+  const steps = normalizeSteps(runbook.steps);
+  if (steps.length === 0) return { error: 'Runbook has no steps' };
+
+  const checked = await checkRunbookSteps(steps, user);
+  if ('error' in checked) return { error: checked.error };
+  if (checked.warnings.length > 0 && !confirmed) return { warnings: checked.warnings };
+
+  const stepResults = steps.map((): RunbookStepResult => ({ status: 'pending', servers: [] }));
+  const created = await prisma.runbookRun.create({
+    data: {
+      runbookId: runbook.id,
+      runbookName: runbook.name,
+      steps: steps as unknown as Prisma.InputJsonArray,
+      stepResults: stepResults as unknown as Prisma.InputJsonArray,
+      userId: user.id
+    },
+    include: runbookRunInclude
+  });
+
+  const active: ActiveRun = {
+    run: toRunbookRun(created),
+    cancelled: false,
+    approval: null,
+    output: new Map(),
+    emit
+  };
+  activeRuns.set(created.id, active);
+
+  executeRun(active, user);
+
+  return { run: active.run };
+}
+
+/**
+ * A run and its output so far, for a socket that starts watching it
+ * @returns null if the run does not exist or the user cannot see it
+ */
+export async function getRunbookRunState(
+  runId: number,
+  user: RunbookUser
+): Promise<{ run: RunbookRun; output: RunbookOutput[] } | null> {
+  const active = activeRuns.get(runId);
+  if (active) {
+    if (user.role !== 'ADMIN' && active.run.userId !== user.id) return null;
+    return { run: active.run, output: Array.from(active.output.values()) };
+  }
+
+  const run = await prisma.runbookRun.findFirst({
+    where: { id: runId, ...visibleRunbookRunsWhere(user) },
+    include: {
+      ...runbookRunInclude,
+      scriptLogs: { select: { id: true, runbookStep: true, output: true, error: true } }
+    }
+  });
+  if (!run) return null;
+
+  const runbookRun = toRunbookRun(run);
+  // Matched through the step results, which keep the server ID after the server is deleted
+  const serverIds = new Map(runbookRun.stepResults.flatMap(result =>
+    result.servers.map(server => [server.scriptLogId, server.serverId] as const)
+  ));
+
+  const output = run.scriptLogs.flatMap(log => {
+    const entries: RunbookOutput[] = [];
+    const serverId = serverIds.get(log.id);
+    if (serverId === undefined) return entries;
+    if (log.output) {
+      entries.push({ runId, step: log.runbookStep ?? 0, serverId, type: 'stdout', data: log.output.slice(-MAX_OUTPUT_TAIL) });
+    }
+    if (log.error) {
+      entries.push({ runId, step: log.runbookStep ?? 0, serverId, type: 'stderr', data: log.error.slice(-MAX_OUTPUT_TAIL) });
+    }
+    return entries;
+  });
+
+  return { run: runbookRun, output };
+}
+
+/**
+ * Approve or reject the approval gate a run is waiting at
+ * @param stepIndex - The step the user saw waiting, so a stale view cannot approve a later gate
+ * @returns An error message, or null on success
+ */
+export function decideRunbookApproval(
+  runId: number,
+  stepIndex: number,
+  user: RunbookUser & { name: string },
+  approved: boolean,
+  comment?: string
+): string | null {
+  const active = activeRuns.get(runId);
+  if (!active) return 'Run is not in progress';
+  if (user.role !== 'ADMIN' && active.run.userId !== user.id) return 'Access denied';
+  if (!active.approval || active.run.currentStep !== stepIndex) return 'This step is not waiting for approval';
+
+  active.approval({
+    approved,
+    user: { id: user.id, name: user.name },
+    comment: typeof comment === 'string' && comment.trim() ? comment.trim() : undefined
+  });
+  return null;
+}
+
+/**
+ * Cancel a run: servers already running finish, nothing else starts
+ * @returns An error message, or null on success
+ */
+export function cancelRunbookRun(runId: number, user: RunbookUser & { name: string }): string | null {
+  const active = activeRuns.get(runId);
+  if (!active) return 'Run is not in progress';
+  if (user.role !== 'ADMIN' && active.run.userId !== user.id) return 'Access denied';
+
+  active.cancelled = true;
+  active.run.error = `Cancelled by ${user.name}`;
+  active.approval?.(null);
+  return null;
+}
+
+// Runs left going by a restart cannot continue
+export async function recoverRunbookRuns(): Promise<void> {
+  try {
+    await prisma.runbookRun.updateMany({
+      where: { status: { in: ['RUNNING', 'WAITING_APPROVAL'] } },
+      data: { status: 'FAILED', error: 'Interrupted by a WebSocket server restart', endTime: new Date() }
+    });
+  } catch (error) {
+    console.error('Failed to recover runbook runs:', error);
+  }
+}
+
+export function stopRunbookRuns(): void {
+  for (const active of activeRuns.values()) {
+    active.cancelled = true;
+    active.run.error = 'Cancelled by a WebSocket server shutdown';
+    active.approval?.(null);
+  }
+}
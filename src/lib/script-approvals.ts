@@ -0,0 +1,298 @@
+/**
+ * Approval of high-risk script runs
+ * A non-admin's run of a script marked requiresApproval, or of a command containing one of the
+ * approvalRequiredCommands patterns from the security settings, is stored as a PENDING
+ * ScriptApproval instead of starting, and admins are notified (APPROVAL_REQUESTED). An admin
+ * approves or rejects it with a comment; the requester then starts the approved run once
+ * through script:run with its approvalId, and every ScriptLog of that run records the approver.
+ * An approval expires after APPROVAL_TTL_MS, since the servers may have changed since the admin
+ * looked at it; the requester then asks again.
+ * Schedules, runbooks, /api/ssh/execute, the terminal and file-editor validation commands cannot
+ * wait for approval, so non-admins cannot run such commands there.
+ */
+
+import type { Prisma, ScriptApproval as ScriptApprovalRow } from '@prisma/client';
+import { prisma } from './database';
+import { notify } from './notifications';
+import {
+  toParameterValues,
+  storeParameterValues,
+  loadParameterValues,
+  APPROVAL_SECRET_CONTEXT
+} from './script-parameters';
+import { normalizeServerIds } from './utils';
+import { DEFAULT_RUN_STRATEGY } from './run-strategy';
+import type {
+  ScriptApproval,
+  ScriptApprovalStatus,
+  ScriptParameter,
+  ScriptParameterValues,
+  RunStrategy
+} from '@/types';
+
+const MAX_COMMENT_LENGTH = 2000;
+export const APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const approvalInclude = {
+  requestedBy: { select: { id: true, name: true, email: true } },
+  decidedBy: { select: { id: true, name: true } }
+} satisfies Prisma.ScriptApprovalInclude;
+
+type ApprovalRow = Prisma.ScriptApprovalGetPayload<{ include: typeof approvalInclude }>;
+
+interface ApprovalUser {
+  id: number;
+  role: string;
+}
+
+// A run as script:run received it, with the version pinned for saved scripts
+export interface ApprovalRequest {
+  scriptId: number | null;
+  scriptVersion: number | null;
+  scriptName: string;
+  command: string;
+  displayCommand: string;
+  parameterDefinitions: ScriptParameter[];
+  parameters: ScriptParameterValues;
+  serverIds: number[];
+  strategy: RunStrategy;
+  reason: string;
+  warning?: string;
+}
+
+// An approved request loaded to run
+export interface ApprovedRun extends Omit<ApprovalRequest, 'reason' | 'warning'> {
+  approvalId: number;
+  approvedById: number | null;
+}
+
+// Where clause for approvals a user can see: admins see all, others their own requests
+export function visibleApprovalsWhere(user: ApprovalUser): Prisma.ScriptApprovalWhereInput {
+  return user.role === 'ADMIN' ? {} : { requestedById: user.id };
+}
+
+/**
+ * Convert approvals for the API, looking up the server names in one query
+ */
+export async function toScriptApprovals(rows: ApprovalRow[]): Promise<ScriptApproval[]> {
+  const serverIds = Array.from(new Set(rows.flatMap(row => normalizeServerIds(row.serverIds))));
+  const servers = serverIds.length > 0
+    ? await prisma.server.findMany({ where: { id: { in: serverIds } }, select: { id: true, name: true } })
+    : [];
+  const names = new Map(servers.map(server => [server.id, server.name]));
+
+  return rows.map(row => ({
+    id: row.id,
+    scriptId: row.scriptId,
+    scriptVersion: row.scriptVersion,
+    scriptName: row.scriptName,
+    displayCommand: row.displayCommand,
+    // Secrets stay masked
+    parameters: toParameterValues(row.parameters),
+    servers: normalizeServerIds(row.serverIds).map(id => ({ id, name: names.get(id) || `#${id}` })),
+    strategy: (row.strategy as unknown as RunStrategy | null) || DEFAULT_RUN_STRATEGY,
+    reason: row.reason,
+    warning: row.warning || undefined,
+    status: row.status,
+    requestedBy: row.requestedBy,
+    decidedBy: row.decidedBy || undefined,
+    comment: row.comment || undefined,
+    decidedAt: row.decidedAt?.toISOString(),
+    expiresAt: row.expiresAt?.toISOString(),
+    executedAt: row.executedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString()
+  }));
+}
+
+/**
+ * Queue a run for approval and notify the admins
+ */
+export async function requestScriptApproval(
+  request: ApprovalRequest,
+  user: { id: number; email: string }
+): Promise<ScriptApprovalRow> {
+  const { parameters, secretParameters } = storeParameterValues(
+    request.parameterDefinitions,
+    request.parameters,
+    APPROVAL_SECRET_CONTEXT
+  );
+
+  const approval = await prisma.scriptApproval.create({
+    data: {
+      scriptId: request.scriptId,
+      scriptVersion: request.scriptVersion,
+      scriptName: request.scriptName,
+      command: request.command,
+      displayCommand: request.displayCommand,
+      // Saved scripts run the pinned version's own definitions
+      parameterDefinitions: request.scriptId === null
+        ? request.parameterDefinitions as unknown as Prisma.InputJsonArray
+        : undefined,
+      parameters,
+      secretParameters,
+      serverIds: request.serverIds,
+      strategy: request.strategy as unknown as Prisma.InputJsonObject,
+      reason: request.reason,
+      warning: request.warning || null,
+      requestedById: user.id
+    }
+  });
+
+  notify({
+    event: 'APPROVAL_REQUESTED',
+    title: `Approval requested to run "${request.scriptName}"`,
+    message: `${user.email} wants to run "${request.scriptName}" on ${request.serverIds.length} server(s). ${request.reason}.`,
+    severity: 'warning',
+    data: {
+      approvalId: approval.id,
+      scriptName: request.scriptName,
+      command: request.displayCommand,
+      user: user.email,
+      serverIds: request.serverIds,
+      reason: request.reason
+    }
+  });
+
+  return approval;
+}
+
+/**
+ * Approve or reject a pending request
+ * @returns The updated approval, or an error with its HTTP status
+ */
+export async function decideScriptApproval(
+  approvalId: number,
+  admin: ApprovalUser,
+  approved: boolean,
+  comment?: string | null
+): Promise<{ approval: ApprovalRow } | { error: string; status: number }> {
+  if (admin.role !== 'ADMIN') {
+    return { error: 'Only an admin can approve or reject script runs', status: 403 };
+  }
+  if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+    return { error: 'Comment must be a string', status: 400 };
+  }
+  const trimmedComment = comment?.trim() || null;
+  if (trimmedComment && trimmedComment.length > MAX_COMMENT_LENGTH) {
+    return { error: `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`, status: 400 };
+  }
+  if (!approved && !trimmedComment) {
+    return { error: 'A comment is required to reject a request', status: 400 };
+  }
+
+  // Only a pending request can be decided, once
+  const decidedAt = new Date();
+  const { count } = await prisma.scriptApproval.updateMany({
+    where: { id: approvalId, status: 'PENDING' },
+    data: {
+      status: approved ? 'APPROVED' : 'REJECTED',
+      decidedById: admin.id,
+      comment: trimmedComment,
+      decidedAt,
+      expiresAt: approved ? new Date(decidedAt.getTime() + APPROVAL_TTL_MS) : null
+    }
+  });
+
+  const approval = await prisma.scriptApproval.findUnique({ where: { id: approvalId }, include: approvalInclude });
+  if (!approval) {
+    return { error: 'Approval request not found', status: 404 };
+  }
+  if (count === 0) {
+    return { error: `Request is already ${describeStatus(approval.status)}`, status: 409 };
+  }
+
+  return { approval };
+}
+
+/**
+ * Withdraw a request that has not run yet; the requester or an admin
+ */
+export async function cancelScriptApproval(
+  approvalId: number,
+  user: ApprovalUser
+): Promise<{ approval: ApprovalRow } | { error: string; status: number }> {
+  const existing = await prisma.scriptApproval.findFirst({
+    where: { id: approvalId, ...visibleApprovalsWhere(user) }
+  });
+  if (!existing) {
+    return { error: 'Approval request not found', status: 404 };
+  }
+
+  const { count } = await prisma.scriptApproval.updateMany({
+    where: { id: approvalId, status: { in: ['PENDING', 'APPROVED'] } },
+    data: { status: 'CANCELLED' }
+  });
+  if (count === 0) {
+    return { error: `Request is already ${describeStatus(existing.status)}`, status: 409 };
+  }
+
+  const approval = await prisma.scriptApproval.findUniqueOrThrow({ where: { id: approvalId }, include: approvalInclude });
+  return { approval };
+}
+
+/**
+ * Load an approved request to run it; only its requester can
+ * @returns The stored run with secrets decrypted, or an error message
+ */
+export async function getApprovedRun(approvalId: number, user: ApprovalUser): Promise<ApprovedRun | string> {
+  const approval = await prisma.scriptApproval.findFirst({
+    where: { id: approvalId, requestedById: user.id }
+  });
+  if (!approval) {
+    return 'Approval request not found';
+  }
+  if (approval.status !== 'APPROVED') {
+    return approval.status === 'PENDING'
+      ? 'The request is still waiting for approval'
+      : `The request is ${describeStatus(approval.status)}`;
+  }
+  if (!approval.expiresAt || approval.expiresAt <= new Date()) {
+    return 'The approval has expired, request it again';
+  }
+  if (approval.scriptVersion !== null && approval.scriptId === null) {
+    return 'The approved script has been deleted';
+  }
+
+  return {
+    approvalId: approval.id,
+    approvedById: approval.decidedById,
+    scriptId: approval.scriptId,
+    scriptVersion: approval.scriptVersion,
+    scriptName: approval.scriptName,
+    command: approval.command,
+    displayCommand: approval.displayCommand,
+    parameterDefinitions: Array.isArray(approval.parameterDefinitions)
+      ? approval.parameterDefinitions as unknown as ScriptParameter[]
+      : [],
+    parameters: loadParameterValues(approval, APPROVAL_SECRET_CONTEXT),
+    serverIds: normalizeServerIds(approval.serverIds),
+    strategy: (approval.strategy as unknown as RunStrategy | null) || DEFAULT_RUN_STRATEGY
+  };
+}
+
+/**
+ * Mark an approved request as run, right before it starts
+ * @returns false if another run claimed it first or the approval has expired
+ */
+export async function markApprovalExecuted(approvalId: number): Promise<boolean> {
+  const { count } = await prisma.scriptApproval.updateMany({
+    where: { id: approvalId, status: 'APPROVED', expiresAt: { gt: new Date() } },
+    data: { status: 'EXECUTED', executedAt: new Date() }
+  });
+  return count > 0;
+}
+
+function describeStatus(status: ScriptApprovalStatus): string {
+  switch (status) {
+    case 'PENDING':
+      return 'pending';
+    case 'APPROVED':
+      return 'approved';
+    case 'REJECTED':
+      return 'rejected';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return 'run';
+  }
+}
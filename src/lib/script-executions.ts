@@ -0,0 +1,275 @@
+/**
+ * Persisted script runs
+ * Each script:run from the scripts page is an Execution (who, what, strategy, overall status)
+ * owning one ScriptLog per server. Output is written to the ScriptLog while the command
+ * streams, so a WebSocket server restart keeps what was already received; executions left
+ * RUNNING by a restart are marked FAILED when the server starts again.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './database';
+import { maskSecrets } from './script-parameters';
+import { countScriptRun } from './prometheus';
+import type { Execution, ScriptLog, ScriptLogEntry, ScriptStatus, RunStrategy, Server } from '@/types';
+
+// Output kept on each ScriptLog, per stream
+export const MAX_SCRIPT_LOG_OUTPUT = 1024 * 1024;
+
+// How often streamed output is written to a running ScriptLog
+const OUTPUT_FLUSH_MS = 2000;
+
+export const appendLogOutput = (current: string, chunk: string) =>
+  current.length >= MAX_SCRIPT_LOG_OUTPUT ? current : (current + chunk).slice(0, MAX_SCRIPT_LOG_OUTPUT);
+
+// Include for converting logs with toScriptLog
+export const scriptLogInclude = {
+  server: { select: { name: true, host: true } },
+  user: { select: { name: true, email: true } },
+  scriptVersion: { select: { version: true } },
+  schedule: { select: { name: true } },
+  approvedBy: { select: { id: true, name: true } }
+} satisfies Prisma.ScriptLogInclude;
+
+// Select for listing logs with toScriptLog; everything in scriptLogInclude except output and error
+export const scriptLogListSelect = {
+  id: true,
+  scriptName: true,
+  command: true,
+  status: true,
+  startTime: true,
+  endTime: true,
+  duration: true,
+  userId: true,
+  serverId: true,
+  serverName: true,
+  serverHost: true,
+  scriptId: true,
+  scriptVersionId: true,
+  scheduleId: true,
+  runbookRunId: true,
+  runbookStep: true,
+  approvalId: true,
+  approvedById: true,
+  executionId: true,
+  ...scriptLogInclude
+} satisfies Prisma.ScriptLogSelect;
+
+// Include for converting executions with toExecution; per-server results without output
+export const executionInclude = {
+  user: { select: { id: true, name: true, email: true } },
+  scriptVersion: { select: { version: true } },
+  scriptLogs: {
+    select: { id: true, serverId: true, serverName: true, status: true, server: { select: { name: true } } },
+    orderBy: { id: 'asc' }
+  }
+} satisfies Prisma.ExecutionInclude;
+
+type ScriptLogRow = Prisma.ScriptLogGetPayload<{ select: typeof scriptLogListSelect }>
+  & Partial<Pick<Prisma.ScriptLogGetPayload<{ include: typeof scriptLogInclude }>, 'output' | 'error'>>;
+type ExecutionRow = Prisma.ExecutionGetPayload<{ include: typeof executionInclude }>;
+
+interface ExecutionUser {
+  id: number;
+  role: string;
+}
+
+export function toScriptLog(log: ScriptLogRow): ScriptLog {
+  return {
+    id: log.id,
+    scriptName: log.scriptName,
+    command: log.command,
+    status: log.status,
+    output: log.output || undefined,
+    error: log.error || undefined,
+    startTime: log.startTime.toISOString(),
+    endTime: log.endTime?.toISOString(),
+    duration: log.duration || undefined,
+    userId: log.userId,
+    serverId: log.serverId ?? undefined,
+    serverName: log.server?.name || log.serverName || undefined,
+    serverHost: log.server?.host || log.serverHost || undefined,
+    scriptId: log.scriptId || undefined,
+    scriptVersion: log.scriptVersion?.version,
+    scheduleId: log.scheduleId || undefined,
+    scheduleName: log.schedule?.name,
+    runbookRunId: log.runbookRunId || undefined,
+    runbookStep: log.runbookStep ?? undefined,
+    approvalId: log.approvalId || undefined,
+    approvedBy: log.approvedBy || undefined,
+    executionId: log.executionId || undefined,
+    // Only the name and host are loaded
+    server: log.server && log.serverId ? {
+      id: log.serverId,
+      name: log.server.name,
+      host: log.server.host,
+      port: 22,
+      username: '',
+      isActive: true,
+      status: 'DISCONNECTED',
+      createdAt: '',
+      updatedAt: '',
+      userId: log.userId
+    } as Server : undefined
+  };
+}
+
+export function toExecution(execution: ExecutionRow): Execution {
+  return {
+    id: execution.id,
+    executionKey: execution.executionKey,
+    scriptName: execution.scriptName,
+    command: execution.command,
+    scriptId: execution.scriptId || undefined,
+    scriptVersion: execution.scriptVersion?.version,
+    approvalId: execution.approvalId || undefined,
+    strategy: execution.strategy as unknown as RunStrategy,
+    status: execution.status,
+    serverCount: execution.serverCount,
+    successCount: execution.successCount,
+    failedCount: execution.failedCount,
+    skippedCount: execution.skippedCount,
+    stoppedReason: execution.stoppedReason || undefined,
+    userId: execution.userId,
+    user: execution.user,
+    startTime: execution.startTime.toISOString(),
+    endTime: execution.endTime?.toISOString(),
+    duration: execution.duration ?? undefined,
+    servers: execution.scriptLogs.map(log => ({
+      scriptLogId: log.id,
+      serverId: log.serverId ?? undefined,
+      serverName: log.server?.name || log.serverName || 'Unknown',
+      status: log.status
+    }))
+  };
+}
+
+// Where clause for executions a user can see: admins see all, others their own
+export function visibleExecutionsWhere(user: ExecutionUser): Prisma.ExecutionWhereInput {
+  return user.role === 'ADMIN' ? {} : { userId: user.id };
+}
+
+// Fields the grouped logs list can sort on; both logs and executions have them
+export const ENTRY_SORT_FIELDS = ['startTime', 'duration', 'status'] as const;
+export type EntrySortField = typeof ENTRY_SORT_FIELDS[number];
+
+// The database sorts the status enum by declaration order
+const STATUS_ORDER: ScriptStatus[] = ['RUNNING', 'SUCCESS', 'FAILED', 'CANCELLED'];
+
+const entrySortValue = (entry: ScriptLogEntry, field: EntrySortField): string | number => {
+  const item = entry.type === 'log' ? entry.log : entry.execution;
+  switch (field) {
+    case 'duration':
+      return item.duration ?? -1;
+    case 'status':
+      return STATUS_ORDER.indexOf(item.status);
+    default:
+      return item.startTime;
+  }
+};
+
+/**
+ * Merge logs and executions, each already sorted the same way, into one page
+ */
+export function mergeLogEntries(
+  logs: ScriptLog[],
+  executions: Execution[],
+  field: EntrySortField,
+  order: 'asc' | 'desc',
+  skip: number,
+  take: number
+): ScriptLogEntry[] {
+  const direction = order === 'asc' ? 1 : -1;
+  const entries: ScriptLogEntry[] = [
+    ...logs.map(log => ({ type: 'log' as const, log })),
+    ...executions.map(execution => ({ type: 'execution' as const, execution }))
+  ];
+
+  return entries
+    .sort((a, b) => {
+      const first = entrySortValue(a, field);
+      const second = entrySortValue(b, field);
+      return first === second ? 0 : (first < second ? -1 : 1) * direction;
+    })
+    .slice(skip, skip + take);
+}
+
+/**
+ * Write a running ScriptLog's output as it streams
+ * Writes are queued, so the final update always lands after the last periodic one.
+ * Secrets are masked in everything written.
+ */
+export function createScriptLogWriter(scriptLogId: number | null, secrets: string[]) {
+  let output = '';
+  let errorOutput = '';
+  let dirty = false;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const write = (data: Prisma.ScriptLogUpdateInput) => {
+    if (scriptLogId === null) return queue;
+    queue = queue
+      .then(() => prisma.scriptLog.update({ where: { id: scriptLogId }, data }))
+      .catch(error => console.error('Failed to update script log:', error));
+    return queue;
+  };
+
+  const timer = setInterval(() => {
+    if (!dirty) return;
+    dirty = false;
+    write({
+      output: maskSecrets(output, secrets) || null,
+      error: maskSecrets(errorOutput, secrets) || null
+    });
+  }, OUTPUT_FLUSH_MS);
+
+  return {
+    append(type: 'stdout' | 'stderr', chunk: string) {
+      if (type === 'stdout') {
+        output = appendLogOutput(output, chunk);
+      } else {
+        errorOutput = appendLogOutput(errorOutput, chunk);
+      }
+      dirty = true;
+    },
+
+    finish(status: ScriptStatus, startTime: Date, error?: string) {
+      clearInterval(timer);
+      countScriptRun(status);
+      return write({
+        status,
+        output: maskSecrets(output, secrets) || null,
+        error: maskSecrets([errorOutput, error].filter(Boolean).join('\n'), secrets) || null,
+        endTime: new Date(),
+        duration: Math.floor((Date.now() - startTime.getTime()) / 1000)
+      });
+    }
+  };
+}
+
+/**
+ * Mark executions (and their per-server logs) interrupted by a WebSocket server restart
+ */
+export async function recoverExecutions(): Promise<void> {
+  try {
+    const interrupted = await prisma.execution.findMany({
+      where: { status: 'RUNNING' },
+      select: { id: true }
+    });
+    if (interrupted.length === 0) return;
+
+    const ids = interrupted.map(execution => execution.id);
+    const endTime = new Date();
+    const { count: failedLogs } = await prisma.scriptLog.updateMany({
+      where: { executionId: { in: ids }, status: 'RUNNING' },
+      data: { status: 'FAILED', endTime }
+    });
+    countScriptRun('FAILED', failedLogs);
+    await prisma.execution.updateMany({
+      where: { id: { in: ids } },
+      data: { status: 'FAILED', stoppedReason: 'Interrupted by a WebSocket server restart', endTime }
+    });
+
+    console.log(`Marked ${ids.length} interrupted script execution(s) as failed`);
+  } catch (error) {
+    console.error('Failed to recover script executions:', error);
+  }
+}
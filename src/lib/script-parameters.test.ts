@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyScriptParameters, maskSecrets, SECRET_MASK } from './script-parameters';
+import type { ScriptParameter } from '@/types';
+
+test('maskSecrets replaces every occurrence of each secret', () => {
+  assert.equal(
+    maskSecrets('token=abc123 again abc123, key=xyz', ['abc123', 'xyz']),
+    `token=${SECRET_MASK} again ${SECRET_MASK}, key=${SECRET_MASK}`
+  );
+});
+
+test('maskSecrets masks a secret that contains another as a whole', () => {
+  assert.equal(maskSecrets('password: hunter2!', ['hunter', 'hunter2!']), `password: ${SECRET_MASK}`);
+});
+
+test('maskSecrets ignores empty secrets', () => {
+  assert.equal(maskSecrets('output', ['']), 'output');
+});
+
+test('applyScriptParameters substitutes escaped values and masks secrets for display', () => {
+  const parameters: ScriptParameter[] = [
+    { name: 'path', type: 'string', required: true },
+    { name: 'token', type: 'secret', required: true }
+  ];
+
+  const result = applyScriptParameters('deploy {{path}} --token {{ token }}', parameters, {
+    path: '/srv/my app',
+    token: 's3cr3t'
+  });
+
+  assert.deepEqual(result, {
+    command: "deploy '/srv/my app' --token s3cr3t",
+    displayCommand: `deploy '/srv/my app' --token ${SECRET_MASK}`,
+    secrets: ['s3cr3t']
+  });
+});
+
+test('applyScriptParameters keeps shell syntax in values from running', () => {
+  const parameters: ScriptParameter[] = [{ name: 'name', type: 'string' }];
+
+  const result = applyScriptParameters('echo {{name}}', parameters, { name: '$(reboot); id' });
+  assert.equal(typeof result === 'string' ? result : result.command, "echo '$(reboot); id'");
+});
+
+test('applyScriptParameters rejects missing required values', () => {
+  const parameters: ScriptParameter[] = [{ name: 'host', type: 'string', label: 'Host', required: true }];
+
+  assert.equal(applyScriptParameters('ping {{host}}', parameters, {}), 'Host is required');
+});
@@ -0,0 +1,258 @@
+/**
+ * Typed script parameters
+ * A command references parameters as {{name}}; each value is validated against its
+ * definition and substituted as a single shell word with escapeShellArg, so values can
+ * never add shell syntax. Placeholders must therefore not be quoted in the command.
+ * Used by the script runner form and by script:run / POST /api/scripts/run. Schedules and
+ * approval requests store their values with storeParameterValues, secrets encrypted.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { escapeShellArg } from './terminal-utils';
+import { encryptOptional, decryptOptional } from './vault';
+import type { ScriptParameter, ScriptParameterType, ScriptParameterValues } from '@/types';
+
+export const PARAMETER_TYPES: ScriptParameterType[] = ['string', 'number', 'enum', 'boolean', 'secret'];
+
+// Shown instead of secret values in logs and confirmation prompts
+export const SECRET_MASK = '******';
+
+// Vault contexts of the secret values schedules and approval requests store (here so the rotation script can import them)
+export const SCHEDULE_SECRET_CONTEXT = 'scriptSchedule.secretParameters';
+export const APPROVAL_SECRET_CONTEXT = 'scriptApproval.secretParameters';
+
+const MAX_PARAMETERS = 30;
+const MAX_VALUE_LENGTH = 4096;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export const parameterLabel = (parameter: ScriptParameter) => parameter.label || parameter.name;
+
+/**
+ * Parameter definitions stored as JSON, dropping malformed entries
+ */
+export function normalizeParameters(value: unknown): ScriptParameter[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is ScriptParameter =>
+    !!item && typeof item === 'object'
+    && typeof item.name === 'string'
+    && PARAMETER_TYPES.includes(item.type)
+  );
+}
+
+/**
+ * Names used as {{name}} in a command
+ */
+export function findPlaceholders(command: string): string[] {
+  return Array.from(new Set(Array.from(command.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+}
+
+/**
+ * Check a value against its definition; empty values are left to the required check
+ * @returns An error message, or null if valid
+ */
+export function validateParameterValue(parameter: ScriptParameter, value: string | number | boolean): string | null {
+  const label = parameterLabel(parameter);
+
+  switch (parameter.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'boolean' || !isFinite(number)) return `${label} must be a number`;
+      if (parameter.min !== undefined && number < parameter.min) return `${label} must be at least ${parameter.min}`;
+      if (parameter.max !== undefined && number > parameter.max) return `${label} must be at most ${parameter.max}`;
+      return null;
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean' && value !== 'true' && value !== 'false') return `${label} must be true or false`;
+      return null;
+
+    case 'enum':
+      if (!(parameter.options || []).includes(String(value))) return `${label} must be one of: ${(parameter.options || []).join(', ')}`;
+      return null;
+
+    default:
+      if (typeof value !== 'string') return `${label} must be text`;
+      if (value.length > MAX_VALUE_LENGTH) return `${label} cannot exceed ${MAX_VALUE_LENGTH} characters`;
+      if (value.includes('\0')) return `${label} cannot contain NUL characters`;
+      if (parameter.pattern && !new RegExp(`^(?:${parameter.pattern})$`).test(value)) {
+        return `${label} does not match the required format`;
+      }
+      return null;
+  }
+}
+
+/**
+ * Validate parameter definitions, and that every placeholder in the command is declared
+ * @returns An error message, or null if valid
+ */
+export function validateParameterDefinitions(parameters: unknown, command?: string): string | null {
+  if (parameters === undefined || parameters === null) parameters = [];
+  if (!Array.isArray(parameters)) return 'Parameters must be an array';
+  if (parameters.length > MAX_PARAMETERS) return `A script can have at most ${MAX_PARAMETERS} parameters`;
+
+  const names = new Set<string>();
+  for (const parameter of parameters as ScriptParameter[]) {
+    if (!parameter || typeof parameter.name !== 'string' || !NAME_PATTERN.test(parameter.name)) {
+      return 'Parameter names must start with a letter or underscore and contain only letters, digits and underscores';
+    }
+    if (names.has(parameter.name)) return `Parameter "${parameter.name}" is declared twice`;
+    names.add(parameter.name);
+
+    if (!PARAMETER_TYPES.includes(parameter.type)) return `Parameter "${parameter.name}" has an invalid type`;
+
+    if (parameter.type === 'enum'
+      && (!Array.isArray(parameter.options) || parameter.options.length === 0
+        || !parameter.options.every(option => typeof option === 'string' && option !== ''))) {
+      return `Parameter "${parameter.name}" needs at least one option`;
+    }
+
+    if (parameter.pattern !== undefined) {
+      try {
+        new RegExp(parameter.pattern);
+      } catch {
+        return `Parameter "${parameter.name}" has an invalid pattern`;
+      }
+    }
+
+    if (parameter.min !== undefined && parameter.max !== undefined && parameter.min > parameter.max) {
+      return `Parameter "${parameter.name}" has a minimum above its maximum`;
+    }
+
+    if (parameter.default !== undefined && parameter.default !== '') {
+      const error = validateParameterValue(parameter, parameter.default);
+      if (error) return `Default value: ${error}`;
+    }
+  }
+
+  if (command !== undefined) {
+    const undeclared = findPlaceholders(command).filter(name => !names.has(name));
+    if (undeclared.length > 0) {
+      return `Command uses undeclared parameter${undeclared.length > 1 ? 's' : ''}: ${undeclared.map(name => `{{${name}}}`).join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply defaults and validate submitted values
+ * @returns Values as strings by parameter name, or an error message
+ */
+export function resolveParameterValues(
+  parameters: ScriptParameter[],
+  values: ScriptParameterValues = {}
+): Record<string, string> | string {
+  const resolved: Record<string, string> = {};
+
+  for (const parameter of parameters) {
+    const value = values[parameter.name] ?? parameter.default;
+
+    if (value === undefined || value === '') {
+      if (parameter.required) return `${parameterLabel(parameter)} is required`;
+      resolved[parameter.name] = parameter.type === 'boolean' ? 'false' : '';
+      continue;
+    }
+
+    const error = validateParameterValue(parameter, value);
+    if (error) return error;
+
+    resolved[parameter.name] = parameter.type === 'number' ? String(Number(value)) : String(value);
+  }
+
+  return resolved;
+}
+
+/**
+ * Substitute parameters into a command
+ * @returns The command to run, a copy with secrets masked for logs and prompts, and the
+ * secret values so they can be masked in stored output; or an error message
+ */
+export function applyScriptParameters(
+  command: string,
+  parameters: ScriptParameter[],
+  values?: ScriptParameterValues
+): { command: string; displayCommand: string; secrets: string[] } | string {
+  if (parameters.length === 0) {
+    return { command, displayCommand: command, secrets: [] };
+  }
+
+  const resolved = resolveParameterValues(parameters, values);
+  if (typeof resolved === 'string') return resolved;
+
+  const byName = new Map(parameters.map(parameter => [parameter.name, parameter]));
+  const substitute = (mask: boolean) => command.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const parameter = byName.get(name);
+    if (!parameter) return placeholder;
+    return mask && parameter.type === 'secret' ? SECRET_MASK : escapeShellArg(resolved[name]);
+  });
+
+  return {
+    command: substitute(false),
+    displayCommand: substitute(true),
+    secrets: parameters
+      .filter(parameter => parameter.type === 'secret' && resolved[parameter.name])
+      .map(parameter => resolved[parameter.name])
+  };
+}
+
+/**
+ * Replace secret values in text (command output) with the mask
+ * Longer secrets go first, so a secret containing another is not left partly visible.
+ */
+export function maskSecrets(text: string, secrets: string[]): string {
+  return secrets
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .reduce((masked, secret) => masked.split(secret).join(SECRET_MASK), text);
+}
+
+// Parameter values stored as JSON
+export const toParameterValues = (value: unknown): ScriptParameterValues =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as ScriptParameterValues : {};
+
+/**
+ * Split parameter values for storage: secrets are replaced by the mask and encrypted together
+ * @param context - Vault context of the stored secrets, e.g. SCHEDULE_SECRET_CONTEXT
+ */
+export function storeParameterValues(
+  definitions: ScriptParameter[],
+  values: ScriptParameterValues,
+  context: string
+): { parameters: Prisma.InputJsonObject; secretParameters: string | null } {
+  const secretNames = new Set(definitions.filter(p => p.type === 'secret').map(p => p.name));
+  const parameters: ScriptParameterValues = {};
+  const secrets: ScriptParameterValues = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    if (secretNames.has(name)) {
+      if (value === '') continue;
+      secrets[name] = value;
+      parameters[name] = SECRET_MASK;
+    } else {
+      parameters[name] = value;
+    }
+  }
+
+  return {
+    parameters,
+    secretParameters: encryptOptional(
+      Object.keys(secrets).length > 0 ? JSON.stringify(secrets) : null,
+      context
+    )
+  };
+}
+
+/**
+ * Parameter values stored with storeParameterValues, secrets decrypted
+ */
+export function loadParameterValues(
+  stored: { parameters: Prisma.JsonValue; secretParameters: string | null },
+  context: string
+): ScriptParameterValues {
+  const secrets = decryptOptional(stored.secretParameters, context);
+  return {
+    ...toParameterValues(stored.parameters),
+    ...(secrets ? JSON.parse(secrets) as ScriptParameterValues : {})
+  };
+}
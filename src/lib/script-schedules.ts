@@ -0,0 +1,526 @@
+/**
+ * Scheduled script runs
+ * The scheduler runs in the WebSocket server: every SCHEDULER_TICK_MS it starts the active
+ * schedules whose nextRunAt has passed, as the schedule's owner, and writes a ScriptLog per
+ * server like a run from the scripts page. A schedule that is still running when it is due
+ * again skips that run (recorded as lastSkippedAt) rather than queueing it. Runs missed while
+ * the WebSocket server was down are not replayed.
+ */
+
+import type { Prisma, ScriptSchedule as ScriptScheduleRow } from '@prisma/client';
+import { prisma } from './database';
+import { normalizeTags, normalizeServerIds } from './utils';
+import { getNextRun, validateCron, isValidTimeZone } from './cron';
+import { resolveScriptForRun } from './scripts';
+import {
+  applyScriptParameters,
+  maskSecrets,
+  toParameterValues,
+  storeParameterValues,
+  loadParameterValues,
+  SCHEDULE_SECRET_CONTEXT
+} from './script-parameters';
+import { DEFAULT_RUN_STRATEGY, validateRunStrategy, runWithStrategy } from './run-strategy';
+import { loadCommandValidator, getApprovalReason } from './command-middleware';
+import { executeCommandStreaming } from './ssh';
+import { notify } from './notifications';
+import { countScriptRun } from './prometheus';
+import type {
+  ScriptSchedule,
+  ScriptScheduleData,
+  ScriptParameter,
+  ScriptParameterValues,
+  RunStrategy,
+  CommandConfirmation
+} from '@/types';
+
+export const SCHEDULER_TICK_MS = 15 * 1000;
+
+const MAX_NAME_LENGTH = 191;
+const MAX_SCRIPT_LOG_OUTPUT = 1024 * 1024;
+const RUN_TIMEOUT_MS = 10 * 60 * 1000;
+
+export const scheduleInclude = {
+  script: { select: { name: true } },
+  user: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.ScriptScheduleInclude;
+
+type ScheduleRow = Prisma.ScriptScheduleGetPayload<{ include: typeof scheduleInclude }>;
+
+interface ScheduleUser {
+  id: number;
+  role: string;
+}
+
+// Schedules currently running, to skip overlapping runs
+const runningSchedules = new Set<number>();
+
+let tickTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+let stopping = false;
+
+export function toScriptSchedule(schedule: ScheduleRow): ScriptSchedule {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    scriptId: schedule.scriptId,
+    scriptName: schedule.script.name,
+    scriptVersion: schedule.scriptVersion,
+    cronExpression: schedule.cronExpression,
+    timezone: schedule.timezone,
+    serverIds: normalizeServerIds(schedule.serverIds),
+    tags: normalizeTags(schedule.tags),
+    // Secret values are stored here as the mask
+    parameters: toParameterValues(schedule.parameters),
+    strategy: (schedule.strategy as unknown as RunStrategy | null) || DEFAULT_RUN_STRATEGY,
+    isActive: schedule.isActive,
+    nextRunAt: schedule.nextRunAt?.toISOString(),
+    lastRunAt: schedule.lastRunAt?.toISOString(),
+    lastRunStatus: schedule.lastRunStatus || undefined,
+    lastError: schedule.lastError || undefined,
+    lastSkippedAt: schedule.lastSkippedAt?.toISOString(),
+    userId: schedule.userId,
+    owner: schedule.user,
+    createdAt: schedule.createdAt.toISOString(),
+    updatedAt: schedule.updatedAt.toISOString()
+  };
+}
+
+// Where clause for schedules a user can see and manage
+export function visibleSchedulesWhere(user: ScheduleUser): Prisma.ScriptScheduleWhereInput {
+  return user.role === 'ADMIN' ? {} : { userId: user.id };
+}
+
+/**
+ * Validate a schedule from the API
+ * @param partial - Only check fields that are present (for updates)
+ * @returns An error message, or null if valid
+ */
+export function validateScheduleData(data: Partial<ScriptScheduleData>, partial: boolean = false): string | null {
+  if (!partial || data.name !== undefined) {
+    if (typeof data.name !== 'string' || !data.name.trim()) return 'Schedule name is required';
+    if (data.name.trim().length > MAX_NAME_LENGTH) return `Schedule name cannot exceed ${MAX_NAME_LENGTH} characters`;
+  }
+  if (!partial || data.scriptId !== undefined) {
+    if (!Number.isInteger(data.scriptId)) return 'Script is required';
+  }
+  if (data.scriptVersion !== undefined && data.scriptVersion !== null
+    && (!Number.isInteger(data.scriptVersion) || data.scriptVersion < 1)) {
+    return 'Invalid script version';
+  }
+  if (!partial || data.cronExpression !== undefined) {
+    if (typeof data.cronExpression !== 'string' || !data.cronExpression.trim()) return 'Cron expression is required';
+    const cronError = validateCron(data.cronExpression);
+    if (cronError) return cronError;
+    if (!getNextRun(data.cronExpression, 'UTC')) return 'Cron expression never matches a date';
+  }
+  if (data.timezone !== undefined && (typeof data.timezone !== 'string' || !isValidTimeZone(data.timezone))) {
+    return 'Invalid time zone';
+  }
+  if (data.serverIds !== undefined && (!Array.isArray(data.serverIds) || !data.serverIds.every(Number.isInteger))) {
+    return 'Server IDs must be an array of integers';
+  }
+  if (data.tags !== undefined && !Array.isArray(data.tags)) {
+    return 'Tags must be an array of strings';
+  }
+  if (data.parameters !== undefined
+    && (!data.parameters || typeof data.parameters !== 'object' || Array.isArray(data.parameters))) {
+    return 'Parameters must be an object of values by name';
+  }
+  if (data.strategy !== undefined) {
+    const strategyError = validateRunStrategy(data.strategy);
+    if (strategyError) return strategyError;
+  }
+  if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+    return 'isActive must be a boolean';
+  }
+  return null;
+}
+
+/**
+ * Next run of a schedule from now, null when paused or the expression never matches
+ */
+export function computeNextRunAt(schedule: { cronExpression: string; timezone: string; isActive: boolean }, after: Date = new Date()): Date | null {
+  if (!schedule.isActive) return null;
+  try {
+    return getNextRun(schedule.cronExpression, schedule.timezone, after);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the script version a schedule runs and substitute its parameters
+ * @returns The command to run, a copy for logs, and the version; or an error message
+ */
+export async function resolveScheduleCommand(
+  scriptId: number,
+  scriptVersion: number | null,
+  values: ScriptParameterValues,
+  user: ScheduleUser
+): Promise<{
+  scriptName: string;
+  scriptRef: { scriptId: number; scriptVersionId: number };
+  requiresApproval: boolean;
+  definitions: ScriptParameter[];
+  command: string;
+  displayCommand: string;
+  secrets: string[];
+} | string> {
+  const resolved = await resolveScriptForRun(scriptId, user, scriptVersion ?? undefined);
+  if (typeof resolved === 'string') return resolved;
+
+  const applied = applyScriptParameters(resolved.version.command, resolved.version.parameters, values);
+  if (typeof applied === 'string') return applied;
+
+  return {
+    scriptName: resolved.script.name,
+    scriptRef: { scriptId: resolved.script.id, scriptVersionId: resolved.version.id },
+    requiresApproval: resolved.script.requiresApproval,
+    definitions: resolved.version.parameters,
+    ...applied
+  };
+}
+
+/**
+ * Check a schedule can run as the user before it is saved: targets, server access, script,
+ * parameter values and the security policy
+ * @returns The parameter columns to store, or an error with its HTTP status
+ */
+export async function prepareSchedule(
+  schedule: {
+    scriptId: number;
+    scriptVersion: number | null;
+    serverIds: number[];
+    tags: string[];
+    parameters: ScriptParameterValues;
+    confirmed?: boolean;
+  },
+  user: ScheduleUser
+): Promise<
+  | { parameters: Prisma.InputJsonObject; secretParameters: string | null }
+  | { error: string; status: number; confirmation?: CommandConfirmation }
+> {
+  if (schedule.serverIds.length === 0 && schedule.tags.length === 0) {
+    return { error: 'Select at least one server or tag', status: 400 };
+  }
+
+  if (schedule.serverIds.length > 0) {
+    const accessible = await prisma.server.count({
+      where: {
+        id: { in: schedule.serverIds },
+        ...(user.role !== 'ADMIN' && { userId: user.id })
+      }
+    });
+    if (accessible !== new Set(schedule.serverIds).size) {
+      return { error: 'Access denied to one or more servers', status: 403 };
+    }
+  }
+
+  const resolved = await resolveScheduleCommand(schedule.scriptId, schedule.scriptVersion, schedule.parameters, user);
+  if (typeof resolved === 'string') {
+    return { error: resolved, status: 400 };
+  }
+
+  // Scheduled runs cannot ask for confirmation, so it is given when saving
+  const validator = await loadCommandValidator();
+  const validation = validator.validate(resolved.command, user.id, 0);
+  if (!validation.allowed) {
+    return { error: validation.warning || 'Command is not allowed by the security policy', status: 400 };
+  }
+  if (validation.requiresConfirmation && !schedule.confirmed) {
+    return {
+      error: 'Command requires confirmation',
+      status: 409,
+      confirmation: { requiresConfirmation: true, warning: validation.warning || '' }
+    };
+  }
+
+  const approvalReason = getApprovalReason(user, resolved, resolved.command, validator);
+  if (approvalReason) {
+    return { error: `${approvalReason}. Scheduled runs cannot wait for approval, so only an admin can schedule it`, status: 403 };
+  }
+
+  return storeParameterValues(resolved.definitions, schedule.parameters, SCHEDULE_SECRET_CONTEXT);
+}
+
+// Active servers the owner can use that the schedule targets by ID or tag
+async function findScheduleServers(schedule: ScriptScheduleRow, owner: ScheduleUser) {
+  const serverIds = normalizeServerIds(schedule.serverIds);
+  const tags = normalizeTags(schedule.tags);
+
+  const servers = await prisma.server.findMany({
+    where: {
+      isActive: true,
+      ...(owner.role !== 'ADMIN' && { userId: owner.id })
+    },
+    select: { id: true, name: true, host: true, tags: true },
+    orderBy: { name: 'asc' }
+  });
+
+  return servers.filter(server =>
+    serverIds.includes(server.id) || normalizeTags(server.tags).some(tag => tags.includes(tag))
+  );
+}
+
+async function runSchedule(scheduleId: number): Promise<void> {
+  runningSchedules.add(scheduleId);
+
+  try {
+    const schedule = await prisma.scriptSchedule.findUnique({
+      where: { id: scheduleId },
+      include: { user: { select: { id: true, email: true, role: true, isActive: true } } }
+    });
+    if (!schedule) return;
+
+    const owner = schedule.user;
+    const startedAt = new Date();
+
+    const fail = async (error: string) => {
+      console.error(`Schedule "${schedule.name}" did not run: ${error}`);
+      await prisma.scriptSchedule.update({
+        where: { id: scheduleId },
+        data: { lastRunAt: startedAt, lastRunStatus: 'FAILED', lastError: error }
+      });
+      notify({
+        event: 'SCRIPT_FAILED',
+        title: `Scheduled run "${schedule.name}" did not start`,
+        message: error,
+        severity: 'warning',
+        data: { scheduleId, schedule: schedule.name, owner: owner.email }
+      });
+    };
+
+    if (!owner.isActive) {
+      await fail('The schedule owner account is disabled');
+      return;
+    }
+
+    const resolved = await resolveScheduleCommand(
+      schedule.scriptId,
+      schedule.scriptVersion,
+      loadParameterValues(schedule, SCHEDULE_SECRET_CONTEXT),
+      owner
+    );
+    if (typeof resolved === 'string') {
+      await fail(resolved);
+      return;
+    }
+    const { scriptName, scriptRef, command, displayCommand, secrets, requiresApproval } = resolved;
+
+    // Commands needing confirmation were confirmed when the schedule was saved
+    const validator = await loadCommandValidator();
+    const validation = validator.validate(command, owner.id, 0);
+    if (!validation.allowed) {
+      validator.logCommand(displayCommand, owner.id, 0, 'blocked', { reason: validation.warning, scheduleId });
+      await fail(validation.warning || 'Command is not allowed by the security policy');
+      return;
+    }
+
+    // The script or the policy may have changed since the schedule was saved
+    const approvalReason = getApprovalReason(owner, { requiresApproval }, command, validator);
+    if (approvalReason) {
+      await fail(`${approvalReason}. Scheduled runs cannot wait for approval`);
+      return;
+    }
+
+    const servers = await findScheduleServers(schedule, owner);
+    if (servers.length === 0) {
+      await fail('No active servers match the schedule');
+      return;
+    }
+
+    await prisma.scriptSchedule.update({
+      where: { id: scheduleId },
+      data: { lastRunAt: startedAt, lastRunStatus: 'RUNNING', lastError: null }
+    });
+
+    const strategy = (schedule.strategy as unknown as RunStrategy | null) || DEFAULT_RUN_STRATEGY;
+    const isCancelled = () => stopping;
+    let successCount = 0;
+    let failedCount = 0;
+
+    console.log(`Schedule "${schedule.name}" running "${scriptName}" on ${servers.length} servers, strategy=${strategy.mode}`);
+
+    const runOnServer = async (server: typeof servers[number]): Promise<boolean> => {
+      const startTime = new Date();
+      let output = '';
+      let errorOutput = '';
+      let exitCode = 0;
+      let failure: string | undefined;
+
+      const scriptLog = await prisma.scriptLog.create({
+        data: {
+          scriptName,
+          command: displayCommand,
+          status: 'RUNNING',
+          userId: owner.id,
+          serverId: server.id,
+          serverName: server.name,
+          serverHost: server.host,
+          startTime,
+          scheduleId,
+          ...scriptRef
+        }
+      });
+
+      try {
+        await executeCommandStreaming(
+          server.id,
+          owner.id,
+          command,
+          (type, data) => {
+            if (type === 'stdout' && output.length < MAX_SCRIPT_LOG_OUTPUT) {
+              output += data as string;
+            } else if (type === 'stderr' && errorOutput.length < MAX_SCRIPT_LOG_OUTPUT) {
+              errorOutput += data as string;
+            } else if (type === 'exit') {
+              exitCode = data as number;
+            }
+          },
+          { timeout: RUN_TIMEOUT_MS },
+          owner.role === 'ADMIN'
+        );
+      } catch (error) {
+        failure = error instanceof Error ? error.message : 'Execution failed';
+      }
+
+      const success = !failure && exitCode === 0;
+      if (success) {
+        successCount++;
+      } else {
+        failedCount++;
+      }
+      countScriptRun(success ? 'SUCCESS' : 'FAILED');
+
+      await prisma.scriptLog.update({
+        where: { id: scriptLog.id },
+        data: {
+          status: success ? 'SUCCESS' : 'FAILED',
+          output: maskSecrets(output.slice(0, MAX_SCRIPT_LOG_OUTPUT), secrets) || null,
+          error: maskSecrets([errorOutput.slice(0, MAX_SCRIPT_LOG_OUTPUT), failure].filter(Boolean).join('\n'), secrets) || null,
+          endTime: new Date(),
+          duration: Math.floor((Date.now() - startTime.getTime()) / 1000)
+        }
+      });
+
+      return success;
+    };
+
+    const { stoppedReason, skipped } = await runWithStrategy(servers, strategy, runOnServer, { isCancelled });
+
+    await prisma.scriptSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        lastRunStatus: stopping ? 'CANCELLED' : failedCount > 0 || skipped.length > 0 ? 'FAILED' : 'SUCCESS',
+        lastError: stoppedReason
+      }
+    });
+
+    console.log(`Schedule "${schedule.name}" completed: ${successCount} success, ${failedCount} failed, ${skipped.length} skipped`);
+
+    notify({
+      event: failedCount > 0 ? 'SCRIPT_FAILED' : 'SCRIPT_COMPLETED',
+      title: failedCount > 0
+        ? `Scheduled run "${schedule.name}" failed on ${failedCount} of ${servers.length} servers`
+        : `Scheduled run "${schedule.name}" completed`,
+      message: `${successCount} succeeded, ${failedCount} failed${skipped.length > 0 ? `, ${skipped.length} skipped` : ''}. Script "${scriptName}", owned by ${owner.email}.`,
+      severity: failedCount > 0 ? 'warning' : 'info',
+      data: {
+        scheduleId,
+        schedule: schedule.name,
+        scriptName,
+        owner: owner.email,
+        totalServers: servers.length,
+        successCount,
+        failedCount,
+        skippedCount: skipped.length,
+        strategy: strategy.mode
+      }
+    });
+  } catch (error) {
+    console.error(`Scheduled run ${scheduleId} error:`, error);
+    await prisma.scriptSchedule.update({
+      where: { id: scheduleId },
+      data: { lastRunStatus: 'FAILED', lastError: error instanceof Error ? error.message : 'Scheduled run failed' }
+    }).catch(() => {});
+  } finally {
+    runningSchedules.delete(scheduleId);
+  }
+}
+
+/**
+ * Start due schedules; each gets its next run time before it starts, so a slow run is never
+ * started twice
+ */
+export async function runDueSchedules(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    const now = new Date();
+    const due = await prisma.scriptSchedule.findMany({
+      where: { isActive: true, nextRunAt: { lte: now } },
+      select: { id: true, name: true, cronExpression: true, timezone: true, isActive: true }
+    });
+
+    for (const schedule of due) {
+      const overlapping = runningSchedules.has(schedule.id);
+
+      await prisma.scriptSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          nextRunAt: computeNextRunAt(schedule, now),
+          ...(overlapping && { lastSkippedAt: now })
+        }
+      });
+
+      if (overlapping) {
+        console.log(`Schedule "${schedule.name}" skipped: the previous run is still in progress`);
+        continue;
+      }
+
+      runSchedule(schedule.id);
+    }
+  } catch (error) {
+    console.error('Script scheduler error:', error);
+  } finally {
+    ticking = false;
+  }
+}
+
+export async function startScriptScheduler(): Promise<void> {
+  if (tickTimer) return;
+  stopping = false;
+
+  try {
+    // Runs interrupted by a restart, and runs missed while stopped (not replayed)
+    await prisma.scriptSchedule.updateMany({
+      where: { lastRunStatus: 'RUNNING' },
+      data: { lastRunStatus: 'FAILED', lastError: 'Interrupted by a WebSocket server restart' }
+    });
+
+    const now = new Date();
+    const missed = await prisma.scriptSchedule.findMany({
+      where: { isActive: true, OR: [{ nextRunAt: null }, { nextRunAt: { lt: now } }] },
+      select: { id: true, cronExpression: true, timezone: true, isActive: true }
+    });
+    for (const schedule of missed) {
+      await prisma.scriptSchedule.update({
+        where: { id: schedule.id },
+        data: { nextRunAt: computeNextRunAt(schedule, now) }
+      });
+    }
+  } catch (error) {
+    console.error('Script scheduler startup error:', error);
+  }
+
+  tickTimer = setInterval(runDueSchedules, SCHEDULER_TICK_MS);
+}
+
+export function stopScriptScheduler(): void {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = null;
+  // Running schedules finish the servers they started and start no more
+  stopping = true;
+}
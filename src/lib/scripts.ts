@@ -0,0 +1,149 @@
+/**
+ * Saved script library
+ * Every change to a script's name, description, command or parameters writes a new
+ * ScriptVersion, so a ScriptLog can point at the exact content that ran. Private scripts are
+ * visible to their owner (and admins); shared scripts to everyone, but only the owner or an
+ * admin may edit.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './database';
+import { normalizeTags } from './utils';
+import { normalizeParameters, validateParameterDefinitions } from './script-parameters';
+import type { Script, ScriptVersion, ScriptData, ScriptParameter } from '@/types';
+
+const MAX_NAME_LENGTH = 191;
+
+// Include for converting scripts with toScript
+export const scriptInclude = {
+  user: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.ScriptInclude;
+
+export const scriptVersionInclude = {
+  createdBy: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.ScriptVersionInclude;
+
+type ScriptRow = Prisma.ScriptGetPayload<{ include: typeof scriptInclude }>;
+type ScriptVersionRow = Prisma.ScriptVersionGetPayload<{ include: typeof scriptVersionInclude }>;
+
+interface ScriptUser {
+  id: number;
+  role: string;
+}
+
+export function toScript(script: ScriptRow, user?: ScriptUser): Script {
+  return {
+    id: script.id,
+    name: script.name,
+    description: script.description || undefined,
+    command: script.command,
+    parameters: normalizeParameters(script.parameters),
+    tags: normalizeTags(script.tags),
+    isShared: script.isShared,
+    requiresApproval: script.requiresApproval,
+    version: script.version,
+    userId: script.userId,
+    owner: script.user,
+    canEdit: user ? canEditScript(script, user) : undefined,
+    createdAt: script.createdAt.toISOString(),
+    updatedAt: script.updatedAt.toISOString()
+  };
+}
+
+export function toScriptVersion(version: ScriptVersionRow): ScriptVersion {
+  return {
+    id: version.id,
+    scriptId: version.scriptId,
+    version: version.version,
+    name: version.name,
+    description: version.description || undefined,
+    command: version.command,
+    parameters: normalizeParameters(version.parameters),
+    changeNote: version.changeNote || undefined,
+    createdBy: version.createdBy,
+    createdAt: version.createdAt.toISOString()
+  };
+}
+
+// Where clause for scripts a user can see
+export function visibleScriptsWhere(user: ScriptUser): Prisma.ScriptWhereInput {
+  if (user.role === 'ADMIN') return {};
+  return { OR: [{ userId: user.id }, { isShared: true }] };
+}
+
+export function canViewScript(script: { userId: number; isShared: boolean }, user: ScriptUser): boolean {
+  return script.isShared || canEditScript(script, user);
+}
+
+export function canEditScript(script: { userId: number }, user: ScriptUser): boolean {
+  return user.role === 'ADMIN' || script.userId === user.id;
+}
+
+/**
+ * Validate a script from the API
+ * @param partial - Only check fields that are present (for updates)
+ * @returns An error message, or null if valid
+ */
+export function validateScriptData(data: Partial<ScriptData>, partial: boolean = false): string | null {
+  if (!partial || data.name !== undefined) {
+    if (typeof data.name !== 'string' || !data.name.trim()) return 'Script name is required';
+    if (data.name.trim().length > MAX_NAME_LENGTH) return `Script name cannot exceed ${MAX_NAME_LENGTH} characters`;
+  }
+  if (!partial || data.command !== undefined) {
+    if (typeof data.command !== 'string' || !data.command.trim()) return 'Command is required';
+  }
+  if (data.description !== undefined && data.description !== null && typeof data.description !== 'string') {
+    return 'Description must be a string';
+  }
+  if (data.tags !== undefined && !Array.isArray(data.tags)) {
+    return 'Tags must be an array of strings';
+  }
+  if (data.isShared !== undefined && typeof data.isShared !== 'boolean') {
+    return 'isShared must be a boolean';
+  }
+  if (data.requiresApproval !== undefined && typeof data.requiresApproval !== 'boolean') {
+    return 'requiresApproval must be a boolean';
+  }
+  if (!partial || data.parameters !== undefined) {
+    // Updates check placeholders against the merged command and parameters separately
+    const parametersError = validateParameterDefinitions(data.parameters, partial ? undefined : data.command);
+    if (parametersError) return parametersError;
+  }
+  return null;
+}
+
+/**
+ * Load a script version to run, checking the user can see the script
+ * @param version - Latest version when omitted
+ * @returns The script and version, or an error message
+ */
+export async function resolveScriptForRun(
+  scriptId: number,
+  user: ScriptUser,
+  version?: number
+): Promise<{
+  script: { id: number; name: string; requiresApproval: boolean };
+  version: { id: number; version: number; command: string; parameters: ScriptParameter[] };
+} | string> {
+  const script = await prisma.script.findUnique({ where: { id: scriptId } });
+  if (!script || !canViewScript(script, user)) {
+    return 'Script not found';
+  }
+
+  const scriptVersion = await prisma.scriptVersion.findUnique({
+    where: { scriptId_version: { scriptId, version: version ?? script.version } }
+  });
+  if (!scriptVersion) {
+    return `Version ${version} of "${script.name}" not found`;
+  }
+
+  return {
+    script: { id: script.id, name: scriptVersion.name, requiresApproval: script.requiresApproval },
+    version: {
+      id: scriptVersion.id,
+      version: scriptVersion.version,
+      command: scriptVersion.command,
+      parameters: normalizeParameters(scriptVersion.parameters)
+    }
+  };
+}
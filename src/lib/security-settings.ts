@@ -0,0 +1,78 @@
+/**
+ * Security settings stored in SystemSettings (key: 'security')
+ * Shared by the settings API and everything that enforces the settings
+ */
+
+import { prisma } from './database';
+import type { SecurityPolicy } from '@/types';
+
+export interface SecuritySettings extends SecurityPolicy {
+  passwordMinLength: number;
+  passwordRequireUppercase: boolean;
+  passwordRequireNumbers: boolean;
+  passwordRequireSymbols: boolean;
+  lockoutAttempts: number;
+  lockoutDuration: number;
+  sessionTimeout: number;
+  enableTwoFactor: boolean;
+  requireTwoFactorForAdmins: boolean;
+  ipWhitelist: string[];
+}
+
+// Default security settings
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  passwordMinLength: 6,
+  passwordRequireUppercase: false,
+  passwordRequireNumbers: true,
+  passwordRequireSymbols: false,
+  lockoutAttempts: 5,
+  lockoutDuration: 300,
+  sessionTimeout: 3600,
+  enableTwoFactor: false,
+  requireTwoFactorForAdmins: false,
+  ipWhitelist: [],
+  allowDangerousCommands: true,
+  blockedCommands: [
+    'rm -rf /',
+    'rm -rf /*',
+    'rm -rf *',
+    'rm -rf .*',
+    'mkfs',
+    'dd if=/dev/zero',
+    'format',
+    'fdisk',
+    'parted',
+    ':(){ :|:& };:',
+    'chmod 777 /',
+    'chown root:root /',
+    'passwd root'
+  ],
+  approvalRequiredCommands: [],
+  requireSudoConfirmation: true,
+  maxCommandLength: 1000,
+  enableCommandLogging: true
+};
+
+/**
+ * Load security settings, filling missing keys with defaults
+ * Falls back to the defaults if the settings row cannot be read
+ */
+export async function getSecuritySettings(): Promise<SecuritySettings> {
+  try {
+    const settingsRecord = await prisma.systemSettings.findFirst({
+      where: { key: 'security' }
+    });
+
+    if (!settingsRecord) {
+      return DEFAULT_SECURITY_SETTINGS;
+    }
+
+    return {
+      ...DEFAULT_SECURITY_SETTINGS,
+      ...(settingsRecord.value as unknown as Partial<SecuritySettings>)
+    };
+  } catch (error) {
+    console.error('Failed to load security settings:', error);
+    return DEFAULT_SECURITY_SETTINGS;
+  }
+}
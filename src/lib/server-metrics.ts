@@ -0,0 +1,267 @@
+/**
+ * Server metrics time series
+ * The collector runs in the WebSocket server: every METRICS_INTERVAL_SECONDS (default 60)
+ * each active server is sampled over SSH and stored in server_metrics. Samples older than
+ * METRICS_RETENTION_DAYS (default 30) are pruned hourly.
+ */
+
+import type { ServerMetric } from '@prisma/client';
+import { prisma } from './database';
+import { getSSHConnection, getSystemMetrics } from './ssh';
+import type { ServerMetricSample, MetricRange, MetricHistoryPoint, ServerMetricHistory } from '@/types';
+
+export const METRICS_INTERVAL_MS = (parseInt(process.env.METRICS_INTERVAL_SECONDS || '') || 60) * 1000;
+const RETENTION_DAYS = parseInt(process.env.METRICS_RETENTION_DAYS || '') || 30;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Span and bucket size per history range (about 60-170 points each)
+export const METRIC_RANGES: Record<MetricRange, { spanSeconds: number; bucketSeconds: number }> = {
+  '1h': { spanSeconds: 60 * 60, bucketSeconds: 60 },
+  '24h': { spanSeconds: 24 * 60 * 60, bucketSeconds: 15 * 60 },
+  '7d': { spanSeconds: 7 * 24 * 60 * 60, bucketSeconds: 60 * 60 },
+  '30d': { spanSeconds: 30 * 24 * 60 * 60, bucketSeconds: 6 * 60 * 60 }
+};
+
+// Servers sampled at the same time (each sample holds an SSH channel for about a second)
+const COLLECT_CONCURRENCY = 5;
+
+// Previous network counters per server, to turn them into transfer rates
+const lastCounters = new Map<number, { bytesIn: number; bytesOut: number; time: number }>();
+
+let collectTimer: NodeJS.Timeout | null = null;
+let pruneTimer: NodeJS.Timeout | null = null;
+let collecting = false;
+let onCollected: (() => Promise<void>) | null = null;
+
+function ratePerSecond(current: number, previous: number, elapsedMs: number): number | null {
+  // Counters reset on reboot or interface restart
+  if (elapsedMs <= 0 || current < previous) return null;
+  return (current - previous) / (elapsedMs / 1000);
+}
+
+// A server that could not be sampled is in ERROR, so status alerts see it go down
+async function markCollectionFailed(serverId: number): Promise<void> {
+  lastCounters.delete(serverId);
+  try {
+    await prisma.server.update({
+      where: { id: serverId },
+      data: { status: 'ERROR', lastChecked: new Date() }
+    });
+  } catch (error) {
+    console.error('Failed to update server status:', error);
+  }
+}
+
+async function collectServer(server: { id: number; name: string; userId: number }): Promise<void> {
+  try {
+    // Connect as the owner so the collector shares the owner's pooled connection
+    const ssh = await getSSHConnection(server.id, server.userId, false, true);
+    if (!ssh) {
+      await markCollectionFailed(server.id);
+      return;
+    }
+
+    const metrics = await getSystemMetrics(ssh);
+    const now = Date.now();
+    const previous = lastCounters.get(server.id);
+    lastCounters.set(server.id, { bytesIn: metrics.network.bytesIn, bytesOut: metrics.network.bytesOut, time: now });
+
+    await prisma.serverMetric.create({
+      data: {
+        serverId: server.id,
+        timestamp: new Date(now),
+        cpuUsage: metrics.cpu.usage,
+        cpuCores: metrics.cpu.cores,
+        memoryTotal: metrics.memory.total,
+        memoryUsed: metrics.memory.used,
+        memoryFree: metrics.memory.free,
+        memoryCached: metrics.memory.cached,
+        memoryBuffers: metrics.memory.buffers,
+        diskTotal: metrics.disk.total,
+        diskUsed: metrics.disk.used,
+        diskUsage: metrics.disk.usage,
+        networkBytesIn: metrics.network.bytesIn,
+        networkBytesOut: metrics.network.bytesOut,
+        networkInRate: previous ? ratePerSecond(metrics.network.bytesIn, previous.bytesIn, now - previous.time) : null,
+        networkOutRate: previous ? ratePerSecond(metrics.network.bytesOut, previous.bytesOut, now - previous.time) : null,
+        load1: metrics.loadAverage[0],
+        load5: metrics.loadAverage[1],
+        load15: metrics.loadAverage[2],
+        uptime: metrics.uptime
+      }
+    });
+
+    await prisma.server.update({
+      where: { id: server.id },
+      data: { status: 'CONNECTED', lastChecked: new Date(now) }
+    });
+  } catch (error) {
+    console.error(`Failed to collect metrics from ${server.name}:`, error);
+    await markCollectionFailed(server.id);
+  }
+}
+
+/**
+ * Sample every active server once
+ * Skipped if the previous round is still running (e.g. waiting on connection timeouts).
+ */
+export async function collectMetrics(): Promise<void> {
+  if (collecting) return;
+  collecting = true;
+
+  try {
+    const servers = await prisma.server.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true, userId: true }
+    });
+
+    for (let i = 0; i < servers.length; i += COLLECT_CONCURRENCY) {
+      await Promise.all(servers.slice(i, i + COLLECT_CONCURRENCY).map(collectServer));
+    }
+
+    if (onCollected) await onCollected();
+  } catch (error) {
+    console.error('Metrics collection error:', error);
+  } finally {
+    collecting = false;
+  }
+}
+
+/**
+ * Delete samples older than the retention period
+ */
+export async function pruneMetrics(): Promise<void> {
+  try {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { count } = await prisma.serverMetric.deleteMany({
+      where: { timestamp: { lt: cutoff } }
+    });
+
+    if (count > 0) {
+      console.log(`Pruned ${count} metric samples older than ${RETENTION_DAYS} days`);
+    }
+  } catch (error) {
+    console.error('Metrics prune error:', error);
+  }
+}
+
+/**
+ * Start periodic collection and pruning
+ * @param afterCollect - Run after each collection round (e.g. alert evaluation)
+ */
+export function startMetricsCollector(afterCollect?: () => Promise<void>): void {
+  if (collectTimer) return;
+
+  onCollected = afterCollect || null;
+
+  console.log(`📈 Collecting server metrics every ${METRICS_INTERVAL_MS / 1000}s (retention ${RETENTION_DAYS} days)`);
+  collectMetrics();
+  pruneMetrics();
+  collectTimer = setInterval(collectMetrics, METRICS_INTERVAL_MS);
+  pruneTimer = setInterval(pruneMetrics, PRUNE_INTERVAL_MS);
+}
+
+export function stopMetricsCollector(): void {
+  if (collectTimer) clearInterval(collectTimer);
+  if (pruneTimer) clearInterval(pruneTimer);
+  collectTimer = null;
+  pruneTimer = null;
+}
+
+/**
+ * Convert a stored sample for API responses (BigInt columns become numbers)
+ */
+export function toMetricSample(metric: ServerMetric): ServerMetricSample {
+  const memoryTotal = Number(metric.memoryTotal);
+  const memoryUsed = Number(metric.memoryUsed);
+
+  return {
+    serverId: metric.serverId,
+    timestamp: metric.timestamp.toISOString(),
+    cpuUsage: metric.cpuUsage,
+    cpuCores: metric.cpuCores,
+    memoryTotal,
+    memoryUsed,
+    memoryUsage: memoryTotal > 0 ? memoryUsed / memoryTotal * 100 : 0,
+    diskTotal: Number(metric.diskTotal),
+    diskUsed: Number(metric.diskUsed),
+    diskUsage: metric.diskUsage,
+    networkInRate: metric.networkInRate,
+    networkOutRate: metric.networkOutRate,
+    loadAverage: [metric.load1, metric.load5, metric.load15],
+    uptime: metric.uptime
+  };
+}
+
+/**
+ * Get the most recent sample of each server
+ */
+export async function getLatestMetrics(serverIds: number[]): Promise<ServerMetricSample[]> {
+  const latest = await prisma.serverMetric.groupBy({
+    by: ['serverId'],
+    where: { serverId: { in: serverIds } },
+    _max: { id: true }
+  });
+
+  const metrics = await prisma.serverMetric.findMany({
+    where: { id: { in: latest.flatMap(row => row._max.id ?? []) } }
+  });
+
+  return metrics.map(toMetricSample);
+}
+
+/**
+ * Get a server's samples over a range, averaged into fixed-size buckets
+ * Buckets without samples (e.g. while the server was down) are left out.
+ */
+export async function getMetricHistory(serverId: number, range: MetricRange): Promise<ServerMetricHistory> {
+  const { spanSeconds, bucketSeconds } = METRIC_RANGES[range];
+  // Never downsample below the collection interval
+  const bucket = Math.max(bucketSeconds, METRICS_INTERVAL_MS / 1000);
+  const since = new Date(Date.now() - spanSeconds * 1000);
+
+  // Timestamps are stored as UTC DATETIME; TIMESTAMPDIFF avoids the session time zone
+  const rows = await prisma.$queryRaw<Array<{
+    bucket: unknown;
+    cpuUsage: unknown;
+    cpuMax: unknown;
+    memoryUsage: unknown;
+    diskUsage: unknown;
+    diskUsed: unknown;
+    load1: unknown;
+    networkInRate: unknown;
+    networkOutRate: unknown;
+  }>>`
+    SELECT
+      FLOOR(TIMESTAMPDIFF(SECOND, '1970-01-01 00:00:00', timestamp) / ${bucket}) AS bucket,
+      AVG(cpuUsage) AS cpuUsage,
+      MAX(cpuUsage) AS cpuMax,
+      AVG(CASE WHEN memoryTotal > 0 THEN memoryUsed / memoryTotal * 100 ELSE 0 END) AS memoryUsage,
+      AVG(diskUsage) AS diskUsage,
+      AVG(diskUsed) AS diskUsed,
+      AVG(load1) AS load1,
+      AVG(networkInRate) AS networkInRate,
+      AVG(networkOutRate) AS networkOutRate
+    FROM server_metrics
+    WHERE serverId = ${serverId} AND timestamp >= ${since}
+    GROUP BY bucket
+    ORDER BY bucket
+  `;
+
+  // Aggregates come back as Decimal or BigInt depending on the column type
+  const toNumber = (value: unknown) => value === null ? null : Number(value);
+
+  const points: MetricHistoryPoint[] = rows.map(row => ({
+    timestamp: new Date(Number(row.bucket) * bucket * 1000).toISOString(),
+    cpuUsage: Number(row.cpuUsage),
+    cpuMax: Number(row.cpuMax),
+    memoryUsage: Number(row.memoryUsage),
+    diskUsage: Number(row.diskUsage),
+    diskUsed: Number(row.diskUsed),
+    load1: Number(row.load1),
+    networkInRate: toNumber(row.networkInRate),
+    networkOutRate: toNumber(row.networkOutRate)
+  }));
+
+  return { serverId, range, bucketSeconds: bucket, points };
+}
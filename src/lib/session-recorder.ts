@@ -0,0 +1,229 @@
+/**
+ * Terminal session recorder - Used only by WebSocket server
+ * Records PTY output, input and resizes as asciicast v2 (https://docs.asciinema.org/manual/asciicast/v2/)
+ * Events are buffered in memory and appended to the TerminalRecording row periodically.
+ *
+ * Input is recorded so the audit trail shows what the user typed. While the last output line
+ * looks like a password prompt (sudo, ssh, su...), typed characters are recorded as "*"
+ * until Enter. Set RECORD_TERMINAL_INPUT=false to record output and resizes only.
+ */
+
+import { prisma } from './database';
+
+const FLUSH_INTERVAL_MS = 5000;
+
+// Last output line of a prompt that reads a secret, e.g. "[sudo] password for admin: "
+const SECRET_PROMPT_PATTERN = /\b(password|passphrase|passcode|verification code|pin)\b[^\n]*:\s*$/i;
+
+// Stop recording (but keep the session open) once a recording reaches this size
+export const MAX_RECORDING_BYTES = 20 * 1024 * 1024;
+
+type RecordingEventCode = 'o' | 'i' | 'r';
+
+interface ActiveRecording {
+  id: number;
+  startedAt: number;
+  buffer: string[];
+  size: number;
+  truncated: boolean;
+  // Output ended with a password prompt and Enter has not been typed since
+  atSecretPrompt: boolean;
+  // Flushes are chained so chunks are appended in order
+  flushing: Promise<void>;
+}
+
+const activeRecordings = new Map<string, ActiveRecording>();
+let flushTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start recording a PTY session
+ * @param sessionId - PTY session identifier
+ * @param meta - Owner, server and initial terminal size
+ */
+export async function startRecording(
+  sessionId: string,
+  meta: {
+    userId: number;
+    serverId: number;
+    serverName: string;
+    serverHost: string;
+    cols: number;
+    rows: number;
+    title?: string;
+    clientIp?: string;
+  }
+): Promise<void> {
+  const startedAt = Date.now();
+  const header = JSON.stringify({
+    version: 2,
+    width: meta.cols,
+    height: meta.rows,
+    timestamp: Math.floor(startedAt / 1000),
+    ...(meta.title && { title: meta.title }),
+    env: { TERM: 'xterm-256color' }
+  }) + '\n';
+
+  const recording = await prisma.terminalRecording.create({
+    data: {
+      sessionId,
+      cols: meta.cols,
+      rows: meta.rows,
+      content: header,
+      size: Buffer.byteLength(header),
+      clientIp: meta.clientIp,
+      startedAt: new Date(startedAt),
+      userId: meta.userId,
+      serverId: meta.serverId,
+      serverName: meta.serverName,
+      serverHost: meta.serverHost
+    }
+  });
+
+  activeRecordings.set(sessionId, {
+    id: recording.id,
+    startedAt,
+    buffer: [],
+    size: recording.size,
+    truncated: false,
+    atSecretPrompt: false,
+    flushing: Promise.resolve()
+  });
+
+  if (!flushTimer) {
+    flushTimer = setInterval(flushAllRecordings, FLUSH_INTERVAL_MS);
+    flushTimer.unref();
+  }
+}
+
+function recordEvent(sessionId: string, code: RecordingEventCode, data: string): void {
+  const recording = activeRecordings.get(sessionId);
+  if (!recording || recording.truncated) return;
+
+  const elapsed = (Date.now() - recording.startedAt) / 1000;
+  const line = JSON.stringify([Number(elapsed.toFixed(6)), code, data]) + '\n';
+  const bytes = Buffer.byteLength(line);
+
+  if (recording.size + bytes > MAX_RECORDING_BYTES) {
+    recording.truncated = true;
+    console.warn(`Recording for ${sessionId} reached ${MAX_RECORDING_BYTES} bytes, truncating`);
+    return;
+  }
+
+  recording.size += bytes;
+  recording.buffer.push(line);
+}
+
+/**
+ * Record terminal output sent to the client
+ */
+export function recordOutput(sessionId: string, data: string): void {
+  const recording = activeRecordings.get(sessionId);
+  if (recording && data) {
+    const lastLine = data.replace(/\x1b\[[0-?]*[ -/]*[@-~]/g, '').split(/[\r\n]/).pop() ?? '';
+    if (lastLine.trim()) {
+      recording.atSecretPrompt = SECRET_PROMPT_PATTERN.test(lastLine);
+    }
+  }
+  recordEvent(sessionId, 'o', data);
+}
+
+export function isInputRecordingEnabled(): boolean {
+  return process.env.RECORD_TERMINAL_INPUT !== 'false';
+}
+
+/**
+ * Mask printable characters typed at a password prompt, up to and including Enter
+ */
+function maskSecretInput(recording: ActiveRecording, data: string): string {
+  let masked = '';
+  for (const char of data) {
+    if (!recording.atSecretPrompt) {
+      masked += char;
+    } else if (char === '\r' || char === '\n') {
+      recording.atSecretPrompt = false;
+      masked += char;
+    } else {
+      masked += char >= ' ' && char !== '\x7f' ? '*' : char;
+    }
+  }
+  return masked;
+}
+
+/**
+ * Record user input sent to the PTY (unless RECORD_TERMINAL_INPUT=false)
+ * Input typed at a password prompt is masked
+ */
+export function recordInput(sessionId: string, data: string): void {
+  if (!isInputRecordingEnabled()) return;
+  const recording = activeRecordings.get(sessionId);
+  if (!recording) return;
+  recordEvent(sessionId, 'i', maskSecretInput(recording, data));
+}
+
+/**
+ * Record a terminal resize
+ */
+export function recordResize(sessionId: string, cols: number, rows: number): void {
+  recordEvent(sessionId, 'r', `${cols}x${rows}`);
+}
+
+function flushRecording(recording: ActiveRecording): Promise<void> {
+  recording.flushing = recording.flushing.then(async () => {
+    if (recording.buffer.length === 0) return;
+
+    const chunk = recording.buffer.join('');
+    recording.buffer = [];
+
+    try {
+      await prisma.$executeRaw`
+        UPDATE terminal_recordings
+        SET content = CONCAT(COALESCE(content, ''), ${chunk}),
+            size = ${recording.size},
+            truncated = ${recording.truncated}
+        WHERE id = ${recording.id}
+      `;
+    } catch (error) {
+      console.error(`Failed to flush recording ${recording.id}:`, error);
+    }
+  });
+
+  return recording.flushing;
+}
+
+function flushAllRecordings(): void {
+  for (const recording of activeRecordings.values()) {
+    flushRecording(recording);
+  }
+}
+
+/**
+ * Stop recording a session and write the remaining events
+ * Safe to call more than once
+ */
+export async function stopRecording(sessionId: string): Promise<void> {
+  const recording = activeRecordings.get(sessionId);
+  if (!recording) return;
+
+  activeRecordings.delete(sessionId);
+
+  if (activeRecordings.size === 0 && flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+
+  await flushRecording(recording);
+
+  try {
+    await prisma.terminalRecording.update({
+      where: { id: recording.id },
+      data: {
+        endedAt: new Date(),
+        duration: Date.now() - recording.startedAt,
+        size: recording.size,
+        truncated: recording.truncated
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to finalize recording ${recording.id}:`, error);
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * SFTP file operations for the file browser
+ * Each request opens an SFTP channel on the user's pooled SSH connection and closes it
+ * afterwards. Paths from the API are absolute POSIX paths; listing without a path opens
+ * the login user's home directory.
+ */
+
+import path from 'path';
+import type { SFTPWrapper, Stats, FileEntryWithStats } from 'ssh2';
+import type { NodeSSH } from 'node-ssh';
+import { getSSHConnection } from './ssh';
+import type { FileInfo, DirectoryListing } from '@/types';
+
+// SFTP status codes (draft-ietf-secsh-filexfer-02)
+const SFTP_NO_SUCH_FILE = 2;
+const SFTP_PERMISSION_DENIED = 3;
+
+/**
+ * Run a function with an SFTP channel to a server
+ * @param isAdmin - Admins may open any server, others only their own
+ * @param fn - Also gets the SSH connection, for commands such as chown
+ */
+export async function withSFTP<T>(
+  serverId: number,
+  userId: number,
+  isAdmin: boolean,
+  fn: (sftp: SFTPWrapper, ssh: NodeSSH) => Promise<T>
+): Promise<T> {
+  const ssh = await getSSHConnection(serverId, userId, false, isAdmin);
+  if (!ssh) {
+    throw new Error('Failed to connect to server');
+  }
+
+  const sftp = await ssh.requestSFTP();
+  try {
+    return await fn(sftp, ssh);
+  } finally {
+    sftp.end();
+  }
+}
+
+/**
+ * Validate and normalize an absolute remote path
+ * @returns The normalized path, or null if invalid
+ */
+export function normalizeRemotePath(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.startsWith('/') || value.includes('\0')) return null;
+
+  const normalized = path.posix.normalize(value);
+  return normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized;
+}
+
+/**
+ * HTTP status for an SFTP error (404 / 403 for missing files and permission errors)
+ */
+export function sftpErrorStatus(error: unknown): number {
+  const code = (error as { code?: unknown })?.code;
+  if (code === SFTP_NO_SUCH_FILE) return 404;
+  if (code === SFTP_PERMISSION_DENIED) return 403;
+  return 500;
+}
+
+function call<T = void>(fn: (callback: (err: Error | undefined | null, result?: T) => void) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    fn((err, result) => err ? reject(err) : resolve(result as T));
+  });
+}
+
+export function statPath(sftp: SFTPWrapper, remotePath: string): Promise<Stats> {
+  return call<Stats>(cb => sftp.stat(remotePath, cb));
+}
+
+export function realPath(sftp: SFTPWrapper, remotePath: string): Promise<string> {
+  return call<string>(cb => sftp.realpath(remotePath, cb));
+}
+
+// Directory entries without . and .. (some servers include them)
+async function readDirectory(sftp: SFTPWrapper, directory: string): Promise<FileEntryWithStats[]> {
+  const entries = await call<FileEntryWithStats[]>(cb => sftp.readdir(directory, cb));
+  return entries.filter(entry => entry.filename !== '.' && entry.filename !== '..');
+}
+
+// ls-style permission string (e.g. drwxr-xr-x) from a mode
+export function formatPermissions(mode: number): string {
+  const type = (mode & 0o170000) === 0o040000 ? 'd'
+    : (mode & 0o170000) === 0o120000 ? 'l'
+    : '-';
+
+  const bits = ['r', 'w', 'x', 'r', 'w', 'x', 'r', 'w', 'x']
+    .map((char, i) => mode & (1 << (8 - i)) ? char : '-');
+
+  // setuid, setgid and sticky replace the execute bits
+  if (mode & 0o4000) bits[2] = bits[2] === 'x' ? 's' : 'S';
+  if (mode & 0o2000) bits[5] = bits[5] === 'x' ? 's' : 'S';
+  if (mode & 0o1000) bits[8] = bits[8] === 'x' ? 't' : 'T';
+
+  return type + bits.join('');
+}
+
+// Owner and group names from an `ls -l` style longname, falling back to numeric ids
+function parseOwner(longname: string, stats: Stats): { owner: string; group: string } {
+  const parts = longname.trim().split(/\s+/);
+  return parts.length >= 9
+    ? { owner: parts[2], group: parts[3] }
+    : { owner: String(stats.uid), group: String(stats.gid) };
+}
+
+function toFileInfo(name: string, filePath: string, stats: Stats, longname: string, target?: Stats): FileInfo {
+  const effective = target || stats;
+
+  return {
+    name,
+    path: filePath,
+    size: effective.size,
+    isDirectory: effective.isDirectory(),
+    isFile: effective.isFile(),
+    isSymlink: stats.isSymbolicLink(),
+    permissions: formatPermissions(stats.mode),
+    mode: (stats.mode & 0o7777).toString(8).padStart(3, '0'),
+    ...parseOwner(longname, stats),
+    modified: new Date(stats.mtime * 1000).toISOString(),
+    accessed: new Date(stats.atime * 1000).toISOString()
+  };
+}
+
+/**
+ * List a directory (the home directory when no path is given)
+ */
+export async function listDirectory(sftp: SFTPWrapper, remotePath?: string): Promise<DirectoryListing> {
+  const directory = await realPath(sftp, remotePath || '.');
+  const entries = await readDirectory(sftp, directory);
+
+  const files = await Promise.all(entries.map(async entry => {
+    const filePath = path.posix.join(directory, entry.filename);
+
+    // Follow symlinks so links to directories can be opened; broken links stay as links
+    const target = entry.attrs.isSymbolicLink()
+      ? await statPath(sftp, filePath).catch(() => undefined)
+      : undefined;
+
+    return toFileInfo(entry.filename, filePath, entry.attrs, entry.longname, target);
+  }));
+
+  return {
+    path: directory,
+    files,
+    totalSize: files.reduce((sum, file) => sum + (file.isFile ? file.size : 0), 0),
+    hiddenFiles: files.filter(file => file.name.startsWith('.')).length
+  };
+}
+
+export function createDirectory(sftp: SFTPWrapper, remotePath: string, mode?: number): Promise<void> {
+  return call(cb => mode !== undefined ? sftp.mkdir(remotePath, { mode }, cb) : sftp.mkdir(remotePath, cb));
+}
+
+/**
+ * Create a directory and any missing parents (like mkdir -p)
+ */
+export async function ensureDirectory(sftp: SFTPWrapper, remotePath: string, mode?: number): Promise<void> {
+  const exists = await statPath(sftp, remotePath).then(stats => stats.isDirectory(), () => false);
+  if (exists || remotePath === '/') return;
+
+  await ensureDirectory(sftp, path.posix.dirname(remotePath), mode);
+  await createDirectory(sftp, remotePath, mode);
+}
+
+export function readFile(sftp: SFTPWrapper, remotePath: string): Promise<Buffer> {
+  return call<Buffer>(cb => sftp.readFile(remotePath, cb));
+}
+
+// Existing files keep their mode; new files are created with `mode` (default 0666 minus umask)
+export function writeFile(sftp: SFTPWrapper, remotePath: string, data: Buffer, mode?: number): Promise<void> {
+  return call(cb => sftp.writeFile(remotePath, data, mode !== undefined ? { mode } : {}, cb));
+}
+
+export function removeFile(sftp: SFTPWrapper, remotePath: string): Promise<void> {
+  return call(cb => sftp.unlink(remotePath, cb));
+}
+
+export function renamePath(sftp: SFTPWrapper, from: string, to: string): Promise<void> {
+  return call(cb => sftp.rename(from, to, cb));
+}
+
+/**
+ * Move a file over an existing one
+ * Uses the atomic posix-rename extension where the server has it (OpenSSH); plain SFTP rename
+ * refuses existing targets, so otherwise the target is removed first.
+ */
+export async function replacePath(sftp: SFTPWrapper, from: string, to: string): Promise<void> {
+  try {
+    return await call(cb => sftp.ext_openssh_rename(from, to, cb));
+  } catch (error) {
+    if (!(error instanceof Error) || error.message !== 'Server does not support this extended request') {
+      throw error;
+    }
+  }
+
+  await removeFile(sftp, to).catch(() => undefined);
+  return renamePath(sftp, from, to);
+}
+
+export function changeMode(sftp: SFTPWrapper, remotePath: string, mode: string): Promise<void> {
+  return call(cb => sftp.chmod(remotePath, parseInt(mode, 8), cb));
+}
+
+/**
+ * Delete a file, symlink or directory (recursively)
+ */
+export async function deletePath(sftp: SFTPWrapper, remotePath: string): Promise<void> {
+  const stats = await call<Stats>(cb => sftp.lstat(remotePath, cb));
+
+  if (!stats.isDirectory()) {
+    return call(cb => sftp.unlink(remotePath, cb));
+  }
+
+  const entries = await readDirectory(sftp, remotePath);
+  for (const entry of entries) {
+    await deletePath(sftp, path.posix.join(remotePath, entry.filename));
+  }
+  return call(cb => sftp.rmdir(remotePath, cb));
+}
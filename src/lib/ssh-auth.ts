@@ -0,0 +1,130 @@
+/**
+ * SSH authentication helpers - shared by ssh.ts (node-ssh) and ssh-pty.ts (ssh2)
+ * Turns the credentials stored on a Server row into ssh2 connect options
+ */
+
+import { utils } from 'ssh2';
+import { encryptOptional, decryptOptional } from './vault';
+import type { SSHAuthMethod } from '@/types';
+
+// Vault contexts for the Server credential columns
+export const CREDENTIAL_CONTEXTS = {
+  password: 'server.password',
+  privateKey: 'server.privateKey',
+  passphrase: 'server.passphrase'
+} as const;
+
+export interface ServerCredentials {
+  authMethod: SSHAuthMethod;
+  password?: string | null;
+  privateKey?: string | null;
+  passphrase?: string | null;
+}
+
+export interface SSHAuthConfig {
+  password?: string;
+  privateKey?: string;
+  passphrase?: string;
+}
+
+/**
+ * Normalize a pasted private key (CRLF line endings, missing trailing newline)
+ */
+export function normalizePrivateKey(privateKey: string): string {
+  return privateKey.replace(/\r\n/g, '\n').trim() + '\n';
+}
+
+/**
+ * Check that a private key can be parsed with the given passphrase
+ * @returns error message, or null if the key is usable
+ */
+export function validatePrivateKey(privateKey: string, passphrase?: string | null): string | null {
+  try {
+    const parsed = utils.parseKey(normalizePrivateKey(privateKey), passphrase || undefined);
+
+    if (parsed instanceof Error) {
+      if (/encrypted/i.test(parsed.message) || /passphrase/i.test(parsed.message)) {
+        return passphrase ? 'Invalid passphrase for private key' : 'Private key is encrypted, passphrase is required';
+      }
+      return `Invalid private key: ${parsed.message}`;
+    }
+
+    return null;
+  } catch (error) {
+    return `Invalid private key: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+/**
+ * Validate credentials submitted from the server form
+ * @returns error message, or null if the credentials are complete
+ */
+export function validateCredentials(credentials: ServerCredentials): string | null {
+  if (credentials.authMethod === 'PRIVATE_KEY') {
+    if (!credentials.privateKey || !credentials.privateKey.trim()) {
+      return 'Private key is required';
+    }
+    return validatePrivateKey(credentials.privateKey, credentials.passphrase);
+  }
+
+  if (credentials.authMethod === 'PASSWORD') {
+    if (!credentials.password) {
+      return 'Password is required';
+    }
+    return null;
+  }
+
+  return 'Invalid authentication method';
+}
+
+/**
+ * Build the auth part of an ssh2 / node-ssh connect config
+ */
+export function buildAuthConfig(credentials: ServerCredentials): SSHAuthConfig {
+  if (credentials.authMethod === 'PRIVATE_KEY') {
+    if (!credentials.privateKey) {
+      throw new Error('Server has no private key configured');
+    }
+
+    return {
+      privateKey: normalizePrivateKey(credentials.privateKey),
+      ...(credentials.passphrase && { passphrase: credentials.passphrase })
+    };
+  }
+
+  return { password: credentials.password || '' };
+}
+
+/**
+ * Map credentials onto the encrypted Server credential columns, clearing the
+ * ones the chosen auth method does not use
+ */
+export function toCredentialColumns(credentials: ServerCredentials): {
+  authMethod: SSHAuthMethod;
+  password: string | null;
+  privateKey: string | null;
+  passphrase: string | null;
+} {
+  const useKey = credentials.authMethod === 'PRIVATE_KEY';
+
+  return {
+    authMethod: credentials.authMethod,
+    password: !useKey ? encryptOptional(credentials.password, CREDENTIAL_CONTEXTS.password) : null,
+    privateKey: useKey && credentials.privateKey
+      ? encryptOptional(normalizePrivateKey(credentials.privateKey), CREDENTIAL_CONTEXTS.privateKey)
+      : null,
+    passphrase: useKey ? encryptOptional(credentials.passphrase, CREDENTIAL_CONTEXTS.passphrase) : null
+  };
+}
+
+/**
+ * Read the decrypted credentials of a Server row
+ */
+export function readServerCredentials(server: ServerCredentials): ServerCredentials {
+  return {
+    authMethod: server.authMethod,
+    password: decryptOptional(server.password, CREDENTIAL_CONTEXTS.password),
+    privateKey: decryptOptional(server.privateKey, CREDENTIAL_CONTEXTS.privateKey),
+    passphrase: decryptOptional(server.passphrase, CREDENTIAL_CONTEXTS.passphrase)
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * SSH host key verification - trust-on-first-use fingerprint pinning per Server
+ * Shared by ssh.ts (node-ssh) and ssh-pty.ts (ssh2)
+ */
+
+import crypto from 'crypto';
+import { prisma } from './database';
+
+export interface PresentedHostKey {
+  fingerprint: string;
+  keyType: string;
+}
+
+export interface HostKeyCheck {
+  hostVerifier: (key: Buffer) => boolean;
+  // Key the server presented during the last handshake
+  presented: PresentedHostKey | null;
+  // True if the presented key did not match the pinned fingerprint
+  mismatch: boolean;
+}
+
+/**
+ * OpenSSH style fingerprint: SHA256:<base64 without padding>
+ */
+export function getHostKeyFingerprint(key: Buffer): string {
+  const hash = crypto.createHash('sha256').update(key).digest('base64');
+  return `SHA256:${hash.replace(/=+$/, '')}`;
+}
+
+/**
+ * Read the key type (e.g. ssh-ed25519) from a key in SSH wire format
+ */
+export function getHostKeyType(key: Buffer): string {
+  try {
+    const length = key.readUInt32BE(0);
+    return key.subarray(4, 4 + length).toString('ascii') || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Create a host verifier for a connection
+ * @param pinnedFingerprint - Fingerprint stored on the server, null to trust on first use
+ */
+export function createHostKeyCheck(pinnedFingerprint: string | null | undefined): HostKeyCheck {
+  const check: HostKeyCheck = {
+    presented: null,
+    mismatch: false,
+    hostVerifier: (key: Buffer) => {
+      check.presented = {
+        fingerprint: getHostKeyFingerprint(key),
+        keyType: getHostKeyType(key)
+      };
+
+      if (!pinnedFingerprint) return true;
+
+      check.mismatch = check.presented.fingerprint !== pinnedFingerprint;
+      return !check.mismatch;
+    }
+  };
+
+  return check;
+}
+
+/**
+ * Error message shown to users when a pinned host key changes
+ */
+export function hostKeyMismatchMessage(serverName: string, presented: PresentedHostKey | null): string {
+  return `Host key verification failed for ${serverName}: the server presented ` +
+    `${presented ? `${presented.keyType} ${presented.fingerprint}` : 'an unknown key'}, ` +
+    'which does not match the pinned fingerprint. This may be a man-in-the-middle attack. ' +
+    'An administrator must review and accept the new key before connecting.';
+}
+
+/**
+ * Pin the presented key after a successful first connection
+ */
+export async function pinHostKeyIfNew(
+  server: { id: number; hostKeyFingerprint?: string | null },
+  check: HostKeyCheck
+): Promise<void> {
+  if (server.hostKeyFingerprint || !check.presented) return;
+
+  try {
+    await prisma.server.update({
+      where: { id: server.id },
+      data: {
+        hostKeyFingerprint: check.presented.fingerprint,
+        hostKeyType: check.presented.keyType,
+        hostKeyVerifiedAt: new Date(),
+        pendingHostKeyFingerprint: null,
+        pendingHostKeyType: null
+      }
+    });
+
+    await prisma.serverLog.create({
+      data: {
+        serverId: server.id,
+        logType: 'CONNECTION',
+        message: `Host key pinned on first use: ${check.presented.keyType} ${check.presented.fingerprint}`,
+        data: { ...check.presented }
+      }
+    });
+  } catch (error) {
+    console.error('Failed to pin host key:', error);
+  }
+}
+
+/**
+ * Record a changed host key so an administrator can review it
+ */
+export async function recordHostKeyMismatch(
+  server: { id: number; hostKeyFingerprint?: string | null },
+  check: HostKeyCheck
+): Promise<void> {
+  if (!check.presented) return;
+
+  try {
+    await prisma.server.update({
+      where: { id: server.id },
+      data: {
+        status: 'ERROR',
+        lastChecked: new Date(),
+        pendingHostKeyFingerprint: check.presented.fingerprint,
+        pendingHostKeyType: check.presented.keyType
+      }
+    });
+
+    await prisma.serverLog.create({
+      data: {
+        serverId: server.id,
+        logType: 'ERROR',
+        message: `Host key mismatch: expected ${server.hostKeyFingerprint}, got ${check.presented.fingerprint}`,
+        data: {
+          expected: server.hostKeyFingerprint ?? null,
+          ...check.presented
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Failed to record host key mismatch:', error);
+  }
+}
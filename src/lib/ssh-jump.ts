@@ -0,0 +1,192 @@
+/**
+ * SSH jump host (bastion) support - tunnels a connection through a chain of servers
+ * Shared by ssh.ts (node-ssh) and ssh-pty.ts (ssh2)
+ */
+
+import { Client, ClientChannel } from 'ssh2';
+import type { Server as ServerRecord } from '@prisma/client';
+import { prisma } from './database';
+import { buildAuthConfig, readServerCredentials } from './ssh-auth';
+import {
+  createHostKeyCheck,
+  hostKeyMismatchMessage,
+  pinHostKeyIfNew,
+  recordHostKeyMismatch
+} from './ssh-hostkey';
+
+export const MAX_JUMP_HOPS = 5;
+
+export interface JumpTunnel {
+  // Forwarded channel to the target, passed to the final connection as `sock`
+  sock: ClientChannel;
+  // Close every hop in the chain
+  close: () => void;
+}
+
+/**
+ * Resolve the chain of jump hosts, outermost hop first
+ * @param jumpHostId - Jump host of the target server
+ * @param targetServerId - Target server, used to detect loops back to itself
+ */
+export async function resolveJumpChain(
+  jumpHostId: number | null | undefined,
+  targetServerId?: number
+): Promise<ServerRecord[]> {
+  const chain: ServerRecord[] = [];
+  const seen = new Set<number>(targetServerId ? [targetServerId] : []);
+  let nextId = jumpHostId;
+
+  while (nextId) {
+    if (seen.has(nextId)) {
+      throw new Error('Jump host chain contains a loop');
+    }
+    if (chain.length >= MAX_JUMP_HOPS) {
+      throw new Error(`Jump host chain exceeds ${MAX_JUMP_HOPS} hops`);
+    }
+    seen.add(nextId);
+
+    const hop = await prisma.server.findUnique({
+      where: { id: nextId },
+    });
+
+    if (!hop) {
+      throw new Error(`Jump host ${nextId} not found`);
+    }
+
+    chain.unshift(hop);
+    nextId = hop.jumpHostId;
+  }
+
+  return chain;
+}
+
+/**
+ * Validate a jump host assignment before saving or testing
+ * @returns Error message, or null if the chain is valid
+ */
+export async function validateJumpChain(
+  jumpHostId: number | null | undefined,
+  targetServerId?: number
+): Promise<string | null> {
+  try {
+    await resolveJumpChain(jumpHostId, targetServerId);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid jump host';
+  }
+}
+
+/**
+ * Connect to a single hop, optionally over a channel forwarded by the previous hop
+ */
+function connectHop(hop: ServerRecord, sock?: ClientChannel): Promise<Client> {
+  const authConfig = buildAuthConfig(readServerCredentials(hop));
+  const hostKeyCheck = createHostKeyCheck(hop.hostKeyFingerprint);
+
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+
+    client.on('ready', () => {
+      pinHostKeyIfNew(hop, hostKeyCheck);
+      resolve(client);
+    });
+
+    client.on('error', (err) => {
+      if (hostKeyCheck.mismatch) {
+        recordHostKeyMismatch(hop, hostKeyCheck).finally(() => {
+          reject(new Error(hostKeyMismatchMessage(hop.name, hostKeyCheck.presented)));
+        });
+        return;
+      }
+
+      reject(new Error(`Jump host ${hop.name}: ${err.message}`));
+    });
+
+    client.connect({
+      host: hop.host,
+      port: hop.port,
+      username: hop.username,
+      ...authConfig,
+      hostVerifier: hostKeyCheck.hostVerifier,
+      ...(sock && { sock }),
+      readyTimeout: 15000,
+      algorithms: {
+        kex: [
+          'diffie-hellman-group14-sha256',
+          'diffie-hellman-group14-sha1'
+        ],
+        cipher: [
+          'aes128-ctr',
+          'aes192-ctr',
+          'aes256-ctr'
+        ],
+        hmac: [
+          'hmac-sha2-256',
+          'hmac-sha2-512',
+          'hmac-sha1'
+        ],
+        serverHostKey: [
+          'ssh-rsa',
+          'ssh-ed25519',
+          'ecdsa-sha2-nistp256'
+        ]
+      }
+    });
+  });
+}
+
+/**
+ * Open a direct-tcpip channel from a hop to the next host
+ */
+function forwardOut(client: Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut('127.0.0.1', 0, host, port, (err, channel) => {
+      if (err) {
+        reject(new Error(`Failed to open tunnel to ${host}:${port}: ${err.message}`));
+        return;
+      }
+      resolve(channel);
+    });
+  });
+}
+
+/**
+ * Open a tunnel to host:port through the jump host chain
+ * @returns null if there is no jump host (connect directly)
+ */
+export async function openJumpTunnel(
+  jumpHostId: number | null | undefined,
+  targetHost: string,
+  targetPort: number,
+  targetServerId?: number
+): Promise<JumpTunnel | null> {
+  if (!jumpHostId) return null;
+
+  const chain = await resolveJumpChain(jumpHostId, targetServerId);
+  const clients: Client[] = [];
+
+  const close = () => {
+    for (const client of [...clients].reverse()) {
+      try {
+        client.end();
+      } catch { /* ignore */ }
+    }
+  };
+
+  try {
+    let sock: ClientChannel | undefined;
+
+    for (let i = 0; i < chain.length; i++) {
+      const client = await connectHop(chain[i], sock);
+      clients.push(client);
+
+      const next = chain[i + 1];
+      sock = await forwardOut(client, next ? next.host : targetHost, next ? next.port : targetPort);
+    }
+
+    return { sock: sock!, close };
+  } catch (error) {
+    close();
+    throw error;
+  }
+}
@@ -5,6 +5,14 @@
 
 import { Client, ClientChannel } from 'ssh2';
 import { prisma } from './database';
+import { buildAuthConfig, readServerCredentials } from './ssh-auth';
+import {
+  createHostKeyCheck,
+  hostKeyMismatchMessage,
+  pinHostKeyIfNew,
+  recordHostKeyMismatch
+} from './ssh-hostkey';
+import { openJumpTunnel } from './ssh-jump';
 
 // PTY Shell sessions using ssh2 directly
 interface PTYSession {
@@ -35,7 +43,7 @@ export async function createPTYShellSession(
   sessionId: string,
   options: { cols?: number; rows?: number } = {},
   isAdmin: boolean = false
-): Promise<{ success: boolean; error?: string; cwd?: string }> {
+): Promise<{ success: boolean; error?: string; details?: string; cwd?: string }> {
   try {
     // Get server details
     const server = await prisma.server.findUnique({
@@ -53,9 +61,17 @@ export async function createPTYShellSession(
 
     const cols = options.cols || 120;
     const rows = options.rows || 30;
+    const authConfig = buildAuthConfig(readServerCredentials(server));
+    const hostKeyCheck = createHostKeyCheck(server.hostKeyFingerprint);
+    const tunnel = await openJumpTunnel(server.jumpHostId, server.host, server.port, server.id);
 
     return new Promise((resolve) => {
       const client = new Client();
+
+      // Tear down the jump hosts together with the connection
+      if (tunnel) {
+        client.on('close', () => tunnel.close());
+      }
       
       const timeout = setTimeout(() => {
         client.end();
@@ -64,6 +80,7 @@ export async function createPTYShellSession(
 
       client.on('ready', () => {
         clearTimeout(timeout);
+        pinHostKeyIfNew(server, hostKeyCheck);
         
         // Request a PTY shell
         client.shell({
@@ -112,6 +129,18 @@ export async function createPTYShellSession(
 
       client.on('error', (err) => {
         clearTimeout(timeout);
+
+        if (hostKeyCheck.mismatch) {
+          recordHostKeyMismatch(server, hostKeyCheck).finally(() => {
+            resolve({
+              success: false,
+              error: hostKeyMismatchMessage(server.name, hostKeyCheck.presented),
+              details: `Expected ${server.hostKeyFingerprint}, got ${hostKeyCheck.presented?.fingerprint}`
+            });
+          });
+          return;
+        }
+
         resolve({ success: false, error: err.message });
       });
 
@@ -120,7 +149,9 @@ export async function createPTYShellSession(
         host: server.host,
         port: server.port,
         username: server.username,
-        password: server.password,
+        ...authConfig,
+        hostVerifier: hostKeyCheck.hostVerifier,
+        ...(tunnel && { sock: tunnel.sock }),
         readyTimeout: 15000,
         algorithms: {
           kex: [
@@ -1,8 +1,17 @@
 import { NodeSSH, SSHExecCommandResponse } from 'node-ssh';
 import { prisma } from './database';
-import type { Server, SystemInfo, DiskUsage } from '@/types';
-import bcrypt from 'bcryptjs';
+import type { Server, SystemInfo, SystemMetrics, DiskUsage } from '@/types';
 import { postprocessOutput } from './command-middleware';
+import { buildAuthConfig, readServerCredentials, type ServerCredentials } from './ssh-auth';
+import {
+  createHostKeyCheck,
+  hostKeyMismatchMessage,
+  pinHostKeyIfNew,
+  recordHostKeyMismatch,
+  type HostKeyCheck,
+  type PresentedHostKey
+} from './ssh-hostkey';
+import { openJumpTunnel, type JumpTunnel } from './ssh-jump';
 
 // SSH connection pool
 const sshConnections = new Map<string, NodeSSH>();
@@ -21,31 +30,31 @@ function getConnectionKey(serverId: number, userId: number): string {
   return `${serverId}-${userId}`;
 }
 
-// Encrypt password for storage
-export async function encryptPassword(password: string): Promise<string> {
-  return bcrypt.hash(password, 12);
-}
-
-// Decrypt password (in real implementation, use proper encryption)
-export async function decryptPassword(encrypted: string, original?: string): Promise<string> {
-  return original || encrypted;
-}
-
 // Test SSH connection
+// @param hostKeyFingerprint - Pinned fingerprint to verify against (omit to accept any key)
+// @param jumpHostId - Server to tunnel the connection through (omit to connect directly)
 export async function testSSHConnection(
   host: string,
   port: number,
   username: string,
-  password: string
-): Promise<{ success: boolean; error?: string; systemInfo?: SystemInfo }> {
+  credentials: ServerCredentials,
+  hostKeyFingerprint?: string | null,
+  jumpHostId?: number | null
+): Promise<{ success: boolean; error?: string; systemInfo?: SystemInfo; hostKey?: PresentedHostKey }> {
   const ssh = new NodeSSH();
+  const hostKeyCheck = createHostKeyCheck(hostKeyFingerprint);
+  let tunnel: JumpTunnel | null = null;
   
   try {
+    tunnel = await openJumpTunnel(jumpHostId, host, port);
+
     await ssh.connect({
       host,
       port,
       username,
-      password,
+      ...buildAuthConfig(credentials),
+      hostVerifier: hostKeyCheck.hostVerifier,
+      ...(tunnel && { sock: tunnel.sock }),
       readyTimeout: 15000,
       algorithms: {
         kex: ['diffie-hellman-group14-sha256', 'diffie-hellman-group14-sha1'],
@@ -59,11 +68,22 @@ export async function testSSHConnection(
     const systemInfo = await getSystemInfo(ssh);
     
     await ssh.dispose();
+    tunnel?.close();
     
-    return { success: true, systemInfo };
+    return { success: true, systemInfo, hostKey: hostKeyCheck.presented || undefined };
   } catch (error) {
     await ssh.dispose();
+    tunnel?.close();
     console.error('SSH connection test failed:', error);
+
+    if (hostKeyCheck.mismatch) {
+      return {
+        success: false,
+        error: hostKeyMismatchMessage(host, hostKeyCheck.presented),
+        hostKey: hostKeyCheck.presented || undefined
+      };
+    }
+
     return { 
       success: false, 
       error: error instanceof Error ? error.message : 'Connection failed' 
@@ -73,6 +93,8 @@ export async function testSSHConnection(
 
 // Get or create SSH connection
 // @param isAdmin - If true, skip userId ownership check
+// @throws if the server presents a host key that does not match the pinned one,
+//         or if the jump host chain cannot be established
 export async function getSSHConnection(
   serverId: number,
   userId: number,
@@ -97,6 +119,11 @@ export async function getSSHConnection(
     }
   }
 
+  let hostKeyTarget: { id: number; name: string; hostKeyFingerprint: string | null } | null = null;
+  let hostKeyCheck: HostKeyCheck | null = null;
+  let tunnel: JumpTunnel | null = null;
+  let tunnelError: unknown = null;
+
   try {
     // Get server details
     const server = await prisma.server.findUnique({
@@ -112,13 +139,24 @@ export async function getSSHConnection(
       throw new Error('Access denied to this server');
     }
 
+    try {
+      tunnel = await openJumpTunnel(server.jumpHostId, server.host, server.port, server.id);
+    } catch (error) {
+      tunnelError = error;
+      throw error;
+    }
+
     const ssh = new NodeSSH();
+    hostKeyTarget = server;
+    hostKeyCheck = createHostKeyCheck(server.hostKeyFingerprint);
     
     await ssh.connect({
       host: server.host,
       port: server.port,
       username: server.username,
-      password: server.password,
+      ...buildAuthConfig(readServerCredentials(server)),
+      hostVerifier: hostKeyCheck.hostVerifier,
+      ...(tunnel && { sock: tunnel.sock }),
       readyTimeout: 15000,
       algorithms: {
         kex: ['diffie-hellman-group14-sha256', 'diffie-hellman-group14-sha1'],
@@ -128,6 +166,14 @@ export async function getSSHConnection(
       }
     });
 
+    await pinHostKeyIfNew(server, hostKeyCheck);
+
+    // Tear down the jump hosts together with the connection
+    if (tunnel) {
+      const jumpTunnel = tunnel;
+      ssh.connection?.on('close', () => jumpTunnel.close());
+    }
+
     // Store connection
     sshConnections.set(connectionKey, ssh);
 
@@ -143,6 +189,13 @@ export async function getSSHConnection(
     return ssh;
   } catch (error) {
     console.error('SSH connection failed:', error);
+    tunnel?.close();
+
+    // A changed host key is a hard failure - surface it instead of returning null
+    if (hostKeyTarget && hostKeyCheck?.mismatch) {
+      await recordHostKeyMismatch(hostKeyTarget, hostKeyCheck);
+      throw new Error(hostKeyMismatchMessage(hostKeyTarget.name, hostKeyCheck.presented));
+    }
     
     // Update server status to error
     try {
@@ -157,6 +210,11 @@ export async function getSSHConnection(
       console.error('Failed to update server status:', updateError);
     }
 
+    // Jump host failures carry a more useful message than a generic connection error
+    if (tunnelError) {
+      throw tunnelError;
+    }
+
     return null;
   }
 }
@@ -884,6 +942,116 @@ export async function getSystemInfo(ssh: NodeSSH): Promise<SystemInfo> {
   }
 }
 
+// Sampled in one round trip: /proc/stat is read twice a second apart for CPU usage
+const METRICS_SCRIPT = [
+  "echo '@cpu'; head -n1 /proc/stat; sleep 1; head -n1 /proc/stat",
+  "echo '@cores'; nproc",
+  "echo '@model'; grep -m1 'model name' /proc/cpuinfo",
+  "echo '@memory'; cat /proc/meminfo",
+  "echo '@disk'; df -kP /",
+  "echo '@network'; cat /proc/net/dev",
+  "echo '@load'; cat /proc/loadavg",
+  "echo '@uptime'; cat /proc/uptime"
+].join('; ');
+
+// Get a point-in-time metrics sample (network counters are cumulative since boot)
+export async function getSystemMetrics(ssh: NodeSSH): Promise<SystemMetrics> {
+  const result = await ssh.execCommand(METRICS_SCRIPT);
+  if (!result.stdout) {
+    throw new Error(result.stderr || 'No metrics output');
+  }
+
+  return parseSystemMetrics(result.stdout);
+}
+
+// Helper function to parse the output of METRICS_SCRIPT
+function parseSystemMetrics(output: string): SystemMetrics {
+  const sections = new Map<string, string[]>();
+  let current: string[] = [];
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('@')) {
+      current = [];
+      sections.set(line.substring(1).trim(), current);
+    } else if (line.trim()) {
+      current.push(line);
+    }
+  }
+
+  const section = (name: string) => sections.get(name) || [];
+
+  // CPU: busy share of jiffies between the two /proc/stat reads
+  const cpuTimes = section('cpu').map(line => line.trim().split(/\s+/).slice(1, 9).map(Number));
+  let cpuUsage = 0;
+  if (cpuTimes.length === 2) {
+    const idle = (times: number[]) => times[3] + (times[4] || 0);
+    const total = (times: number[]) => times.reduce((sum, value) => sum + (value || 0), 0);
+    const totalDelta = total(cpuTimes[1]) - total(cpuTimes[0]);
+    const idleDelta = idle(cpuTimes[1]) - idle(cpuTimes[0]);
+    cpuUsage = totalDelta > 0 ? Math.min(Math.max((totalDelta - idleDelta) / totalDelta * 100, 0), 100) : 0;
+  }
+
+  // Memory: /proc/meminfo values are in kB
+  const meminfo = new Map<string, number>();
+  for (const line of section('memory')) {
+    const match = line.match(/^(\w+):\s+(\d+)/);
+    if (match) meminfo.set(match[1], parseInt(match[2]) * 1024);
+  }
+  const memoryTotal = meminfo.get('MemTotal') || 0;
+  const memoryFree = meminfo.get('MemFree') || 0;
+  const buffers = meminfo.get('Buffers') || 0;
+  const cached = meminfo.get('Cached') || 0;
+  const available = meminfo.get('MemAvailable') ?? memoryFree + buffers + cached;
+
+  // Disk: root filesystem in 1K blocks
+  const diskParts = (section('disk')[1] || '').trim().split(/\s+/);
+  const diskUsed = (parseInt(diskParts[2]) || 0) * 1024;
+  const diskFree = (parseInt(diskParts[3]) || 0) * 1024;
+
+  // Network: sum of all interfaces except loopback
+  const network = { bytesIn: 0, bytesOut: 0, packetsIn: 0, packetsOut: 0 };
+  for (const line of section('network')) {
+    const [iface, counters] = line.split(':');
+    if (counters === undefined || iface.trim() === 'lo') continue;
+
+    const fields = counters.trim().split(/\s+/).map(Number);
+    network.bytesIn += fields[0] || 0;
+    network.packetsIn += fields[1] || 0;
+    network.bytesOut += fields[8] || 0;
+    network.packetsOut += fields[9] || 0;
+  }
+
+  const loadData = (section('load')[0] || '').split(' ');
+
+  return {
+    cpu: {
+      usage: cpuUsage,
+      cores: parseInt(section('cores')[0]) || 1,
+      model: section('model')[0]?.split(':')[1]?.trim() || 'Unknown'
+    },
+    memory: {
+      total: memoryTotal,
+      used: Math.max(memoryTotal - available, 0),
+      free: memoryFree,
+      cached,
+      buffers
+    },
+    disk: {
+      total: diskUsed + diskFree,
+      used: diskUsed,
+      free: diskFree,
+      usage: diskUsed + diskFree > 0 ? diskUsed / (diskUsed + diskFree) * 100 : 0
+    },
+    network,
+    uptime: Math.floor(parseFloat(section('uptime')[0]) || 0),
+    loadAverage: [
+      parseFloat(loadData[0]) || 0,
+      parseFloat(loadData[1]) || 0,
+      parseFloat(loadData[2]) || 0
+    ]
+  };
+}
+
 // Helper function to parse uptime string
 function parseUptimeFromString(uptimeStr: string): number {
   const match = uptimeStr.match(/up\s+(.+?),\s+\d+\s+user/);
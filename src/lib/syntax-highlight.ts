@@ -0,0 +1,238 @@
+/**
+ * Lightweight regex tokenizer for the file editor
+ * Covers the config and script formats usually edited on servers; anything else is plain text.
+ */
+
+export type TokenType = 'comment' | 'string' | 'number' | 'keyword' | 'variable' | 'key' | 'tag' | 'attribute' | 'section';
+
+export interface Token {
+  type: TokenType | null;
+  text: string;
+}
+
+export type Language =
+  | 'shell' | 'nginx' | 'apache' | 'yaml' | 'json' | 'ini' | 'javascript' | 'python'
+  | 'php' | 'xml' | 'sql' | 'css' | 'dockerfile' | 'plain';
+
+// Highlighting larger files makes typing sluggish
+export const MAX_HIGHLIGHT_LENGTH = 200 * 1024;
+
+type Rule = [RegExp, TokenType];
+
+const words = (list: string, flags = '') => new RegExp(`\\b(?:${list.split(' ').join('|')})\\b`, flags);
+
+const HASH_COMMENT: Rule = [/#.*/, 'comment'];
+const SLASH_COMMENT: Rule = [/\/\/.*/, 'comment'];
+const BLOCK_COMMENT: Rule = [/\/\*[\s\S]*?(?:\*\/|$)/, 'comment'];
+const DOUBLE_STRING: Rule = [/"(?:\\.|[^"\\\n])*"?/, 'string'];
+const SINGLE_STRING: Rule = [/'(?:\\.|[^'\\\n])*'?/, 'string'];
+const NUMBER: Rule = [/\b\d+(?:\.\d+)?[a-zA-Z%]*\b/, 'number'];
+
+const RULES: Record<Exclude<Language, 'plain'>, Rule[]> = {
+  shell: [
+    HASH_COMMENT,
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/\$(?:\{[^}\n]*\}?|\w+|[@#?$!*-])/, 'variable'],
+    [words('if then else elif fi for while until do done case esac function return export local in select break continue source'), 'keyword'],
+    NUMBER
+  ],
+  nginx: [
+    HASH_COMMENT,
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/\$\w+/, 'variable'],
+    [/^[ \t]*[a-z_]+/m, 'keyword'],
+    NUMBER
+  ],
+  apache: [
+    HASH_COMMENT,
+    DOUBLE_STRING,
+    [/<\/?[\w]+/, 'tag'],
+    [/>/, 'tag'],
+    [/\$\{\w+\}|%\{\w+\}/, 'variable'],
+    [/^[ \t]*[A-Za-z]+/m, 'keyword'],
+    NUMBER
+  ],
+  yaml: [
+    HASH_COMMENT,
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/^[ \t]*(?:- +)?[\w.\-\/]+(?=[ \t]*:(?:\s|$))/m, 'key'],
+    [/^---$|^\.\.\.$/m, 'section'],
+    [/[&*][\w-]+/, 'variable'],
+    [words('true false yes no on off null'), 'keyword'],
+    NUMBER
+  ],
+  json: [
+    [/"(?:\\.|[^"\\\n])*"(?=\s*:)/, 'key'],
+    DOUBLE_STRING,
+    [words('true false null'), 'keyword'],
+    [/-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/, 'number']
+  ],
+  ini: [
+    [/^[ \t]*[#;].*/m, 'comment'],
+    [/^[ \t]*\[[^\]\n]*\]/m, 'section'],
+    [/^[ \t]*(?:export[ \t]+)?[\w.\-]+(?=[ \t]*[=:])/m, 'key'],
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/\$\{?\w+\}?/, 'variable'],
+    [words('true false yes no on off'), 'keyword'],
+    NUMBER
+  ],
+  javascript: [
+    SLASH_COMMENT,
+    BLOCK_COMMENT,
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/`(?:\\.|[^`\\])*`?/, 'string'],
+    [words('const let var function return if else for while do switch case break continue new delete typeof instanceof in of class extends super this import export from default async await try catch finally throw yield interface type enum implements public private protected readonly static true false null undefined'), 'keyword'],
+    NUMBER
+  ],
+  python: [
+    HASH_COMMENT,
+    [/(?:[rbuf]|rb|br)?"""[\s\S]*?(?:"""|$)/i, 'string'],
+    [/(?:[rbuf]|rb|br)?'''[\s\S]*?(?:'''|$)/i, 'string'],
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/@[\w.]+/, 'attribute'],
+    [words('def class return if elif else for while break continue pass import from as try except finally raise with yield lambda global nonlocal in is not and or async await True False None self'), 'keyword'],
+    NUMBER
+  ],
+  php: [
+    SLASH_COMMENT,
+    HASH_COMMENT,
+    BLOCK_COMMENT,
+    [/<\?php|<\?=?|\?>/, 'tag'],
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/\$\w+/, 'variable'],
+    [words('function return if else elseif foreach for while do switch case break continue new class extends implements public private protected static const use namespace require require_once include include_once echo array try catch finally throw true false null', 'i'), 'keyword'],
+    NUMBER
+  ],
+  xml: [
+    [/<!--[\s\S]*?(?:-->|$)/, 'comment'],
+    [/<\/?[\w:.-]+|\/?>/, 'tag'],
+    [/[\w:.-]+(?==)/, 'attribute'],
+    DOUBLE_STRING,
+    SINGLE_STRING
+  ],
+  sql: [
+    [/--.*/, 'comment'],
+    BLOCK_COMMENT,
+    SINGLE_STRING,
+    DOUBLE_STRING,
+    [/`[^`\n]*`?/, 'key'],
+    [words('select from where and or not insert into values update set delete create alter drop table database index view primary key foreign references join left right inner outer on group by order having limit offset as distinct union all null is in like between case when then else end default unique if exists grant', 'i'), 'keyword'],
+    NUMBER
+  ],
+  css: [
+    BLOCK_COMMENT,
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/[\w-]+(?=\s*:[^{]*;)/, 'key'],
+    [/[.#][\w-]+/, 'attribute'],
+    [/@[\w-]+/, 'keyword'],
+    [/#[0-9a-fA-F]{3,8}\b/, 'number'],
+    NUMBER
+  ],
+  dockerfile: [
+    HASH_COMMENT,
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    [/^[ \t]*(?:FROM|RUN|CMD|LABEL|EXPOSE|ENV|ADD|COPY|ENTRYPOINT|VOLUME|USER|WORKDIR|ARG|ONBUILD|STOPSIGNAL|HEALTHCHECK|SHELL)\b/im, 'keyword'],
+    [/\$\{?\w+\}?/, 'variable'],
+    NUMBER
+  ]
+};
+
+// Sticky versions so each rule only matches at the current position
+const STICKY_RULES = Object.fromEntries(
+  Object.entries(RULES).map(([language, rules]) => [
+    language,
+    rules.map(([pattern, type]) => [
+      new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '') + 'y'),
+      type
+    ] as Rule)
+  ])
+) as Record<Exclude<Language, 'plain'>, Rule[]>;
+
+const EXTENSIONS: Record<string, Language> = {
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  conf: 'nginx',
+  yml: 'yaml', yaml: 'yaml',
+  json: 'json',
+  ini: 'ini', env: 'ini', cnf: 'ini', cfg: 'ini', properties: 'ini', service: 'ini', timer: 'ini', toml: 'ini',
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript', jsx: 'javascript', tsx: 'javascript',
+  py: 'python',
+  php: 'php',
+  xml: 'xml', html: 'xml', htm: 'xml', svg: 'xml',
+  sql: 'sql',
+  css: 'css', scss: 'css',
+};
+
+const FILE_NAMES: Record<string, Language> = {
+  dockerfile: 'dockerfile',
+  '.bashrc': 'shell', '.profile': 'shell', '.bash_profile': 'shell', '.bash_aliases': 'shell', '.zshrc': 'shell',
+  '.env': 'ini', 'my.cnf': 'ini', 'php.ini': 'ini',
+  '.htaccess': 'apache', 'httpd.conf': 'apache', 'apache2.conf': 'apache',
+  'docker-compose.yml': 'yaml', crontab: 'shell'
+};
+
+/**
+ * Language for a file path, by name, extension and well-known config locations
+ */
+export function detectLanguage(filePath: string): Language {
+  const name = filePath.substring(filePath.lastIndexOf('/') + 1).toLowerCase();
+
+  if (FILE_NAMES[name]) return FILE_NAMES[name];
+  if (filePath.startsWith('/etc/nginx/')) return 'nginx';
+  if (filePath.startsWith('/etc/apache2/') || filePath.startsWith('/etc/httpd/')) return 'apache';
+  if (name.startsWith('.env')) return 'ini';
+
+  const extension = name.includes('.') ? name.substring(name.lastIndexOf('.') + 1) : '';
+  return EXTENSIONS[extension] || 'plain';
+}
+
+/**
+ * Split code into tokens; untyped tokens are plain text
+ */
+export function tokenize(code: string, language: Language): Token[] {
+  if (language === 'plain' || code.length > MAX_HIGHLIGHT_LENGTH) {
+    return [{ type: null, text: code }];
+  }
+
+  const rules = STICKY_RULES[language];
+  const tokens: Token[] = [];
+  let plain = '';
+  let position = 0;
+
+  while (position < code.length) {
+    let matched: Token | null = null;
+
+    for (const [pattern, type] of rules) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        matched = { type, text: match[0] };
+        break;
+      }
+    }
+
+    if (matched) {
+      if (plain) tokens.push({ type: null, text: plain });
+      plain = '';
+      tokens.push(matched);
+      position += matched.text.length;
+    } else {
+      // Skip whole words so keywords are not matched inside identifiers
+      const word = /^\w+/.exec(code.substring(position, position + 64));
+      const length = word ? word[0].length : 1;
+      plain += code.substring(position, position + length);
+      position += length;
+    }
+  }
+
+  if (plain) tokens.push({ type: null, text: plain });
+  return tokens;
+}
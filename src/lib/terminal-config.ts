@@ -22,14 +22,19 @@ export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
   blockedCommands: [
     'rm -rf /',
     'rm -rf /*',
+    'rm -rf *',
     'rm -rf .*',
     'mkfs',
-    'dd if=/dev/zero of=/dev/',
+    'dd if=/dev/zero',
     'format',
+    'fdisk',
+    'parted',
     ':(){ :|:& };:', // Fork bomb
     'chmod 777 /',
     'chown root:root /',
+    'passwd root',
   ],
+  approvalRequiredCommands: [],
   requireSudoConfirmation: true,
   maxCommandLength: 1000,
   enableCommandLogging: true
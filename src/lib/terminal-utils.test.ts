@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { splitTerminalInput, escapeShellArg } from './terminal-utils';
+
+// What sh receives as the single argument after the escaped value is parsed
+function shellWords(escaped: string): string[] {
+  const output = execFileSync('sh', ['-c', `printf '%s\\0' ${escaped}`]).toString();
+  return output.split('\0').slice(0, -1);
+}
+
+test('splitTerminalInput tracks a line typed one key at a time', () => {
+  let line = '';
+  for (const key of 'ls -la') {
+    const result = splitTerminalInput(line, key);
+    assert.deepEqual(result.parts, [{ data: key }]);
+    line = result.line;
+  }
+
+  assert.deepEqual(splitTerminalInput(line, '\r'), { line: '', parts: [{ data: '\r', submitted: 'ls -la' }] });
+});
+
+test('splitTerminalInput splits pasted input at each Enter', () => {
+  const result = splitTerminalInput('', 'whoami\rrm -rf /tmp/x\rpw');
+
+  assert.deepEqual(result.parts, [
+    { data: 'whoami\r', submitted: 'whoami' },
+    { data: 'rm -rf /tmp/x\r', submitted: 'rm -rf /tmp/x' },
+    { data: 'pw' }
+  ]);
+  assert.equal(result.line, 'pw');
+});
+
+test('splitTerminalInput continues the line typed before', () => {
+  assert.deepEqual(splitTerminalInput('rm -rf', ' /\r').parts, [{ data: ' /\r', submitted: 'rm -rf /' }]);
+});
+
+test('splitTerminalInput applies Backspace, Ctrl+C and Ctrl+U to the tracked line', () => {
+  assert.equal(splitTerminalInput('', 'lss\x7f').line, 'ls');
+  assert.equal(splitTerminalInput('', 'ls\b').line, 'l');
+  assert.equal(splitTerminalInput('', 'rm -rf /\x03').line, '');
+  assert.equal(splitTerminalInput('', 'rm -rf /\x15echo').line, 'echo');
+});
+
+test('splitTerminalInput passes escape sequences through without adding them to the line', () => {
+  const result = splitTerminalInput('', 'ls\x1b[A\x1bOP\x1b[200~x\x1b[201~\r');
+
+  assert.deepEqual(result.parts, [{ data: 'ls\x1b[A\x1bOP\x1b[200~x\x1b[201~\r', submitted: 'lsx' }]);
+});
+
+test('splitTerminalInput ignores other control characters such as Tab', () => {
+  assert.equal(splitTerminalInput('', 'sys\tctl').line, 'sysctl');
+});
+
+test('escapeShellArg leaves plain words unquoted', () => {
+  assert.equal(escapeShellArg('/var/log/nginx/access.log'), '/var/log/nginx/access.log');
+  assert.equal(escapeShellArg('user@host:8080'), 'user@host:8080');
+});
+
+test('escapeShellArg turns any value into exactly one shell word', () => {
+  const values = [
+    '',
+    'two words',
+    "it's",
+    '$(reboot)',
+    '`id`',
+    '; rm -rf / #',
+    'a\nb',
+    '"quoted" \\ back',
+    "'; echo pwned; '",
+    '*',
+    '~root',
+    '-n'
+  ];
+
+  for (const value of values) {
+    assert.deepEqual(shellWords(escapeShellArg(value)), [value], value);
+  }
+});
@@ -290,6 +290,59 @@ export function isDangerousCommand(command: string): boolean {
   );
 }
 
+// Part of terminal input; parts ending with Enter carry the line it submits
+export interface TerminalInputPart {
+  data: string;
+  submitted?: string;
+}
+
+// Escape sequences: CSI (arrows, bracketed paste), SS3 (keypad) or a single escaped character
+const ESCAPE_SEQUENCE = /^\x1b(?:\[[0-?]*[ -/]*[@-~]|O.|.)?/;
+
+/**
+ * Split interactive terminal keystrokes at each Enter, tracking the line being typed
+ * Backspace, Ctrl+C and Ctrl+U edit the tracked line. Escape sequences (cursor keys,
+ * history recall) and Tab completion reach the shell without changing it, so a recalled
+ * or completed line is only seen as far as it was typed.
+ */
+export function splitTerminalInput(line: string, input: string): { line: string; parts: TerminalInputPart[] } {
+  const parts: TerminalInputPart[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '\x1b') {
+      const sequence = input.slice(i).match(ESCAPE_SEQUENCE)?.[0] || char;
+      current += sequence;
+      i += sequence.length;
+      continue;
+    }
+
+    current += char;
+    i++;
+
+    if (char === '\r' || char === '\n') {
+      parts.push({ data: current, submitted: line });
+      current = '';
+      line = '';
+    } else if (char === '\x7f' || char === '\b') {
+      line = line.slice(0, -1);
+    } else if (char === '\x03' || char === '\x15') {
+      line = '';
+    } else if (char >= ' ') {
+      line += char;
+    }
+  }
+
+  if (current) {
+    parts.push({ data: current });
+  }
+
+  return { line, parts };
+}
+
 // Get command suggestions based on partial input
 export function getCommandSuggestions(partial: string): string[] {
   if (!partial) return [];
@@ -351,9 +404,10 @@ export function formatFileSize(bytes: number): string {
   return `${size.toFixed(1)}${units[unitIndex]}`;
 }
 
-// Escape shell special characters
+// Quote a value as a single shell word; plain words such as paths are left as they are
 export function escapeShellArg(arg: string): string {
-  return arg.replace(/(["\s'$`\\])/g, '\\$1');
+  if (/^[A-Za-z0-9_\/.,:=@%+-]+$/.test(arg)) return arg;
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
 }
 
 // Build safe command with escaped arguments
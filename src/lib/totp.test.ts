@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+  currentTotpStep,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  consumeRecoveryCode,
+  isRecoveryCode
+} from './totp';
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+test('generateTotp matches the RFC 6238 SHA-1 test vectors', () => {
+  assert.equal(generateTotp(RFC_SECRET, currentTotpStep(59 * 1000)), '287082');
+  assert.equal(generateTotp(RFC_SECRET, currentTotpStep(1111111109 * 1000)), '081804');
+  assert.equal(generateTotp(RFC_SECRET, currentTotpStep(1234567890 * 1000)), '005924');
+  assert.equal(generateTotp(RFC_SECRET, currentTotpStep(2000000000 * 1000)), '279037');
+});
+
+test('verifyTotp accepts the current code and returns its step', () => {
+  const secret = generateTotpSecret();
+  const step = currentTotpStep();
+
+  const matched = verifyTotp(secret, generateTotp(secret, step));
+  assert.ok(matched !== null && Math.abs(matched - step) <= 1);
+});
+
+test('verifyTotp allows one step of clock drift either way', () => {
+  const secret = generateTotpSecret();
+  const step = currentTotpStep();
+
+  assert.notEqual(verifyTotp(secret, generateTotp(secret, step - 1)), null);
+  assert.notEqual(verifyTotp(secret, generateTotp(secret, step + 1)), null);
+  assert.equal(verifyTotp(secret, generateTotp(secret, step - 3)), null);
+  assert.equal(verifyTotp(secret, generateTotp(secret, step + 3)), null);
+});
+
+test('verifyTotp rejects a code from a step that was already used', () => {
+  const secret = generateTotpSecret();
+  const code = generateTotp(secret);
+
+  const used = verifyTotp(secret, code);
+  assert.notEqual(used, null);
+  assert.equal(verifyTotp(secret, code, used), null);
+});
+
+test('verifyTotp rejects malformed and wrong codes', () => {
+  const secret = generateTotpSecret();
+  const code = generateTotp(secret);
+  const wrong = ((parseInt(code) + 1) % 1000000).toString().padStart(6, '0');
+
+  assert.equal(verifyTotp(secret, '12345'), null);
+  assert.equal(verifyTotp(secret, 'abcdef'), null);
+  assert.equal(verifyTotp(secret, `${code}0`), null);
+  assert.equal(verifyTotp(secret, wrong), null);
+  assert.notEqual(verifyTotp(secret, `${code.substring(0, 3)} ${code.substring(3)}`), null);
+});
+
+test('recovery codes can each be used once', () => {
+  const codes = generateRecoveryCodes(3);
+  const hashes = codes.map(hashRecoveryCode);
+
+  const remaining = consumeRecoveryCode(hashes, codes[1].toUpperCase());
+  assert.deepEqual(remaining, [hashes[0], hashes[2]]);
+  assert.equal(consumeRecoveryCode(remaining!, codes[1]), null);
+});
+
+test('isRecoveryCode tells recovery codes from TOTP codes', () => {
+  assert.equal(isRecoveryCode('a1b2c-3d4e5'), true);
+  assert.equal(isRecoveryCode('123456'), false);
+});
@@ -0,0 +1,174 @@
+/**
+ * Time-based one-time passwords (RFC 6238) for two-factor authentication
+ * HMAC-SHA1, 6 digits, 30 second steps - the defaults every authenticator app supports.
+ * Secrets are stored through the vault; recovery codes are stored as SHA-256 hashes.
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SECRET_BYTES = 20;
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+// Accept one step either side to allow for clock drift
+const DRIFT_STEPS = 1;
+
+export const TOTP_ISSUER = 'SSH Control Panel';
+export const TWO_FACTOR_SECRET_CONTEXT = 'user.twoFactorSecret';
+export const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/**
+ * Current time step number
+ */
+export function currentTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Generate a new random base32 secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Generate the code for a secret at a given time step
+ */
+export function generateTotp(secret: string, step: number = currentTotpStep()): string {
+  return hotp(base32Decode(secret), step);
+}
+
+/**
+ * Verify a code against a secret
+ * @param lastUsedStep - Steps at or before this one are rejected so a code cannot be replayed
+ * @returns The matched time step, or null if the code is invalid
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const step = currentTotpStep();
+
+  for (let offset = -DRIFT_STEPS; offset <= DRIFT_STEPS; offset++) {
+    const candidate = step + offset;
+    if (lastUsedStep != null && candidate <= lastUsedStep) continue;
+
+    const expected = hotp(key, candidate);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from a QR code
+ */
+export function buildOtpAuthUri(secret: string, accountName: string, issuer: string = TOTP_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: DIGITS.toString(),
+    period: STEP_SECONDS.toString()
+  });
+
+  return `otpauth://totp/${label}?${params}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Hash a recovery code for storage
+ */
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * Generate single-use recovery codes (xxxxx-xxxxx)
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+  });
+}
+
+/**
+ * Check a recovery code against stored hashes
+ * @returns The remaining hashes with the used code removed, or null if the code does not match
+ */
+export function consumeRecoveryCode(hashes: string[], code: string): string[] | null {
+  const hash = hashRecoveryCode(code);
+  const index = hashes.indexOf(hash);
+  if (index === -1) return null;
+
+  return hashes.filter((_, i) => i !== index);
+}
+
+/**
+ * Whether the input looks like a recovery code rather than a TOTP code
+ */
+export function isRecoveryCode(code: string): boolean {
+  return normalizeRecoveryCode(code).length === 10 && !/^\d{6}$/.test(code.trim());
+}
@@ -0,0 +1,200 @@
+/**
+ * Two-factor enrollment and verification for user accounts
+ * Enrollment is two-phase: setup stores a pending secret, confirming a code enables it
+ * and issues recovery codes. Enrolled users are challenged at login regardless of the
+ * enableTwoFactor setting, which only controls whether new enrollments are allowed.
+ */
+
+import { prisma } from './database';
+import { encryptSecret, decryptSecret } from './vault';
+import {
+  TWO_FACTOR_SECRET_CONTEXT,
+  generateTotpSecret,
+  buildOtpAuthUri,
+  verifyTotp,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  consumeRecoveryCode,
+  isRecoveryCode
+} from './totp';
+import { logAuthEvent } from './login-lockout';
+import type { TwoFactorStatus, TwoFactorSetup } from '@/types';
+
+interface TwoFactorUser {
+  id: number;
+  email: string;
+  twoFactorSecret: string | null;
+  twoFactorRecoveryCodes: unknown;
+  twoFactorLastUsedStep: number | null;
+}
+
+function storedRecoveryCodes(user: { twoFactorRecoveryCodes: unknown }): string[] {
+  return Array.isArray(user.twoFactorRecoveryCodes) ? user.twoFactorRecoveryCodes as string[] : [];
+}
+
+/**
+ * Get a user's enrollment state
+ */
+export async function getTwoFactorStatus(
+  userId: number
+): Promise<Pick<TwoFactorStatus, 'enabled' | 'pending' | 'recoveryCodesRemaining'>> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      twoFactorEnabled: true,
+      twoFactorSecret: true,
+      twoFactorRecoveryCodes: true
+    }
+  });
+
+  return {
+    enabled: user.twoFactorEnabled,
+    pending: !user.twoFactorEnabled && !!user.twoFactorSecret,
+    recoveryCodesRemaining: storedRecoveryCodes(user).length
+  };
+}
+
+/**
+ * Start enrollment with a fresh secret, replacing any unconfirmed one
+ */
+export async function beginTwoFactorSetup(user: { id: number; email: string }): Promise<TwoFactorSetup> {
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: encryptSecret(secret, TWO_FACTOR_SECRET_CONTEXT),
+      twoFactorRecoveryCodes: [],
+      twoFactorLastUsedStep: null
+    }
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpAuthUri(secret, user.email)
+  };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * @returns The recovery codes (shown once), or null if the code is wrong or no setup is pending
+ */
+export async function confirmTwoFactorSetup(user: { id: number; email: string }, code: string): Promise<string[] | null> {
+  const record = await prisma.user.findUniqueOrThrow({
+    where: { id: user.id },
+    select: { twoFactorEnabled: true, twoFactorSecret: true }
+  });
+
+  if (record.twoFactorEnabled || !record.twoFactorSecret) return null;
+
+  const step = verifyTotp(decryptSecret(record.twoFactorSecret, TWO_FACTOR_SECRET_CONTEXT), code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabled: true,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      twoFactorLastUsedStep: step
+    }
+  });
+
+  await logAuthEvent(`Two-factor authentication enabled for ${user.email}`, {
+    event: 'TWO_FACTOR_ENABLED',
+    userId: user.id,
+    email: user.email
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Check a TOTP or recovery code for an enrolled user
+ * A matched TOTP step is remembered and a recovery code is consumed, so neither can be reused.
+ */
+export async function verifyTwoFactorCode(user: TwoFactorUser, code: string): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+
+  if (isRecoveryCode(code)) {
+    const remaining = consumeRecoveryCode(storedRecoveryCodes(user), code);
+    if (!remaining) return false;
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorRecoveryCodes: remaining }
+    });
+
+    await logAuthEvent(`Recovery code used by ${user.email} (${remaining.length} remaining)`, {
+      event: 'TWO_FACTOR_RECOVERY_CODE_USED',
+      userId: user.id,
+      email: user.email,
+      remaining: remaining.length
+    });
+    return true;
+  }
+
+  const step = verifyTotp(
+    decryptSecret(user.twoFactorSecret, TWO_FACTOR_SECRET_CONTEXT),
+    code,
+    user.twoFactorLastUsedStep
+  );
+  if (step === null) return false;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorLastUsedStep: step }
+  });
+  return true;
+}
+
+/**
+ * Replace all recovery codes
+ */
+export async function regenerateRecoveryCodes(user: { id: number; email: string }): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+  });
+
+  await logAuthEvent(`Recovery codes regenerated for ${user.email}`, {
+    event: 'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+    userId: user.id,
+    email: user.email
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Remove two-factor authentication from an account
+ * @param disabledBy - The admin resetting the account, if not the user themselves
+ */
+export async function disableTwoFactor(
+  user: { id: number; email: string },
+  disabledBy?: { id: number; email: string }
+): Promise<void> {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastUsedStep: null
+    }
+  });
+
+  await logAuthEvent(
+    `Two-factor authentication disabled for ${user.email}${disabledBy ? ` by ${disabledBy.email}` : ''}`,
+    {
+      event: 'TWO_FACTOR_DISABLED',
+      userId: user.id,
+      email: user.email,
+      ...(disabledBy && { disabledBy: disabledBy.id })
+    }
+  );
+}
@@ -120,6 +120,8 @@ export const getScriptStatusColor = (status: string): string => {
       return 'text-blue-600 bg-blue-100';
     case 'CANCELLED':
       return 'text-gray-600 bg-gray-100';
+    case 'WAITING_APPROVAL':
+      return 'text-yellow-600 bg-yellow-100';
     default:
       return 'text-gray-600 bg-gray-100';
   }
@@ -150,6 +152,8 @@ export const getScriptStatusText = (status: string): string => {
       return 'กำลังทำงาน';
     case 'CANCELLED':
       return 'ยกเลิก';
+    case 'WAITING_APPROVAL':
+      return 'รออนุมัติ';
     default:
       return 'ไม่ทราบสถานะ';
   }
@@ -166,20 +170,6 @@ export const buildUrl = (base: string, params: Record<string, any>): string => {
   return url.toString();
 };
 
-// Encryption utilities (for client-side)
-export const encryptPassword = (password: string): string => {
-  // Simple base64 encoding for client-side (real encryption on server)
-  return btoa(password);
-};
-
-export const decryptPassword = (encrypted: string): string => {
-  try {
-    return atob(encrypted);
-  } catch {
-    return encrypted;
-  }
-};
-
 // Array utilities
 export const groupBy = <T>(array: T[], key: keyof T): Record<string, T[]> => {
   return array.reduce((groups, item) => {
@@ -203,6 +193,20 @@ export const sortBy = <T>(array: T[], key: keyof T, order: 'asc' | 'desc' = 'asc
   });
 };
 
+// Server IDs stored as JSON
+export const normalizeServerIds = (value: unknown): number[] =>
+  Array.isArray(value) ? (value as unknown[]).filter(Number.isInteger) as number[] : [];
+
+// Tags are stored as a JSON string array: trim, drop empty and duplicate entries
+export const normalizeTags = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const tags = value
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.trim())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+};
+
 // Debounce utility
 export const debounce = <T extends (...args: any[]) => any>(
   func: T,
@@ -0,0 +1,247 @@
+/**
+ * Credential Vault rotation - re-encrypts stored server, 2FA, notification channel,
+ * scheduled run and approval request parameter secrets with the active key
+ * Also encrypts legacy plaintext rows.
+ *
+ * Usage:
+ *   npm run vault:rotate              # re-encrypt
+ *   npm run vault:rotate -- --dry-run # only report what would change
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+// Import PrismaClient directly (runs standalone, not through Next.js)
+import { PrismaClient } from '@prisma/client';
+import { getActiveKeyVersion, needsReEncryption, decryptOptional, encryptOptional } from './vault';
+import { CREDENTIAL_CONTEXTS } from './ssh-auth';
+import { TWO_FACTOR_SECRET_CONTEXT } from './totp';
+import { NOTIFICATION_SECRET_CONTEXT } from './notification-channels';
+import { SCHEDULE_SECRET_CONTEXT, APPROVAL_SECRET_CONTEXT } from './script-parameters';
+
+const prisma = new PrismaClient();
+
+const CREDENTIAL_FIELDS = ['password', 'privateKey', 'passphrase'] as const;
+
+async function rotate(dryRun: boolean) {
+  const activeVersion = getActiveKeyVersion();
+  console.log(`🔐 Active vault key version: v${activeVersion}${dryRun ? ' (dry run)' : ''}`);
+
+  const servers = await prisma.server.findMany({
+    select: {
+      id: true,
+      name: true,
+      password: true,
+      privateKey: true,
+      passphrase: true
+    }
+  });
+
+  let updatedCount = 0;
+  let failedCount = 0;
+
+  for (const server of servers) {
+    const data: Record<string, string | null> = {};
+
+    try {
+      for (const field of CREDENTIAL_FIELDS) {
+        const stored = server[field];
+        if (!needsReEncryption(stored)) continue;
+
+        const context = CREDENTIAL_CONTEXTS[field];
+        data[field] = encryptOptional(decryptOptional(stored, context), context);
+      }
+    } catch (error) {
+      failedCount++;
+      console.error(`❌ Server ${server.id} (${server.name}):`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    const fields = Object.keys(data);
+    if (fields.length === 0) continue;
+
+    if (!dryRun) {
+      await prisma.server.update({
+        where: { id: server.id },
+        data
+      });
+    }
+
+    updatedCount++;
+    console.log(`✅ Server ${server.id} (${server.name}): ${fields.join(', ')}`);
+  }
+
+  console.log(`Done: ${updatedCount} of ${servers.length} servers ${dryRun ? 'need re-encryption' : 're-encrypted'}, ${failedCount} failed`);
+
+  const users = await prisma.user.findMany({
+    where: { twoFactorSecret: { not: null } },
+    select: {
+      id: true,
+      email: true,
+      twoFactorSecret: true
+    }
+  });
+
+  let updatedUsers = 0;
+  let failedUsers = 0;
+
+  for (const user of users) {
+    if (!needsReEncryption(user.twoFactorSecret)) continue;
+
+    let twoFactorSecret: string | null;
+    try {
+      twoFactorSecret = encryptOptional(
+        decryptOptional(user.twoFactorSecret, TWO_FACTOR_SECRET_CONTEXT),
+        TWO_FACTOR_SECRET_CONTEXT
+      );
+    } catch (error) {
+      failedUsers++;
+      console.error(`❌ User ${user.id} (${user.email}):`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    if (!dryRun) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorSecret }
+      });
+    }
+
+    updatedUsers++;
+    console.log(`✅ User ${user.id} (${user.email}): twoFactorSecret`);
+  }
+
+  console.log(`Done: ${updatedUsers} of ${users.length} 2FA secrets ${dryRun ? 'need re-encryption' : 're-encrypted'}, ${failedUsers} failed`);
+
+  const channels = await prisma.notificationChannel.findMany({
+    where: { secret: { not: null } },
+    select: {
+      id: true,
+      name: true,
+      secret: true
+    }
+  });
+
+  let updatedChannels = 0;
+  let failedChannels = 0;
+
+  for (const channel of channels) {
+    if (!needsReEncryption(channel.secret)) continue;
+
+    let secret: string | null;
+    try {
+      secret = encryptOptional(
+        decryptOptional(channel.secret, NOTIFICATION_SECRET_CONTEXT),
+        NOTIFICATION_SECRET_CONTEXT
+      );
+    } catch (error) {
+      failedChannels++;
+      console.error(`❌ Notification channel ${channel.id} (${channel.name}):`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    if (!dryRun) {
+      await prisma.notificationChannel.update({
+        where: { id: channel.id },
+        data: { secret }
+      });
+    }
+
+    updatedChannels++;
+    console.log(`✅ Notification channel ${channel.id} (${channel.name}): secret`);
+  }
+
+  console.log(`Done: ${updatedChannels} of ${channels.length} notification channel secrets ${dryRun ? 'need re-encryption' : 're-encrypted'}, ${failedChannels} failed`);
+
+  const schedules = await prisma.scriptSchedule.findMany({
+    where: { secretParameters: { not: null } },
+    select: {
+      id: true,
+      name: true,
+      secretParameters: true
+    }
+  });
+
+  let updatedSchedules = 0;
+  let failedSchedules = 0;
+
+  for (const schedule of schedules) {
+    if (!needsReEncryption(schedule.secretParameters)) continue;
+
+    let secretParameters: string | null;
+    try {
+      secretParameters = encryptOptional(
+        decryptOptional(schedule.secretParameters, SCHEDULE_SECRET_CONTEXT),
+        SCHEDULE_SECRET_CONTEXT
+      );
+    } catch (error) {
+      failedSchedules++;
+      console.error(`❌ Script schedule ${schedule.id} (${schedule.name}):`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    if (!dryRun) {
+      await prisma.scriptSchedule.update({
+        where: { id: schedule.id },
+        data: { secretParameters }
+      });
+    }
+
+    updatedSchedules++;
+    console.log(`✅ Script schedule ${schedule.id} (${schedule.name}): secretParameters`);
+  }
+
+  console.log(`Done: ${updatedSchedules} of ${schedules.length} script schedule secrets ${dryRun ? 'need re-encryption' : 're-encrypted'}, ${failedSchedules} failed`);
+
+  const approvals = await prisma.scriptApproval.findMany({
+    where: { secretParameters: { not: null } },
+    select: {
+      id: true,
+      scriptName: true,
+      secretParameters: true
+    }
+  });
+
+  let updatedApprovals = 0;
+  let failedApprovals = 0;
+
+  for (const approval of approvals) {
+    if (!needsReEncryption(approval.secretParameters)) continue;
+
+    let secretParameters: string | null;
+    try {
+      secretParameters = encryptOptional(
+        decryptOptional(approval.secretParameters, APPROVAL_SECRET_CONTEXT),
+        APPROVAL_SECRET_CONTEXT
+      );
+    } catch (error) {
+      failedApprovals++;
+      console.error(`❌ Script approval ${approval.id} (${approval.scriptName}):`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    if (!dryRun) {
+      await prisma.scriptApproval.update({
+        where: { id: approval.id },
+        data: { secretParameters }
+      });
+    }
+
+    updatedApprovals++;
+    console.log(`✅ Script approval ${approval.id} (${approval.scriptName}): secretParameters`);
+  }
+
+  console.log(`Done: ${updatedApprovals} of ${approvals.length} script approval secrets ${dryRun ? 'need re-encryption' : 're-encrypted'}, ${failedApprovals} failed`);
+  return failedCount === 0 && failedUsers === 0 && failedChannels === 0 && failedSchedules === 0 && failedApprovals === 0;
+}
+
+rotate(process.argv.includes('--dry-run'))
+  .then(async (ok) => {
+    await prisma.$disconnect();
+    process.exit(ok ? 0 : 1);
+  })
+  .catch(async (error) => {
+    console.error('Vault rotation failed:', error);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,153 @@
+/**
+ * Credential Vault - at-rest encryption for server secrets
+ * AES-256-GCM with keys derived from master secrets in the environment.
+ *
+ * Stored format: enc:v<version>:<iv>:<authTag>:<ciphertext>  (base64 parts)
+ *
+ * Keys:
+ *   VAULT_MASTER_KEYS="1:<secret>,2:<secret>"  - all known keys, highest version is active
+ *   VAULT_MASTER_KEY="<secret>"                - shorthand for a single version 1 key
+ * Generate a secret with: openssl rand -base64 32
+ */
+
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const PREFIX = 'enc';
+const KEY_INFO = 'ssh-control-panel/vault';
+
+let cachedKeys: Map<number, Buffer> | null = null;
+
+function deriveKey(secret: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', secret, Buffer.alloc(0), KEY_INFO, 32));
+}
+
+function loadKeys(): Map<number, Buffer> {
+  if (cachedKeys) return cachedKeys;
+
+  const keys = new Map<number, Buffer>();
+  const keyList = process.env.VAULT_MASTER_KEYS;
+
+  if (keyList) {
+    for (const entry of keyList.split(',')) {
+      const separator = entry.indexOf(':');
+      const version = parseInt(entry.substring(0, separator), 10);
+      const secret = entry.substring(separator + 1).trim();
+
+      if (separator <= 0 || isNaN(version) || version < 1 || !secret) {
+        throw new Error('VAULT_MASTER_KEYS must be a comma separated list of <version>:<secret>');
+      }
+      keys.set(version, deriveKey(secret));
+    }
+  } else if (process.env.VAULT_MASTER_KEY) {
+    keys.set(1, deriveKey(process.env.VAULT_MASTER_KEY));
+  }
+
+  cachedKeys = keys;
+  return keys;
+}
+
+/**
+ * Version of the key used for new encryptions
+ */
+export function getActiveKeyVersion(): number {
+  const versions = Array.from(loadKeys().keys());
+  if (versions.length === 0) {
+    throw new Error('Credential vault is not configured: set VAULT_MASTER_KEY or VAULT_MASTER_KEYS');
+  }
+  return Math.max(...versions);
+}
+
+/**
+ * Check if a stored value was produced by the vault
+ */
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}:v`);
+}
+
+/**
+ * Get the key version tag of a stored value (null for legacy plaintext)
+ */
+export function getKeyVersion(value: string): number | null {
+  if (!isEncrypted(value)) return null;
+  const version = parseInt(value.split(':')[1].substring(1), 10);
+  return isNaN(version) ? null : version;
+}
+
+/**
+ * Encrypt a secret
+ * @param context - Bound into the auth tag, so a value cannot be moved to another field
+ */
+export function encryptSecret(plaintext: string, context: string): string {
+  const version = getActiveKeyVersion();
+  const key = loadKeys().get(version)!;
+  const iv = crypto.randomBytes(IV_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    PREFIX,
+    `v${version}`,
+    iv.toString('base64'),
+    authTag.toString('base64'),
+    ciphertext.toString('base64')
+  ].join(':');
+}
+
+/**
+ * Decrypt a secret. Legacy plaintext values are returned unchanged so existing
+ * rows keep working until they are re-encrypted.
+ */
+export function decryptSecret(stored: string, context: string): string {
+  if (!isEncrypted(stored)) return stored;
+
+  const parts = stored.split(':');
+  if (parts.length !== 5) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const version = getKeyVersion(stored);
+  const key = version !== null ? loadKeys().get(version) : undefined;
+  if (!key) {
+    throw new Error(`Vault key version ${version} is not available`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(parts[2], 'base64'));
+    decipher.setAAD(Buffer.from(context, 'utf8'));
+    decipher.setAuthTag(Buffer.from(parts[3], 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(parts[4], 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  } catch {
+    throw new Error('Failed to decrypt value: wrong key or tampered data');
+  }
+}
+
+/**
+ * Encrypt an optional secret column
+ */
+export function encryptOptional(plaintext: string | null | undefined, context: string): string | null {
+  return plaintext ? encryptSecret(plaintext, context) : null;
+}
+
+/**
+ * Decrypt an optional secret column
+ */
+export function decryptOptional(stored: string | null | undefined, context: string): string | null {
+  return stored ? decryptSecret(stored, context) : null;
+}
+
+/**
+ * Check if a stored value should be re-encrypted with the active key
+ */
+export function needsReEncryption(stored: string | null | undefined): boolean {
+  if (!stored) return false;
+  return getKeyVersion(stored) !== getActiveKeyVersion();
+}
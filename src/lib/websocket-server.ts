@@ -8,7 +8,7 @@ import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 
 // Import PrismaClient directly (websocket-server runs standalone, not through Next.js)
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 const prisma = new PrismaClient();
 
 // Import non-PTY functions from ssh.ts
@@ -30,14 +30,87 @@ import {
   writeToPTYSession,
   resizePTYSession,
   closePTYShellSession,
-  getPTYSessionInfo
+  getPTYSessionInfo,
+  getActivePTYSessions
 } from './ssh-pty';
 
+import { startRecording, recordOutput, recordInput, recordResize, stopRecording } from './session-recorder';
+import { startMetricsCollector, stopMetricsCollector, METRICS_INTERVAL_MS } from './server-metrics';
+import { evaluateAlerts } from './alerts';
+import { notify, checkServerStatusTransitions } from './notifications';
+import { isMetricsTokenValid, getScriptRunCounts } from './prometheus';
+import { handleFileTransferRequest, getMaxUploadBytes } from './file-transfer';
+import {
+  getStagedFile,
+  stageRemoteFile,
+  releaseStagedFile,
+  pushStagedFile,
+  validateDistributionTarget,
+  type DistributionTarget
+} from './file-distribution';
+import { normalizeRemotePath } from './sftp';
+import { DEFAULT_RUN_STRATEGY, validateRunStrategy, runWithStrategy } from './run-strategy';
+import { resolveScriptForRun } from './scripts';
+import { startScriptScheduler, stopScriptScheduler } from './script-schedules';
+import {
+  runbookRoom,
+  startRunbookRun,
+  getRunbookRunState,
+  decideRunbookApproval,
+  cancelRunbookRun,
+  recoverRunbookRuns,
+  stopRunbookRuns
+} from './runbooks';
+import { applyScriptParameters, validateParameterDefinitions, normalizeParameters } from './script-parameters';
+import type {
+  FileDistributionRequest,
+  DistributionProgress,
+  StagedFile,
+  RunStrategy,
+  ScriptParameter,
+  ScriptParameterValues
+} from '@/types';
+
 import { getUserFromToken } from './auth';
-import { preprocessCommand } from './command-middleware';
+import { getSecuritySettings } from './security-settings';
+import { isIpAllowed } from './ip-allowlist';
+import { getHandshakeIp } from './ip-address';
+import { preprocessCommand, loadCommandValidator, getApprovalReason } from './command-middleware';
+import { splitTerminalInput } from './terminal-utils';
+import { requestScriptApproval, getApprovedRun, markApprovalExecuted, type ApprovedRun } from './script-approvals';
+import { createScriptLogWriter, recoverExecutions } from './script-executions';
 
 const PORT = parseInt(process.env.WS_PORT || '3005', 10);
-const httpServer = createServer();
+// Plain HTTP requests (Socket.IO handles its own path): PTY session and script run counts for /api/metrics
+// and streaming file transfers
+const httpServer = createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/metrics/pty') {
+    if (!isMetricsTokenValid(req.headers.authorization || null)) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid metrics token' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ sessions: getActivePTYSessions().length, scriptRuns: getScriptRunCounts() }));
+    return;
+  }
+
+  if (req.url?.startsWith('/files/')) {
+    handleFileTransferRequest(req, res, {
+      isOriginAllowed,
+      emitToSocket: (socketId, userId, event, data) => {
+        const socket = io.sockets.sockets.get(socketId);
+        if (socket?.data.userId === userId) {
+          socket.emit(event, data);
+        }
+      }
+    });
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
 
 const getAllowedOrigins = (): string[] => {
   const origins: string[] = [];
@@ -56,24 +129,22 @@ const getAllowedOrigins = (): string[] => {
   return origins;
 };
 
+function isOriginAllowed(origin: string): boolean {
+  if (getAllowedOrigins().includes(origin)) {
+    return true;
+  }
+  
+  if (origin.includes('pix9.my')) {
+    return true;
+  }
+  
+  return origin.includes('localhost') || origin.includes('127.0.0.1');
+}
+
 const io = new SocketIOServer(httpServer, {
   cors: {
     origin: (origin, callback) => {
-      const allowedOrigins = getAllowedOrigins();
-      
-      if (!origin) {
-        return callback(null, true);
-      }
-      
-      if (allowedOrigins.includes(origin)) {
-        return callback(null, true);
-      }
-      
-      if (origin.includes('pix9.my')) {
-        return callback(null, true);
-      }
-      
-      if (origin.includes('localhost') || origin.includes('127.0.0.1')) {
+      if (!origin || isOriginAllowed(origin)) {
         return callback(null, true);
       }
       
@@ -103,6 +174,11 @@ interface TerminalSession {
   shellSessionId: string;
   isActive: boolean;
   lastActivity: Date;
+  // Policy check of typed lines (PTY): the line so far, input handled in order,
+  // and the Enter held back while the client confirms a line
+  typedLine: string;
+  inputQueue: Promise<void>;
+  pendingEnter: string | null;
 }
 
 const terminalSessions = new Map<string, TerminalSession>();
@@ -116,18 +192,39 @@ interface ScriptExecution {
   command: string;
   servers: number[];
   currentServer: number;
+  strategy: RunStrategy;
   isRunning: boolean;
   abortController: AbortController | null;
   startTime: Date;
+  // Why the run was stopped early, recorded on the Execution
+  cancelReason?: string;
 }
 
+// Keyed by `${userId}:${executionId}`, like file distributions
 const scriptExecutions = new Map<string, ScriptExecution>();
 
+// ==========================================
+// File Distribution Management
+// ==========================================
+interface FileDistribution {
+  userId: number;
+  isRunning: boolean;
+}
+
+const fileDistributions = new Map<string, FileDistribution>();
+
 // ==========================================
 // Authentication Middleware
 // ==========================================
 io.use(async (socket, next) => {
   try {
+    const clientIp = getHandshakeIp(socket.handshake);
+    if (!await isIpAllowed(clientIp)) {
+      console.warn(`WebSocket connection from ${clientIp} rejected by IP allowlist`);
+      return next(new Error('Access denied from this IP address'));
+    }
+    socket.data.clientIp = clientIp;
+
     const token = socket.handshake.auth.token || socket.handshake.query.token;
     
     if (!token) {
@@ -141,6 +238,7 @@ io.use(async (socket, next) => {
 
     socket.data.userId = user.id;
     socket.data.email = user.email;
+    socket.data.name = user.name;
     socket.data.role = user.role; // เพิ่ม role สำหรับตรวจสอบสิทธิ์
     next();
   } catch (error) {
@@ -168,6 +266,22 @@ async function canAccessServer(userId: number, userRole: string, serverId: numbe
   return server?.userId === userId;
 }
 
+// ==========================================
+// Helper function to check the admin 2FA policy
+// ==========================================
+async function meetsTwoFactorPolicy(userId: number, userRole: string): Promise<boolean> {
+  if (userRole !== 'ADMIN') return true;
+
+  const settings = await getSecuritySettings();
+  if (!settings.requireTwoFactorForAdmins) return true;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true },
+  });
+  return !!user?.twoFactorEnabled;
+}
+
 // ==========================================
 // Connection Handler
 // ==========================================
@@ -175,8 +289,9 @@ io.on('connection', (socket) => {
   const userId = socket.data.userId;
   const userEmail = socket.data.email;
   const userRole = socket.data.role;
+  const userName = socket.data.name;
   
-  console.log(`User ${userEmail} (${userRole}) connected from ${socket.handshake.address}`);
+  console.log(`User ${userEmail} (${userRole}) connected from ${socket.data.clientIp}`);
 
   // ==========================================
   // Terminal Connect (PTY Mode)
@@ -201,13 +316,43 @@ io.on('connection', (socket) => {
         return;
       }
 
+      // Admins may be required to enroll in 2FA before opening terminals
+      if (!await meetsTwoFactorPolicy(userId, userRole)) {
+        socket.emit('terminal:error', {
+          error: 'Two-factor authentication is required for administrators. Enable it in your profile settings.'
+        });
+        return;
+      }
+
       const sessionId = `pty-${userId}-${serverId}-${Date.now()}`;
 
       // Create PTY shell session - pass isAdmin flag
       const result = await createPTYShellSession(serverId, userId, sessionId, { cols, rows }, userRole === 'ADMIN');
       
       if (!result.success) {
-        socket.emit('terminal:error', { error: result.error || 'Failed to create PTY session' });
+        socket.emit('terminal:error', {
+          error: result.error || 'Failed to create PTY session',
+          ...(result.details && { details: result.details })
+        });
+        return;
+      }
+
+      // Every PTY session is recorded for auditing - refuse the session if recording fails
+      try {
+        await startRecording(sessionId, {
+          userId,
+          serverId,
+          serverName: server.name,
+          serverHost: server.host,
+          cols,
+          rows,
+          title: `${userEmail}@${server.name}`,
+          clientIp: socket.data.clientIp
+        });
+      } catch (error) {
+        console.error('Failed to start session recording:', error);
+        closePTYShellSession(sessionId);
+        socket.emit('terminal:error', { error: 'Failed to start session recording' });
         return;
       }
 
@@ -216,6 +361,7 @@ io.on('connection', (socket) => {
         sessionId,
         // onData - send PTY output to client
         (data: string) => {
+          recordOutput(sessionId, data);
           socket.emit('terminal:data', {
             sessionId,
             data
@@ -223,12 +369,14 @@ io.on('connection', (socket) => {
         },
         // onClose
         () => {
+          stopRecording(sessionId);
           socket.emit('terminal:closed', { sessionId });
           terminalSessions.delete(sessionId);
         }
       );
 
       if (!handlerSet) {
+        stopRecording(sessionId);
         socket.emit('terminal:error', { error: 'Failed to set up PTY handlers' });
         return;
       }
@@ -240,7 +388,10 @@ io.on('connection', (socket) => {
         sessionType: 'pty',
         shellSessionId: sessionId,
         isActive: true,
-        lastActivity: new Date()
+        lastActivity: new Date(),
+        typedLine: '',
+        inputQueue: Promise.resolve(),
+        pendingEnter: null
       });
 
       socket.join(`terminal-${sessionId}`);
@@ -250,7 +401,8 @@ io.on('connection', (socket) => {
         sessionId, 
         serverName: server.name,
         serverId,
-        currentDir: result.cwd || '~'
+        currentDir: result.cwd || '~',
+        recording: true
       });
 
       console.log(`PTY Terminal session ${sessionId} started for server ${server.name} by ${userEmail} (${userRole})`);
@@ -262,7 +414,68 @@ io.on('connection', (socket) => {
 
   // ==========================================
   // Terminal Input (User typing)
+  // Each line submitted with Enter is checked against the security policy before the
+  // Enter reaches the shell: a blocked line is cleared (Ctrl+U), a line needing
+  // confirmation waits for terminal:confirmed. This is best-effort: lines are tracked
+  // from keystrokes, so a line recalled from history, completed with Tab or edited in
+  // place is checked as typed, not as the shell runs it (see the settings page and README).
   // ==========================================
+  const writeTerminalInput = (sessionId: string, inputData: string) => {
+    recordInput(sessionId, inputData);
+    if (!writeToPTYSession(sessionId, inputData)) {
+      socket.emit('terminal:error', { error: 'Failed to write to terminal' });
+    }
+  };
+
+  const handleTerminalInput = async (sessionId: string, session: TerminalSession, inputData: string) => {
+    // Input while a line waits for confirmation is dropped
+    if (session.pendingEnter !== null) return;
+
+    const { line, parts } = splitTerminalInput(session.typedLine, inputData);
+    session.typedLine = line;
+
+    for (const part of parts) {
+      if (part.submitted === undefined || !part.submitted.trim()) {
+        writeTerminalInput(sessionId, part.data);
+        continue;
+      }
+
+      const validator = await loadCommandValidator();
+      const validation = validator.validate(part.submitted, userId, session.serverId);
+      const beforeEnter = part.data.slice(0, -1);
+
+      if (!validation.allowed) {
+        validator.logCommand(part.submitted, userId, session.serverId, 'blocked', { reason: validation.warning });
+        writeTerminalInput(sessionId, beforeEnter + '\x15');
+        socket.emit('terminal:error', { error: validation.warning || 'Command is not allowed by the security policy' });
+        session.typedLine = '';
+        return;
+      }
+
+      // The terminal cannot wait for approval, so only admins can run such commands here
+      const approvalReason = getApprovalReason({ role: userRole }, null, part.submitted, validator);
+      if (approvalReason) {
+        validator.logCommand(part.submitted, userId, session.serverId, 'blocked', { reason: approvalReason });
+        writeTerminalInput(sessionId, beforeEnter + '\x15');
+        socket.emit('terminal:error', {
+          error: `${approvalReason}. Only an admin can run it here; request approval from the script runner`
+        });
+        session.typedLine = '';
+        return;
+      }
+
+      if (validation.requiresConfirmation) {
+        writeTerminalInput(sessionId, beforeEnter);
+        session.pendingEnter = part.data.slice(-1);
+        socket.emit('terminal:confirm', { sessionId, command: part.submitted, warning: validation.warning });
+        session.typedLine = '';
+        return;
+      }
+
+      writeTerminalInput(sessionId, part.data);
+    }
+  };
+
   socket.on('terminal:input', (data: { sessionId: string; data: string }) => {
     try {
       const { sessionId, data: inputData } = data;
@@ -274,19 +487,30 @@ io.on('connection', (socket) => {
       }
 
       session.lastActivity = new Date();
-
-      // Write to PTY
-      const success = writeToPTYSession(sessionId, inputData);
-      
-      if (!success) {
-        socket.emit('terminal:error', { error: 'Failed to write to terminal' });
-      }
+      session.inputQueue = session.inputQueue
+        .then(() => handleTerminalInput(sessionId, session, inputData))
+        .catch(error => {
+          console.error('Terminal input error:', error);
+          socket.emit('terminal:error', { error: 'Failed to send input' });
+        });
     } catch (error) {
       console.error('Terminal input error:', error);
       socket.emit('terminal:error', { error: 'Failed to send input' });
     }
   });
 
+  // Answer to terminal:confirm: send the held Enter, or clear the line
+  socket.on('terminal:confirmed', (data: { sessionId: string; confirmed: boolean }) => {
+    const session = terminalSessions.get(data?.sessionId);
+    if (!session || !session.isActive || session.userId !== userId || session.pendingEnter === null) return;
+
+    const enter = session.pendingEnter;
+    session.pendingEnter = null;
+    session.inputQueue = session.inputQueue.then(() => {
+      writeTerminalInput(data.sessionId, data.confirmed ? enter : '\x15');
+    });
+  });
+
   // ==========================================
   // Terminal Resize
   // ==========================================
@@ -300,6 +524,7 @@ io.on('connection', (socket) => {
       }
 
       resizePTYSession(sessionId, cols, rows);
+      recordResize(sessionId, cols, rows);
     } catch (error) {
       console.error('Terminal resize error:', error);
     }
@@ -318,6 +543,7 @@ io.on('connection', (socket) => {
         
         if (session.sessionType === 'pty') {
           closePTYShellSession(sessionId);
+          stopRecording(sessionId);
         } else {
           closeShellSession(session.shellSessionId);
         }
@@ -336,9 +562,9 @@ io.on('connection', (socket) => {
   // ==========================================
   // Legacy Terminal Command (for backward compatibility)
   // ==========================================
-  socket.on('terminal:command', async (data: { sessionId: string; command: string }) => {
+  socket.on('terminal:command', async (data: { sessionId: string; command: string; confirmed?: boolean }) => {
     try {
-      const { sessionId, command } = data;
+      const { sessionId, command, confirmed } = data;
       const session = terminalSessions.get(sessionId);
 
       if (!session || !session.isActive) {
@@ -348,6 +574,32 @@ io.on('connection', (socket) => {
 
       session.lastActivity = new Date();
 
+      // Security policy check; commands needing confirmation are sent back to the client
+      if (command.trim()) {
+        const validator = await loadCommandValidator();
+        const validation = validator.validate(command, userId, session.serverId);
+
+        if (!validation.allowed) {
+          validator.logCommand(command, userId, session.serverId, 'blocked', { reason: validation.warning });
+          socket.emit('terminal:error', { error: validation.warning || 'Command is not allowed by the security policy' });
+          return;
+        }
+
+        const approvalReason = getApprovalReason({ role: userRole }, null, command, validator);
+        if (approvalReason) {
+          validator.logCommand(command, userId, session.serverId, 'blocked', { reason: approvalReason });
+          socket.emit('terminal:error', {
+            error: `${approvalReason}. Only an admin can run it here; request approval from the script runner`
+          });
+          return;
+        }
+
+        if (validation.requiresConfirmation && !confirmed) {
+          socket.emit('terminal:confirm', { sessionId, command, warning: validation.warning });
+          return;
+        }
+      }
+
       // For PTY sessions, just write the command + enter
       if (session.sessionType === 'pty') {
         writeToPTYSession(sessionId, command + '\r');
@@ -403,14 +655,51 @@ io.on('connection', (socket) => {
   // ==========================================
   socket.on('script:run', async (data: { 
     scriptId?: number; 
+    scriptVersion?: number;
     scriptName?: string;
     command?: string;
+    parameterDefinitions?: ScriptParameter[];
+    parameters?: ScriptParameterValues;
     serverIds: number[]; 
-    executionId?: string 
+    executionId?: string;
+    confirmed?: boolean;
+    strategy?: RunStrategy;
+    approvalId?: number;
   }) => {
+    // Persisted Execution, once the run has started
+    let executionRecordId: number | null = null;
+
     try {
-      const { scriptId, scriptName, command, serverIds, executionId } = data;
+      // An approved request runs exactly as it was submitted for approval
+      let request = data;
+      let approvedRun: ApprovedRun | null = null;
+      if (data.approvalId !== undefined) {
+        const loaded = await getApprovedRun(data.approvalId, { id: userId, role: userRole });
+        if (typeof loaded === 'string') {
+          socket.emit('script:error', { executionId: data.executionId, error: loaded });
+          return;
+        }
+        approvedRun = loaded;
+        request = {
+          scriptId: loaded.scriptId ?? undefined,
+          scriptVersion: loaded.scriptVersion ?? undefined,
+          scriptName: loaded.scriptName,
+          command: loaded.command,
+          parameterDefinitions: loaded.parameterDefinitions,
+          parameters: loaded.parameters,
+          serverIds: loaded.serverIds,
+          strategy: loaded.strategy,
+          executionId: data.executionId,
+          // The approver saw the policy warning the requester confirmed
+          confirmed: true
+        };
+      }
+
+      const { scriptId, scriptName, command, serverIds, executionId, confirmed } = request;
       const execId = executionId || `exec-${userId}-${Date.now()}`;
+      // Client-chosen ids are only unique per user
+      const execKey = `${userId}:${execId}`;
+      const strategy = request.strategy || DEFAULT_RUN_STRATEGY;
 
       console.log(`Script execution requested by ${userEmail} (${userRole}): scriptName=${scriptName}, servers=${serverIds?.join(',')}`);
 
@@ -422,11 +711,37 @@ io.on('connection', (socket) => {
 
       let finalCommand: string;
       let finalScriptName: string;
+      // Saved script version that runs, recorded on each ScriptLog
+      let scriptRef: { scriptId: number; scriptVersionId: number } | null = null;
+      let scriptVersion: number | undefined;
+      let scriptRequiresApproval = false;
+      let parameterDefinitions: ScriptParameter[] = [];
+
+      if (scriptId !== undefined) {
+        // Saved script - the requested version, or the latest
+        const resolved = await resolveScriptForRun(scriptId, { id: userId, role: userRole }, request.scriptVersion);
+        if (typeof resolved === 'string') {
+          socket.emit('script:error', { executionId: execId, error: resolved });
+          return;
+        }
 
-      if (command && scriptName) {
+        finalCommand = resolved.version.command;
+        finalScriptName = resolved.script.name;
+        scriptRef = { scriptId: resolved.script.id, scriptVersionId: resolved.version.id };
+        scriptVersion = resolved.version.version;
+        scriptRequiresApproval = resolved.script.requiresApproval;
+        parameterDefinitions = resolved.version.parameters;
+      } else if (command && scriptName) {
         // แบบใหม่ - ใช้ command โดยตรงจากหน้า Scripts
+        const parametersError = validateParameterDefinitions(request.parameterDefinitions, command);
+        if (parametersError) {
+          socket.emit('script:error', { executionId: execId, error: parametersError });
+          return;
+        }
+
         finalCommand = command;
         finalScriptName = scriptName;
+        parameterDefinitions = normalizeParameters(request.parameterDefinitions);
       } else {
         socket.emit('script:error', { 
           executionId: execId, 
@@ -441,6 +756,53 @@ io.on('connection', (socket) => {
         return;
       }
 
+      const strategyError = validateRunStrategy(strategy);
+      if (strategyError) {
+        socket.emit('script:error', { executionId: execId, error: strategyError });
+        return;
+      }
+
+      // Substitute typed parameters; secrets are masked in everything that is logged
+      const applied = applyScriptParameters(finalCommand, parameterDefinitions, request.parameters);
+      if (typeof applied === 'string') {
+        socket.emit('script:error', { executionId: execId, error: applied });
+        return;
+      }
+      const { command: runCommand, displayCommand, secrets } = applied;
+
+      // Security policy check; commands needing confirmation are sent back to the client,
+      // which re-emits script:run with confirmed: true
+      const validator = await loadCommandValidator();
+      const validation = validator.validate(runCommand, userId, 0);
+
+      if (!validation.allowed) {
+        validator.logCommand(displayCommand, userId, 0, 'blocked', { reason: validation.warning, serverIds });
+        socket.emit('script:error', {
+          executionId: execId,
+          error: validation.warning || 'Command is not allowed by the security policy'
+        });
+        return;
+      }
+
+      if (validation.requiresConfirmation && !confirmed) {
+        socket.emit('script:confirm', {
+          executionId: execId,
+          // Pin the version so the confirmed run is the command that was shown
+          scriptId,
+          scriptVersion,
+          scriptName: finalScriptName,
+          // The command as submitted (with placeholders) to re-emit, and what will run
+          command: finalCommand,
+          displayCommand,
+          parameterDefinitions: scriptRef ? undefined : parameterDefinitions,
+          parameters: request.parameters,
+          serverIds,
+          strategy,
+          warning: validation.warning
+        });
+        return;
+      }
+
       // Get servers - ADMIN can access all servers, DEVELOPER only their own
       let servers;
       if (userRole === 'ADMIN') {
@@ -465,39 +827,105 @@ io.on('connection', (socket) => {
         return;
       }
 
+      // High-risk runs by non-admins are queued until an admin approves them
+      const approvalReason = approvedRun ? null : getApprovalReason(
+        { role: userRole },
+        scriptRef ? { requiresApproval: scriptRequiresApproval } : null,
+        runCommand,
+        validator
+      );
+      if (approvalReason) {
+        const approval = await requestScriptApproval({
+          scriptId: scriptRef?.scriptId ?? null,
+          scriptVersion: scriptVersion ?? null,
+          scriptName: finalScriptName,
+          command: finalCommand,
+          displayCommand,
+          parameterDefinitions,
+          parameters: request.parameters || {},
+          serverIds: servers.map(s => s.id),
+          strategy,
+          reason: approvalReason,
+          warning: validation.requiresConfirmation ? validation.warning : undefined
+        }, { id: userId, email: userEmail });
+
+        console.log(`Script "${finalScriptName}" by ${userEmail} queued for approval (#${approval.id}): ${approvalReason}`);
+        socket.emit('script:approval-required', {
+          executionId: execId,
+          approvalId: approval.id,
+          scriptName: finalScriptName,
+          reason: approvalReason
+        });
+        return;
+      }
+
+
+      const startTime = new Date();
+
+      // The persisted run owning each server's ScriptLog; the client's executionId names one run
+      const executionRecord = await prisma.execution.create({
+        data: {
+          executionKey: execId,
+          scriptName: finalScriptName,
+          command: displayCommand,
+          scriptId: scriptRef?.scriptId,
+          scriptVersionId: scriptRef?.scriptVersionId,
+          approvalId: approvedRun?.approvalId,
+          strategy: strategy as unknown as Prisma.InputJsonObject,
+          serverCount: servers.length,
+          userId,
+          startTime
+        }
+      }).catch(error => {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null;
+        throw error;
+      });
+
+      if (!executionRecord) {
+        socket.emit('script:error', { executionId: execId, error: 'This execution ID has already been used' });
+        return;
+      }
+      executionRecordId = executionRecord.id;
+
+      if (approvedRun && !(await markApprovalExecuted(approvedRun.approvalId))) {
+        await prisma.execution.delete({ where: { id: executionRecord.id } });
+        executionRecordId = null;
+        socket.emit('script:error', { executionId: execId, error: 'The request has already been run or its approval has expired' });
+        return;
+      }
+
       // Create execution record
-      scriptExecutions.set(execId, {
+      const execution: ScriptExecution = {
         userId,
         scriptName: finalScriptName,
-        command: finalCommand,
+        command: displayCommand,
         servers: serverIds,
         currentServer: 0,
+        strategy,
         isRunning: true,
         abortController: new AbortController(),
-        startTime: new Date()
-      });
+        startTime
+      };
+      scriptExecutions.set(execKey, execution);
 
       // Emit script started - ส่งข้อมูล servers ไปด้วย
       socket.emit('script:started', { 
         executionId: execId,
         scriptName: finalScriptName,
         serverCount: servers.length,
-        servers: servers.map(s => ({ id: s.id, name: s.name }))
+        servers: servers.map(s => ({ id: s.id, name: s.name })),
+        strategy
       });
 
-      console.log(`Script "${finalScriptName}" started on ${servers.length} servers by ${userEmail} (${userRole})`);
+      console.log(`Script "${finalScriptName}" started on ${servers.length} servers by ${userEmail} (${userRole}), strategy=${strategy.mode}`);
 
       let successCount = 0;
       let failedCount = 0;
 
-      // Execute on each server
-      for (const server of servers) {
-        const execution = scriptExecutions.get(execId);
-        if (!execution || !execution.isRunning) {
-          console.log(`Script execution ${execId} was cancelled`);
-          break;
-        }
+      const isCancelled = () => !execution.isRunning;
 
+      // Execute on one server; resolves true on exit code 0
+      const runOnServer = async (server: typeof servers[number]): Promise<boolean> => {
         // Emit progress - connecting
         socket.emit('script:progress', {
           executionId: execId,
@@ -507,6 +935,32 @@ io.on('connection', (socket) => {
           isComplete: false
         });
 
+        const startTime = new Date();
+
+        const scriptLog = await prisma.scriptLog.create({
+          data: {
+            scriptName: finalScriptName,
+            command: displayCommand,
+            status: 'RUNNING',
+            userId,
+            serverId: server.id,
+            serverName: server.name,
+            serverHost: server.host,
+            startTime,
+            executionId: executionRecord.id,
+            ...scriptRef,
+            ...(approvedRun && { approvalId: approvedRun.approvalId, approvedById: approvedRun.approvedById })
+          }
+        }).catch(error => {
+          console.error('Failed to create script log:', error);
+          return null;
+        });
+
+        // Output is written while it streams, so a restart keeps what was received
+        const logWriter = createScriptLogWriter(scriptLog?.id ?? null, secrets);
+        const finishScriptLog = (success: boolean, error?: string) =>
+          logWriter.finish(isCancelled() ? 'CANCELLED' : success ? 'SUCCESS' : 'FAILED', startTime, error);
+
         try {
           let exitCode = 0;
           
@@ -514,13 +968,14 @@ io.on('connection', (socket) => {
           await executeCommandStreaming(
             server.id,
             userId,
-            finalCommand,
+            runCommand,
             (type, streamData) => {
               // Check if still running
-              const exec = scriptExecutions.get(execId);
-              if (!exec || !exec.isRunning) return;
+              if (!execution.isRunning) return;
 
               if (type === 'stdout' || type === 'stderr') {
+                logWriter.append(type, streamData as string);
+
                 // Stream data to client in real-time
                 socket.emit('script:stream', {
                   executionId: execId,
@@ -539,6 +994,7 @@ io.on('connection', (socket) => {
           );
 
           const success = exitCode === 0;
+          finishScriptLog(success);
           if (success) {
             successCount++;
           } else {
@@ -556,11 +1012,13 @@ io.on('connection', (socket) => {
           });
 
           console.log(`Server ${server.name}: ${success ? 'success' : 'failed'} (exit: ${exitCode})`);
+          return success;
 
         } catch (error) {
           failedCount++;
           
           const errorMessage = error instanceof Error ? error.message : 'Execution failed';
+          finishScriptLog(false, errorMessage);
           
           // Emit progress - error
           socket.emit('script:progress', {
@@ -573,11 +1031,58 @@ io.on('connection', (socket) => {
           });
 
           console.error(`Server ${server.name} error:`, errorMessage);
+          return false;
         }
+      };
+
+      const { stoppedReason, skipped } = await runWithStrategy(servers, strategy, runOnServer, {
+        isCancelled,
+        onBatch: (batch, totalBatches, batchServers) => {
+          if (totalBatches > 1) {
+            socket.emit('script:batch', {
+              executionId: execId,
+              batch,
+              totalBatches,
+              serverIds: batchServers.map(s => s.id)
+            });
+          }
+        }
+      });
+
+      if (stoppedReason) {
+        console.log(`Script execution ${execId}: ${stoppedReason}`);
+      }
+
+      // Servers that never started because of a failure threshold or cancel
+      for (const server of skipped) {
+        socket.emit('script:progress', {
+          executionId: execId,
+          serverId: server.id,
+          serverName: server.name,
+          status: 'skipped',
+          error: stoppedReason || 'Skipped',
+          isComplete: true
+        });
       }
 
       // Cleanup
-      scriptExecutions.delete(execId);
+      scriptExecutions.delete(execKey);
+
+      const cancelled = isCancelled();
+      await prisma.execution.update({
+        where: { id: executionRecord.id },
+        data: {
+          status: cancelled ? 'CANCELLED' : failedCount > 0 ? 'FAILED' : 'SUCCESS',
+          successCount,
+          failedCount,
+          skippedCount: skipped.length,
+          stoppedReason: (cancelled && execution.cancelReason) || stoppedReason,
+          endTime: new Date(),
+          duration: Math.floor((Date.now() - execution.startTime.getTime()) / 1000)
+        }
+      }).catch(error => {
+        console.error('Failed to update execution:', error);
+      });
       
       // Emit completed
       socket.emit('script:completed', { 
@@ -585,13 +1090,47 @@ io.on('connection', (socket) => {
         scriptName: finalScriptName,
         totalServers: servers.length,
         successCount,
-        failedCount
+        failedCount,
+        skippedCount: skipped.length,
+        stoppedReason,
+        strategy
       });
 
-      console.log(`Script "${finalScriptName}" completed: ${successCount} success, ${failedCount} failed`);
+      console.log(`Script "${finalScriptName}" completed: ${successCount} success, ${failedCount} failed, ${skipped.length} skipped`);
+
+      notify({
+        event: failedCount > 0 ? 'SCRIPT_FAILED' : 'SCRIPT_COMPLETED',
+        title: failedCount > 0
+          ? `Script "${finalScriptName}" failed on ${failedCount} of ${servers.length} servers`
+          : `Script "${finalScriptName}" completed`,
+        message: `${successCount} succeeded, ${failedCount} failed${skipped.length > 0 ? `, ${skipped.length} skipped` : ''}. Run by ${userEmail}.`,
+        severity: failedCount > 0 ? 'warning' : 'info',
+        data: {
+          executionId: execId,
+          scriptName: finalScriptName,
+          user: userEmail,
+          totalServers: servers.length,
+          successCount,
+          failedCount,
+          skippedCount: skipped.length,
+          strategy: strategy.mode
+        }
+      });
 
     } catch (error) {
       console.error('Script execution error:', error);
+      if (executionRecordId !== null) {
+        await prisma.execution.update({
+          where: { id: executionRecordId },
+          data: {
+            status: 'FAILED',
+            stoppedReason: error instanceof Error ? error.message : 'Script execution failed',
+            endTime: new Date()
+          }
+        }).catch(updateError => {
+          console.error('Failed to update execution:', updateError);
+        });
+      }
       socket.emit('script:error', { 
         error: error instanceof Error ? error.message : 'Script execution failed' 
       });
@@ -604,14 +1143,16 @@ io.on('connection', (socket) => {
   socket.on('script:cancel', (data: { executionId: string }) => {
     try {
       const { executionId } = data;
-      const execution = scriptExecutions.get(executionId);
+      const execKey = `${userId}:${executionId}`;
+      const execution = scriptExecutions.get(execKey);
 
       if (execution && execution.userId === userId) {
         execution.isRunning = false;
+        execution.cancelReason = 'Cancelled by the user';
         if (execution.abortController) {
           execution.abortController.abort();
         }
-        scriptExecutions.delete(executionId);
+        scriptExecutions.delete(execKey);
         
         socket.emit('script:cancelled', { executionId });
         console.log(`Script execution ${executionId} cancelled by user`);
@@ -621,6 +1162,305 @@ io.on('connection', (socket) => {
     }
   });
 
+  // ==========================================
+  // Runbooks (the run continues when this socket disconnects;
+  // progress goes to every socket watching the run)
+  // ==========================================
+  socket.on('runbook:run', async (data: { runbookId: number; confirmed?: boolean }) => {
+    const runbookId = data?.runbookId;
+
+    try {
+      const result = await startRunbookRun(
+        runbookId,
+        { id: userId, role: userRole, email: userEmail },
+        !!data.confirmed,
+        (runId, event, payload) => io.to(runbookRoom(runId)).emit(event, payload)
+      );
+
+      if ('error' in result) {
+        socket.emit('runbook:error', { runbookId, error: result.error });
+        return;
+      }
+
+      // Steps needing confirmation are sent back; the client re-emits with confirmed: true
+      if ('warnings' in result) {
+        socket.emit('runbook:confirm', { runbookId, warnings: result.warnings });
+        return;
+      }
+
+      socket.join(runbookRoom(result.run.id));
+      socket.emit('runbook:started', { runbookId, runId: result.run.id });
+    } catch (error) {
+      console.error('Runbook run error:', error);
+      socket.emit('runbook:error', {
+        runbookId,
+        error: error instanceof Error ? error.message : 'Failed to start runbook'
+      });
+    }
+  });
+
+  socket.on('runbook:watch', async (data: { runId: number }) => {
+    try {
+      const state = await getRunbookRunState(data?.runId, { id: userId, role: userRole });
+      if (!state) {
+        socket.emit('runbook:error', { runId: data?.runId, error: 'Run not found' });
+        return;
+      }
+
+      socket.join(runbookRoom(state.run.id));
+      socket.emit('runbook:update', state.run);
+      // Output so far, replacing what the client has for these steps and servers
+      socket.emit('runbook:output', { runId: state.run.id, output: state.output });
+    } catch (error) {
+      console.error('Runbook watch error:', error);
+      socket.emit('runbook:error', { runId: data?.runId, error: 'Failed to load run' });
+    }
+  });
+
+  socket.on('runbook:unwatch', (data: { runId: number }) => {
+    socket.leave(runbookRoom(data?.runId));
+  });
+
+  socket.on('runbook:approval', (data: { runId: number; step: number; approved: boolean; comment?: string }) => {
+    const error = decideRunbookApproval(
+      data?.runId,
+      data?.step,
+      { id: userId, role: userRole, name: userName },
+      data?.approved === true,
+      data?.comment
+    );
+    if (error) {
+      socket.emit('runbook:error', { runId: data?.runId, error });
+      return;
+    }
+    console.log(`Runbook run ${data.runId} step ${data.step + 1} ${data.approved ? 'approved' : 'rejected'} by ${userEmail}`);
+  });
+
+  socket.on('runbook:cancel', (data: { runId: number }) => {
+    const error = cancelRunbookRun(data?.runId, { id: userId, role: userRole, name: userName });
+    if (error) {
+      socket.emit('runbook:error', { runId: data?.runId, error });
+      return;
+    }
+    console.log(`Runbook run ${data.runId} cancelled by ${userEmail}`);
+  });
+
+  // ==========================================
+  // File Distribution (one staged file to many servers)
+  // ==========================================
+  socket.on('file:distribute', async (data: FileDistributionRequest) => {
+    const distId = data?.distributionId || `dist-${userId}-${Date.now()}`;
+    // Client-chosen ids are only unique per user
+    const distKey = `${userId}:${distId}`;
+    // Files copied from a server are staged for this run only; uploads stay staged for retries
+    let remoteStageId: string | null = null;
+
+    try {
+      const { source, targetPath, serverIds, owner, group, mode } = data;
+
+      console.log(`File distribution requested by ${userEmail} (${userRole}): target=${targetPath}, servers=${serverIds?.join(',')}`);
+
+      if (!serverIds || !Array.isArray(serverIds) || serverIds.length === 0) {
+        socket.emit('distribute:error', { distributionId: distId, error: 'No servers specified' });
+        return;
+      }
+
+      const target: DistributionTarget = {
+        path: targetPath,
+        owner: owner || undefined,
+        group: group || undefined,
+        mode: mode || undefined
+      };
+      const targetError = validateDistributionTarget(target);
+      if (targetError) {
+        socket.emit('distribute:error', { distributionId: distId, error: targetError });
+        return;
+      }
+
+      // ADMIN can use any server, DEVELOPER only their own
+      const servers = await prisma.server.findMany({
+        where: {
+          id: { in: serverIds },
+          ...(userRole !== 'ADMIN' && { userId })
+        },
+      });
+
+      if (servers.length === 0) {
+        socket.emit('distribute:error', { distributionId: distId, error: 'No valid servers found' });
+        return;
+      }
+
+      let staged: StagedFile | null = null;
+      if (source?.type === 'local') {
+        staged = getStagedFile(source.stageId, userId);
+      } else if (source?.type === 'remote') {
+        const sourcePath = normalizeRemotePath(source.path);
+        if (!sourcePath) {
+          socket.emit('distribute:error', { distributionId: distId, error: 'Source path must be absolute' });
+          return;
+        }
+        if (!await canAccessServer(userId, userRole, source.serverId)) {
+          socket.emit('distribute:error', { distributionId: distId, error: 'Access denied to the source server' });
+          return;
+        }
+
+        staged = await stageRemoteFile(source.serverId, userId, userRole === 'ADMIN', sourcePath, await getMaxUploadBytes());
+        remoteStageId = staged.stageId;
+      }
+
+      if (!staged) {
+        socket.emit('distribute:error', { distributionId: distId, error: 'Source file not found, upload it again' });
+        return;
+      }
+
+      fileDistributions.set(distKey, { userId, isRunning: true });
+
+      socket.emit('distribute:started', {
+        distributionId: distId,
+        fileName: staged.name,
+        size: staged.size,
+        checksum: staged.checksum,
+        serverCount: servers.length,
+        servers: servers.map(s => ({ id: s.id, name: s.name }))
+      });
+
+      console.log(`Distributing "${staged.name}" to ${servers.length} servers by ${userEmail} (${userRole})`);
+
+      let successCount = 0;
+      let failedCount = 0;
+
+      for (const server of servers) {
+        const distribution = fileDistributions.get(distKey);
+        if (!distribution || !distribution.isRunning) {
+          console.log(`File distribution ${distId} was cancelled`);
+          break;
+        }
+
+        const progress = (update: Partial<DistributionProgress>) => {
+          socket.emit('distribute:progress', {
+            distributionId: distId,
+            serverId: server.id,
+            serverName: server.name,
+            status: 'running',
+            isComplete: false,
+            ...update
+          });
+        };
+
+        progress({ transferred: 0, total: staged.size });
+
+        try {
+          const result = await pushStagedFile(
+            server.id,
+            userId,
+            userRole === 'ADMIN',
+            staged.stageId,
+            target,
+            transferred => progress(transferred === null
+              ? { status: 'verifying', transferred: staged!.size, total: staged!.size }
+              : { transferred, total: staged!.size })
+          );
+
+          successCount++;
+          progress({
+            status: 'success',
+            path: result.path,
+            checksum: result.checksum,
+            transferred: staged.size,
+            total: staged.size,
+            isComplete: true
+          });
+
+          await prisma.serverLog.create({
+            data: {
+              serverId: server.id,
+              logType: 'COMMAND',
+              message: `File distributed by ${userEmail}: ${result.path} (${staged.size} bytes)`,
+              data: {
+                event: 'FILE_DISTRIBUTE',
+                distributionId: distId,
+                path: result.path,
+                size: staged.size,
+                checksum: result.checksum,
+                ...(target.owner && { owner: target.owner }),
+                ...(target.group && { group: target.group }),
+                ...(target.mode && { mode: target.mode }),
+                success: true,
+                userId
+              }
+            }
+          });
+
+          console.log(`Server ${server.name}: distributed to ${result.path}`);
+
+        } catch (error) {
+          failedCount++;
+
+          const errorMessage = error instanceof Error ? error.message : 'Distribution failed';
+          progress({ status: 'failed', error: errorMessage, isComplete: true });
+
+          await prisma.serverLog.create({
+            data: {
+              serverId: server.id,
+              logType: 'ERROR',
+              message: `File distribution by ${userEmail} failed: ${target.path} (${errorMessage})`,
+              data: {
+                event: 'FILE_DISTRIBUTE',
+                distributionId: distId,
+                path: target.path,
+                size: staged.size,
+                checksum: staged.checksum,
+                success: false,
+                error: errorMessage,
+                userId
+              }
+            }
+          }).catch(logError => console.error('Failed to log file distribution:', logError));
+
+          console.error(`Server ${server.name} distribution error:`, errorMessage);
+        }
+      }
+
+      fileDistributions.delete(distKey);
+
+      socket.emit('distribute:completed', {
+        distributionId: distId,
+        fileName: staged.name,
+        totalServers: servers.length,
+        successCount,
+        failedCount
+      });
+
+      console.log(`File distribution "${staged.name}" completed: ${successCount} success, ${failedCount} failed`);
+
+    } catch (error) {
+      console.error('File distribution error:', error);
+      fileDistributions.delete(distKey);
+      socket.emit('distribute:error', {
+        distributionId: distId,
+        error: error instanceof Error ? error.message : 'File distribution failed'
+      });
+    } finally {
+      if (remoteStageId) {
+        releaseStagedFile(remoteStageId);
+      }
+    }
+  });
+
+  // ==========================================
+  // File Distribution Cancel
+  // ==========================================
+  socket.on('distribute:cancel', (data: { distributionId: string }) => {
+    const distribution = fileDistributions.get(`${userId}:${data?.distributionId}`);
+
+    // Stops before the next server; the upload in progress finishes
+    if (distribution && distribution.userId === userId) {
+      distribution.isRunning = false;
+      socket.emit('distribute:cancelled', { distributionId: data.distributionId });
+      console.log(`File distribution ${data.distributionId} cancelled by user`);
+    }
+  });
+
   // ==========================================
   // Disconnect Handler
   // ==========================================
@@ -632,6 +1472,7 @@ io.on('connection', (socket) => {
       if (session.userId === userId) {
         if (session.sessionType === 'pty') {
           closePTYShellSession(sessionId);
+          stopRecording(sessionId);
         } else {
           closeShellSession(session.shellSessionId);
         }
@@ -640,13 +1481,21 @@ io.on('connection', (socket) => {
     }
 
     // Cleanup script executions
-    for (const [execId, execution] of scriptExecutions.entries()) {
+    for (const [execKey, execution] of scriptExecutions.entries()) {
       if (execution.userId === userId) {
         execution.isRunning = false;
+        execution.cancelReason = 'Cancelled: the browser disconnected';
         if (execution.abortController) {
           execution.abortController.abort();
         }
-        scriptExecutions.delete(execId);
+        scriptExecutions.delete(execKey);
+      }
+    }
+
+    // Stop file distributions before their next server
+    for (const distribution of fileDistributions.values()) {
+      if (distribution.userId === userId) {
+        distribution.isRunning = false;
       }
     }
   });
@@ -679,6 +1528,14 @@ setInterval(() => {
 // ==========================================
 httpServer.listen(PORT, () => {
   console.log(`🚀 WebSocket server running on port ${PORT}`);
+  // Samples older than two collection rounds are too stale to alert on
+  startMetricsCollector(async () => {
+    await evaluateAlerts(METRICS_INTERVAL_MS * 2);
+    await checkServerStatusTransitions();
+  });
+  startScriptScheduler();
+  recoverRunbookRuns();
+  recoverExecutions();
 });
 
 // ==========================================
@@ -686,11 +1543,15 @@ httpServer.listen(PORT, () => {
 // ==========================================
 process.on('SIGINT', async () => {
   console.log('Shutting down WebSocket server...');
+  stopMetricsCollector();
+  stopScriptScheduler();
+  stopRunbookRuns();
   
   // Close all terminal sessions
   for (const [sessionId, session] of terminalSessions.entries()) {
     if (session.sessionType === 'pty') {
       closePTYShellSession(sessionId);
+      await stopRecording(sessionId);
     } else {
       closeShellSession(session.shellSessionId);
     }
@@ -704,10 +1565,14 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   console.log('Received SIGTERM, shutting down...');
+  stopMetricsCollector();
+  stopScriptScheduler();
+  stopRunbookRuns();
   
   for (const [sessionId, session] of terminalSessions.entries()) {
     if (session.sessionType === 'pty') {
       closePTYShellSession(sessionId);
+      await stopRecording(sessionId);
     } else {
       closeShellSession(session.shellSessionId);
     }
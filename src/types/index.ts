@@ -5,8 +5,12 @@ export interface User {
   name: string;
   role: 'ADMIN' | 'DEVELOPER';
   isActive: boolean;
+  twoFactorEnabled?: boolean;
   createdAt: string;
   updatedAt: string;
+  // Only included in admin user listings
+  failedLoginAttempts?: number;
+  lockedUntil?: string;
 }
 
 export interface LoginCredentials {
@@ -14,6 +18,32 @@ export interface LoginCredentials {
   password: string;
 }
 
+// Second login step for accounts with two-factor authentication
+export interface TwoFactorLoginData {
+  challengeToken: string;
+  code: string;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Setup started but not yet confirmed with a code
+  pending: boolean;
+  recoveryCodesRemaining: number;
+  enrollmentAllowed: boolean;
+  // Required by policy before this user can open terminals
+  required: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
 export interface RegisterData {
   email: string;
   password: string;
@@ -28,6 +58,7 @@ export interface Server {
   host: string;
   port: number;
   username: string;
+  authMethod: SSHAuthMethod;
   password?: string;
   isActive: boolean;
   status: ServerStatus;
@@ -36,6 +67,9 @@ export interface Server {
   createdAt: string;
   updatedAt: string;
   userId: number;
+  jumpHostId?: number | null;
+  jumpHost?: { id: number; name: string } | null;
+  tags?: string[];
 }
 
 export interface CreateServerData {
@@ -43,7 +77,12 @@ export interface CreateServerData {
   host: string;
   port?: number;
   username: string;
-  password: string;
+  authMethod?: SSHAuthMethod;
+  password?: string;
+  privateKey?: string;
+  passphrase?: string;
+  jumpHostId?: number | null;
+  tags?: string[];
 }
 
 export interface UpdateServerData {
@@ -51,12 +90,32 @@ export interface UpdateServerData {
   host?: string;
   port?: number;
   username?: string;
+  authMethod?: SSHAuthMethod;
   password?: string;
+  privateKey?: string;
+  passphrase?: string;
+  // null removes the jump host
+  jumpHostId?: number | null;
+  tags?: string[];
   isActive?: boolean;
 }
 
 export type ServerStatus = 'CONNECTED' | 'DISCONNECTED' | 'ERROR' | 'CONNECTING';
 
+export type SSHAuthMethod = 'PASSWORD' | 'PRIVATE_KEY';
+
+export interface HostKeyInfo {
+  serverId: number;
+  serverName: string;
+  host: string;
+  port: number;
+  fingerprint?: string;
+  keyType?: string;
+  verifiedAt?: string;
+  pendingFingerprint?: string;
+  pendingKeyType?: string;
+}
+
 export interface SystemInfo {
   os: string;
   arch: string;
@@ -87,6 +146,7 @@ export interface QuickCommand {
   category?: string;
   color?: string;
   icon?: string;
+  parameters?: ScriptParameter[];
   sortOrder: number;
   isActive: boolean;
   userId: number;
@@ -101,6 +161,7 @@ export interface CreateQuickCommandData {
   category?: string;
   color?: string;
   icon?: string;
+  parameters?: ScriptParameter[];
   sortOrder?: number;
 }
 
@@ -111,6 +172,7 @@ export interface UpdateQuickCommandData {
   category?: string;
   color?: string;
   icon?: string;
+  parameters?: ScriptParameter[];
   sortOrder?: number;
   isActive?: boolean;
 }
@@ -127,16 +189,350 @@ export interface ScriptLog {
   endTime?: string;
   duration?: number;
   userId: number;
-  serverId: number;
+  // Unset once the server is deleted; serverName and serverHost are kept
+  serverId?: number;
+  serverName?: string;
+  serverHost?: string;
   server?: Server;
+  // Set when a saved script ran
+  scriptId?: number;
+  scriptVersion?: number;
+  // Set when a schedule started the run
+  scheduleId?: number;
+  scheduleName?: string;
+  // Set when the command ran as a runbook step (0-based)
+  runbookRunId?: number;
+  runbookStep?: number;
+  // Set when the run needed an admin's approval
+  approvalId?: number;
+  approvedBy?: { id: number; name: string };
+  // Set when the command ran as part of a run from the scripts page
+  executionId?: number;
+}
+
+// One run from the scripts page across all its servers, owning a ScriptLog per server
+export interface Execution {
+  id: number;
+  // executionId of the script:* socket events
+  executionKey: string;
+  scriptName: string;
+  command: string;
+  scriptId?: number;
+  scriptVersion?: number;
+  approvalId?: number;
+  strategy: RunStrategy;
+  status: ScriptStatus;
+  serverCount: number;
+  successCount: number;
+  failedCount: number;
+  skippedCount: number;
+  stoppedReason?: string;
+  userId: number;
+  user?: { id: number; name: string; email: string };
+  startTime: string;
+  endTime?: string;
+  duration?: number;
+  // Per-server results without output
+  servers: { scriptLogId: number; serverId?: number; serverName: string; status: ScriptStatus }[];
+  // Full logs, only included when fetching a single execution
+  logs?: ScriptLog[];
 }
 
+// Grouped logs page entry: a log of its own, or a run with its per-server logs collapsed
+export type ScriptLogEntry =
+  | { type: 'log'; log: ScriptLog }
+  | { type: 'execution'; execution: Execution };
+
 export type ScriptStatus = 'RUNNING' | 'SUCCESS' | 'FAILED' | 'CANCELLED';
 
+export interface TerminalRecording {
+  id: number;
+  sessionId: string;
+  cols: number;
+  rows: number;
+  size: number;
+  truncated: boolean;
+  clientIp?: string;
+  startedAt: string;
+  endedAt?: string;
+  duration?: number;
+  userId: number;
+  // Unset once the server is deleted; serverName and serverHost are kept
+  serverId?: number;
+  serverName?: string;
+  serverHost?: string;
+  server?: { id: number; name: string; host: string };
+  user?: { id: number; name: string; email: string };
+  // asciicast v2, only included when fetching a single recording
+  content?: string;
+}
+
 export interface RunScriptData {
+  // Run a saved script instead of scriptName + command; latest version unless scriptVersion is set
+  scriptId?: number;
+  scriptVersion?: number;
+  scriptName?: string;
+  command?: string;
+  // Ad-hoc commands only; saved scripts use their own parameter definitions
+  parameterDefinitions?: ScriptParameter[];
+  parameters?: ScriptParameterValues;
+  serverIds: number[];
+  // Set when re-submitting after the user confirmed a policy warning
+  confirmed?: boolean;
+  // script:run only; sequential when omitted
+  strategy?: RunStrategy;
+  // script:run only: start an approved ScriptApproval instead (the other fields are ignored)
+  approvalId?: number;
+}
+
+// How script:run spreads a command over its servers
+export interface RunStrategy {
+  mode: 'sequential' | 'parallel' | 'rolling';
+  // parallel: servers running at once
+  concurrency?: number;
+  // rolling: servers per batch, as a count or a percentage of all servers
+  batchSize?: number;
+  batchUnit?: 'servers' | 'percent';
+  // rolling: wait between batches
+  pauseSeconds?: number;
+  // Start no more servers after the first failure
+  stopOnFailure?: boolean;
+  // Start no more servers once failures exceed this percentage of all servers
+  maxFailurePercent?: number;
+}
+
+export type ScriptParameterType = 'string' | 'number' | 'enum' | 'boolean' | 'secret';
+
+// Typed input of a saved script or quick command, referenced in the command as {{name}}
+export interface ScriptParameter {
+  name: string;
+  type: ScriptParameterType;
+  label?: string;
+  description?: string;
+  required?: boolean;
+  default?: string | number | boolean;
+  // enum: allowed values
+  options?: string[];
+  // string and secret: regular expression the whole value must match
+  pattern?: string;
+  // number: inclusive bounds
+  min?: number;
+  max?: number;
+}
+
+export type ScriptParameterValues = Record<string, string | number | boolean>;
+
+// Saved script in the library, with the content of its latest version
+export interface Script {
+  id: number;
+  name: string;
+  description?: string;
+  command: string;
+  parameters: ScriptParameter[];
+  tags: string[];
+  isShared: boolean;
+  // Runs by non-admins wait for an admin's approval
+  requiresApproval: boolean;
+  version: number;
+  userId: number;
+  owner?: { id: number; name: string; email: string };
+  // Whether the requesting user may edit or delete it
+  canEdit?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScriptVersion {
+  id: number;
+  scriptId: number;
+  version: number;
+  name: string;
+  description?: string;
+  command: string;
+  parameters: ScriptParameter[];
+  changeNote?: string;
+  createdBy: { id: number; name: string; email: string };
+  createdAt: string;
+}
+
+export interface ScriptData {
+  name: string;
+  command: string;
+  parameters?: ScriptParameter[];
+  description?: string;
+  tags?: string[];
+  isShared?: boolean;
+  // Admins only
+  requiresApproval?: boolean;
+  // Recorded on the version created by this change
+  changeNote?: string;
+  // Updates only: version the edit started from, rejected with 409 if the script has moved on
+  baseVersion?: number;
+}
+
+// Cron schedule running a saved script; secret parameter values are returned masked
+export interface ScriptSchedule {
+  id: number;
+  name: string;
+  scriptId: number;
   scriptName: string;
+  // Pinned version, null runs the latest
+  scriptVersion: number | null;
+  cronExpression: string;
+  timezone: string;
+  serverIds: number[];
+  tags: string[];
+  parameters: ScriptParameterValues;
+  strategy: RunStrategy;
+  isActive: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastRunStatus?: ScriptStatus;
+  lastError?: string;
+  lastSkippedAt?: string;
+  userId: number;
+  owner?: { id: number; name: string; email: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScriptScheduleData {
+  name: string;
+  scriptId: number;
+  scriptVersion?: number | null;
+  cronExpression: string;
+  timezone?: string;
+  serverIds?: number[];
+  tags?: string[];
+  // Secret values left as the mask keep the stored value
+  parameters?: ScriptParameterValues;
+  strategy?: RunStrategy;
+  isActive?: boolean;
+  // Set when re-submitting after the user confirmed a policy warning
+  confirmed?: boolean;
+}
+
+// Step of a runbook; steps run in order, each on its own servers
+export interface RunbookStep {
+  name: string;
   command: string;
+  // These servers plus every active server carrying one of tags
   serverIds: number[];
+  tags: string[];
+  // How the step spreads over its servers; sequential when omitted
+  strategy?: RunStrategy;
+  // Per attempt on each server
+  timeoutSeconds: number;
+  // Extra attempts on a server after it fails
+  retries: number;
+  // When the step fails: stop the runbook, or go on with the next step
+  onFailure: 'abort' | 'continue';
+  // Wait for a manual approval before the step starts
+  requiresApproval: boolean;
+}
+
+export interface Runbook {
+  id: number;
+  name: string;
+  description?: string;
+  steps: RunbookStep[];
+  userId: number;
+  owner?: { id: number; name: string; email: string };
+  lastRun?: { id: number; status: RunbookRunStatus; startTime: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RunbookData {
+  name: string;
+  description?: string;
+  steps: RunbookStep[];
+}
+
+export type RunbookRunStatus = 'RUNNING' | 'WAITING_APPROVAL' | 'SUCCESS' | 'FAILED' | 'CANCELLED';
+
+export type RunbookStepStatus = 'pending' | 'waiting_approval' | 'running' | 'success' | 'failed' | 'skipped' | 'cancelled';
+
+export interface RunbookServerResult {
+  serverId: number;
+  serverName: string;
+  status: 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+  // Attempts started so far
+  attempts: number;
+  exitCode?: number;
+  error?: string;
+  scriptLogId?: number;
+}
+
+export interface RunbookStepResult {
+  status: RunbookStepStatus;
+  // Filled in when the step starts
+  servers: RunbookServerResult[];
+  startedAt?: string;
+  endedAt?: string;
+  // Approval gate decision
+  approvedBy?: { id: number; name: string };
+  approvedAt?: string;
+  approvalComment?: string;
+  // Why the step failed or did not run
+  error?: string;
+}
+
+// Payload of runbook:update, sent whenever a step or server changes state
+export interface RunbookRun {
+  id: number;
+  runbookId: number | null;
+  runbookName: string;
+  // As they were when the run started
+  steps: RunbookStep[];
+  stepResults: RunbookStepResult[];
+  status: RunbookRunStatus;
+  currentStep: number;
+  error?: string;
+  userId: number;
+  user?: { id: number; name: string; email: string };
+  startTime: string;
+  endTime?: string;
+}
+
+// Payload of runbook:stream
+export interface RunbookOutput {
+  runId: number;
+  step: number;
+  serverId: number;
+  type: 'stdout' | 'stderr' | 'info';
+  data: string;
+}
+
+export type ScriptApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED' | 'EXECUTED';
+
+// Script run waiting for (or decided by) an admin; secret parameter values are returned masked
+export interface ScriptApproval {
+  id: number;
+  scriptId: number | null;
+  scriptVersion: number | null;
+  scriptName: string;
+  displayCommand: string;
+  parameters: ScriptParameterValues;
+  servers: { id: number; name: string }[];
+  strategy: RunStrategy;
+  reason: string;
+  warning?: string;
+  status: ScriptApprovalStatus;
+  requestedBy: { id: number; name: string; email: string };
+  decidedBy?: { id: number; name: string };
+  comment?: string;
+  decidedAt?: string;
+  // Approved requests must be run before this
+  expiresAt?: string;
+  executedAt?: string;
+  createdAt: string;
+}
+
+// Returned (HTTP 409 / script:confirm) when the security policy needs the user to confirm a command
+export interface CommandConfirmation {
+  requiresConfirmation: true;
+  warning: string;
 }
 
 export interface ScriptExecution {
@@ -370,7 +766,11 @@ export interface ServerFormData {
   host: string;
   port: number;
   username: string;
+  authMethod: SSHAuthMethod;
   password: string;
+  privateKey: string;
+  passphrase: string;
+  jumpHostId: number | null;
 }
 
 export interface ScriptFormData {
@@ -440,7 +840,7 @@ export interface SSHConnectionConfig {
   host: string;
   port: number;
   username: string;
-  password: string;
+  password?: string;
   privateKey?: string;
   passphrase?: string;
   timeout?: number;
@@ -462,17 +862,22 @@ export interface SSHConnectionStatus {
 }
 
 // File System Types (for file operations in terminal)
+// Symlinks report isDirectory/isFile/size of their target
 export interface FileInfo {
   name: string;
   path: string;
   size: number;
   isDirectory: boolean;
   isFile: boolean;
+  isSymlink: boolean;
+  // ls-style, e.g. drwxr-xr-x
   permissions: string;
+  // Octal permission bits, e.g. 755
+  mode: string;
   owner: string;
   group: string;
-  modified: Date;
-  accessed: Date;
+  modified: string;
+  accessed: string;
 }
 
 export interface DirectoryListing {
@@ -482,6 +887,106 @@ export interface DirectoryListing {
   hiddenFiles: number;
 }
 
+// Payload of file:transfer:progress (total is null when the upload size is unknown)
+export interface FileTransferProgress {
+  transferId: string;
+  direction: 'upload' | 'download';
+  path: string;
+  transferred: number;
+  total: number | null;
+}
+
+export interface FileOperationData {
+  action: 'mkdir' | 'rename' | 'delete' | 'chmod';
+  path: string;
+  // rename only
+  newPath?: string;
+  // chmod only, octal
+  mode?: string;
+}
+
+// Text file opened in the editor; hash is the SHA-256 of the file as stored
+export interface RemoteFileInfo {
+  path: string;
+  size: number;
+  modified: string;
+  hash: string;
+}
+
+export interface RemoteFileContent extends RemoteFileInfo {
+  // Always \n line endings; lineEnding is restored on save
+  content: string;
+  lineEnding: 'lf' | 'crlf';
+}
+
+export interface SaveFileData {
+  path: string;
+  content: string;
+  lineEnding: 'lf' | 'crlf';
+  // Hash from when the file was opened; a different current hash is a conflict unless force is set
+  expectedHash: string;
+  force?: boolean;
+  // Copy the current file to ~/.ssh-panel/backups before writing (default true)
+  backup?: boolean;
+  // {file} is replaced with a temporary copy of the new content, which is checked before the
+  // file is written; without it the command runs after writing and a failure restores the file
+  validateCommand?: string;
+  // Confirms a validation command that the security policy flags (sudo, dangerous)
+  confirmed?: boolean;
+}
+
+export interface FileValidationResult {
+  command: string;
+  exitCode: number;
+  output: string;
+}
+
+export interface SaveFileResult {
+  file: RemoteFileInfo;
+  backupPath: string | null;
+  validation: FileValidationResult | null;
+}
+
+// File distribution: a file staged on the WebSocket server, pushed to many servers
+export interface StagedFile {
+  stageId: string;
+  name: string;
+  size: number;
+  // SHA-256, compared with each server's copy after the upload
+  checksum: string;
+}
+
+export type DistributionSource =
+  | { type: 'local'; stageId: string }
+  | { type: 'remote'; serverId: number; path: string };
+
+// Payload of file:distribute
+export interface FileDistributionRequest {
+  distributionId?: string;
+  source: DistributionSource;
+  // Absolute file path, or a directory (ending in / or existing) to keep the file name
+  targetPath: string;
+  serverIds: number[];
+  owner?: string;
+  group?: string;
+  // Octal, e.g. 644
+  mode?: string;
+}
+
+// Payload of distribute:progress (same shape as script:progress)
+export interface DistributionProgress {
+  distributionId: string;
+  serverId: number;
+  serverName: string;
+  status: 'running' | 'verifying' | 'success' | 'failed';
+  transferred?: number;
+  total?: number;
+  path?: string;
+  checksum?: string;
+  error?: string;
+  isComplete: boolean;
+}
+
 // Terminal Features Types
 export interface TabCompletionResult {
   completions: string[];
@@ -497,7 +1002,7 @@ export interface CommandSuggestion {
   examples?: string[];
 }
 
-// Monitoring Types (for system monitoring in terminal)
+// Monitoring Types (sampled from servers by the metrics collector)
 export interface SystemMetrics {
   cpu: {
     usage: number;
@@ -527,6 +1032,168 @@ export interface SystemMetrics {
   loadAverage: number[];
 }
 
+// Latest or historical sample stored by the metrics collector
+export interface ServerMetricSample {
+  serverId: number;
+  timestamp: string;
+  cpuUsage: number;
+  cpuCores: number;
+  memoryTotal: number;
+  memoryUsed: number;
+  memoryUsage: number;
+  diskTotal: number;
+  diskUsed: number;
+  diskUsage: number;
+  networkInRate: number | null;
+  networkOutRate: number | null;
+  loadAverage: number[];
+  uptime: number;
+}
+
+export type MetricRange = '1h' | '24h' | '7d' | '30d';
+
+// Averages (and CPU peak) of the samples in one downsampling bucket
+export interface MetricHistoryPoint {
+  timestamp: string;
+  cpuUsage: number;
+  cpuMax: number;
+  memoryUsage: number;
+  diskUsage: number;
+  diskUsed: number;
+  load1: number;
+  networkInRate: number | null;
+  networkOutRate: number | null;
+}
+
+export interface ServerMetricHistory {
+  serverId: number;
+  range: MetricRange;
+  bucketSeconds: number;
+  points: MetricHistoryPoint[];
+}
+
+// Alert Types
+export type AlertMetric =
+  | 'CPU_USAGE'
+  | 'MEMORY_USAGE'
+  | 'DISK_USAGE'
+  | 'LOAD_AVERAGE'
+  | 'NETWORK_IN'
+  | 'NETWORK_OUT'
+  | 'SERVER_OFFLINE';
+
+export type AlertComparator = 'GT' | 'GTE' | 'LT' | 'LTE';
+
+export type AlertSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
+
+export type AlertStatus = 'FIRING' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+// Empty serverIds and tags apply the rule to every server
+export interface AlertRule {
+  id: number;
+  name: string;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  duration: number;
+  severity: AlertSeverity;
+  serverIds: number[];
+  tags: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertRuleData {
+  name: string;
+  metric: AlertMetric;
+  comparator?: AlertComparator;
+  threshold: number;
+  duration?: number;
+  severity?: AlertSeverity;
+  serverIds?: number[];
+  tags?: string[];
+  isActive?: boolean;
+}
+
+export interface AlertEvent {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  metric: AlertMetric;
+  serverId: number;
+  serverName: string;
+  status: AlertStatus;
+  severity: AlertSeverity;
+  message: string;
+  value: number;
+  threshold: number;
+  firedAt: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  resolvedAt?: string;
+  // Missing on a resolved alert when it recovered on its own
+  resolvedBy?: string;
+}
+
+// Notification Types
+export type NotificationChannelType = 'WEBHOOK' | 'EMAIL' | 'SLACK' | 'LINE';
+
+export type NotificationEventType =
+  | 'SERVER_ERROR'
+  | 'SERVER_RECOVERED'
+  | 'SCRIPT_COMPLETED'
+  | 'SCRIPT_FAILED'
+  | 'ALERT_FIRED'
+  | 'ALERT_RESOLVED'
+  | 'APPROVAL_REQUESTED';
+
+// Non-secret channel settings; WEBHOOK and LINE use url, EMAIL uses the SMTP fields
+export interface NotificationChannelConfig {
+  url?: string;
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  username?: string;
+  from?: string;
+  to?: string[];
+}
+
+// The secret itself is never returned, only whether one is stored
+export interface NotificationChannel {
+  id: number;
+  name: string;
+  type: NotificationChannelType;
+  config: NotificationChannelConfig;
+  hasSecret: boolean;
+  events: NotificationEventType[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationChannelData {
+  name: string;
+  type: NotificationChannelType;
+  config: NotificationChannelConfig;
+  // Omit or leave empty to keep the stored secret, null removes it
+  secret?: string | null;
+  events: NotificationEventType[];
+  isActive?: boolean;
+}
+
+export interface NotificationDelivery {
+  id: number;
+  channelId: number;
+  event: string;
+  title: string;
+  status: 'SUCCESS' | 'FAILED';
+  statusCode?: number;
+  error?: string;
+  duration?: number;
+  createdAt: string;
+}
+
 // Error Types
 export interface TerminalError {
   code: string;
@@ -562,6 +1229,8 @@ export interface CommandValidation {
 export interface SecurityPolicy {
   allowDangerousCommands: boolean;
   blockedCommands: string[];
+  // Script runs by non-admins containing any of these wait for an admin's approval
+  approvalRequiredCommands: string[];
   requireSudoConfirmation: boolean;
   maxCommandLength: number;
   enableCommandLogging: boolean;